@@ -26,6 +26,8 @@ import CloudProvidersTab from '~/components/@settings/tabs/providers/cloud/Cloud
 import ServiceStatusTab from '~/components/@settings/tabs/providers/status/ServiceStatusTab';
 import LocalProvidersTab from '~/components/@settings/tabs/providers/local/LocalProvidersTab';
 import McpTab from '~/components/@settings/tabs/mcp/McpTab';
+import UsageTab from '~/components/@settings/tabs/usage/UsageTab';
+import PromptsTab from '~/components/@settings/tabs/prompts/PromptsTab';
 
 interface ControlPanelProps {
   open: boolean;
@@ -142,6 +144,10 @@ export const ControlPanel = ({ open, onClose }: ControlPanelProps) => {
         return <ServiceStatusTab />;
       case 'mcp':
         return <McpTab />;
+      case 'usage':
+        return <UsageTab />;
+      case 'prompts':
+        return <PromptsTab />;
       default:
         return null;
     }
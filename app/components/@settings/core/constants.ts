@@ -12,6 +12,8 @@ export const TAB_ICONS: Record<TabType, string> = {
   connection: 'i-ph:wifi-high',
   'event-logs': 'i-ph:list-bullets',
   mcp: 'i-ph:wrench',
+  usage: 'i-ph:chart-bar',
+  prompts: 'i-ph:book-open-text',
 };
 
 export const TAB_LABELS: Record<TabType, string> = {
@@ -26,6 +28,8 @@ export const TAB_LABELS: Record<TabType, string> = {
   connection: 'Connection',
   'event-logs': 'Event Logs',
   mcp: 'MCP Servers',
+  usage: 'Usage & Costs',
+  prompts: 'Prompts',
 };
 
 export const TAB_DESCRIPTIONS: Record<TabType, string> = {
@@ -40,6 +44,8 @@ export const TAB_DESCRIPTIONS: Record<TabType, string> = {
   connection: 'Check connection status and settings',
   'event-logs': 'View system events and logs',
   mcp: 'Configure MCP (Model Context Protocol) servers',
+  usage: 'Track token usage and spend by chat, provider and model',
+  prompts: 'Write, version and compare your own system prompts',
 };
 
 export const DEFAULT_TAB_CONFIG = [
@@ -55,6 +61,8 @@ export const DEFAULT_TAB_CONFIG = [
   { id: 'profile', visible: true, window: 'user' as const, order: 8 },
   { id: 'service-status', visible: true, window: 'user' as const, order: 9 },
   { id: 'settings', visible: true, window: 'user' as const, order: 10 },
+  { id: 'usage', visible: true, window: 'user' as const, order: 11 },
+  { id: 'prompts', visible: true, window: 'user' as const, order: 12 },
 
   // User Window Tabs (In dropdown, initially hidden)
 ];
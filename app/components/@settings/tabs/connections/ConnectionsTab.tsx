@@ -8,6 +8,7 @@ import VercelConnection from './VercelConnection';
 // Use React.lazy for dynamic imports
 const GitHubConnection = React.lazy(() => import('./GithubConnection'));
 const NetlifyConnection = React.lazy(() => import('./NetlifyConnection'));
+const GitHostConnection = React.lazy(() => import('./GitHostConnection'));
 
 // Loading fallback component
 const LoadingFallback = () => (
@@ -159,6 +160,9 @@ export default function ConnectionsTab() {
         <Suspense fallback={<LoadingFallback />}>
           <VercelConnection />
         </Suspense>
+        <Suspense fallback={<LoadingFallback />}>
+          <GitHostConnection />
+        </Suspense>
       </div>
 
       {/* Additional help text */}
@@ -0,0 +1,317 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useStore } from '@nanostores/react';
+import { logStore } from '~/lib/stores/logs';
+import { classNames } from '~/utils/classNames';
+import { createGitHost } from '~/lib/modules/git-hosts/registry';
+import type { GitHostId, GitHostRepo } from '~/lib/modules/git-hosts/types';
+import {
+  connectGitHost,
+  disconnectGitHost,
+  getConnectedGitHost,
+  gitHostAccounts,
+  isConnectingGitHost,
+} from '~/lib/stores/git-hosts';
+
+// GitHub has its own connection with stats and branches
+const HOST_IDS: GitHostId[] = ['gitlab', 'bitbucket', 'gitea'];
+
+const MAX_LISTED_REPOS = 10;
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#F8F8F8] dark:bg-[#1A1A1A]',
+  'border border-[#E5E5E5] dark:border-[#333333]',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-1 focus:ring-bolt-elements-borderColorActive',
+  'disabled:opacity-50',
+);
+
+export default function GitHostConnection() {
+  const accounts = useStore(gitHostAccounts);
+  const connecting = useStore(isConnectingGitHost);
+  const [hostId, setHostId] = useState<GitHostId>('gitlab');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [token, setToken] = useState('');
+  const [repos, setRepos] = useState<GitHostRepo[]>();
+  const [isReposExpanded, setIsReposExpanded] = useState(false);
+
+  const host = createGitHost(hostId, { token, baseUrl });
+  const account = accounts[hostId];
+
+  // Bitbucket app passwords only work together with the account user name
+  const needsUsername = hostId === 'bitbucket';
+
+  useEffect(() => {
+    setRepos(undefined);
+    setIsReposExpanded(false);
+  }, [hostId, account]);
+
+  useEffect(() => {
+    const connected = getConnectedGitHost(hostId);
+
+    if (!isReposExpanded || !connected || repos) {
+      return;
+    }
+
+    connected
+      .listRepos()
+      .then(setRepos)
+      .catch((error) => {
+        console.error(`Failed to list ${connected.name} repositories:`, error);
+        toast.error(`Failed to list ${connected.name} repositories`);
+        setRepos([]);
+      });
+  }, [isReposExpanded, hostId, repos]);
+
+  const handleConnect = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await connectGitHost(hostId, {
+        token,
+        baseUrl: baseUrl.trim() || undefined,
+        username: username.trim() || undefined,
+      });
+
+      setToken('');
+      toast.success(`Successfully connected to ${host.name}`);
+    } catch (error) {
+      console.error('Auth error:', error);
+      logStore.logError(`Failed to authenticate with ${host.name}`, { error });
+      toast.error(`Failed to connect to ${host.name}`);
+    }
+  };
+
+  const handleDisconnect = () => {
+    disconnectGitHost(hostId);
+    toast.success(`Disconnected from ${host.name}`);
+  };
+
+  return (
+    <motion.div
+      className="bg-[#FFFFFF] dark:bg-[#0A0A0A] rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A]"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.4 }}
+    >
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <div className="i-ph:git-fork w-5 h-5 text-bolt-elements-textPrimary" />
+            <h3 className="text-base font-medium text-bolt-elements-textPrimary">Other Git Hosts</h3>
+          </div>
+          <div className="flex items-center gap-1">
+            {HOST_IDS.map((id) => {
+              const option = createGitHost(id);
+
+              return (
+                <button
+                  key={id}
+                  onClick={() => setHostId(id)}
+                  className={classNames(
+                    'px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 transition-colors',
+                    id === hostId
+                      ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                      : 'bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary',
+                  )}
+                >
+                  <div className={classNames(option.icon, 'w-4 h-4')} />
+                  {option.name}
+                  {accounts[id] && <div className="i-ph:check-circle w-4 h-4 text-green-500" />}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {!account ? (
+          <form onSubmit={handleConnect} className="space-y-4">
+            {hostId !== 'bitbucket' && (
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">
+                  {host.selfHosted ? 'Instance URL' : 'Instance URL (for self-managed instances)'}
+                </label>
+                <input
+                  type="url"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  disabled={connecting}
+                  required={host.selfHosted}
+                  placeholder={host.defaultBaseUrl || 'https://git.example.com'}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm text-bolt-elements-textSecondary mb-2">
+                {needsUsername ? 'Username' : 'Username (optional)'}
+              </label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={connecting}
+                required={needsUsername}
+                placeholder={`Your ${host.name} username`}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-bolt-elements-textSecondary mb-2">
+                {needsUsername ? 'App Password' : 'Access Token'}
+              </label>
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                disabled={connecting}
+                required
+                placeholder={`Enter your ${host.name} ${needsUsername ? 'app password' : 'access token'}`}
+                className={inputClassName}
+              />
+              <div className="mt-2 text-sm text-bolt-elements-textSecondary">
+                {host.tokenUrl && !baseUrl ? (
+                  <a
+                    href={host.tokenUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-bolt-elements-borderColorActive hover:underline inline-flex items-center gap-1"
+                  >
+                    Get your token
+                    <div className="i-ph:arrow-square-out w-4 h-4" />
+                  </a>
+                ) : (
+                  'Create a token with read and write access to repositories in the settings of your account'
+                )}
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={connecting || !token}
+              className={classNames(
+                'px-4 py-2 rounded-lg text-sm flex items-center gap-2',
+                'bg-[#303030] text-white',
+                'hover:bg-[#5E41D0] hover:text-white',
+                'disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200',
+                'transform active:scale-95',
+              )}
+            >
+              {connecting ? (
+                <>
+                  <div className="i-ph:spinner-gap animate-spin" />
+                  Connecting...
+                </>
+              ) : (
+                <>
+                  <div className="i-ph:plug-charging w-4 h-4" />
+                  Connect
+                </>
+              )}
+            </button>
+          </form>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleDisconnect}
+                className={classNames(
+                  'px-4 py-2 rounded-lg text-sm flex items-center gap-2',
+                  'bg-red-500 text-white',
+                  'hover:bg-red-600',
+                )}
+              >
+                <div className="i-ph:plug w-4 h-4" />
+                Disconnect
+              </button>
+              <span className="text-sm text-bolt-elements-textSecondary flex items-center gap-1">
+                <div className="i-ph:check-circle w-4 h-4 text-green-500" />
+                Connected to {createGitHost(hostId, account.connection).gitDomain}
+              </span>
+            </div>
+
+            <div className="flex items-center gap-4 p-4 bg-[#F8F8F8] dark:bg-[#1A1A1A] rounded-lg">
+              {account.user.avatarUrl && (
+                <img
+                  src={account.user.avatarUrl}
+                  referrerPolicy="no-referrer"
+                  alt="User Avatar"
+                  className="w-12 h-12 rounded-full border-2 border-bolt-elements-borderColorActive"
+                />
+              )}
+              <div>
+                <h4 className="text-sm font-medium text-bolt-elements-textPrimary">
+                  {account.user.name || account.user.username}
+                </h4>
+                <p className="text-sm text-bolt-elements-textSecondary">@{account.user.username}</p>
+              </div>
+            </div>
+
+            <div>
+              <button
+                onClick={() => setIsReposExpanded(!isReposExpanded)}
+                className="w-full bg-transparent text-left text-sm font-medium text-bolt-elements-textPrimary mb-3 flex items-center gap-2"
+              >
+                <div className="i-ph:folder-simple w-4 h-4" />
+                Recent Repositories
+                <div
+                  className={classNames(
+                    'i-ph:caret-down w-4 h-4 ml-auto transition-transform',
+                    isReposExpanded ? 'rotate-180' : '',
+                  )}
+                />
+              </button>
+              {isReposExpanded && !repos && (
+                <div className="flex items-center gap-2 text-sm text-bolt-elements-textSecondary">
+                  <div className="i-ph:spinner-gap w-4 h-4 animate-spin" />
+                  Fetching repositories...
+                </div>
+              )}
+              {isReposExpanded && repos?.length === 0 && (
+                <div className="text-sm text-bolt-elements-textSecondary flex items-center gap-2">
+                  <div className="i-ph:info w-4 h-4" />
+                  No repositories found
+                </div>
+              )}
+              {isReposExpanded && !!repos?.length && (
+                <div className="grid gap-3">
+                  {repos.slice(0, MAX_LISTED_REPOS).map((repo) => (
+                    <div
+                      key={repo.fullName}
+                      className="flex items-center justify-between gap-4 p-4 rounded-lg border border-bolt-elements-borderColor"
+                    >
+                      <div className="min-w-0">
+                        <a
+                          href={repo.webUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm font-medium text-bolt-elements-textPrimary hover:text-bolt-elements-borderColorActive flex items-center gap-2"
+                        >
+                          {repo.private && <div className="i-ph:lock w-3 h-3" />}
+                          {repo.fullName}
+                        </a>
+                        {repo.description && (
+                          <p className="mt-1 text-xs text-bolt-elements-textSecondary truncate">{repo.description}</p>
+                        )}
+                      </div>
+                      <a
+                        href={`/git?url=${encodeURIComponent(repo.cloneUrl)}`}
+                        className="shrink-0 px-3 py-1.5 rounded-lg text-xs flex items-center gap-1 bg-[#F0F0F0] dark:bg-[#252525] text-bolt-elements-textPrimary hover:text-bolt-elements-borderColorActive"
+                      >
+                        <div className="i-ph:download-simple w-3 h-3" />
+                        Import
+                      </a>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,201 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { useEffect, useState, type FormEvent } from 'react';
+import { toast } from 'react-toastify';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { classNames } from '~/utils/classNames';
+import type { GitHostId, GitHostRepo } from '~/lib/modules/git-hosts/types';
+import { getConnectedGitHost, gitHostAccounts } from '~/lib/stores/git-hosts';
+import { logStore } from '~/lib/stores/logs';
+
+interface PushToGitHostDialogProps {
+  hostId?: GitHostId;
+  onClose: () => void;
+  onPush: (hostId: GitHostId, repoName: string, isPrivate: boolean) => Promise<string>;
+}
+
+/**
+ * Push to a repository of a host connected in the Connections tab, GitHub has its own dialog
+ */
+export function PushToGitHostDialog({ hostId, onClose, onPush }: PushToGitHostDialogProps) {
+  const accounts = useStore(gitHostAccounts);
+  const [repoName, setRepoName] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [repos, setRepos] = useState<GitHostRepo[]>([]);
+  const [pushedUrl, setPushedUrl] = useState<string>();
+
+  const account = hostId && accounts[hostId];
+  const host = hostId && getConnectedGitHost(hostId);
+
+  useEffect(() => {
+    setRepos([]);
+    setPushedUrl(undefined);
+
+    if (!host) {
+      return;
+    }
+
+    host
+      .listRepos()
+      .then(setRepos)
+      .catch((error) => console.error(`Failed to list ${host.name} repositories:`, error));
+  }, [hostId, account]);
+
+  const handleClose = () => {
+    setRepoName('');
+    setIsPrivate(false);
+    onClose();
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    if (!hostId || !host || !repoName.trim()) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      setPushedUrl(await onPush(hostId, repoName.trim(), isPrivate));
+      toast.success(`Pushed to ${host.name}`);
+    } catch (error) {
+      logStore.logError(`Failed to push to ${host.name}`, { error });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={!!hostId} onOpenChange={(open) => !open && handleClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999]" />
+        <div className="fixed inset-0 flex items-center justify-center z-[9999]">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="w-[90vw] md:w-[500px]"
+          >
+            <Dialog.Content
+              className="bg-white dark:bg-bolt-elements-background-depth-1 rounded-lg border border-bolt-elements-borderColor shadow-xl"
+              aria-describedby="push-host-dialog-description"
+            >
+              <div className="p-6 space-y-6">
+                <div className="flex items-center gap-4">
+                  <div className="w-10 h-10 rounded-xl bg-bolt-elements-background-depth-3 flex items-center justify-center text-purple-500">
+                    <div className={classNames(host?.icon ?? 'i-ph:git-branch', 'w-5 h-5')} />
+                  </div>
+                  <div>
+                    <Dialog.Title className="text-lg font-medium text-bolt-elements-textPrimary">
+                      Push to {host?.name}
+                    </Dialog.Title>
+                    <p id="push-host-dialog-description" className="text-sm text-bolt-elements-textSecondary">
+                      {account ? `As @${account.user.username} on ${host?.gitDomain}` : 'Not connected'}
+                    </p>
+                  </div>
+                  <Dialog.Close asChild>
+                    <button
+                      onClick={handleClose}
+                      className="ml-auto p-2 rounded-lg bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-2"
+                    >
+                      <span className="i-ph:x block w-5 h-5" aria-hidden="true" />
+                      <span className="sr-only">Close dialog</span>
+                    </button>
+                  </Dialog.Close>
+                </div>
+
+                {pushedUrl ? (
+                  <div className="space-y-4">
+                    <div className="text-sm text-bolt-elements-textSecondary flex items-center gap-2">
+                      <div className="i-ph:check-circle w-4 h-4 text-green-500" />
+                      Your code is on {host?.name}
+                    </div>
+                    <a
+                      href={pushedUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block p-3 rounded-lg text-sm break-all bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary hover:text-purple-500"
+                    >
+                      {pushedUrl}
+                    </a>
+                  </div>
+                ) : (
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <label htmlFor="hostRepoName" className="text-sm text-bolt-elements-textSecondary">
+                        Repository Name
+                      </label>
+                      <input
+                        id="hostRepoName"
+                        type="text"
+                        list="hostRepoNames"
+                        value={repoName}
+                        onChange={(e) => setRepoName(e.target.value)}
+                        placeholder="my-awesome-project"
+                        className="w-full px-4 py-2 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        required
+                      />
+                      <datalist id="hostRepoNames">
+                        {repos.map((repo) => (
+                          <option key={repo.fullName} value={repo.name}>
+                            {repo.fullName}
+                          </option>
+                        ))}
+                      </datalist>
+                      <p className="text-xs text-bolt-elements-textTertiary">
+                        A repository of your account with this name is created when it does not exist
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="hostPrivate"
+                        checked={isPrivate}
+                        onChange={(e) => setIsPrivate(e.target.checked)}
+                        className="rounded border-bolt-elements-borderColor text-purple-500 focus:ring-purple-500"
+                      />
+                      <label htmlFor="hostPrivate" className="text-sm text-bolt-elements-textPrimary">
+                        Make repository private
+                      </label>
+                    </div>
+
+                    <div className="pt-2 flex gap-2">
+                      <button
+                        type="button"
+                        onClick={handleClose}
+                        className="px-4 py-2 rounded-lg bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3 text-sm border border-bolt-elements-borderColor"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={isLoading || !account}
+                        className="flex-1 px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 text-sm inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isLoading ? (
+                          <>
+                            <div className="i-ph:spinner-gap animate-spin w-4 h-4" />
+                            Pushing...
+                          </>
+                        ) : (
+                          <>
+                            <div className="i-ph:upload-simple w-4 h-4" />
+                            Push to {host?.name}
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            </Dialog.Content>
+          </motion.div>
+        </div>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
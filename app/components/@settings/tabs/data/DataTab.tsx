@@ -4,43 +4,14 @@ import { ConfirmationDialog, SelectionDialog } from '~/components/ui/Dialog';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '~/components/ui/Card';
 import { motion } from 'framer-motion';
 import { useDataOperations } from '~/lib/hooks/useDataOperations';
-import { openDatabase } from '~/lib/persistence/db';
-import { getAllChats, type Chat } from '~/lib/persistence/chats';
+import type { Chat } from '~/lib/persistence/chats';
+import { chatStorage } from '~/lib/persistence/useChatHistory';
 import { DataVisualization } from './DataVisualization';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
-
-// Create a custom hook to connect to the boltHistory database
-function useBoltHistoryDB() {
-  const [db, setDb] = useState<IDBDatabase | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {
-    const initDB = async () => {
-      try {
-        setIsLoading(true);
-
-        const database = await openDatabase();
-        setDb(database || null);
-        setIsLoading(false);
-      } catch (err) {
-        setError(err instanceof Error ? err : new Error('Unknown error initializing database'));
-        setIsLoading(false);
-      }
-    };
-
-    initDB();
-
-    return () => {
-      if (db) {
-        db.close();
-      }
-    };
-  }, []);
-
-  return { db, isLoading, error };
-}
+import { useStore } from '@nanostores/react';
+import { chatStorageBackendStore, updateChatStorageBackend } from '~/lib/stores/settings';
+import type { ChatStorageBackend } from '~/lib/persistence/chatStorage';
 
 // Extend the Chat interface to include the missing properties
 interface ExtendedChat extends Chat {
@@ -74,8 +45,6 @@ interface ChatItem {
 }
 
 export function DataTab() {
-  // Use our custom hook for the boltHistory database
-  const { db, isLoading: dbLoading } = useBoltHistoryDB();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const apiKeyFileInputRef = useRef<HTMLInputElement>(null);
   const chatFileInputRef = useRef<HTMLInputElement>(null);
@@ -98,7 +67,30 @@ export function DataTab() {
   ]);
 
   const [availableChats, setAvailableChats] = useState<ExtendedChat[]>([]);
+  const chatStorageBackend = useStore(chatStorageBackendStore);
+  const [isServerStorageAvailable, setIsServerStorageAvailable] = useState(false);
   const [chatItems, setChatItems] = useState<ChatItem[]>([]);
+  const [isLoadingChats, setIsLoadingChats] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/chat-storage')
+      .then((response) => response.json() as Promise<{ available: boolean }>)
+      .then(({ available }) => setIsServerStorageAvailable(available))
+      .catch(() => setIsServerStorageAvailable(false));
+  }, []);
+
+  const handleChatStorageChange = useCallback(
+    (backend: ChatStorageBackend) => {
+      if (backend === 'filesystem' && !isServerStorageAvailable) {
+        toast.error('Server storage is not configured, set CHAT_STORAGE_DIR on the server');
+        return;
+      }
+
+      updateChatStorageBackend(backend);
+      toast.info('Chat storage changed, reload the page to use it');
+    },
+    [isServerStorageAvailable],
+  );
 
   // Data operations hook with boltHistory database
   const {
@@ -117,18 +109,15 @@ export function DataTab() {
     handleDownloadTemplate,
     handleImportAPIKeys,
   } = useDataOperations({
-    customDb: db || undefined, // Pass the boltHistory database, converting null to undefined
     onReloadSettings: () => window.location.reload(),
     onReloadChats: () => {
       // Reload chats after reset
-      if (db) {
-        getAllChats(db).then((chats) => {
-          // Cast to ExtendedChat to handle additional properties
-          const extendedChats = chats as ExtendedChat[];
-          setAvailableChats(extendedChats);
-          setChatItems(extendedChats.map((chat) => createChatItem(chat)));
-        });
-      }
+      chatStorage?.getAll().then((chats) => {
+        // Cast to ExtendedChat to handle additional properties
+        const extendedChats = chats as ExtendedChat[];
+        setAvailableChats(extendedChats);
+        setChatItems(extendedChats.map((chat) => createChatItem(chat)));
+      });
     },
     onResetSettings: () => setShowResetInlineConfirm(false),
     onResetChats: () => setShowDeleteInlineConfirm(false),
@@ -140,14 +129,11 @@ export function DataTab() {
 
   // Load available chats
   useEffect(() => {
-    if (db) {
-      console.log('Loading chats from boltHistory database', {
-        name: db.name,
-        version: db.version,
-        objectStoreNames: Array.from(db.objectStoreNames),
-      });
-
-      getAllChats(db)
+    if (!chatStorage) {
+      setIsLoadingChats(false);
+    } else {
+      chatStorage
+        .getAll()
         .then((chats) => {
           console.log('Found chats:', chats.length);
 
@@ -161,9 +147,10 @@ export function DataTab() {
         .catch((error) => {
           console.error('Error loading chats:', error);
           toast.error('Failed to load chats: ' + (error instanceof Error ? error.message : 'Unknown error'));
-        });
+        })
+        .finally(() => setIsLoadingChats(false));
     }
-  }, [db]);
+  }, []);
 
   // Handle file input changes
   const handleFileInputChange = useCallback(
@@ -280,10 +267,10 @@ export function DataTab() {
       {/* Chats Section */}
       <div>
         <h2 className="text-xl font-semibold mb-4 text-bolt-elements-textPrimary">Chats</h2>
-        {dbLoading ? (
+        {isLoadingChats ? (
           <div className="flex items-center justify-center p-4">
             <div className="i-ph-spinner-gap-bold animate-spin w-6 h-6 mr-2" />
-            <span>Loading chats database...</span>
+            <span>Loading chats...</span>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -304,17 +291,11 @@ export function DataTab() {
                   <Button
                     onClick={async () => {
                       try {
-                        if (!db) {
-                          toast.error('Database not available');
+                        if (!chatStorage) {
+                          toast.error('Chat storage not available');
                           return;
                         }
 
-                        console.log('Database information:', {
-                          name: db.name,
-                          version: db.version,
-                          objectStoreNames: Array.from(db.objectStoreNames),
-                        });
-
                         if (availableChats.length === 0) {
                           toast.warning('No chats available to export');
                           return;
@@ -465,6 +446,40 @@ export function DataTab() {
                 </motion.div>
               </CardFooter>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center mb-2">
+                  <motion.div className="text-accent-500 mr-2" whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                    <div className="i-ph-hard-drives-duotone w-5 h-5" />
+                  </motion.div>
+                  <CardTitle className="text-lg group-hover:text-bolt-elements-item-contentAccent transition-colors">
+                    Chat Storage
+                  </CardTitle>
+                </div>
+                <CardDescription>
+                  Keep chats in this browser or on the server's disk to share them between browsers.
+                </CardDescription>
+              </CardHeader>
+              <CardFooter>
+                <select
+                  value={chatStorageBackend}
+                  onChange={(e) => handleChatStorageChange(e.target.value as ChatStorageBackend)}
+                  className={classNames(
+                    'w-full p-2 rounded-lg text-sm',
+                    'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                    'text-bolt-elements-textPrimary',
+                    'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                    'transition-all duration-200',
+                  )}
+                >
+                  <option value="indexeddb">Browser (IndexedDB)</option>
+                  <option value="filesystem" disabled={!isServerStorageAvailable}>
+                    Server filesystem{isServerStorageAvailable ? '' : ' (not configured)'}
+                  </option>
+                </select>
+              </CardFooter>
+            </Card>
           </div>
         )}
       </div>
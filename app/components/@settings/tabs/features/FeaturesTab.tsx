@@ -1,11 +1,20 @@
 // Remove unused imports
-import React, { memo, useCallback } from 'react';
+import React, { memo, useCallback, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Switch } from '~/components/ui/Switch';
 import { useSettings } from '~/lib/hooks/useSettings';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
 import { PromptLibrary } from '~/lib/common/prompt-library';
+import type { ContextSelectionMode } from '~/types/context';
+import type { ActionOutputMode } from '~/lib/runtime/action-tools';
+import type { FailoverTarget } from '~/types/model';
+import {
+  DEFAULT_COMMAND_POLICY,
+  type CommandPolicy,
+  type CommandPolicyDecision,
+  type CommandPolicyRule,
+} from '~/lib/runtime/command-policy';
 
 interface FeatureToggle {
   id: string;
@@ -105,6 +114,313 @@ const FeatureSection = memo(
   ),
 );
 
+const FailoverChainCard = memo(
+  ({
+    chain,
+    providerNames,
+    onChange,
+  }: {
+    chain: FailoverTarget[];
+    providerNames: string[];
+    onChange: (chain: FailoverTarget[]) => void;
+  }) => {
+    const [provider, setProvider] = useState('');
+    const [model, setModel] = useState('');
+    const selectedProvider = provider || providerNames[0] || '';
+
+    const addTarget = () => {
+      if (!selectedProvider || !model.trim()) {
+        return;
+      }
+
+      onChange([...chain, { provider: selectedProvider, model: model.trim() }]);
+      setModel('');
+    };
+
+    const moveTarget = (index: number, offset: number) => {
+      const updated = [...chain];
+      [updated[index], updated[index + offset]] = [updated[index + offset], updated[index]];
+      onChange(updated);
+    };
+
+    const inputClassName = classNames(
+      'p-2 rounded-lg text-sm',
+      'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+      'text-bolt-elements-textPrimary',
+      'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+      'group-hover:border-purple-500/30',
+      'transition-all duration-200',
+    );
+
+    return (
+      <motion.div
+        layout
+        className={classNames(
+          'bg-bolt-elements-background-depth-2',
+          'hover:bg-bolt-elements-background-depth-3',
+          'transition-all duration-200',
+          'rounded-lg p-4',
+          'group',
+        )}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.29 }}
+      >
+        <div className="flex items-center gap-4">
+          <div
+            className={classNames(
+              'p-2 rounded-lg text-xl',
+              'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+              'transition-colors duration-200',
+              'text-purple-500',
+            )}
+          >
+            <div className="i-ph:arrows-clockwise" />
+          </div>
+          <div className="flex-1">
+            <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+              Provider Failover
+            </h4>
+            <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+              Models to switch to, in order, when the selected one is rate limited or fails. Rate limits and network
+              errors are retried first
+            </p>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-col gap-2">
+          {chain.map((target, index) => (
+            <div
+              key={`${target.provider}-${target.model}`}
+              className="flex items-center gap-2 text-sm text-bolt-elements-textPrimary"
+            >
+              <span className="w-5 text-bolt-elements-textTertiary">{index + 1}.</span>
+              <span className="flex-1 truncate">
+                {target.provider} <span className="text-bolt-elements-textSecondary">({target.model})</span>
+              </span>
+              <button
+                disabled={index === 0}
+                onClick={() => moveTarget(index, -1)}
+                className="i-ph:arrow-up text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-30"
+                title="Move up"
+              />
+              <button
+                disabled={index === chain.length - 1}
+                onClick={() => moveTarget(index, 1)}
+                className="i-ph:arrow-down text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-30"
+                title="Move down"
+              />
+              <button
+                onClick={() => onChange(chain.filter((_, i) => i !== index))}
+                className="i-ph:trash text-bolt-elements-textSecondary hover:text-red-500"
+                title="Remove"
+              />
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedProvider}
+              onChange={(e) => setProvider(e.target.value)}
+              className={classNames(inputClassName, 'min-w-[160px]')}
+            >
+              {providerNames.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <input
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTarget()}
+              placeholder="Model name, e.g. anthropic/claude-3.5-sonnet"
+              className={classNames(inputClassName, 'flex-1')}
+            />
+            <button
+              onClick={addTarget}
+              disabled={!selectedProvider || !model.trim()}
+              className={classNames(inputClassName, 'hover:text-purple-500 disabled:opacity-50')}
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    );
+  },
+);
+
+const DECISION_LABELS: Record<CommandPolicyDecision, string> = {
+  allow: 'Allow',
+  ask: 'Ask',
+  deny: 'Deny',
+};
+
+const CommandPolicyCard = memo(
+  ({ policy, onChange }: { policy: CommandPolicy; onChange: (policy: CommandPolicy) => void }) => {
+    const [draft, setDraft] = useState<CommandPolicyRule>({
+      decision: 'ask',
+      target: 'command',
+      syntax: 'glob',
+      pattern: '',
+    });
+
+    const addRule = () => {
+      if (!draft.pattern.trim()) {
+        return;
+      }
+
+      onChange({ ...policy, rules: [...policy.rules, { ...draft, pattern: draft.pattern.trim() }] });
+      setDraft({ ...draft, pattern: '' });
+    };
+
+    const moveRule = (index: number, offset: number) => {
+      const rules = [...policy.rules];
+      [rules[index], rules[index + offset]] = [rules[index + offset], rules[index]];
+      onChange({ ...policy, rules });
+    };
+
+    const inputClassName = classNames(
+      'p-2 rounded-lg text-sm',
+      'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+      'text-bolt-elements-textPrimary',
+      'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+      'group-hover:border-purple-500/30',
+      'transition-all duration-200',
+    );
+
+    return (
+      <motion.div
+        layout
+        className={classNames(
+          'bg-bolt-elements-background-depth-2',
+          'hover:bg-bolt-elements-background-depth-3',
+          'transition-all duration-200',
+          'rounded-lg p-4',
+          'group',
+        )}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.295 }}
+      >
+        <div className="flex items-center gap-4">
+          <div
+            className={classNames(
+              'p-2 rounded-lg text-xl',
+              'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+              'transition-colors duration-200',
+              'text-purple-500',
+            )}
+          >
+            <div className="i-ph:shield-warning" />
+          </div>
+          <div className="flex-1">
+            <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+              Command Approval
+            </h4>
+            <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+              Rules for the commands the model runs. The first matching rule decides, path patterns match the files a
+              command is given
+            </p>
+          </div>
+          <button
+            onClick={() => onChange(DEFAULT_COMMAND_POLICY)}
+            className={classNames(inputClassName, 'hover:text-purple-500')}
+          >
+            Reset
+          </button>
+        </div>
+        <div className="mt-4 flex flex-col gap-2">
+          {policy.rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm text-bolt-elements-textPrimary">
+              <span className="w-12 text-bolt-elements-textSecondary">{DECISION_LABELS[rule.decision]}</span>
+              <span className="w-24 text-xs text-bolt-elements-textTertiary">
+                {rule.target} {rule.syntax}
+              </span>
+              <code className="flex-1 truncate" title={rule.description}>
+                {rule.pattern}
+              </code>
+              <button
+                disabled={index === 0}
+                onClick={() => moveRule(index, -1)}
+                className="i-ph:arrow-up text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-30"
+                title="Move up"
+              />
+              <button
+                disabled={index === policy.rules.length - 1}
+                onClick={() => moveRule(index, 1)}
+                className="i-ph:arrow-down text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-30"
+                title="Move down"
+              />
+              <button
+                onClick={() => onChange({ ...policy, rules: policy.rules.filter((_, i) => i !== index) })}
+                className="i-ph:trash text-bolt-elements-textSecondary hover:text-red-500"
+                title="Remove"
+              />
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <select
+              value={draft.decision}
+              onChange={(e) => setDraft({ ...draft, decision: e.target.value as CommandPolicyDecision })}
+              className={inputClassName}
+            >
+              {Object.entries(DECISION_LABELS).map(([decision, label]) => (
+                <option key={decision} value={decision}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={draft.target}
+              onChange={(e) => setDraft({ ...draft, target: e.target.value as CommandPolicyRule['target'] })}
+              className={inputClassName}
+            >
+              <option value="command">Command</option>
+              <option value="path">Path</option>
+            </select>
+            <select
+              value={draft.syntax}
+              onChange={(e) => setDraft({ ...draft, syntax: e.target.value as CommandPolicyRule['syntax'] })}
+              className={inputClassName}
+            >
+              <option value="glob">Glob</option>
+              <option value="regex">Regex</option>
+            </select>
+            <input
+              value={draft.pattern}
+              onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && addRule()}
+              placeholder={draft.target === 'command' ? 'e.g. npm install *' : 'e.g. .env*'}
+              className={classNames(inputClassName, 'flex-1')}
+            />
+            <button
+              onClick={addRule}
+              disabled={!draft.pattern.trim()}
+              className={classNames(inputClassName, 'hover:text-purple-500 disabled:opacity-50')}
+            >
+              Add
+            </button>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-bolt-elements-textSecondary">
+            Commands without a matching rule
+            <select
+              value={policy.defaultDecision}
+              onChange={(e) => onChange({ ...policy, defaultDecision: e.target.value as CommandPolicyDecision })}
+              className={inputClassName}
+            >
+              {Object.entries(DECISION_LABELS).map(([decision, label]) => (
+                <option key={decision} value={decision}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </motion.div>
+    );
+  },
+);
+
 export default function FeaturesTab() {
   const {
     autoSelectTemplate,
@@ -117,6 +433,20 @@ export default function FeaturesTab() {
     setEventLogs,
     setPromptId,
     promptId,
+    userPrompts,
+    contextSelectionMode,
+    setContextSelectionMode,
+    actionOutputMode,
+    setActionOutputMode,
+    activeProviders,
+    failoverChain,
+    setFailoverChain,
+    autoFixEnabled,
+    setAutoFixEnabled,
+    autoFixMaxAttempts,
+    setAutoFixMaxAttempts,
+    commandPolicy,
+    setCommandPolicy,
   } = useSettings();
 
   // Enable features by default on first load
@@ -170,11 +500,17 @@ export default function FeaturesTab() {
           break;
         }
 
+        case 'autoFix': {
+          setAutoFixEnabled(enabled);
+          toast.success(`Auto fix ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
         default:
           break;
       }
     },
-    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs],
+    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs, setAutoFixEnabled],
   );
 
   const features = {
@@ -212,7 +548,17 @@ export default function FeaturesTab() {
         tooltip: 'Enabled by default to record detailed logs of system events and user actions',
       },
     ],
-    beta: [],
+    beta: [
+      {
+        id: 'autoFix',
+        title: 'Auto Fix Errors',
+        description: 'Send failed builds and preview errors back to the model automatically',
+        icon: 'i-ph:wrench',
+        enabled: autoFixEnabled,
+        beta: true,
+        tooltip: 'Stops after the configured number of attempts or when the same error comes back',
+      },
+    ],
   };
 
   return (
@@ -235,6 +581,190 @@ export default function FeaturesTab() {
         />
       )}
 
+      {contextOptimizationEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+        >
+          <div className="flex items-center gap-4">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:magnifying-glass" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Context Selection
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                How relevant files are picked. Semantic search runs locally and skips the extra model call
+              </p>
+            </div>
+            <select
+              value={contextSelectionMode}
+              onChange={(e) => {
+                setContextSelectionMode(e.target.value as ContextSelectionMode);
+                toast.success('Context selection updated');
+              }}
+              className={classNames(
+                'p-2 rounded-lg text-sm min-w-[200px]',
+                'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                'text-bolt-elements-textPrimary',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                'group-hover:border-purple-500/30',
+                'transition-all duration-200',
+              )}
+            >
+              <option value="llm">LLM selection</option>
+              <option value="semantic">Semantic search</option>
+            </select>
+          </div>
+        </motion.div>
+      )}
+
+      {autoFixEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.26 }}
+        >
+          <div className="flex items-center gap-4">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:arrows-clockwise" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Auto Fix Attempts
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                How many times an error is sent back before the chat asks you again
+              </p>
+            </div>
+            <select
+              value={autoFixMaxAttempts}
+              onChange={(e) => {
+                setAutoFixMaxAttempts(Number(e.target.value));
+                toast.success('Auto fix attempts updated');
+              }}
+              className={classNames(
+                'p-2 rounded-lg text-sm min-w-[200px]',
+                'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                'text-bolt-elements-textPrimary',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                'group-hover:border-purple-500/30',
+                'transition-all duration-200',
+              )}
+            >
+              {[1, 2, 3, 5, 10].map((attempts) => (
+                <option key={attempts} value={attempts}>
+                  {attempts} {attempts === 1 ? 'attempt' : 'attempts'}
+                </option>
+              ))}
+            </select>
+          </div>
+        </motion.div>
+      )}
+
+      <motion.div
+        layout
+        className={classNames(
+          'bg-bolt-elements-background-depth-2',
+          'hover:bg-bolt-elements-background-depth-3',
+          'transition-all duration-200',
+          'rounded-lg p-4',
+          'group',
+        )}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.275 }}
+      >
+        <div className="flex items-center gap-4">
+          <div
+            className={classNames(
+              'p-2 rounded-lg text-xl',
+              'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+              'transition-colors duration-200',
+              'text-purple-500',
+            )}
+          >
+            <div className="i-ph:brackets-curly" />
+          </div>
+          <div className="flex-1">
+            <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+              Action Output
+            </h4>
+            <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+              How the model sends file changes and commands. Tool calls are validated, but need a model with tool
+              calling support
+            </p>
+          </div>
+          <select
+            value={actionOutputMode}
+            onChange={(e) => {
+              setActionOutputMode(e.target.value as ActionOutputMode);
+              toast.success('Action output updated');
+            }}
+            className={classNames(
+              'p-2 rounded-lg text-sm min-w-[200px]',
+              'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+              'text-bolt-elements-textPrimary',
+              'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+              'group-hover:border-purple-500/30',
+              'transition-all duration-200',
+            )}
+          >
+            <option value="xml">XML artifacts</option>
+            <option value="tools">Tool calls</option>
+          </select>
+        </div>
+      </motion.div>
+
+      <FailoverChainCard
+        chain={failoverChain}
+        providerNames={activeProviders.map((provider) => provider.name)}
+        onChange={(chain) => {
+          setFailoverChain(chain);
+          toast.success('Failover chain updated');
+        }}
+      />
+
+      <CommandPolicyCard
+        policy={commandPolicy}
+        onChange={(policy) => {
+          setCommandPolicy(policy);
+          toast.success('Command approval rules updated');
+        }}
+      />
+
       <motion.div
         layout
         className={classNames(
@@ -282,7 +812,7 @@ export default function FeaturesTab() {
               'transition-all duration-200',
             )}
           >
-            {PromptLibrary.getList().map((x) => (
+            {PromptLibrary.getList(userPrompts).map((x) => (
               <option key={x.id} value={x.id}>
                 {x.label}
               </option>
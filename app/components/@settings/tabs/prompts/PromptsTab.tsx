@@ -0,0 +1,381 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Cookies from 'js-cookie';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { useSettings } from '~/lib/hooks/useSettings';
+import {
+  createUserPrompt,
+  PROMPT_VARIABLES,
+  PromptLibrary,
+  saveUserPromptVersion,
+  type PromptOptions,
+  type UserPrompt,
+} from '~/lib/common/prompt-library';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, WORK_DIR } from '~/utils/constants';
+import { allowedHTMLElements } from '~/utils/markdown';
+
+interface PromptDraft {
+  label: string;
+  description: string;
+  template: string;
+}
+
+interface ComparisonResult {
+  text?: string;
+  error?: string;
+  totalTokens?: number;
+}
+
+// the comparison has no project, so the variables are filled in like for a new chat
+const COMPARISON_OPTIONS: PromptOptions = {
+  cwd: WORK_DIR,
+  allowedHtmlElements: allowedHTMLElements,
+  modificationTagName: MODIFICATIONS_TAG_NAME,
+};
+
+const inputClassName = classNames(
+  'w-full px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const buttonClassName = classNames(
+  'px-3 py-1.5 rounded-lg text-sm flex items-center gap-2',
+  'bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-4',
+  'text-bolt-elements-textPrimary transition-all duration-200',
+  'disabled:opacity-50 disabled:cursor-not-allowed',
+);
+
+async function runPrompt(system: string, message: string): Promise<ComparisonResult> {
+  const response = await fetch('/api/llmcall', {
+    method: 'POST',
+    body: JSON.stringify({
+      system,
+      message,
+      model: Cookies.get('selectedModel') || DEFAULT_MODEL,
+      provider: { name: Cookies.get('selectedProvider') || DEFAULT_PROVIDER.name },
+    }),
+  });
+
+  if (!response.ok) {
+    return { error: `Request failed: ${response.statusText || response.status}` };
+  }
+
+  const result = (await response.json()) as { text: string; usage?: { totalTokens?: number } };
+
+  return { text: result.text, totalTokens: result.usage?.totalTokens };
+}
+
+export default function PromptsTab() {
+  const { promptId, setPromptId, userPrompts, setUserPrompts } = useSettings();
+  const [selectedId, setSelectedId] = useState(promptId);
+  const [draft, setDraft] = useState<PromptDraft | null>(null);
+  const templateRef = useRef<HTMLTextAreaElement>(null);
+
+  const [compareIds, setCompareIds] = useState<[string, string]>(['default', userPrompts[0]?.id ?? 'original']);
+  const [compareMessage, setCompareMessage] = useState('');
+  const [results, setResults] = useState<[ComparisonResult, ComparisonResult] | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const prompts = useMemo(() => PromptLibrary.getList(userPrompts), [userPrompts]);
+  const selectedUserPrompt = userPrompts.find((prompt) => prompt.id === selectedId);
+  const selectedBuiltIn = PromptLibrary.library[selectedId];
+
+  useEffect(() => {
+    setDraft(
+      selectedUserPrompt
+        ? {
+            label: selectedUserPrompt.label,
+            description: selectedUserPrompt.description,
+            template: selectedUserPrompt.template,
+          }
+        : null,
+    );
+  }, [selectedId, selectedUserPrompt?.version]);
+
+  const getTemplate = (id: string) =>
+    userPrompts.find((prompt) => prompt.id === id)?.template ?? PromptLibrary.getTemplate(id) ?? '';
+
+  const handleCreate = (forkedFrom?: string) => {
+    const source = prompts.find((prompt) => prompt.id === forkedFrom);
+    const prompt = createUserPrompt({
+      label: source ? `${source.label} (copy)` : 'New prompt',
+      description: source?.description ?? '',
+      template: forkedFrom ? getTemplate(forkedFrom) : 'You are Bolt, working in {{cwd}}.',
+      forkedFrom,
+    });
+
+    setUserPrompts([...userPrompts, prompt]);
+    setSelectedId(prompt.id);
+  };
+
+  const handleSave = () => {
+    if (!selectedUserPrompt || !draft) {
+      return;
+    }
+
+    if (!draft.label.trim() || !draft.template.trim()) {
+      toast.error('A prompt needs a name and a template');
+      return;
+    }
+
+    const saved: UserPrompt = {
+      ...saveUserPromptVersion(selectedUserPrompt, draft.template),
+      label: draft.label.trim(),
+      description: draft.description.trim(),
+    };
+
+    setUserPrompts(userPrompts.map((prompt) => (prompt.id === saved.id ? saved : prompt)));
+    toast.success(`${saved.label} saved as version ${saved.version}`);
+  };
+
+  const handleDelete = (prompt: UserPrompt) => {
+    setUserPrompts(userPrompts.filter((candidate) => candidate.id !== prompt.id));
+    setSelectedId('default');
+    toast.success(`${prompt.label} deleted`);
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = templateRef.current;
+
+    if (!draft || !textarea) {
+      return;
+    }
+
+    const { selectionStart, selectionEnd } = textarea;
+    const template = `${draft.template.slice(0, selectionStart)}{{${name}}}${draft.template.slice(selectionEnd)}`;
+
+    setDraft({ ...draft, template });
+  };
+
+  const handleCompare = async () => {
+    if (!compareMessage.trim()) {
+      toast.error('Enter a message to send with both prompts');
+      return;
+    }
+
+    setIsComparing(true);
+    setResults(null);
+
+    try {
+      const systems = compareIds.map((id) => PromptLibrary.getPropmtFromLibrary(id, COMPARISON_OPTIONS, userPrompts));
+      const [a, b] = await Promise.all(
+        systems.map((system) =>
+          runPrompt(system, compareMessage).catch((error) => ({ error: String(error?.message ?? error) })),
+        ),
+      );
+
+      setResults([a, b]);
+    } catch {
+      // one of the prompts was deleted since it was picked
+      toast.error('Pick two existing prompts to compare');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <section aria-labelledby="prompts-heading" className="flex gap-4">
+        <div className="w-64 shrink-0 space-y-2">
+          <div className="flex justify-between items-center">
+            <h2 id="prompts-heading" className="text-base font-medium text-bolt-elements-textPrimary">
+              Prompts
+            </h2>
+            <button className={buttonClassName} onClick={() => handleCreate()}>
+              <div className="i-ph:plus w-3 h-3" />
+              New
+            </button>
+          </div>
+          {prompts.map((prompt) => (
+            <button
+              key={prompt.id}
+              onClick={() => setSelectedId(prompt.id)}
+              className={classNames(
+                'w-full text-left p-3 rounded-lg border transition-colors',
+                selectedId === prompt.id
+                  ? 'border-purple-500/50 bg-purple-500/10'
+                  : 'border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 hover:border-purple-500/30',
+              )}
+            >
+              <div className="flex items-center gap-2 text-sm text-bolt-elements-textPrimary">
+                <span className="truncate">{prompt.label}</span>
+                {prompt.id === promptId && <span className="text-xs text-purple-500">active</span>}
+              </div>
+              <div className="text-xs text-bolt-elements-textTertiary">
+                {prompt.builtIn
+                  ? 'Built-in'
+                  : `Version ${userPrompts.find((candidate) => candidate.id === prompt.id)?.version}`}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-3">
+          <div className="flex justify-end gap-2">
+            <button className={buttonClassName} onClick={() => handleCreate(selectedId)}>
+              <div className="i-ph:git-fork w-3 h-3" />
+              Fork
+            </button>
+            <button
+              className={buttonClassName}
+              disabled={selectedId === promptId}
+              onClick={() => {
+                setPromptId(selectedId);
+                toast.success('Prompt template updated');
+              }}
+            >
+              <div className="i-ph:check w-3 h-3" />
+              Use for chats
+            </button>
+            {selectedUserPrompt && (
+              <button className={buttonClassName} onClick={() => handleDelete(selectedUserPrompt)}>
+                <div className="i-ph:trash w-3 h-3" />
+                Delete
+              </button>
+            )}
+          </div>
+
+          {selectedBuiltIn && (
+            <>
+              <p className="text-sm text-bolt-elements-textSecondary">
+                {selectedBuiltIn.description}. Built-in prompts are read only, fork one to change it.
+              </p>
+              <pre className="p-3 rounded-lg bg-bolt-elements-background-depth-2 text-xs text-bolt-elements-textSecondary whitespace-pre-wrap max-h-[28rem] overflow-y-auto">
+                {PromptLibrary.getTemplate(selectedId)}
+              </pre>
+            </>
+          )}
+
+          {selectedUserPrompt && draft && (
+            <>
+              <input
+                className={inputClassName}
+                placeholder="Name"
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              />
+              <input
+                className={inputClassName}
+                placeholder="Description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              />
+              <div className="flex flex-wrap gap-1">
+                {PROMPT_VARIABLES.map((variable) => (
+                  <button
+                    key={variable.name}
+                    title={variable.description}
+                    onClick={() => insertVariable(variable.name)}
+                    className="px-2 py-0.5 rounded-md text-xs font-mono bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary hover:text-purple-500"
+                  >
+                    {`{{${variable.name}}}`}
+                  </button>
+                ))}
+              </div>
+              <textarea
+                ref={templateRef}
+                className={classNames(inputClassName, 'h-96 font-mono text-xs')}
+                value={draft.template}
+                onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+              />
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-bolt-elements-textTertiary">
+                  {selectedUserPrompt.forkedFrom && `Forked from ${selectedUserPrompt.forkedFrom} · `}
+                  Version {selectedUserPrompt.version}
+                </span>
+                <button
+                  className="px-3 py-1.5 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600"
+                  onClick={handleSave}
+                >
+                  Save
+                </button>
+              </div>
+              {selectedUserPrompt.history.length > 0 && (
+                <div className="space-y-1">
+                  <h3 className="text-sm font-medium text-bolt-elements-textPrimary">Earlier versions</h3>
+                  {selectedUserPrompt.history.map((version) => (
+                    <div
+                      key={version.version}
+                      className="flex items-center justify-between text-xs text-bolt-elements-textSecondary"
+                    >
+                      <span>
+                        Version {version.version} · {new Date(version.savedAt).toLocaleString()}
+                      </span>
+                      <button
+                        className="text-purple-500 hover:underline"
+                        onClick={() => setDraft({ ...draft, template: version.template })}
+                      >
+                        Load into editor
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </section>
+
+      <section aria-labelledby="prompts-compare-heading" className="space-y-3">
+        <div>
+          <h2 id="prompts-compare-heading" className="text-base font-medium text-bolt-elements-textPrimary">
+            Compare prompts
+          </h2>
+          <p className="text-xs text-bolt-elements-textTertiary">
+            Sends the same message with two prompts to the model selected in the chat. Unsaved changes are not used.
+          </p>
+        </div>
+        <textarea
+          className={classNames(inputClassName, 'h-20')}
+          placeholder="Message, e.g. Build a todo app with React"
+          value={compareMessage}
+          onChange={(e) => setCompareMessage(e.target.value)}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          {compareIds.map((id, index) => (
+            <div key={index} className="space-y-2 min-w-0">
+              <select
+                className={inputClassName}
+                value={id}
+                onChange={(e) =>
+                  setCompareIds(
+                    (current) => current.map((value, i) => (i === index ? e.target.value : value)) as [string, string],
+                  )
+                }
+              >
+                {prompts.map((prompt) => (
+                  <option key={prompt.id} value={prompt.id}>
+                    {prompt.label}
+                  </option>
+                ))}
+              </select>
+              <div className="p-3 h-72 overflow-y-auto rounded-lg bg-bolt-elements-background-depth-2 text-xs whitespace-pre-wrap">
+                {results?.[index].error ? (
+                  <span className="text-red-500">{results[index].error}</span>
+                ) : (
+                  <span className="text-bolt-elements-textSecondary">{results?.[index].text}</span>
+                )}
+              </div>
+              {results?.[index].totalTokens !== undefined && (
+                <div className="text-xs text-bolt-elements-textTertiary">
+                  {results[index].totalTokens.toLocaleString()} tokens
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        <button className={buttonClassName} onClick={handleCompare} disabled={isComparing}>
+          {isComparing ? (
+            <div className="i-svg-spinners:90-ring-with-bg w-3 h-3 text-bolt-elements-loader-progress animate-spin" />
+          ) : (
+            <div className="i-ph:columns w-3 h-3" />
+          )}
+          Compare
+        </button>
+      </section>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { TbBrain, TbCloudComputing } from 'react-icons/tb';
 import { BiCodeBlock, BiChip } from 'react-icons/bi';
 import { FaCloud, FaBrain } from 'react-icons/fa';
 import type { IconType } from 'react-icons';
+import { CustomProvidersSection } from './CustomProvidersSection';
 
 // Add type for provider names to ensure type safety
 type ProviderName =
@@ -66,6 +67,7 @@ const CloudProvidersTab = () => {
   useEffect(() => {
     const newFilteredProviders = Object.entries(settings.providers || {})
       .filter(([key]) => !['Ollama', 'LMStudio', 'OpenAILike'].includes(key))
+      .filter(([key]) => !settings.customProviders.some((provider) => provider.name === key))
       .map(([key, value]) => ({
         name: key,
         settings: value.settings,
@@ -82,7 +84,7 @@ const CloudProvidersTab = () => {
     // Update category enabled state
     const allEnabled = newFilteredProviders.every((p) => p.settings.enabled);
     setCategoryEnabled(allEnabled);
-  }, [settings.providers]);
+  }, [settings.providers, settings.customProviders]);
 
   const handleToggleCategory = useCallback(
     (enabled: boolean) => {
@@ -298,6 +300,8 @@ const CloudProvidersTab = () => {
           ))}
         </div>
       </motion.div>
+
+      <CustomProvidersSection />
     </div>
   );
 };
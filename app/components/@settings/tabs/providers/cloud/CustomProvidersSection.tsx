@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import Cookies from 'js-cookie';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { Switch } from '~/components/ui/Switch';
+import { getApiKeysFromCookies } from '~/components/chat/APIKeyManager';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { classNames } from '~/utils/classNames';
+import { PROVIDER_LIST } from '~/utils/constants';
+import type { CustomProviderApi, CustomProviderConfig } from '~/types/model';
+
+interface CustomProviderDraft {
+  name: string;
+  api: CustomProviderApi;
+  baseUrl: string;
+  apiKey: string;
+
+  // one `Name: value` pair per line
+  headers: string;
+
+  // one model name per line
+  models: string;
+}
+
+const EMPTY_DRAFT: CustomProviderDraft = { name: '', api: 'openai', baseUrl: '', apiKey: '', headers: '', models: '' };
+
+const API_LABELS: Record<CustomProviderApi, string> = {
+  openai: 'OpenAI compatible',
+  anthropic: 'Anthropic compatible',
+};
+
+function toDraft(config: CustomProviderConfig): CustomProviderDraft {
+  return {
+    name: config.name,
+    api: config.api,
+    baseUrl: config.baseUrl,
+    apiKey: getApiKeysFromCookies()[config.name] || '',
+    headers: Object.entries(config.headers ?? {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join('\n'),
+    models: config.models.map((model) => model.name).join('\n'),
+  };
+}
+
+function parseHeaders(text: string) {
+  const headers: Record<string, string> = {};
+
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return headers;
+}
+
+const inputClassName = classNames(
+  'w-full px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+export function CustomProvidersSection() {
+  const { customProviders, setCustomProviders, providers, updateProviderSettings } = useSettings();
+  const [draft, setDraft] = useState<CustomProviderDraft | null>(null);
+  const [editingName, setEditingName] = useState<string | null>(null);
+
+  const updateDraft = (changes: Partial<CustomProviderDraft>) =>
+    setDraft((current) => current && { ...current, ...changes });
+
+  const saveApiKey = (name: string, apiKey: string | undefined) => {
+    const apiKeys = { ...getApiKeysFromCookies() };
+
+    if (apiKey) {
+      apiKeys[name] = apiKey;
+    } else {
+      delete apiKeys[name];
+    }
+
+    Cookies.set('apiKeys', JSON.stringify(apiKeys));
+  };
+
+  const handleSave = () => {
+    if (!draft) {
+      return;
+    }
+
+    const name = draft.name.trim();
+    const baseUrl = draft.baseUrl.trim().replace(/\/+$/, '');
+
+    if (!name) {
+      toast.error('Enter a name for the provider');
+      return;
+    }
+
+    if (PROVIDER_LIST.some((provider) => provider.name === name)) {
+      toast.error(`${name} is a built-in provider, choose another name`);
+      return;
+    }
+
+    if (name !== editingName && customProviders.some((provider) => provider.name === name)) {
+      toast.error(`A custom provider named ${name} already exists`);
+      return;
+    }
+
+    if (!/^https?:\/\//.test(baseUrl)) {
+      toast.error('The base URL must start with http:// or https://');
+      return;
+    }
+
+    const config: CustomProviderConfig = {
+      name,
+      api: draft.api,
+      baseUrl,
+      headers: parseHeaders(draft.headers),
+      models: draft.models
+        .split('\n')
+        .map((model) => model.trim())
+        .filter(Boolean)
+        .map((model) => ({ name: model })),
+    };
+
+    // renaming moves the key to the new name
+    if (editingName && editingName !== name) {
+      saveApiKey(editingName, undefined);
+    }
+
+    saveApiKey(name, draft.apiKey.trim());
+    setCustomProviders(
+      editingName
+        ? customProviders.map((provider) => (provider.name === editingName ? config : provider))
+        : [...customProviders, config],
+    );
+    toast.success(`${name} saved`);
+    setDraft(null);
+    setEditingName(null);
+  };
+
+  const handleRemove = (name: string) => {
+    saveApiKey(name, undefined);
+    setCustomProviders(customProviders.filter((provider) => provider.name !== name));
+    toast.success(`${name} removed`);
+  };
+
+  return (
+    <motion.div
+      className="space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="flex items-center justify-between gap-4 mt-8 mb-4">
+        <div className="flex items-center gap-2">
+          <div
+            className={classNames(
+              'w-8 h-8 flex items-center justify-center rounded-lg',
+              'bg-bolt-elements-background-depth-3',
+              'text-purple-500',
+            )}
+          >
+            <div className="i-ph:plugs-connected w-5 h-5" />
+          </div>
+          <div>
+            <h4 className="text-md font-medium text-bolt-elements-textPrimary">Custom Providers</h4>
+            <p className="text-sm text-bolt-elements-textSecondary">
+              Any number of OpenAI or Anthropic compatible endpoints
+            </p>
+          </div>
+        </div>
+
+        {!draft && (
+          <button
+            className={classNames(
+              'px-3 py-1.5 rounded-lg text-sm flex items-center gap-2',
+              'bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-4',
+              'text-bolt-elements-textPrimary transition-all duration-200',
+            )}
+            onClick={() => {
+              setEditingName(null);
+              setDraft(EMPTY_DRAFT);
+            }}
+          >
+            <div className="i-ph:plus w-3 h-3" />
+            Add provider
+          </button>
+        )}
+      </div>
+
+      {customProviders.map((provider) => (
+        <div
+          key={provider.name}
+          className="flex items-center gap-4 p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor"
+        >
+          <div className="flex-1 min-w-0">
+            <h4 className="text-sm font-medium text-bolt-elements-textPrimary">{provider.name}</h4>
+            <p className="text-xs text-bolt-elements-textSecondary mt-0.5 truncate">
+              {API_LABELS[provider.api]} · {provider.baseUrl} ·{' '}
+              {provider.models.length ? `${provider.models.length} model(s)` : 'models listed by the endpoint'}
+            </p>
+          </div>
+          <Switch
+            checked={providers[provider.name]?.settings.enabled ?? true}
+            onCheckedChange={(enabled) => updateProviderSettings(provider.name, { enabled })}
+          />
+          <button
+            className="i-ph:pencil-simple text-bolt-elements-textSecondary hover:text-purple-500"
+            title="Edit"
+            onClick={() => {
+              setEditingName(provider.name);
+              setDraft(toDraft(provider));
+            }}
+          />
+          <button
+            className="i-ph:trash text-bolt-elements-textSecondary hover:text-red-500"
+            title="Remove"
+            onClick={() => handleRemove(provider.name)}
+          />
+        </div>
+      ))}
+
+      {draft && (
+        <div className="p-4 space-y-3 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              className={inputClassName}
+              placeholder="Name, e.g. My vLLM"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+            />
+            <select
+              className={inputClassName}
+              value={draft.api}
+              onChange={(e) => updateDraft({ api: e.target.value as CustomProviderApi })}
+            >
+              {Object.entries(API_LABELS).map(([api, label]) => (
+                <option key={api} value={api}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              className={inputClassName}
+              placeholder="Base URL, e.g. https://example.com/v1"
+              value={draft.baseUrl}
+              onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+            />
+            <input
+              className={inputClassName}
+              type="password"
+              placeholder="API key"
+              value={draft.apiKey}
+              onChange={(e) => updateDraft({ apiKey: e.target.value })}
+            />
+            <textarea
+              className={classNames(inputClassName, 'h-24 font-mono')}
+              placeholder={'Extra headers, one per line\nX-Team: research'}
+              value={draft.headers}
+              onChange={(e) => updateDraft({ headers: e.target.value })}
+            />
+            <textarea
+              className={classNames(inputClassName, 'h-24 font-mono')}
+              placeholder={'Models, one per line\nLeave empty to list the models of the endpoint'}
+              value={draft.models}
+              onChange={(e) => updateDraft({ models: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              className="px-3 py-1.5 rounded-lg text-sm text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+              onClick={() => {
+                setDraft(null);
+                setEditingName(null);
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600"
+              onClick={handleSave}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,342 @@
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { chatStorage } from '~/lib/persistence/useChatHistory';
+import {
+  collectUsageRecords,
+  getPriceKey,
+  summarizeUsage,
+  sumUsage,
+  usageRecordsToCsv,
+  type PriceLookup,
+  type UsageGroup,
+  type UsageRecord,
+} from '~/lib/persistence/usage';
+import { inferModelPricing } from '~/lib/modules/llm/capabilities';
+import type { ModelInfo, ModelPricing } from '~/lib/modules/llm/types';
+import { modelPriceOverridesStore, updateModelPriceOverride } from '~/lib/stores/settings';
+
+const USAGE_GROUPS: { id: UsageGroup; label: string }[] = [
+  { id: 'chat', label: 'Chat' },
+  { id: 'provider', label: 'Provider' },
+  { id: 'model', label: 'Model' },
+  { id: 'day', label: 'Day' },
+];
+
+const formatCost = (cost: number | undefined) => (cost === undefined ? '—' : `$${cost.toFixed(cost < 1 ? 4 : 2)}`);
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+interface PriceRowProps {
+  provider: string;
+  model: string;
+  knownPricing?: ModelPricing;
+  override?: ModelPricing;
+}
+
+const PriceRow = memo(({ provider, model, knownPricing, override }: PriceRowProps) => {
+  const pricing = override ?? knownPricing;
+  const [input, setInput] = useState(pricing ? String(pricing.input) : '');
+  const [output, setOutput] = useState(pricing ? String(pricing.output) : '');
+
+  useEffect(() => {
+    setInput(pricing ? String(pricing.input) : '');
+    setOutput(pricing ? String(pricing.output) : '');
+  }, [pricing?.input, pricing?.output]);
+
+  const commit = () => {
+    const parsed = { input: parseFloat(input), output: parseFloat(output) };
+
+    if (isNaN(parsed.input) || isNaN(parsed.output) || parsed.input < 0 || parsed.output < 0) {
+      setInput(pricing ? String(pricing.input) : '');
+      setOutput(pricing ? String(pricing.output) : '');
+
+      return;
+    }
+
+    if (parsed.input === pricing?.input && parsed.output === pricing?.output) {
+      return;
+    }
+
+    updateModelPriceOverride(getPriceKey(provider, model), parsed);
+  };
+
+  const inputClassName = classNames(
+    'w-20 px-2 py-1 rounded-md text-sm text-right',
+    'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+    'text-bolt-elements-textPrimary',
+    'focus:outline-none focus:ring-1 focus:ring-bolt-elements-focus',
+  );
+
+  return (
+    <tr className="border-t border-bolt-elements-borderColor">
+      <td className="py-2 pr-2 text-bolt-elements-textSecondary">{provider}</td>
+      <td className="py-2 pr-2 text-bolt-elements-textPrimary break-all">{model}</td>
+      <td className="py-2 pr-2 text-right">
+        <input
+          className={inputClassName}
+          value={input}
+          placeholder="?"
+          inputMode="decimal"
+          aria-label={`Input price of ${model}`}
+          onChange={(e) => setInput(e.target.value)}
+          onBlur={commit}
+        />
+      </td>
+      <td className="py-2 pr-2 text-right">
+        <input
+          className={inputClassName}
+          value={output}
+          placeholder="?"
+          inputMode="decimal"
+          aria-label={`Output price of ${model}`}
+          onChange={(e) => setOutput(e.target.value)}
+          onBlur={commit}
+        />
+      </td>
+      <td className="py-2 text-right">
+        {override && (
+          <button
+            className="i-ph:arrow-counter-clockwise text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+            title={knownPricing ? 'Reset to the list price' : 'Remove the price'}
+            onClick={() => updateModelPriceOverride(getPriceKey(provider, model), undefined)}
+          />
+        )}
+      </td>
+    </tr>
+  );
+});
+
+export default function UsageTab() {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [group, setGroup] = useState<UsageGroup>('model');
+  const [modelPricing, setModelPricing] = useState<Map<string, ModelPricing>>(new Map());
+  const priceOverrides = useStore(modelPriceOverridesStore);
+
+  const loadUsage = useCallback(async () => {
+    if (!chatStorage) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      setRecords(collectUsageRecords(await chatStorage.getAll()));
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+      toast.error('Failed to load usage from the chat history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+
+    fetch('/api/models')
+      .then((response) => response.json())
+      .then((data) => {
+        const { modelList } = data as { modelList: ModelInfo[] };
+
+        setModelPricing(
+          new Map(
+            modelList
+              .filter((model) => model.capabilities?.pricing)
+              .map((model) => [getPriceKey(model.provider, model.name), model.capabilities!.pricing!]),
+          ),
+        );
+      })
+      .catch((error) => {
+        console.error('Error fetching model list:', error);
+      });
+  }, [loadUsage]);
+
+  const getKnownPrice = useCallback<PriceLookup>(
+    (provider, model) => modelPricing.get(getPriceKey(provider, model)) ?? inferModelPricing(model),
+    [modelPricing],
+  );
+
+  const getPrice = useCallback<PriceLookup>(
+    (provider, model) => priceOverrides[getPriceKey(provider, model)] ?? getKnownPrice(provider, model),
+    [priceOverrides, getKnownPrice],
+  );
+
+  const totals = useMemo(() => summarizeUsage(records, group, getPrice), [records, group, getPrice]);
+
+  const overall = useMemo(() => sumUsage(records, getPrice), [records, getPrice]);
+
+  const models = useMemo(
+    () =>
+      summarizeUsage(records, 'model', getPrice).map((total) => {
+        const record = records.find((candidate) => getPriceKey(candidate.provider, candidate.model) === total.key)!;
+        return { provider: record.provider, model: record.model };
+      }),
+    [records, getPrice],
+  );
+
+  const exportCsv = () => {
+    try {
+      const blob = new Blob([usageRecordsToCsv(records, getPrice)], { type: 'text/csv;charset=utf-8;' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `bolt-usage-${new Date().toISOString()}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      toast.success('Usage exported as CSV');
+    } catch (error) {
+      console.error('Failed to export CSV:', error);
+      toast.error('Failed to export usage as CSV');
+    }
+  };
+
+  const buttonClassName = classNames(
+    'px-3 py-1.5 rounded-lg text-sm',
+    'bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-4',
+    'text-bolt-elements-textPrimary',
+    'transition-all duration-200',
+    'flex items-center gap-2',
+    'disabled:opacity-50 disabled:cursor-not-allowed',
+  );
+
+  if (!chatStorage) {
+    return (
+      <div className="text-sm text-bolt-elements-textSecondary">Chat history is disabled, so no usage is recorded.</div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <section aria-labelledby="usage-total-heading">
+        <div className="flex justify-between items-center mb-3">
+          <h2 id="usage-total-heading" className="text-base font-medium text-bolt-elements-textPrimary">
+            Total usage
+          </h2>
+          <div className="flex gap-2">
+            <button className={buttonClassName} onClick={loadUsage} disabled={isLoading}>
+              {isLoading ? (
+                <div className="i-svg-spinners:90-ring-with-bg w-3 h-3 text-bolt-elements-loader-progress animate-spin" />
+              ) : (
+                <div className="i-ph:arrow-counter-clockwise w-3 h-3" />
+              )}
+              Refresh
+            </button>
+            <button className={buttonClassName} onClick={exportCsv} disabled={records.length === 0}>
+              <div className="i-ph:file-csv w-3 h-3" />
+              Export CSV
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          {[
+            { label: 'Prompt tokens', value: formatTokens(overall.promptTokens) },
+            { label: 'Completion tokens', value: formatTokens(overall.completionTokens) },
+            { label: 'Estimated cost', value: formatCost(overall.cost) },
+          ].map(({ label, value }) => (
+            <div key={label} className="p-4 rounded-lg bg-bolt-elements-background-depth-2">
+              <div className="text-xs text-bolt-elements-textSecondary">{label}</div>
+              <div className="text-lg font-medium text-bolt-elements-textPrimary">{value}</div>
+            </div>
+          ))}
+        </div>
+        {overall.cost === undefined && records.length > 0 && (
+          <p className="mt-2 text-xs text-bolt-elements-textTertiary">
+            Some models have no known price, set one below to include them in the cost.
+          </p>
+        )}
+      </section>
+
+      <section aria-labelledby="usage-breakdown-heading">
+        <div className="flex justify-between items-center mb-3">
+          <h2 id="usage-breakdown-heading" className="text-base font-medium text-bolt-elements-textPrimary">
+            Spend by {USAGE_GROUPS.find((option) => option.id === group)?.label.toLowerCase()}
+          </h2>
+          <div className="flex gap-1">
+            {USAGE_GROUPS.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setGroup(option.id)}
+                className={classNames(
+                  'px-2 py-1 rounded-md text-xs transition-colors',
+                  group === option.id
+                    ? 'bg-purple-500/10 text-purple-500'
+                    : 'text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3',
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {totals.length === 0 ? (
+          <p className="text-sm text-bolt-elements-textSecondary">
+            {isLoading ? 'Loading usage…' : 'No usage recorded yet.'}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-bolt-elements-textTertiary">
+                <th className="pb-2 font-normal">{USAGE_GROUPS.find((option) => option.id === group)?.label}</th>
+                <th className="pb-2 font-normal text-right">Prompt</th>
+                <th className="pb-2 font-normal text-right">Completion</th>
+                <th className="pb-2 font-normal text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {totals.map((total) => (
+                <tr key={total.key} className="border-t border-bolt-elements-borderColor">
+                  <td className="py-2 pr-2 text-bolt-elements-textPrimary break-all">{total.label}</td>
+                  <td className="py-2 pr-2 text-right text-bolt-elements-textSecondary">
+                    {formatTokens(total.promptTokens)}
+                  </td>
+                  <td className="py-2 pr-2 text-right text-bolt-elements-textSecondary">
+                    {formatTokens(total.completionTokens)}
+                  </td>
+                  <td className="py-2 text-right text-bolt-elements-textPrimary">{formatCost(total.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {models.length > 0 && (
+        <section aria-labelledby="usage-prices-heading">
+          <h2 id="usage-prices-heading" className="text-base font-medium text-bolt-elements-textPrimary mb-1">
+            Model prices
+          </h2>
+          <p className="text-xs text-bolt-elements-textTertiary mb-3">
+            USD per million tokens. Change a price to match your plan or a provider that bills differently.
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-bolt-elements-textTertiary">
+                <th className="pb-2 font-normal">Provider</th>
+                <th className="pb-2 font-normal">Model</th>
+                <th className="pb-2 font-normal text-right">Input</th>
+                <th className="pb-2 font-normal text-right">Output</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {models.map(({ provider, model }) => (
+                <PriceRow
+                  key={getPriceKey(provider, model)}
+                  provider={provider}
+                  model={model}
+                  knownPricing={getKnownPrice(provider, model)}
+                  override={priceOverrides[getPriceKey(provider, model)]}
+                />
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
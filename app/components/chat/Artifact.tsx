@@ -2,6 +2,7 @@ import { useStore } from '@nanostores/react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { computed } from 'nanostores';
 import { memo, useEffect, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
 import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
 import type { ActionState } from '~/lib/runtime/action-runner';
 import { workbenchStore } from '~/lib/stores/workbench';
@@ -146,16 +147,88 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
               <div className="bg-bolt-elements-artifacts-borderColor h-[1px]" />
 
               <div className="p-5 text-left bg-bolt-elements-actions-background">
-                <ActionList actions={actions} />
+                <ActionList
+                  actions={actions}
+                  onDecide={(action, approved) => {
+                    const actionId = Object.entries(artifact.runner.actions.get()).find(
+                      ([, candidate]) => candidate === action,
+                    )?.[0];
+
+                    if (actionId && approved) {
+                      artifact.runner.approveAction(actionId);
+                    } else if (actionId) {
+                      artifact.runner.denyAction(actionId);
+                    }
+                  }}
+                />
               </div>
             </motion.div>
           )}
         </AnimatePresence>
+        {(artifact.outcome === 'failed' || artifact.outcome === 'rolled-back') && <RollbackBar messageId={messageId} />}
       </div>
     </>
   );
 });
 
+interface RollbackBarProps {
+  messageId: string;
+}
+
+function RollbackBar({ messageId }: RollbackBarProps) {
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const artifacts = useStore(workbenchStore.artifacts);
+  const artifact = artifacts[messageId];
+
+  const touchedFiles = artifact.runner.getTouchedFiles();
+
+  const rollback = async () => {
+    setIsRollingBack(true);
+
+    try {
+      const rolledBackFiles = await workbenchStore.rollbackArtifact(messageId);
+      toast.success(`Rolled back ${rolledBackFiles.length} file${rolledBackFiles.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to roll back artifact:', error);
+      toast.error('Failed to roll back changes');
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  if (artifact.outcome === 'rolled-back') {
+    const rolledBackFiles = artifact.rolledBackFiles ?? [];
+
+    return (
+      <div className="flex items-center gap-1.5 px-5 py-3 text-sm bg-bolt-elements-actions-background border-t border-bolt-elements-artifacts-borderColor">
+        <div className="i-ph:arrow-counter-clockwise text-lg text-bolt-elements-textSecondary"></div>
+        <span className="text-bolt-elements-textSecondary">
+          Rolled back {rolledBackFiles.length} file{rolledBackFiles.length === 1 ? '' : 's'}
+        </span>
+      </div>
+    );
+  }
+
+  if (touchedFiles.length === 0 || !workbenchStore.canRollbackArtifact(messageId)) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-1.5 px-5 py-3 text-sm bg-bolt-elements-actions-background border-t border-bolt-elements-artifacts-borderColor">
+      <div className="i-ph:warning text-lg text-bolt-elements-icon-error"></div>
+      <span className="flex-1 text-bolt-elements-textPrimary">Some actions failed</span>
+      <button
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover disabled:opacity-50"
+        disabled={isRollingBack}
+        onClick={rollback}
+      >
+        <div className={isRollingBack ? 'i-svg-spinners:90-ring-with-bg' : 'i-ph:arrow-counter-clockwise'}></div>
+        Roll back {touchedFiles.length} file{touchedFiles.length === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+}
+
 interface ShellCodeBlockProps {
   classsName?: string;
   code: string;
@@ -177,6 +250,7 @@ function ShellCodeBlock({ classsName, code }: ShellCodeBlockProps) {
 
 interface ActionListProps {
   actions: ActionState[];
+  onDecide: (action: ActionState, approved: boolean) => void;
 }
 
 const actionVariants = {
@@ -192,7 +266,7 @@ export function openArtifactInWorkbench(filePath: any) {
   workbenchStore.setSelectedFile(`${WORK_DIR}/${filePath}`);
 }
 
-const ActionList = memo(({ actions }: ActionListProps) => {
+const ActionList = memo(({ actions, onDecide }: ActionListProps) => {
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
       <ul className="list-none space-y-2.5">
@@ -223,6 +297,8 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     </>
                   ) : status === 'pending' ? (
                     <div className="i-ph:circle-duotone"></div>
+                  ) : status === 'awaiting-approval' ? (
+                    <div className="i-ph:hand-palm-duotone"></div>
                   ) : status === 'complete' ? (
                     <div className="i-ph:check"></div>
                   ) : status === 'failed' || status === 'aborted' ? (
@@ -239,6 +315,16 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                       {action.filePath}
                     </code>
                   </div>
+                ) : type === 'edit' ? (
+                  <div>
+                    Edit{' '}
+                    <code
+                      className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
+                      onClick={() => openArtifactInWorkbench(action.filePath)}
+                    >
+                      {action.filePath}
+                    </code>
+                  </div>
                 ) : type === 'shell' ? (
                   <div className="flex items-center w-full min-h-[28px]">
                     <span className="flex-1">Run command</span>
@@ -263,6 +349,34 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                   code={content}
                 />
               )}
+              {status === 'awaiting-approval' && (
+                <div className="mb-3.5 p-3 rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-3 text-sm">
+                  <div className="flex items-center gap-2 text-bolt-elements-textPrimary">
+                    <div className="i-ph:shield-warning text-amber-500" />
+                    This command needs your approval
+                  </div>
+                  {action.approvalReason && (
+                    <div className="mt-1 text-xs text-bolt-elements-textSecondary">{action.approvalReason}</div>
+                  )}
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      className="px-2 py-1 rounded-md text-xs bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover"
+                      onClick={() => onDecide(action, true)}
+                    >
+                      Run command
+                    </button>
+                    <button
+                      className="px-2 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover"
+                      onClick={() => onDecide(action, false)}
+                    >
+                      Deny
+                    </button>
+                  </div>
+                </div>
+              )}
+              {status === 'failed' && (
+                <div className="mb-3.5 text-xs text-bolt-elements-icon-error">{action.error}</div>
+              )}
             </motion.li>
           );
         })}
@@ -279,6 +393,9 @@ function getIconColor(status: ActionState['status']) {
     case 'running': {
       return 'text-bolt-elements-loader-progress';
     }
+    case 'awaiting-approval': {
+      return 'text-amber-500';
+    }
     case 'complete': {
       return 'text-bolt-elements-icon-success';
     }
@@ -16,7 +16,9 @@ import type {
   StepStartUIPart,
 } from '@ai-sdk/ui-utils';
 import { ToolInvocations } from './ToolInvocations';
-import type { ToolCallAnnotation } from '~/types/context';
+import { isActionToolName } from '~/lib/runtime/action-tools';
+import type { ChatMode, PlanAnnotation, ProviderAnnotation, ToolCallAnnotation } from '~/types/context';
+import { PlanChecklist } from './PlanChecklist';
 
 interface AssistantMessageProps {
   content: string;
@@ -25,13 +27,12 @@ interface AssistantMessageProps {
   onRewind?: (messageId: string) => void;
   onFork?: (messageId: string) => void;
   append?: (message: Message) => void;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   model?: string;
   provider?: ProviderInfo;
   parts:
-    | (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[]
-    | undefined;
+    (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[] | undefined;
   addToolResult: ({ toolCallId, result }: { toolCallId: string; result: any }) => void;
 }
 
@@ -97,7 +98,16 @@ export const AssistantMessage = memo(
       totalTokens: number;
     } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
 
-    const toolInvocations = parts?.filter((part) => part.type === 'tool-invocation');
+    const providerAnnotation = filteredAnnotations.find((annotation) => annotation.type === 'provider') as
+      ProviderAnnotation | undefined;
+
+    // action tool calls are shown in the artifact, not as tool invocations
+    const toolInvocations = parts
+      ?.filter((part) => part.type === 'tool-invocation')
+      .filter((part) => !isActionToolName(part.toolInvocation.toolName));
+    const planAnnotation = filteredAnnotations.find((annotation) => annotation.type === 'plan') as
+      PlanAnnotation | undefined;
+
     const toolCallAnnotations = filteredAnnotations.filter(
       (annotation) => annotation.type === 'toolCall',
     ) as ToolCallAnnotation[];
@@ -146,11 +156,30 @@ export const AssistantMessage = memo(
               </Popover>
             )}
             <div className="flex w-full items-center justify-between">
-              {usage && (
-                <div>
-                  Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
-                </div>
-              )}
+              <div className="flex gap-2 items-center">
+                {usage && (
+                  <div>
+                    Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
+                  </div>
+                )}
+                {providerAnnotation &&
+                  (providerAnnotation.failures.length > 0 ? (
+                    <WithTooltip
+                      tooltip={`Failed before: ${providerAnnotation.failures
+                        .map((failure) => `${failure.provider} (${failure.model}): ${failure.errorType}`)
+                        .join(', ')}`}
+                    >
+                      <div className="flex items-center gap-1 text-yellow-500">
+                        <div className="i-ph:arrows-clockwise" />
+                        {providerAnnotation.provider} ({providerAnnotation.model})
+                      </div>
+                    </WithTooltip>
+                  ) : (
+                    <div>
+                      {providerAnnotation.provider} ({providerAnnotation.model})
+                    </div>
+                  ))}
+              </div>
               {(onRewind || onFork) && messageId && (
                 <div className="flex gap-2 flex-col lg:flex-row ml-auto">
                   {onRewind && (
@@ -176,9 +205,20 @@ export const AssistantMessage = memo(
             </div>
           </div>
         </>
-        <Markdown append={append} chatMode={chatMode} setChatMode={setChatMode} model={model} provider={provider} html>
-          {content}
-        </Markdown>
+        {planAnnotation && messageId ? (
+          <PlanChecklist messageId={messageId} steps={planAnnotation.steps} />
+        ) : (
+          <Markdown
+            append={append}
+            chatMode={chatMode}
+            setChatMode={setChatMode}
+            model={model}
+            provider={provider}
+            html
+          >
+            {content}
+          </Markdown>
+        )}
         {toolInvocations && toolInvocations.length > 0 && (
           <ToolInvocations
             toolInvocations={toolInvocations}
@@ -0,0 +1,31 @@
+import { useState, type ReactNode } from 'react';
+import type { AutoFixAnnotation } from '~/types/context';
+import { classNames } from '~/utils/classNames';
+
+interface AutoFixThreadProps {
+  attempts: AutoFixAnnotation[];
+  defaultOpen: boolean;
+  children: ReactNode;
+}
+
+export function AutoFixThread({ attempts, defaultOpen, children }: AutoFixThreadProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const title = attempts[0]?.title;
+
+  return (
+    <div className="mt-4 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2">
+      <button
+        className="flex items-center gap-2 w-full px-3 py-2 text-sm text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+        onClick={() => setOpen(!open)}
+      >
+        <div className="i-ph:wrench" />
+        <span>
+          Auto fix · {attempts.length} {attempts.length === 1 ? 'attempt' : 'attempts'}
+          {title && ` · ${title}`}
+        </span>
+        <div className={classNames('ml-auto i-ph:caret-down transition-transform', { 'rotate-180': open })} />
+      </button>
+      {open && <div className="px-3 pb-2">{children}</div>}
+    </div>
+  );
+}
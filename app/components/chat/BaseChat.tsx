@@ -7,6 +7,7 @@ import React, { type RefCallback, useEffect, useState } from 'react';
 import { ClientOnly } from 'remix-utils/client-only';
 import { Menu } from '~/components/sidebar/Menu.client';
 import { Workbench } from '~/components/workbench/Workbench.client';
+import type { IChatMetadata } from '~/lib/persistence';
 import { classNames } from '~/utils/classNames';
 import { PROVIDER_LIST } from '~/utils/constants';
 import { Messages } from './Messages.client';
@@ -23,8 +24,9 @@ import type { ActionAlert, SupabaseAlert, DeployAlert, LlmErrorAlertType } from
 import DeployChatAlert from '~/components/deploy/DeployAlert';
 import ChatAlert from './ChatAlert';
 import type { ModelInfo } from '~/lib/modules/llm/types';
+import { resolveModelCapabilities } from '~/lib/modules/llm/capabilities';
 import ProgressCompilation from './ProgressCompilation';
-import type { ProgressAnnotation } from '~/types/context';
+import type { ChatMode, ProgressAnnotation } from '~/types/context';
 import { SupabaseChatAlert } from '~/components/chat/SupabaseAlert';
 import { expoUrlAtom } from '~/lib/stores/qrCodeStore';
 import { useStore } from '@nanostores/react';
@@ -33,6 +35,7 @@ import { ChatBox } from './ChatBox';
 import type { DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import LlmErrorAlert from './LLMApiAlert';
+import { toast } from 'react-toastify';
 
 const TEXTAREA_MIN_HEIGHT = 76;
 
@@ -73,14 +76,16 @@ interface BaseChatProps {
   llmErrorAlert?: LlmErrorAlertType;
   clearLlmErrorAlert?: () => void;
   data?: JSONValue[] | undefined;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   append?: (message: Message) => void;
   designScheme?: DesignScheme;
   setDesignScheme?: (scheme: DesignScheme) => void;
   selectedElement?: ElementInfo | null;
   setSelectedElement?: (element: ElementInfo | null) => void;
   addToolResult?: ({ toolCallId, result }: { toolCallId: string; result: any }) => void;
+  metadata?: IChatMetadata;
+  updateChatMestaData?: (metadata: IChatMetadata) => void;
 }
 
 export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
@@ -106,6 +111,8 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       handleStop,
       importChat,
       exportChat,
+      metadata,
+      updateChatMestaData,
       uploadedFiles = [],
       setUploadedFiles,
       imageDataList = [],
@@ -287,7 +294,14 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       }
     };
 
+    const selectedModelInfo = modelList.find((m) => m.name === model && m.provider === provider?.name);
+    const supportsImages = resolveModelCapabilities(selectedModelInfo ?? { name: model || '' }).vision;
+
     const handleFileUpload = () => {
+      if (!supportsImages) {
+        return;
+      }
+
       const input = document.createElement('input');
       input.type = 'file';
       input.accept = 'image/*';
@@ -321,6 +335,11 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
         if (item.type.startsWith('image/')) {
           e.preventDefault();
 
+          if (!supportsImages) {
+            toast.error(`${model} does not support images`);
+            break;
+          }
+
           const file = item.getAsFile();
 
           if (file) {
@@ -459,6 +478,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                   qrModalOpen={qrModalOpen}
                   setQrModalOpen={setQrModalOpen}
                   handleFileUpload={handleFileUpload}
+                  supportsImages={supportsImages}
                   chatMode={chatMode}
                   setChatMode={setChatMode}
                   designScheme={designScheme}
@@ -491,7 +511,13 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
           </div>
           <ClientOnly>
             {() => (
-              <Workbench chatStarted={chatStarted} isStreaming={isStreaming} setSelectedElement={setSelectedElement} />
+              <Workbench
+                chatStarted={chatStarted}
+                isStreaming={isStreaming}
+                metadata={metadata}
+                updateChatMestaData={updateChatMestaData}
+                setSelectedElement={setSelectedElement}
+              />
             )}
           </ClientOnly>
         </div>
@@ -5,10 +5,10 @@ import { useAnimate } from 'framer-motion';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts } from '~/lib/hooks';
-import { description, useChatHistory } from '~/lib/persistence';
+import { chatMetadata, description, useChatHistory, type IChatMetadata } from '~/lib/persistence';
 import { chatStore } from '~/lib/stores/chat';
 import { workbenchStore } from '~/lib/stores/workbench';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
 import { cubicEasingFn } from '~/utils/easings';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BaseChat } from './BaseChat';
@@ -28,6 +28,14 @@ import type { ElementInfo } from '~/components/workbench/Inspector';
 import type { TextUIPart, FileUIPart, Attachment } from '@ai-sdk/ui-utils';
 import { useMCPStore } from '~/lib/stores/mcp';
 import type { LlmErrorAlertType } from '~/types/actions';
+import type { ChatMode } from '~/types/context';
+import { usePlanRunner } from '~/lib/hooks/usePlanRunner';
+import { useAutoFix } from '~/lib/hooks/useAutoFix';
+import { resetAutoFix } from '~/lib/stores/auto-fix';
+import { clearRejectedActions, rejectedActionsStore } from '~/lib/stores/rejected-actions';
+import { getLockedItemsForChat, isLockPattern } from '~/lib/persistence/lockedFiles';
+import { getCurrentChatId } from '~/utils/fileLocks';
+import { coderModelStore } from '~/lib/stores/plan';
 
 const toastAnimation = cssTransition({
   enter: 'animated fadeInRight',
@@ -39,8 +47,9 @@ const logger = createScopedLogger('Chat');
 export function Chat() {
   renderLogger.trace('Chat');
 
-  const { ready, initialMessages, storeMessageHistory, importChat, exportChat } = useChatHistory();
+  const { ready, initialMessages, storeMessageHistory, importChat, exportChat, updateChatMestaData } = useChatHistory();
   const title = useStore(description);
+  const metadata = useStore(chatMetadata);
   useEffect(() => {
     workbenchStore.setReloadedMessages(initialMessages.map((m) => m.id));
   }, [initialMessages]);
@@ -54,6 +63,8 @@ export function Chat() {
           exportChat={exportChat}
           storeMessageHistory={storeMessageHistory}
           importChat={importChat}
+          metadata={metadata}
+          updateChatMestaData={updateChatMestaData}
         />
       )}
       <ToastContainer
@@ -94,13 +105,13 @@ const processSampledMessages = createSampler(
     initialMessages: Message[];
     isLoading: boolean;
     parseMessages: (messages: Message[], isLoading: boolean) => void;
-    storeMessageHistory: (messages: Message[]) => Promise<void>;
+    storeMessageHistory: (messages: Message[], isLoading?: boolean) => Promise<void>;
   }) => {
     const { messages, initialMessages, isLoading, parseMessages, storeMessageHistory } = options;
     parseMessages(messages, isLoading);
 
     if (messages.length > initialMessages.length) {
-      storeMessageHistory(messages).catch((error) => toast.error(error.message));
+      storeMessageHistory(messages, isLoading).catch((error) => toast.error(error.message));
     }
   },
   50,
@@ -108,14 +119,24 @@ const processSampledMessages = createSampler(
 
 interface ChatProps {
   initialMessages: Message[];
-  storeMessageHistory: (messages: Message[]) => Promise<void>;
+  storeMessageHistory: (messages: Message[], isLoading?: boolean) => Promise<void>;
   importChat: (description: string, messages: Message[]) => Promise<void>;
   exportChat: () => void;
   description?: string;
+  metadata?: IChatMetadata;
+  updateChatMestaData?: (metadata: IChatMetadata) => void;
 }
 
 export const ChatImpl = memo(
-  ({ description, initialMessages, storeMessageHistory, importChat, exportChat }: ChatProps) => {
+  ({
+    description,
+    initialMessages,
+    storeMessageHistory,
+    importChat,
+    exportChat,
+    metadata,
+    updateChatMestaData,
+  }: ChatProps) => {
     useShortcuts();
 
     const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -125,6 +146,7 @@ export const ChatImpl = memo(
     const [searchParams, setSearchParams] = useSearchParams();
     const [fakeLoading, setFakeLoading] = useState(false);
     const files = useStore(workbenchStore.files);
+    const selectedFile = useStore(workbenchStore.selectedFile);
     const [designScheme, setDesignScheme] = useState<DesignScheme>(defaultDesignScheme);
     const actionAlert = useStore(workbenchStore.alert);
     const deployAlert = useStore(workbenchStore.deployAlert);
@@ -133,7 +155,18 @@ export const ChatImpl = memo(
       (project) => project.id === supabaseConn.selectedProjectId,
     );
     const supabaseAlert = useStore(workbenchStore.supabaseAlert);
-    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled } = useSettings();
+    const {
+      activeProviders,
+      promptId,
+      userPrompts,
+      autoSelectTemplate,
+      contextOptimizationEnabled,
+      contextSelectionMode,
+      actionOutputMode,
+      failoverChain,
+      providers,
+    } = useSettings();
+    const userPrompt = userPrompts.find((prompt) => prompt.id === promptId);
     const [llmErrorAlert, setLlmErrorAlert] = useState<LlmErrorAlertType | undefined>(undefined);
     const [model, setModel] = useState(() => {
       const savedModel = Cookies.get('selectedModel');
@@ -141,14 +174,25 @@ export const ChatImpl = memo(
     });
     const [provider, setProvider] = useState(() => {
       const savedProvider = Cookies.get('selectedProvider');
-      return (PROVIDER_LIST.find((p) => p.name === savedProvider) || DEFAULT_PROVIDER) as ProviderInfo;
+
+      // custom providers are only known to the settings
+      return (PROVIDER_LIST.find((p) => p.name === savedProvider) ||
+        (savedProvider && providers[savedProvider]) ||
+        DEFAULT_PROVIDER) as ProviderInfo;
     });
     const { showChat } = useStore(chatStore);
     const [animationScope, animate] = useAnimate();
     const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
-    const [chatMode, setChatMode] = useState<'discuss' | 'build'>('build');
+    const [chatMode, setChatMode] = useState<ChatMode>('build');
     const [selectedElement, setSelectedElement] = useState<ElementInfo | null>(null);
     const mcpSettings = useMCPStore((state) => state.settings);
+    const rejectedActions = useStore(rejectedActionsStore);
+
+    // folders end with a slash, patterns are sent as they are
+    const lockedPaths = getLockedItemsForChat(getCurrentChatId()).map(({ path, isFolder }) => {
+      const relativePath = path.replace(`${WORK_DIR}/`, '');
+      return isFolder && !isLockPattern(path) ? `${relativePath}/` : relativePath;
+    });
 
     const {
       messages,
@@ -169,8 +213,12 @@ export const ChatImpl = memo(
       body: {
         apiKeys,
         files,
+        openFiles: selectedFile ? [selectedFile] : [],
         promptId,
-        contextOptimization: contextOptimizationEnabled,
+        userPrompt: userPrompt && { id: userPrompt.id, template: userPrompt.template },
+        contextOptimization: contextOptimizationEnabled ? contextSelectionMode : false,
+        actionOutputMode,
+        failoverChain,
         chatMode,
         designScheme,
         supabase: {
@@ -182,8 +230,14 @@ export const ChatImpl = memo(
           },
         },
         maxLLMSteps: mcpSettings.maxLLMSteps,
+        lockedPaths,
+        rejectedActions,
       },
       sendExtraMessageFields: true,
+      onResponse: () => {
+        // the model has them now, rejections of the new response go with the request after it
+        clearRejectedActions();
+      },
       onError: (e) => {
         setFakeLoading(false);
         handleError(e, 'chat');
@@ -224,6 +278,40 @@ export const ChatImpl = memo(
       }
     }, [model, provider, searchParams]);
 
+    usePlanRunner({
+      isLoading,
+      error,
+      sendStep: (step, index, total) => {
+        const coder = coderModelStore.get() ?? { provider: provider.name, model };
+        const modifiedFiles = workbenchStore.getModifiedFiles();
+        const userUpdateArtifact = modifiedFiles ? filesToArtifacts(modifiedFiles, `${Date.now()}`) : '';
+
+        chatStore.setKey('aborted', false);
+        workbenchStore.resetAllFileModifications();
+
+        append(
+          {
+            role: 'user',
+            content: `[Model: ${coder.model}]\n\n[Provider: ${coder.provider}]\n\n${userUpdateArtifact}Implement step ${index + 1} of ${total} of the plan: ${step.title}\n\n${step.details}\n\nOnly implement this step, the remaining steps follow in later messages.`,
+          },
+          { body: { chatMode: 'build', planStep: { index, total, title: step.title } } },
+        );
+      },
+    });
+
+    useAutoFix({
+      isLoading,
+      sendFix: (message, annotation) => {
+        chatStore.setKey('aborted', false);
+
+        append({
+          role: 'user',
+          content: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${message}`,
+          annotations: [annotation],
+        });
+      },
+    });
+
     const { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer } = usePromptEnhancer();
     const { parsedMessages, parseMessages } = useMessageParser();
 
@@ -433,6 +521,9 @@ export const ChatImpl = memo(
 
       let finalMessageContent = messageContent;
 
+      // a message from the user starts a new auto fix thread
+      resetAutoFix();
+
       if (selectedElement) {
         console.log('Selected Element:', selectedElement);
 
@@ -654,6 +745,8 @@ export const ChatImpl = memo(
         description={description}
         importChat={importChat}
         exportChat={exportChat}
+        metadata={metadata}
+        updateChatMestaData={updateChatMestaData}
         messages={messages.map((message, i) => {
           if (message.role === 'user') {
             return message;
@@ -1,4 +1,6 @@
 import { AnimatePresence, motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { autoFixStore } from '~/lib/stores/auto-fix';
 import type { ActionAlert } from '~/types/actions';
 import { classNames } from '~/utils/classNames';
 
@@ -10,6 +12,7 @@ interface Props {
 
 export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
   const { description, content, source } = alert;
+  const autoFix = useStore(autoFixStore);
 
   const isPreview = source === 'preview';
   const title = isPreview ? 'Preview Error' : 'Terminal Error';
@@ -53,6 +56,9 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
               className={`mt-2 text-sm text-bolt-elements-textSecondary`}
             >
               <p>{message}</p>
+              {autoFix.status === 'stopped' && (
+                <p className="mt-2 text-xs text-bolt-elements-textTertiary">Auto fix stopped: {autoFix.stopReason}</p>
+              )}
               {description && (
                 <div className="text-xs text-bolt-elements-textSecondary p-2 bg-bolt-elements-background-depth-3 rounded mt-4 mb-4">
                   Error: {description}
@@ -15,6 +15,9 @@ import { SupabaseConnection } from './SupabaseConnection';
 import { ExpoQrModal } from '~/components/workbench/ExpoQrModal';
 import styles from './BaseChat.module.scss';
 import type { ProviderInfo } from '~/types/model';
+import type { ChatMode } from '~/types/context';
+import { useStore } from '@nanostores/react';
+import { coderModelStore, updateCoderModel } from '~/lib/stores/plan';
 import { ColorSchemeDialog } from '~/components/ui/ColorSchemeDialog';
 import type { DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
@@ -46,6 +49,7 @@ interface ChatBoxProps {
   qrModalOpen: boolean;
   setQrModalOpen: (open: boolean) => void;
   handleFileUpload: () => void;
+  supportsImages: boolean;
   setProvider?: ((provider: ProviderInfo) => void) | undefined;
   model?: string | undefined;
   setModel?: ((model: string) => void) | undefined;
@@ -55,8 +59,8 @@ interface ChatBoxProps {
   handleStop?: (() => void) | undefined;
   enhancingPrompt?: boolean | undefined;
   enhancePrompt?: (() => void) | undefined;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   designScheme?: DesignScheme;
   setDesignScheme?: (scheme: DesignScheme) => void;
   selectedElement?: ElementInfo | null;
@@ -64,6 +68,10 @@ interface ChatBoxProps {
 }
 
 export const ChatBox: React.FC<ChatBoxProps> = (props) => {
+  const coderModel = useStore(coderModelStore);
+  const coderProvider =
+    props.providerList?.find((provider) => provider.name === coderModel?.provider) ?? props.provider;
+
   return (
     <div
       className={classNames(
@@ -116,7 +124,29 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
                 providerList={props.providerList || (PROVIDER_LIST as ProviderInfo[])}
                 apiKeys={props.apiKeys}
                 modelLoading={props.isModelLoading}
+                label={props.chatMode === 'plan' ? 'Planner' : undefined}
               />
+              {props.chatMode === 'plan' && coderProvider && (
+                <div className="mt-2">
+                  <ModelSelector
+                    key={`coder:${coderProvider.name}:${props.modelList.length}`}
+                    label="Coder"
+                    model={coderModel?.model ?? props.model}
+                    setModel={(model) => updateCoderModel({ provider: coderProvider.name, model })}
+                    modelList={props.modelList}
+                    provider={coderProvider}
+                    setProvider={(provider) =>
+                      updateCoderModel({
+                        provider: provider.name,
+                        model: props.modelList.find((model) => model.provider === provider.name)?.name ?? '',
+                      })
+                    }
+                    providerList={props.providerList || (PROVIDER_LIST as ProviderInfo[])}
+                    apiKeys={props.apiKeys}
+                    modelLoading={props.isModelLoading}
+                  />
+                </div>
+              )}
               {(props.providerList || []).length > 0 &&
                 props.provider &&
                 (!LOCAL_PROVIDERS.includes(props.provider.name) || 'OpenAILike') && (
@@ -193,6 +223,12 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
             e.currentTarget.style.border = '1px solid var(--bolt-elements-borderColor)';
 
             const files = Array.from(e.dataTransfer.files);
+
+            if (!props.supportsImages && files.some((file) => file.type.startsWith('image/'))) {
+              toast.error(`${props.model} does not support images`);
+              return;
+            }
+
             files.forEach((file) => {
               if (file.type.startsWith('image/')) {
                 const reader = new FileReader();
@@ -264,7 +300,12 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
           <div className="flex gap-1 items-center">
             <ColorSchemeDialog designScheme={props.designScheme} setDesignScheme={props.setDesignScheme} />
             <McpTools />
-            <IconButton title="Upload file" className="transition-all" onClick={() => props.handleFileUpload()}>
+            <IconButton
+              title={props.supportsImages ? 'Upload file' : `${props.model} does not support images`}
+              disabled={!props.supportsImages}
+              className="transition-all"
+              onClick={() => props.handleFileUpload()}
+            >
               <div className="i-ph:paperclip text-xl"></div>
             </IconButton>
             <IconButton
@@ -289,6 +330,21 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
               onStop={props.stopListening}
               disabled={props.isStreaming}
             />
+            <IconButton
+              title="Plan with one model and build each step with another"
+              className={classNames(
+                'transition-all flex items-center gap-1 px-1.5',
+                props.chatMode === 'plan'
+                  ? '!bg-bolt-elements-item-backgroundAccent !text-bolt-elements-item-contentAccent'
+                  : 'bg-bolt-elements-item-backgroundDefault text-bolt-elements-item-contentDefault',
+              )}
+              onClick={() => {
+                props.setChatMode?.(props.chatMode === 'plan' ? 'build' : 'plan');
+              }}
+            >
+              <div className="i-ph:list-checks text-xl" />
+              {props.chatMode === 'plan' ? <span>Plan</span> : <span />}
+            </IconButton>
             {props.chatStarted && (
               <IconButton
                 title="Discuss"
@@ -55,7 +55,7 @@ export default function GitCloneButton({ importChat, className }: GitCloneButton
     setLoading(true);
 
     try {
-      const { workdir, data } = await gitClone(repoUrl);
+      const { workdir, data, commit, branch } = await gitClone(repoUrl);
 
       if (importChat) {
         const filePaths = Object.keys(data).filter((filePath) => !ig.ignores(filePath));
@@ -142,7 +142,11 @@ ${escapeBoltTags(file.content)}
           messages.push(commandsMessage);
         }
 
-        await importChat(`Git Project:${repoUrl.split('/').slice(-1)[0]}`, messages);
+        await importChat(`Git Project:${repoUrl.split('/').slice(-1)[0]}`, messages, {
+          gitUrl: repoUrl,
+          gitBranch: branch,
+          gitCommit: commit,
+        });
       }
     } catch (error) {
       console.error('Error during import:', error);
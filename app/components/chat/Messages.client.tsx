@@ -1,15 +1,17 @@
 import type { Message } from 'ai';
-import { Fragment } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { classNames } from '~/utils/classNames';
 import { AssistantMessage } from './AssistantMessage';
 import { UserMessage } from './UserMessage';
-import { useLocation } from '@remix-run/react';
-import { db, chatId } from '~/lib/persistence/useChatHistory';
-import { forkChat } from '~/lib/persistence/db';
+import { useLoaderData, useLocation } from '@remix-run/react';
+import { chatId, chatStorage } from '~/lib/persistence/useChatHistory';
 import { toast } from 'react-toastify';
 import { forwardRef } from 'react';
 import type { ForwardedRef } from 'react';
 import type { ProviderInfo } from '~/types/model';
+import type { ChatMode } from '~/types/context';
+import { getAutoFixAnnotation, groupAutoFixThreads } from '~/utils/auto-fix';
+import { AutoFixThread } from './AutoFixThread';
 
 interface MessagesProps {
   id?: string;
@@ -17,8 +19,8 @@ interface MessagesProps {
   isStreaming?: boolean;
   messages?: Message[];
   append?: (message: Message) => void;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   model?: string;
   provider?: ProviderInfo;
   addToolResult: ({ toolCallId, result }: { toolCallId: string; result: any }) => void;
@@ -28,6 +30,24 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
   (props: MessagesProps, ref: ForwardedRef<HTMLDivElement> | undefined) => {
     const { id, isStreaming = false, messages = [] } = props;
     const location = useLocation();
+    const { messageId: searchedMessageId } = useLoaderData<{ messageId?: string }>() ?? {};
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string>();
+
+    // jump to the message picked in the history search once it has been rendered
+    useEffect(() => {
+      if (!searchedMessageId || !messages.some((message) => message.id === searchedMessageId)) {
+        return undefined;
+      }
+
+      document
+        .querySelector(`[data-message-id="${CSS.escape(searchedMessageId)}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedMessageId(searchedMessageId);
+
+      const timeout = setTimeout(() => setHighlightedMessageId(undefined), 3000);
+
+      return () => clearTimeout(timeout);
+    }, [searchedMessageId, messages.length > 0]);
 
     const handleRewind = (messageId: string) => {
       const searchParams = new URLSearchParams(location.search);
@@ -37,62 +57,78 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
 
     const handleFork = async (messageId: string) => {
       try {
-        if (!db || !chatId.get()) {
+        if (!chatStorage || !chatId.get()) {
           toast.error('Chat persistence is not available');
           return;
         }
 
-        const urlId = await forkChat(db, chatId.get()!, messageId);
+        const urlId = await chatStorage.forkChat(chatId.get()!, messageId);
         window.location.href = `/chat/${urlId}`;
       } catch (error) {
         toast.error('Failed to fork chat: ' + (error as Error).message);
       }
     };
 
-    return (
-      <div id={id} className={props.className} ref={ref}>
-        {messages.length > 0
-          ? messages.map((message, index) => {
-              const { role, content, id: messageId, annotations, parts } = message;
-              const isUserMessage = role === 'user';
-              const isFirst = index === 0;
-              const isHidden = annotations?.includes('hidden');
+    const renderMessage = (message: Message, index: number) => {
+      const { role, content, id: messageId, annotations, parts } = message;
+      const isUserMessage = role === 'user';
+      const isFirst = index === 0;
+      const isHidden = annotations?.includes('hidden');
 
-              if (isHidden) {
-                return <Fragment key={index} />;
-              }
+      if (isHidden) {
+        return <Fragment key={index} />;
+      }
+
+      return (
+        <div
+          key={index}
+          data-message-id={messageId}
+          className={classNames('flex gap-4 py-3 w-full rounded-lg transition-colors', {
+            'mt-4': !isFirst,
+            'ring-2 ring-purple-500/50': messageId === highlightedMessageId,
+          })}
+        >
+          <div className="grid grid-col-1 w-full">
+            {isUserMessage ? (
+              <UserMessage content={content} parts={parts} />
+            ) : (
+              <AssistantMessage
+                content={content}
+                annotations={message.annotations}
+                messageId={messageId}
+                onRewind={handleRewind}
+                onFork={handleFork}
+                append={props.append}
+                chatMode={props.chatMode}
+                setChatMode={props.setChatMode}
+                model={props.model}
+                provider={props.provider}
+                parts={parts}
+                addToolResult={props.addToolResult}
+              />
+            )}
+          </div>
+        </div>
+      );
+    };
+
+    const groups = groupAutoFixThreads(messages);
 
-              return (
-                <div
-                  key={index}
-                  className={classNames('flex gap-4 py-3 w-full rounded-lg', {
-                    'mt-4': !isFirst,
-                  })}
-                >
-                  <div className="grid grid-col-1 w-full">
-                    {isUserMessage ? (
-                      <UserMessage content={content} parts={parts} />
-                    ) : (
-                      <AssistantMessage
-                        content={content}
-                        annotations={message.annotations}
-                        messageId={messageId}
-                        onRewind={handleRewind}
-                        onFork={handleFork}
-                        append={props.append}
-                        chatMode={props.chatMode}
-                        setChatMode={props.setChatMode}
-                        model={props.model}
-                        provider={props.provider}
-                        parts={parts}
-                        addToolResult={props.addToolResult}
-                      />
-                    )}
-                  </div>
-                </div>
-              );
-            })
-          : null}
+    return (
+      <div id={id} className={props.className} ref={ref}>
+        {groups.map((group, groupIndex) =>
+          group.threadId ? (
+            <AutoFixThread
+              key={group.threadId}
+              attempts={group.messages.flatMap(({ message }) => getAutoFixAnnotation(message) ?? [])}
+              defaultOpen={groupIndex === groups.length - 1}
+            >
+              {group.messages.map(({ message, index }) => renderMessage(message, index))}
+            </AutoFixThread>
+          ) : (
+            group.messages.map(({ message, index }) => renderMessage(message, index))
+          ),
+        )}
         {isStreaming && (
           <div className="text-center w-full  text-bolt-elements-item-contentAccent i-svg-spinners:3-dots-fade text-4xl mt-4"></div>
         )}
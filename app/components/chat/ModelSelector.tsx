@@ -3,6 +3,7 @@ import { useEffect, useState, useRef } from 'react';
 import type { KeyboardEvent } from 'react';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import { classNames } from '~/utils/classNames';
+import { resolveModelCapabilities } from '~/lib/modules/llm/capabilities';
 
 interface ModelSelectorProps {
   model?: string;
@@ -13,10 +14,19 @@ interface ModelSelectorProps {
   providerList: ProviderInfo[];
   apiKeys: Record<string, string>;
   modelLoading?: string;
+
+  // names the role of the model when the chat uses more than one
+  label?: string;
 }
 
 // Helper function to determine if a model is likely free
 const isModelLikelyFree = (model: ModelInfo, providerName?: string): boolean => {
+  const pricing = model.capabilities?.pricing;
+
+  if (pricing) {
+    return pricing.input === 0 && pricing.output === 0;
+  }
+
   // OpenRouter models with zero pricing in the label
   if (providerName === 'OpenRouter' && model.label.includes('in:$0.00') && model.label.includes('out:$0.00')) {
     return true;
@@ -30,6 +40,23 @@ const isModelLikelyFree = (model: ModelInfo, providerName?: string): boolean =>
   return false;
 };
 
+const ModelCapabilityIcons = ({ model }: { model: ModelInfo }) => {
+  const { vision, tools, reasoning, pricing } = resolveModelCapabilities(model);
+
+  return (
+    <span className="flex items-center gap-1 ml-2 text-xs text-bolt-elements-textTertiary shrink-0">
+      {vision && <span className="i-ph:image" title="Understands images" />}
+      {tools && <span className="i-ph:wrench" title="Supports tool calls" />}
+      {reasoning && <span className="i-ph:brain" title="Reasoning model" />}
+      {pricing && (pricing.input > 0 || pricing.output > 0) && (
+        <span title="USD per million input / output tokens">
+          ${pricing.input.toFixed(2)}/${pricing.output.toFixed(2)}
+        </span>
+      )}
+    </span>
+  );
+};
+
 export const ModelSelector = ({
   model,
   setModel,
@@ -38,6 +65,7 @@ export const ModelSelector = ({
   modelList,
   providerList,
   modelLoading,
+  label,
 }: ModelSelectorProps) => {
   const [modelSearchQuery, setModelSearchQuery] = useState('');
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState(false);
@@ -244,7 +272,8 @@ export const ModelSelector = ({
   }
 
   return (
-    <div className="flex gap-2 flex-col sm:flex-row">
+    <div className="flex gap-2 flex-col sm:flex-row sm:items-center">
+      {label && <span className="shrink-0 w-16 text-xs text-bolt-elements-textTertiary">{label}</span>}
       {/* Provider Combobox */}
       <div className="relative flex w-full" onKeyDown={handleProviderKeyDown} ref={providerDropdownRef}>
         <div
@@ -515,9 +544,12 @@ export const ModelSelector = ({
                   >
                     <div className="flex items-center justify-between">
                       <span>{modelOption.label}</span>
-                      {isModelLikelyFree(modelOption, provider?.name) && (
-                        <span className="i-ph:gift text-xs text-purple-400 ml-2" title="Free model" />
-                      )}
+                      <span className="flex items-center">
+                        <ModelCapabilityIcons model={modelOption} />
+                        {isModelLikelyFree(modelOption, provider?.name) && (
+                          <span className="i-ph:gift text-xs text-purple-400 ml-2" title="Free model" />
+                        )}
+                      </span>
                     </div>
                   </div>
                 ))
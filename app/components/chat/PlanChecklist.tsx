@@ -0,0 +1,144 @@
+import { memo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { classNames } from '~/utils/classNames';
+import {
+  coderModelStore,
+  getPlan,
+  planStore,
+  setPlanStatus,
+  updatePlanStep,
+  type PlanStepStatus,
+} from '~/lib/stores/plan';
+import type { PlanStep } from '~/types/context';
+
+interface PlanChecklistProps {
+  messageId: string;
+  steps: PlanStep[];
+}
+
+const STATUS_ICONS: Record<PlanStepStatus, string> = {
+  pending: 'i-ph:circle text-bolt-elements-textTertiary',
+  running: 'i-svg-spinners:90-ring-with-bg text-bolt-elements-loader-progress',
+  done: 'i-ph:check-circle-fill text-green-500',
+  skipped: 'i-ph:minus-circle text-bolt-elements-textTertiary',
+  failed: 'i-ph:x-circle-fill text-red-500',
+};
+
+const iconButtonClassName = 'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary transition-colors';
+
+export const PlanChecklist = memo(({ messageId, steps }: PlanChecklistProps) => {
+  const plans = useStore(planStore);
+  const coderModel = useStore(coderModelStore);
+  const plan = plans[messageId] ?? getPlan(messageId, steps);
+  const [editing, setEditing] = useState<{ index: number; title: string; details: string } | null>(null);
+
+  const hasPendingSteps = plan.steps.some((step) => step.status === 'pending');
+  const doneCount = plan.steps.filter((step) => step.status === 'done').length;
+
+  const saveEdit = () => {
+    if (editing && editing.title.trim()) {
+      updatePlanStep(messageId, steps, editing.index, { title: editing.title.trim(), details: editing.details.trim() });
+    }
+
+    setEditing(null);
+  };
+
+  return (
+    <div className="rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-3 my-2">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm text-bolt-elements-textPrimary">
+          Plan · {doneCount}/{plan.steps.length} done
+          {coderModel && (
+            <span className="ml-2 text-xs text-bolt-elements-textTertiary">
+              coder: {coderModel.provider} ({coderModel.model})
+            </span>
+          )}
+        </div>
+        {plan.status === 'running' ? (
+          <button
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-bolt-elements-item-backgroundDefault text-bolt-elements-textPrimary"
+            onClick={() => setPlanStatus(messageId, steps, 'paused')}
+          >
+            <div className="i-ph:pause" />
+            Pause after this step
+          </button>
+        ) : (
+          hasPendingSteps && (
+            <button
+              className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent"
+              onClick={() => setPlanStatus(messageId, steps, 'running')}
+            >
+              <div className="i-ph:play" />
+              {plan.status === 'paused' ? 'Resume' : 'Run plan'}
+            </button>
+          )
+        )}
+      </div>
+      <ol className="space-y-2">
+        {plan.steps.map((step, index) => (
+          <li key={index} className="flex gap-2 text-sm">
+            <div className={classNames('mt-0.5 shrink-0 w-4 h-4', STATUS_ICONS[step.status])} />
+            {editing?.index === index ? (
+              <div className="flex-1 space-y-1">
+                <input
+                  className="w-full px-2 py-1 rounded-md text-sm bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textPrimary"
+                  value={editing.title}
+                  onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                />
+                <textarea
+                  className="w-full h-20 px-2 py-1 rounded-md text-xs bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textSecondary"
+                  value={editing.details}
+                  onChange={(e) => setEditing({ ...editing, details: e.target.value })}
+                />
+                <div className="flex gap-2 text-xs">
+                  <button className="text-bolt-elements-item-contentAccent" onClick={saveEdit}>
+                    Save
+                  </button>
+                  <button className="text-bolt-elements-textTertiary" onClick={() => setEditing(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex-1 min-w-0">
+                <div
+                  className={classNames('text-bolt-elements-textPrimary', {
+                    'line-through text-bolt-elements-textTertiary': step.status === 'skipped',
+                  })}
+                >
+                  {step.title}
+                </div>
+                {step.details && <div className="text-xs text-bolt-elements-textSecondary">{step.details}</div>}
+              </div>
+            )}
+            {editing?.index !== index && (
+              <div className="flex gap-2 shrink-0 items-start">
+                {step.status === 'pending' && (
+                  <>
+                    <button
+                      className={classNames('i-ph:pencil-simple', iconButtonClassName)}
+                      title="Edit step"
+                      onClick={() => setEditing({ index, title: step.title, details: step.details })}
+                    />
+                    <button
+                      className={classNames('i-ph:skip-forward', iconButtonClassName)}
+                      title="Skip step"
+                      onClick={() => updatePlanStep(messageId, steps, index, { status: 'skipped' })}
+                    />
+                  </>
+                )}
+                {(step.status === 'skipped' || step.status === 'failed') && (
+                  <button
+                    className={classNames('i-ph:arrow-counter-clockwise', iconButtonClassName)}
+                    title={step.status === 'failed' ? 'Retry step' : 'Include step'}
+                    onClick={() => updatePlanStep(messageId, steps, index, { status: 'pending' })}
+                  />
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+});
@@ -1,14 +1,20 @@
 import React from 'react';
 import type { Template } from '~/types/template';
 import { STARTER_TEMPLATES } from '~/utils/constants';
+import { createGitHost } from '~/lib/modules/git-hosts/registry';
 
 interface FrameworkLinkProps {
   template: Template;
 }
 
+const getCloneUrl = ({ githubRepo, gitHost }: Template) =>
+  gitHost
+    ? createGitHost(gitHost.id, { token: '', baseUrl: gitHost.baseUrl }).getCloneUrl(githubRepo)
+    : `https://github.com/${githubRepo}.git`;
+
 const FrameworkLink: React.FC<FrameworkLinkProps> = ({ template }) => (
   <a
-    href={`/git?url=https://github.com/${template.githubRepo}.git`}
+    href={`/git?url=${getCloneUrl(template)}`}
     data-state="closed"
     data-discover="true"
     className="items-center justify-center"
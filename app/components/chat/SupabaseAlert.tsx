@@ -4,6 +4,8 @@ import { classNames } from '~/utils/classNames';
 import { supabaseConnection } from '~/lib/stores/supabase';
 import { useStore } from '@nanostores/react';
 import { useState } from 'react';
+import { applyMigration, getProjectMigrations } from '~/lib/stores/supabase-migrations';
+import { workbenchStore } from '~/lib/stores/workbench';
 
 interface Props {
   alert: SupabaseAlert;
@@ -44,6 +46,17 @@ export function SupabaseChatAlert({ alert, clearAlert, postMessage }: Props) {
     setIsExecuting(true);
 
     try {
+      // queries repeating a migration file are applied and recorded as that migration, after the pending ones before it
+      const migrations = getProjectMigrations(workbenchStore.files.get());
+      const migration = migrations.find((file) => file.content.trim() === sql.trim());
+
+      if (migration) {
+        await applyMigration(migration, migrations);
+        clearAlert();
+
+        return;
+      }
+
       const response = await fetch('/api/supabase/query', {
         method: 'POST',
         headers: {
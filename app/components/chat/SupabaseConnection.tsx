@@ -5,6 +5,7 @@ import { useStore } from '@nanostores/react';
 import { chatId } from '~/lib/persistence/useChatHistory';
 import { fetchSupabaseStats } from '~/lib/stores/supabase';
 import { Dialog, DialogRoot, DialogClose, DialogTitle, DialogButton } from '~/components/ui/Dialog';
+import { SupabaseMigrations } from './SupabaseMigrations';
 
 export function SupabaseConnection() {
   const {
@@ -291,6 +292,8 @@ export function SupabaseConnection() {
                   </div>
                 )}
 
+                {supabaseConn.selectedProjectId && <SupabaseMigrations projectId={supabaseConn.selectedProjectId} />}
+
                 <div className="flex justify-end gap-2 mt-6">
                   <DialogClose asChild>
                     <DialogButton type="secondary">Close</DialogButton>
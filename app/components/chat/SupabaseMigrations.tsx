@@ -0,0 +1,175 @@
+import { useEffect, useMemo } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import type { MigrationState } from '~/lib/modules/supabase/migrations';
+import {
+  applyPendingMigrations,
+  dryRunMigration,
+  getProjectMigrations,
+  isRunningMigrations,
+  refreshMigrations,
+  rollbackMigration,
+  supabaseMigrations,
+} from '~/lib/stores/supabase-migrations';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+
+const STATE_CLASSES: Record<MigrationState, string> = {
+  applied: 'bg-[#3ECF8E]/10 text-[#3ECF8E]',
+  pending: 'bg-amber-500/10 text-amber-500',
+  modified: 'bg-orange-500/10 text-orange-500',
+  missing: 'bg-bolt-elements-background-depth-3 text-bolt-elements-textTertiary',
+};
+
+const STATE_TITLES: Record<MigrationState, string> = {
+  applied: 'Applied',
+  pending: 'Not applied yet',
+  modified: 'Changed since it was applied',
+  missing: 'Applied, but the file is not in this project',
+};
+
+const buttonClassName =
+  'px-2 py-1 rounded-md text-xs bg-[#F0F0F0] dark:bg-[#252525] text-bolt-elements-textSecondary hover:bg-[#E5E5E5] dark:hover:bg-[#333333] flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed';
+
+interface SupabaseMigrationsProps {
+  projectId: string;
+}
+
+/**
+ * The migrations of the project in `supabase/migrations` and whether they are applied to the selected Supabase project
+ */
+export function SupabaseMigrations({ projectId }: SupabaseMigrationsProps) {
+  const files = useStore(workbenchStore.files);
+  const migrations = useStore(supabaseMigrations);
+  const isRunning = useStore(isRunningMigrations);
+
+  const migrationFiles = useMemo(() => getProjectMigrations(files), [files]);
+  const filesKey = migrationFiles.map((file) => `${file.name}\n${file.content}`).join('\n');
+
+  const refresh = () =>
+    refreshMigrations(migrationFiles).catch((error) => {
+      console.error('Failed to load migrations:', error);
+      toast.error(`Failed to load migrations: ${error.message}`);
+    });
+
+  // the list of another project is not shown while loading
+  useEffect(() => {
+    supabaseMigrations.set([]);
+  }, [projectId]);
+
+  useEffect(() => {
+    refresh();
+  }, [projectId, filesKey]);
+
+  const pending = migrations.filter((migration) => migration.state === 'pending');
+  const latest = migrations.filter((migration) => migration.applied).at(-1);
+
+  const run = async (task: () => Promise<unknown>, success: string) => {
+    try {
+      await task();
+      toast.success(success);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDryRun = () => {
+    const next = pending[0];
+
+    if (next?.file) {
+      run(() => dryRunMigration(next.file!, migrationFiles), `${next.name} ran without errors`);
+    }
+  };
+
+  const handleApply = () => run(() => applyPendingMigrations(migrationFiles), 'Applied the pending migrations');
+
+  const handleRollback = () => {
+    if (!latest?.applied) {
+      return;
+    }
+
+    if (
+      window.confirm(
+        `Roll back ${latest.name} with this migration?\n\n${latest.applied.downSql || '-- nothing to undo'}`,
+      )
+    ) {
+      run(() => rollbackMigration(latest.name, migrationFiles), `Rolled back ${latest.name}`);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-bolt-elements-textPrimary flex items-center gap-2">
+          <div className="i-ph:stack w-4 h-4" />
+          Migrations
+          {pending.length > 0 && <span className="text-xs text-amber-500">{pending.length} pending</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={refresh} disabled={isRunning} className={buttonClassName} title="Refresh migrations">
+            <div className={classNames('i-ph:arrows-clockwise w-3 h-3', { 'animate-spin': isRunning })} />
+          </button>
+          <button
+            onClick={handleDryRun}
+            disabled={isRunning || pending.length === 0}
+            className={buttonClassName}
+            title="Run the next pending migration in a transaction that is rolled back"
+          >
+            <div className="i-ph:flask w-3 h-3" />
+            Dry run
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isRunning || pending.length === 0}
+            className="px-2 py-1 rounded-md text-xs bg-[#3ECF8E] text-white hover:bg-[#3BBF84] flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <div className="i-ph:play w-3 h-3" />
+            Apply pending
+          </button>
+        </div>
+      </div>
+
+      {migrations.length === 0 ? (
+        <div className="text-sm text-bolt-elements-textSecondary flex items-center gap-2">
+          <div className="i-ph:info w-4 h-4" />
+          No migrations in supabase/migrations
+        </div>
+      ) : (
+        <div className="grid gap-1 max-h-60 overflow-y-auto">
+          {migrations.map((migration) => (
+            <div
+              key={migration.name}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A]"
+            >
+              <span
+                className={classNames('px-1.5 py-0.5 rounded text-xs shrink-0', STATE_CLASSES[migration.state])}
+                title={STATE_TITLES[migration.state]}
+              >
+                {migration.state}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-sm text-bolt-elements-textPrimary font-mono">
+                {migration.name}
+              </span>
+              {migration === latest && (
+                <button
+                  onClick={handleRollback}
+                  disabled={isRunning || migration.applied?.downSql === undefined}
+                  className={buttonClassName}
+                  title={
+                    migration.applied?.downSql === undefined
+                      ? 'This migration can not be undone automatically'
+                      : 'Undo this migration with its generated down migration'
+                  }
+                >
+                  <div className="i-ph:arrow-counter-clockwise w-3 h-3" />
+                  Roll back
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
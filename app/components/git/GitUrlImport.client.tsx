@@ -52,7 +52,7 @@ export function GitUrlImport() {
       const ig = ignore().add(IGNORE_PATTERNS);
 
       try {
-        const { workdir, data } = await gitClone(repoUrl);
+        const { workdir, data, commit, branch } = await gitClone(repoUrl);
 
         if (importChat) {
           const filePaths = Object.keys(data).filter((filePath) => !ig.ignores(filePath));
@@ -100,7 +100,11 @@ ${escapeBoltTags(file.content)}
             messages.push(commandsMessage);
           }
 
-          await importChat(`Git Project:${repoUrl.split('/').slice(-1)[0]}`, messages, { gitUrl: repoUrl });
+          await importChat(`Git Project:${repoUrl.split('/').slice(-1)[0]}`, messages, {
+            gitUrl: repoUrl,
+            gitBranch: branch,
+            gitCommit: commit,
+          });
         }
       } catch (error) {
         console.error('Error during import:', error);
@@ -0,0 +1,39 @@
+import type { ChatSearchResult } from '~/lib/persistence';
+
+interface HistorySearchResultsProps {
+  results: ChatSearchResult[];
+}
+
+export function HistorySearchResults({ results }: HistorySearchResultsProps) {
+  if (results.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 first:mt-0 space-y-1">
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 sticky top-0 z-1 bg-white dark:bg-gray-950 px-4 py-1">
+        Matching messages
+      </div>
+      <div className="space-y-0.5 pr-1">
+        {results.map((result) => (
+          <a
+            key={`${result.chatId}-${result.messageId}`}
+            href={`/chat/${result.urlId ?? result.chatId}?message=${encodeURIComponent(result.messageId)}`}
+            className="block rounded-lg px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50/80 dark:hover:bg-gray-800/30 transition-colors"
+          >
+            <div className="truncate font-medium">{result.description || `Chat ${result.chatId}`}</div>
+            {result.snippet && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">{result.snippet}</div>
+            )}
+            {result.filePaths.length > 0 && (
+              <div className="flex items-center gap-1 mt-0.5 text-xs text-purple-500 truncate">
+                <span className="i-ph:file-code h-3 w-3 shrink-0" />
+                <span className="truncate">{result.filePaths.join(', ')}</span>
+              </div>
+            )}
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -6,9 +6,10 @@ import { ThemeSwitch } from '~/components/ui/ThemeSwitch';
 import { ControlPanel } from '~/components/@settings/core/ControlPanel';
 import { SettingsButton } from '~/components/ui/SettingsButton';
 import { Button } from '~/components/ui/Button';
-import { db, deleteById, getAll, chatId, type ChatHistoryItem, useChatHistory } from '~/lib/persistence';
+import { chatId, chatStorage, type ChatHistoryItem, type ChatSearchResult, useChatHistory } from '~/lib/persistence';
 import { cubicEasingFn } from '~/utils/easings';
 import { HistoryItem } from './HistoryItem';
+import { HistorySearchResults } from './HistorySearchResults';
 import { binDates } from './date-binning';
 import { useSearchFilter } from '~/lib/hooks/useSearchFilter';
 import { classNames } from '~/utils/classNames';
@@ -37,9 +38,7 @@ const menuVariants = {
 } satisfies Variants;
 
 type DialogContent =
-  | { type: 'delete'; item: ChatHistoryItem }
-  | { type: 'bulkDelete'; items: ChatHistoryItem[] }
-  | null;
+  { type: 'delete'; item: ChatHistoryItem } | { type: 'bulkDelete'; items: ChatHistoryItem[] } | null;
 
 function CurrentDateTime() {
   const [dateTime, setDateTime] = useState(new Date());
@@ -74,14 +73,42 @@ export const Menu = () => {
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
 
-  const { filteredItems: filteredList, handleSearchChange } = useSearchFilter({
+  const [messageResults, setMessageResults] = useState<ChatSearchResult[]>([]);
+
+  const {
+    searchQuery,
+    filteredItems: filteredList,
+    handleSearchChange,
+  } = useSearchFilter({
     items: list,
     searchFields: ['description'],
   });
 
+  useEffect(() => {
+    let cancelled = false;
+
+    if (chatStorage && searchQuery.trim()) {
+      chatStorage
+        .searchChats(searchQuery, 10)
+        .then((results) => {
+          if (!cancelled) {
+            setMessageResults(results);
+          }
+        })
+        .catch((error) => toast.error(error.message));
+    } else {
+      setMessageResults([]);
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery]);
+
   const loadEntries = useCallback(() => {
-    if (db) {
-      getAll(db)
+    if (chatStorage) {
+      chatStorage
+        .getAll()
         .then((list) => list.filter((item) => item.urlId && item.description))
         .then(setList)
         .catch((error) => toast.error(error.message));
@@ -90,7 +117,7 @@ export const Menu = () => {
 
   const deleteChat = useCallback(
     async (id: string): Promise<void> => {
-      if (!db) {
+      if (!chatStorage) {
         throw new Error('Database not available');
       }
 
@@ -104,10 +131,10 @@ export const Menu = () => {
       }
 
       // Delete the chat from the database
-      await deleteById(db, id);
+      await chatStorage.deleteById(id);
       console.log('Successfully deleted chat:', id);
     },
-    [db],
+    [chatStorage],
   );
 
   const deleteItem = useCallback(
@@ -150,7 +177,7 @@ export const Menu = () => {
 
   const deleteSelectedItems = useCallback(
     async (itemsToDeleteIds: string[]) => {
-      if (!db || itemsToDeleteIds.length === 0) {
+      if (!chatStorage || itemsToDeleteIds.length === 0) {
         console.log('Bulk delete skipped: No DB or no items to delete.');
         return;
       }
@@ -199,7 +226,7 @@ export const Menu = () => {
         window.location.pathname = '/';
       }
     },
-    [deleteChat, loadEntries, db],
+    [deleteChat, loadEntries, chatStorage],
   );
 
   const closeDialog = () => {
@@ -389,7 +416,7 @@ export const Menu = () => {
               <input
                 className="w-full bg-gray-50 dark:bg-gray-900 relative pl-9 pr-3 py-2 rounded-lg focus:outline-none focus:ring-1 focus:ring-purple-500/50 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-500 border border-gray-200 dark:border-gray-800"
                 type="search"
-                placeholder="Search chats..."
+                placeholder="Search chats and messages..."
                 onChange={handleSearchChange}
                 aria-label="Search chats"
               />
@@ -414,11 +441,12 @@ export const Menu = () => {
             )}
           </div>
           <div className="flex-1 overflow-auto px-3 pb-3">
-            {filteredList.length === 0 && (
+            {filteredList.length === 0 && messageResults.length === 0 && (
               <div className="px-4 text-gray-500 dark:text-gray-400 text-sm">
                 {list.length === 0 ? 'No previous conversations' : 'No matches found'}
               </div>
             )}
+            {!selectionMode && <HistorySearchResults results={messageResults} />}
             <DialogRoot open={dialogContent !== null}>
               {binDates(filteredList).map(({ category, items }) => (
                 <div key={category} className="mt-2 first:mt-0 space-y-1">
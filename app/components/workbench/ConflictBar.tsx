@@ -0,0 +1,59 @@
+import { memo } from 'react';
+import { toast } from 'react-toastify';
+import type { EditorDocument } from '~/components/editor/codemirror/CodeMirrorEditor';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { findConflicts, resolveConflict, type ConflictChoice } from '~/utils/merge';
+
+interface ConflictBarProps {
+  editorDocument?: EditorDocument;
+}
+
+const CHOICES: Array<{ choice: ConflictChoice; label: string; title: string }> = [
+  { choice: 'ours', label: 'Keep ours', title: 'Keep the version of this project' },
+  { choice: 'theirs', label: 'Keep theirs', title: 'Keep the version of the remote' },
+  { choice: 'both', label: 'Keep both', title: 'Keep this project first, then the remote' },
+];
+
+/**
+ * Resolves the merge conflicts of the open file one at a time, from the top
+ */
+export const ConflictBar = memo(({ editorDocument }: ConflictBarProps) => {
+  const conflicts = editorDocument ? findConflicts(editorDocument.value) : [];
+
+  if (!editorDocument || conflicts.length === 0) {
+    return null;
+  }
+
+  const resolve = async (choice: ConflictChoice) => {
+    workbenchStore.setCurrentDocumentContent(resolveConflict(editorDocument.value, 0, choice));
+
+    try {
+      await workbenchStore.saveCurrentDocument();
+    } catch (error) {
+      console.error('Failed to save the resolved file:', error);
+      toast.error('Failed to save the resolved file');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 text-sm border-b border-bolt-elements-borderColor bg-amber-500/10 text-bolt-elements-textPrimary">
+      <div className="i-ph:git-merge text-amber-500" />
+      <span>
+        {conflicts.length} {conflicts.length === 1 ? 'conflict' : 'conflicts'}, resolving the one at line{' '}
+        {conflicts[0].start + 1}
+      </span>
+      <div className="flex gap-1 ml-auto">
+        {CHOICES.map(({ choice, label, title }) => (
+          <button
+            key={choice}
+            title={title}
+            className="px-2 py-0.5 rounded-md text-xs bg-bolt-elements-item-backgroundDefault text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive"
+            onClick={() => resolve(choice)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+});
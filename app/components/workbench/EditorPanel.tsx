@@ -25,6 +25,7 @@ import { workbenchStore } from '~/lib/stores/workbench';
 import { Search } from './Search'; // <-- Ensure Search is imported
 import { classNames } from '~/utils/classNames'; // <-- Import classNames if not already present
 import { LockManager } from './LockManager'; // <-- Import LockManager
+import { ConflictBar } from './ConflictBar';
 
 interface EditorPanelProps {
   files?: FileMap;
@@ -163,6 +164,7 @@ export const EditorPanel = memo(
                   </div>
                 )}
               </PanelHeader>
+              <ConflictBar editorDocument={editorDocument} />
               <div className="h-full flex-1 overflow-hidden modern-scrollbar">
                 <CodeMirrorEditor
                   theme={theme}
@@ -0,0 +1,254 @@
+import { memo, useEffect, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import type { GitFileChange } from '~/lib/stores/git';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
+import { InlineDiffComparison } from './DiffView';
+
+const EMPTY_TREE = '';
+
+const STATUS_LABELS: Record<GitFileChange['status'], string> = {
+  added: 'A',
+  modified: 'M',
+  deleted: 'D',
+};
+
+const buttonClassName =
+  'flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-transparent text-bolt-elements-item-contentDefault hover:text-bolt-elements-item-contentActive hover:bg-bolt-elements-item-backgroundActive disabled:cursor-not-allowed disabled:opacity-50';
+
+const inputClassName =
+  'min-w-0 px-2 py-1 rounded-md text-sm bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor';
+
+export const GitHistory = memo(() => {
+  const git = workbenchStore.git;
+  const commits = useStore(git.commits);
+  const branches = useStore(git.branches);
+  const currentBranch = useStore(git.currentBranch);
+  const [toOid, setToOid] = useState<string>();
+  const [fromOid, setFromOid] = useState<string>();
+  const [changes, setChanges] = useState<GitFileChange[]>([]);
+  const [selectedPath, setSelectedPath] = useState<string>();
+  const [contents, setContents] = useState<{ before: string; after: string }>();
+  const [commitMessage, setCommitMessage] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    git.refresh().catch((error) => console.error('Failed to load the git history:', error));
+  }, []);
+
+  const to = commits.find((commit) => commit.oid === toOid) ?? commits[0];
+
+  // without an explicit choice a commit is compared to its parent
+  const effectiveFromOid = fromOid ?? to?.parents[0] ?? EMPTY_TREE;
+
+  useEffect(() => {
+    setChanges([]);
+
+    if (!to) {
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    git
+      .getChanges(effectiveFromOid || undefined, to.oid)
+      .then((list) => {
+        if (!cancelled) {
+          setChanges(list);
+          setSelectedPath((path) => (path && list.some((change) => change.path === path) ? path : list[0]?.path));
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to compare commits:', error);
+        toast.error('Failed to compare commits');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [to?.oid, effectiveFromOid]);
+
+  useEffect(() => {
+    setContents(undefined);
+
+    if (!to || !selectedPath) {
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    Promise.all([
+      effectiveFromOid ? git.readFile(effectiveFromOid, selectedPath) : Promise.resolve(''),
+      git.readFile(to.oid, selectedPath),
+    ]).then(([before, after]) => {
+      if (!cancelled) {
+        setContents({ before, after });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [to?.oid, effectiveFromOid, selectedPath]);
+
+  const run = async (task: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true);
+
+    try {
+      await task();
+      setToOid(undefined);
+      setFromOid(undefined);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const commit = () =>
+    run(async () => {
+      const oid = await git.commitAll(commitMessage.trim() || 'Update files');
+
+      if (!oid) {
+        toast.info('Nothing to commit');
+      }
+
+      setCommitMessage('');
+    }, 'Failed to commit');
+
+  const createBranch = () => {
+    const name = prompt('Name of the new branch')?.trim();
+
+    if (name) {
+      run(() => git.createBranch(name), 'Failed to create the branch');
+    }
+  };
+
+  return (
+    <div className="flex h-full bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary">
+      <div className="w-72 shrink-0 flex flex-col border-r border-bolt-elements-borderColor">
+        <div className="flex items-center gap-1 px-3 py-2 border-b border-bolt-elements-borderColor">
+          <div className="i-ph:git-branch shrink-0 text-bolt-elements-textSecondary" />
+          <select
+            value={currentBranch ?? ''}
+            disabled={isBusy || branches.length === 0}
+            onChange={(event) => run(() => git.checkout(event.target.value), 'Failed to switch branches')}
+            className={classNames(inputClassName, 'flex-1')}
+          >
+            {branches.length === 0 && <option value="">No commits yet</option>}
+            {branches.map((branch) => (
+              <option key={branch} value={branch}>
+                {branch}
+              </option>
+            ))}
+          </select>
+          <button className={buttonClassName} disabled={isBusy || commits.length === 0} onClick={createBranch}>
+            <div className="i-ph:plus" />
+            Branch
+          </button>
+        </div>
+        <div className="flex items-center gap-1 px-3 py-2 border-b border-bolt-elements-borderColor">
+          <input
+            value={commitMessage}
+            placeholder="Commit message"
+            onChange={(event) => setCommitMessage(event.target.value)}
+            onKeyDown={(event) => event.key === 'Enter' && commit()}
+            className={classNames(inputClassName, 'flex-1')}
+          />
+          <button className={buttonClassName} disabled={isBusy} onClick={commit}>
+            <div className="i-ph:git-commit" />
+            Commit
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {commits.length === 0 && (
+            <div className="p-3 text-sm text-bolt-elements-textSecondary">
+              No commits yet, one is made after every artifact
+            </div>
+          )}
+          {commits.map((item) => (
+            <div
+              key={item.oid}
+              className={classNames(
+                'flex items-start gap-2 px-3 py-2 border-b border-bolt-elements-borderColor cursor-pointer',
+                item.oid === to?.oid
+                  ? 'bg-bolt-elements-item-backgroundAccent'
+                  : 'hover:bg-bolt-elements-item-backgroundActive',
+              )}
+              onClick={() => {
+                setToOid(item.oid);
+                setFromOid(undefined);
+              }}
+            >
+              <div
+                className={classNames(
+                  'mt-1.5 w-2 h-2 rounded-full shrink-0',
+                  item.oid === to?.oid
+                    ? 'bg-purple-500'
+                    : item.oid === effectiveFromOid
+                      ? 'bg-bolt-elements-textSecondary'
+                      : 'bg-bolt-elements-borderColor',
+                )}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">{item.message}</div>
+                <div className="text-xs text-bolt-elements-textTertiary">
+                  <span className="font-mono">{item.oid.slice(0, 7)}</span> ·{' '}
+                  {new Date(item.timestamp * 1000).toLocaleString()}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="flex items-center gap-2 px-3 py-2 text-sm border-b border-bolt-elements-borderColor">
+          <span className="text-bolt-elements-textSecondary">Compare with</span>
+          <select
+            value={effectiveFromOid}
+            disabled={!to}
+            onChange={(event) => setFromOid(event.target.value)}
+            className={classNames(inputClassName, 'flex-1')}
+          >
+            <option value={EMPTY_TREE}>Empty project</option>
+            {commits.map((item) =>
+              item.oid === to?.oid ? null : (
+                <option key={item.oid} value={item.oid}>
+                  {item.oid.slice(0, 7)} {item.message}
+                </option>
+              ),
+            )}
+          </select>
+          <select
+            value={selectedPath ?? ''}
+            onChange={(event) => setSelectedPath(event.target.value)}
+            disabled={changes.length === 0}
+            className={classNames(inputClassName, 'flex-1')}
+          >
+            {changes.length === 0 && <option value="">No changed files</option>}
+            {changes.map((change) => (
+              <option key={change.path} value={change.path}>
+                {STATUS_LABELS[change.status]} {change.path}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 overflow-hidden">
+          {selectedPath && contents && (
+            <InlineDiffComparison
+              beforeCode={contents.before}
+              afterCode={contents.after}
+              language={getLanguageFromExtension(selectedPath.split('.').pop() || '')}
+              filename={selectedPath}
+              lightTheme="github-light"
+              darkTheme="github-dark"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
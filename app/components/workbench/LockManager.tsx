@@ -3,10 +3,12 @@ import { workbenchStore } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
 import { Checkbox } from '~/components/ui/Checkbox';
 import { toast } from '~/components/ui/use-toast';
+import { getLockedFoldersForChat, isLockPattern } from '~/lib/persistence/lockedFiles';
+import { getCurrentChatId } from '~/utils/fileLocks';
 
 interface LockedItem {
   path: string;
-  type: 'file' | 'folder';
+  type: 'file' | 'folder' | 'pattern';
 }
 
 export function LockManager() {
@@ -14,6 +16,8 @@ export function LockManager() {
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [filter, setFilter] = useState<'all' | 'files' | 'folders'>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
 
   // Load locked items
   useEffect(() => {
@@ -43,6 +47,11 @@ export function LockManager() {
         }
       });
 
+      // Patterns have no entry in the file tree
+      getLockedFoldersForChat(getCurrentChatId())
+        .filter((item) => isLockPattern(item.path))
+        .forEach((item) => items.push({ path: item.path, type: 'pattern' }));
+
       setLockedItems(items);
     };
 
@@ -52,7 +61,21 @@ export function LockManager() {
     const intervalId = setInterval(loadLockedItems, 5000);
 
     return () => clearInterval(intervalId);
-  }, []);
+  }, [refreshKey]);
+
+  const handleLockPattern = () => {
+    const trimmed = pattern.trim();
+
+    if (!isLockPattern(trimmed)) {
+      toast.error('Enter a glob pattern, e.g. src/generated/**');
+      return;
+    }
+
+    workbenchStore.lockPattern(trimmed);
+    toast.success(`Files matching ${trimmed} locked`);
+    setPattern('');
+    setRefreshKey((key) => key + 1);
+  };
 
   // Filter and sort the locked items
   const filteredAndSortedItems = lockedItems
@@ -62,7 +85,7 @@ export function LockManager() {
         return false;
       }
 
-      if (filter === 'folders' && item.type !== 'folder') {
+      if (filter === 'folders' && item.type === 'file') {
         return false;
       }
 
@@ -121,6 +144,7 @@ export function LockManager() {
         }
 
         unlockedCount++;
+        setRefreshKey((key) => key + 1);
       }
     });
 
@@ -167,6 +191,26 @@ export function LockManager() {
         </select>
       </div>
 
+      {/* Pattern Input */}
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-bolt-elements-borderColor">
+        <input
+          type="text"
+          placeholder="Lock a pattern, e.g. src/generated/**"
+          className="flex-1 text-xs px-2 py-0.5 h-6 bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary rounded border border-bolt-elements-borderColor focus:outline-none"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleLockPattern()}
+          style={{ minWidth: 0 }}
+        />
+        <button
+          className="px-2 py-0.5 h-6 rounded bg-bolt-elements-button-secondary-background hover:bg-bolt-elements-button-secondary-backgroundHover text-bolt-elements-button-secondary-text text-xs disabled:opacity-50"
+          onClick={handleLockPattern}
+          disabled={!pattern.trim()}
+        >
+          Lock
+        </button>
+      </div>
+
       {/* Header Row with Select All */}
       <div className="flex items-center justify-between px-2 py-1 text-xs text-bolt-elements-textSecondary">
         <div>
@@ -217,7 +261,11 @@ export function LockManager() {
                 <span
                   className={classNames(
                     'shrink-0 text-bolt-elements-textTertiary text-xs',
-                    item.type === 'file' ? 'i-ph:file-text-duotone' : 'i-ph:folder-duotone',
+                    item.type === 'file'
+                      ? 'i-ph:file-text-duotone'
+                      : item.type === 'pattern'
+                        ? 'i-ph:asterisk'
+                        : 'i-ph:folder-duotone',
                   )}
                 />
                 <span id={`item-label-${item.path}`} className="truncate flex-1 text-xs" title={item.path}>
@@ -240,6 +288,7 @@ export function LockManager() {
                     }
 
                     toast.success(`${item.path.replace('/home/project/', '')} unlocked`);
+                    setRefreshKey((key) => key + 1);
                   }}
                   title="Unlock"
                 >
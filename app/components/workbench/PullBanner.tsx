@@ -0,0 +1,93 @@
+import { memo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { workbenchStore, type PendingPull } from '~/lib/stores/workbench';
+import { extractRelativePath } from '~/utils/diff';
+
+interface PullBannerProps {
+  onComplete: (pull: PendingPull) => Promise<void>;
+}
+
+const buttonClassName =
+  'px-2 py-1 rounded-md text-xs bg-bolt-elements-item-backgroundDefault text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * Lists the files a pull left with conflicts until the pull is completed or aborted
+ */
+export const PullBanner = memo(({ onComplete }: PullBannerProps) => {
+  const pendingPull = useStore(workbenchStore.pendingPull);
+
+  // subscribed so the unresolved files follow the edits
+  useStore(workbenchStore.files);
+
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!pendingPull) {
+    return null;
+  }
+
+  const unresolved = workbenchStore.getUnresolvedPullFiles();
+
+  const complete = async () => {
+    setIsBusy(true);
+
+    try {
+      const pull = await workbenchStore.completePull();
+
+      if (pull) {
+        await onComplete(pull);
+        toast.success(`Pulled ${pull.branch}`);
+      }
+    } catch (error) {
+      console.error('Failed to complete the pull:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to complete the pull');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const abort = async () => {
+    setIsBusy(true);
+
+    try {
+      await workbenchStore.abortPull();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 text-sm border-b border-bolt-elements-borderColor bg-bolt-elements-background-depth-3 text-bolt-elements-textPrimary">
+      <div className="i-ph:git-merge shrink-0 text-amber-500" />
+      <div className="flex-1 min-w-0 truncate">
+        {unresolved.length > 0 ? (
+          <>
+            Conflicts with {pendingPull.branch} in{' '}
+            {unresolved.map((filePath, index) => (
+              <span key={filePath}>
+                {index > 0 && ', '}
+                <button
+                  className="underline text-bolt-elements-item-contentAccent"
+                  onClick={() => {
+                    workbenchStore.currentView.set('code');
+                    workbenchStore.setSelectedFile(filePath);
+                  }}
+                >
+                  {extractRelativePath(filePath)}
+                </button>
+              </span>
+            ))}
+          </>
+        ) : (
+          <>All conflicts with {pendingPull.branch} are resolved</>
+        )}
+      </div>
+      <button className={buttonClassName} disabled={isBusy || unresolved.length > 0} onClick={complete}>
+        Complete pull
+      </button>
+      <button className={buttonClassName} disabled={isBusy} onClick={abort}>
+        Abort
+      </button>
+    </div>
+  );
+});
@@ -0,0 +1,224 @@
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import {
+  chatId,
+  chatStorage,
+  getChangedSnapshotPaths,
+  loadMessageSnapshotFiles,
+  type MessageSnapshot,
+} from '~/lib/persistence';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { extractRelativePath } from '~/utils/diff';
+import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
+import { InlineDiffComparison } from './DiffView';
+
+const EMPTY_SNAPSHOT: MessageSnapshot = {
+  chatId: '',
+  messageId: '',
+  timestamp: '',
+  title: 'Empty project',
+  files: {},
+};
+
+export const SnapshotTimeline = memo(() => {
+  const currentChatId = useStore(chatId);
+  const [snapshots, setSnapshots] = useState<MessageSnapshot[]>([]);
+  const [toIndex, setToIndex] = useState<number>();
+  const [fromIndex, setFromIndex] = useState<number>();
+  const [selectedPath, setSelectedPath] = useState<string>();
+  const [contents, setContents] = useState<{ before: string; after: string }>();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadSnapshots = useCallback(async () => {
+    if (!chatStorage || !currentChatId) {
+      setSnapshots([]);
+      return;
+    }
+
+    try {
+      const list = await chatStorage.getMessageSnapshots(currentChatId);
+      setSnapshots(list);
+      setToIndex(list.length > 0 ? list.length - 1 : undefined);
+      setFromIndex(undefined);
+    } catch (error) {
+      console.error('Failed to load message snapshots:', error);
+      toast.error('Failed to load the file timeline');
+    }
+  }, [currentChatId]);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  // without an explicit choice a point is compared to the one before it
+  const effectiveFromIndex = fromIndex ?? (toIndex !== undefined ? toIndex - 1 : -1);
+  const to = toIndex !== undefined ? snapshots[toIndex] : undefined;
+  const from = snapshots[effectiveFromIndex] ?? EMPTY_SNAPSHOT;
+
+  const changedPaths = useMemo(() => (to ? getChangedSnapshotPaths(from, to) : []), [from, to]);
+
+  useEffect(() => {
+    setSelectedPath((path) => (path && changedPaths.includes(path) ? path : changedPaths[0]));
+  }, [changedPaths]);
+
+  useEffect(() => {
+    setContents(undefined);
+
+    if (!chatStorage || !to || !selectedPath) {
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    Promise.all([
+      loadMessageSnapshotFiles(chatStorage, from, [selectedPath]),
+      loadMessageSnapshotFiles(chatStorage, to, [selectedPath]),
+    ])
+      .then(([beforeFiles, afterFiles]) => {
+        const before = beforeFiles[selectedPath];
+        const after = afterFiles[selectedPath];
+
+        if (!cancelled) {
+          setContents({
+            before: before?.type === 'file' ? before.content : '',
+            after: after?.type === 'file' ? after.content : '',
+          });
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load snapshot files:', error);
+        toast.error('Failed to load file contents');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, selectedPath]);
+
+  const restore = async (snapshot: MessageSnapshot) => {
+    if (!chatStorage || !confirm(`Restore all files to "${snapshot.title}"? Files created after it will be deleted.`)) {
+      return;
+    }
+
+    setIsRestoring(true);
+
+    try {
+      const files = await loadMessageSnapshotFiles(chatStorage, snapshot);
+      const restoredFiles = await workbenchStore.restoreSnapshotFiles(files);
+      toast.success(`Restored ${restoredFiles.length} file${restoredFiles.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to restore snapshot:', error);
+      toast.error('Failed to restore files');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (snapshots.length === 0) {
+    return (
+      <div className="flex w-full h-full justify-center items-center bg-bolt-elements-background-depth-1 text-bolt-elements-textSecondary">
+        No snapshots yet, one is taken after every response
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary">
+      <div className="w-72 shrink-0 flex flex-col border-r border-bolt-elements-borderColor overflow-y-auto">
+        {[...snapshots].reverse().map((snapshot) => {
+          const index = snapshots.indexOf(snapshot);
+
+          return (
+            <div
+              key={snapshot.messageId}
+              className={classNames(
+                'group flex items-start gap-2 px-3 py-2 border-b border-bolt-elements-borderColor cursor-pointer',
+                index === toIndex
+                  ? 'bg-bolt-elements-item-backgroundAccent'
+                  : 'hover:bg-bolt-elements-item-backgroundActive',
+              )}
+              onClick={() => {
+                setToIndex(index);
+                setFromIndex(undefined);
+              }}
+            >
+              <div
+                className={classNames(
+                  'mt-1.5 w-2 h-2 rounded-full shrink-0',
+                  index === toIndex
+                    ? 'bg-purple-500'
+                    : index === effectiveFromIndex
+                      ? 'bg-bolt-elements-textSecondary'
+                      : 'bg-bolt-elements-borderColor',
+                )}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">{snapshot.title}</div>
+                <div className="text-xs text-bolt-elements-textTertiary">
+                  {new Date(snapshot.timestamp).toLocaleString()}
+                </div>
+              </div>
+              <button
+                className="opacity-0 group-hover:opacity-100 text-xs px-2 py-1 rounded-md bg-transparent text-bolt-elements-item-contentDefault hover:text-bolt-elements-item-contentActive hover:bg-bolt-elements-item-backgroundActive disabled:cursor-not-allowed"
+                disabled={isRestoring}
+                title="Restore the workbench to this point"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  restore(snapshot);
+                }}
+              >
+                Restore
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="flex items-center gap-2 px-3 py-2 text-sm border-b border-bolt-elements-borderColor">
+          <span className="text-bolt-elements-textSecondary">Compare with</span>
+          <select
+            value={effectiveFromIndex}
+            onChange={(event) => setFromIndex(Number(event.target.value))}
+            className="flex-1 min-w-0 px-2 py-1 rounded-md bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor"
+          >
+            <option value={-1}>{EMPTY_SNAPSHOT.title}</option>
+            {snapshots.map((snapshot, index) =>
+              index === toIndex ? null : (
+                <option key={snapshot.messageId} value={index}>
+                  {snapshot.title} ({new Date(snapshot.timestamp).toLocaleTimeString()})
+                </option>
+              ),
+            )}
+          </select>
+          <select
+            value={selectedPath ?? ''}
+            onChange={(event) => setSelectedPath(event.target.value)}
+            disabled={changedPaths.length === 0}
+            className="flex-1 min-w-0 px-2 py-1 rounded-md bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor"
+          >
+            {changedPaths.length === 0 && <option value="">No changed files</option>}
+            {changedPaths.map((path) => (
+              <option key={path} value={path}>
+                {extractRelativePath(path)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 overflow-hidden">
+          {selectedPath && contents && (
+            <InlineDiffComparison
+              beforeCode={contents.before}
+              afterCode={contents.after}
+              language={getLanguageFromExtension(selectedPath.split('.').pop() || '')}
+              filename={selectedPath}
+              lightTheme="github-light"
+              darkTheme="github-dark"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -8,6 +8,9 @@ import { diffLines, type Change } from 'diff';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import type { FileHistory } from '~/types/actions';
 import { DiffView } from './DiffView';
+import { SnapshotTimeline } from './SnapshotTimeline';
+import { GitHistory } from './GitHistory';
+import { PullBanner } from './PullBanner';
 import {
   type OnChangeCallback as OnEditorChange,
   type OnScrollCallback as OnEditorScroll,
@@ -15,7 +18,16 @@ import {
 import { IconButton } from '~/components/ui/IconButton';
 import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
 import { Slider, type SliderOptions } from '~/components/ui/Slider';
-import { workbenchStore, type WorkbenchViewType } from '~/lib/stores/workbench';
+import { workbenchStore, type PendingPull, type WorkbenchViewType } from '~/lib/stores/workbench';
+import type { PullStrategy } from '~/lib/stores/git';
+import { useGit } from '~/lib/hooks/useGit';
+import {
+  chatId,
+  chatStorage,
+  description as chatDescription,
+  recordFilesSnapshot,
+  type IChatMetadata,
+} from '~/lib/persistence';
 import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
 import { renderLogger } from '~/utils/logger';
@@ -23,6 +35,11 @@ import { EditorPanel } from './EditorPanel';
 import { Preview } from './Preview';
 import useViewport from '~/lib/hooks';
 import { PushToGitHubDialog } from '~/components/@settings/tabs/connections/components/PushToGitHubDialog';
+import { PushToGitHostDialog } from '~/components/@settings/tabs/connections/components/PushToGitHostDialog';
+import { getConnectedGitHost, getGitHostForUrl, gitHostAccounts } from '~/lib/stores/git-hosts';
+import { createGitHost, getRepoFullName } from '~/lib/modules/git-hosts/registry';
+import { createPullRequestDescription, getPullRequestBranch } from '~/utils/pull-request';
+import type { GitHostId } from '~/lib/modules/git-hosts/types';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import { usePreviewStore } from '~/lib/stores/previews';
 import { chatStore } from '~/lib/stores/chat';
@@ -31,10 +48,8 @@ import type { ElementInfo } from './Inspector';
 interface WorkspaceProps {
   chatStarted?: boolean;
   isStreaming?: boolean;
-  metadata?: {
-    gitUrl?: string;
-  };
-  updateChatMestaData?: (metadata: any) => void;
+  metadata?: IChatMetadata;
+  updateChatMestaData?: (metadata: IChatMetadata) => void;
   setSelectedElement?: (element: ElementInfo | null) => void;
 }
 
@@ -284,7 +299,13 @@ export const Workbench = memo(
 
     const [isSyncing, setIsSyncing] = useState(false);
     const [isPushDialogOpen, setIsPushDialogOpen] = useState(false);
+    const [pushHostId, setPushHostId] = useState<GitHostId>();
+    const gitHosts = useStore(gitHostAccounts);
     const [fileHistory, setFileHistory] = useState<Record<string, FileHistory>>({});
+    const [diffPanel, setDiffPanel] = useState<'changes' | 'timeline' | 'commits'>('changes');
+    const [isPulling, setIsPulling] = useState(false);
+    const [isProposing, setIsProposing] = useState(false);
+    const { gitPull } = useGit();
 
     // const modifiedFiles = Array.from(useStore(workbenchStore.unsavedFiles).keys());
 
@@ -358,6 +379,112 @@ export const Workbench = memo(
       }
     }, []);
 
+    const recordPull = useCallback(
+      async (pull: PendingPull) => {
+        updateChatMestaData?.({ ...metadata, gitUrl: pull.url, gitBranch: pull.branch, gitCommit: pull.remoteOid });
+        await recordFilesSnapshot(`Pulled ${pull.branch} (${pull.remoteOid.slice(0, 7)})`, workbenchStore.files.get());
+      },
+      [metadata, updateChatMestaData],
+    );
+
+    const handlePull = useCallback(
+      async (strategy: PullStrategy) => {
+        if (!metadata?.gitUrl) {
+          return;
+        }
+
+        setIsPulling(true);
+
+        try {
+          const pull = await gitPull({
+            url: metadata.gitUrl,
+            ref: metadata.gitBranch,
+            base: metadata.gitCommit,
+            strategy,
+          });
+
+          if (pull.withoutBase) {
+            toast.warning(
+              `This project has no commit in common with ${pull.branch}, every file that differs is a conflict`,
+            );
+          }
+
+          if (pull.conflictedFiles.length > 0) {
+            toast.warning(`Resolve the conflicts in ${pull.conflictedFiles.length} file(s) to complete the pull`);
+            workbenchStore.currentView.set('code');
+            workbenchStore.setSelectedFile(pull.conflictedFiles[0]);
+          } else {
+            await recordPull(pull);
+            toast.success(`Pulled ${pull.branch}`);
+          }
+        } catch (error) {
+          console.error('Error pulling from remote:', error);
+          toast.error(error instanceof Error ? error.message : 'Failed to pull from remote');
+        } finally {
+          setIsPulling(false);
+        }
+      },
+      [metadata, gitPull, recordPull],
+    );
+
+    const handleProposeChanges = useCallback(async () => {
+      const host = metadata?.gitUrl ? getGitHostForUrl(metadata.gitUrl) : undefined;
+
+      if (!metadata?.gitUrl || !host) {
+        toast.error('Connect the git host of this repository in the Connections tab first');
+        return;
+      }
+
+      const pullRequest = metadata.pullRequest;
+      const title = pullRequest
+        ? prompt('Please enter a commit message:', 'Follow-up changes')
+        : prompt('Please enter a title for the pull request:', chatDescription.get() || 'Changes from Bolt');
+
+      if (!title) {
+        return;
+      }
+
+      setIsProposing(true);
+
+      try {
+        const id = chatId.get() ?? `${Date.now()}`;
+        const artifacts = workbenchStore.artifacts.get();
+
+        const result = await workbenchStore.proposeChanges({
+          host,
+          repo: getRepoFullName(metadata.gitUrl),
+          baseBranch: metadata.gitBranch,
+          branch: getPullRequestBranch(chatDescription.get() || title, id),
+          title,
+          base: metadata.gitCommit,
+          pullRequest,
+          proposedCommit: metadata.proposedCommit,
+          describe: async (files) =>
+            createPullRequestDescription({
+              summary: (await chatStorage?.getSnapshot(id))?.summary,
+
+              // the imported files are the starting point, not a change
+              artifacts: workbenchStore.artifactIdList
+                .map((artifactId) => artifacts[artifactId])
+                .filter((artifact) => artifact && artifact.type !== 'bundled' && artifact.outcome !== 'rolled-back')
+                .map((artifact) => artifact.title),
+              files,
+            }),
+        });
+
+        updateChatMestaData?.({ ...metadata, pullRequest: result.pullRequest, proposedCommit: result.commit });
+
+        toast.success(
+          `Pushed ${Object.keys(result.files).length} file(s) to pull request #${result.pullRequest.number}`,
+        );
+      } catch (error) {
+        console.error('Error proposing changes:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to propose the changes');
+      } finally {
+        setIsProposing(false);
+      }
+    }, [metadata, updateChatMestaData]);
+
     const handleSelectFile = useCallback((filePath: string) => {
       workbenchStore.setSelectedFile(filePath);
       workbenchStore.currentView.set('diff');
@@ -447,13 +574,106 @@ export const Workbench = memo(
                               Push to GitHub
                             </div>
                           </DropdownMenu.Item>
+                          {(Object.keys(gitHosts) as GitHostId[])
+                            .filter((id) => id !== 'github')
+                            .map((id) => {
+                              const host = getConnectedGitHost(id);
+
+                              return (
+                                host && (
+                                  <DropdownMenu.Item
+                                    key={id}
+                                    className={classNames(
+                                      'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
+                                    )}
+                                    onClick={() => setPushHostId(id)}
+                                  >
+                                    <div className="flex items-center gap-2">
+                                      <div className={host.icon} />
+                                      Push to {host.name}
+                                    </div>
+                                  </DropdownMenu.Item>
+                                )
+                              );
+                            })}
+                          {metadata?.gitUrl &&
+                            (['merge', 'squash'] as const).map((strategy) => (
+                              <DropdownMenu.Item
+                                key={strategy}
+                                className={classNames(
+                                  'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
+                                )}
+                                onClick={() => handlePull(strategy)}
+                                disabled={isPulling}
+                              >
+                                <div className="flex items-center gap-2">
+                                  <div className={strategy === 'merge' ? 'i-ph:git-merge' : 'i-ph:git-pull-request'} />
+                                  {strategy === 'merge' ? 'Pull from remote' : 'Pull and squash local changes'}
+                                </div>
+                              </DropdownMenu.Item>
+                            ))}
+                          {metadata?.gitUrl && (
+                            <DropdownMenu.Item
+                              className={classNames(
+                                'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
+                              )}
+                              onClick={handleProposeChanges}
+                              disabled={isProposing}
+                            >
+                              <div className="flex items-center gap-2">
+                                {isProposing ? (
+                                  <div className="i-ph:spinner" />
+                                ) : (
+                                  <div className="i-ph:git-pull-request" />
+                                )}
+                                {metadata.pullRequest
+                                  ? `Update pull request #${metadata.pullRequest.number}`
+                                  : 'Propose changes'}
+                              </div>
+                            </DropdownMenu.Item>
+                          )}
+                          {metadata?.pullRequest && (
+                            <DropdownMenu.Item
+                              className={classNames(
+                                'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
+                              )}
+                              onClick={() => window.open(metadata.pullRequest?.url, '_blank', 'noopener')}
+                            >
+                              <div className="flex items-center gap-2">
+                                <div className="i-ph:arrow-square-out" />
+                                Open pull request #{metadata.pullRequest.number}
+                              </div>
+                            </DropdownMenu.Item>
+                          )}
                         </DropdownMenu.Content>
                       </DropdownMenu.Root>
                     </div>
                   )}
 
                   {selectedView === 'diff' && (
-                    <FileModifiedDropdown fileHistory={fileHistory} onSelectFile={handleSelectFile} />
+                    <>
+                      {diffPanel !== 'changes' && (
+                        <PanelHeaderButton className="mr-1 text-sm" onClick={() => setDiffPanel('changes')}>
+                          <div className="i-ph:git-diff" />
+                          Current Changes
+                        </PanelHeaderButton>
+                      )}
+                      {diffPanel !== 'timeline' && (
+                        <PanelHeaderButton className="mr-1 text-sm" onClick={() => setDiffPanel('timeline')}>
+                          <div className="i-ph:clock-counter-clockwise" />
+                          Timeline
+                        </PanelHeaderButton>
+                      )}
+                      {diffPanel !== 'commits' && (
+                        <PanelHeaderButton className="mr-1 text-sm" onClick={() => setDiffPanel('commits')}>
+                          <div className="i-ph:git-commit" />
+                          Commits
+                        </PanelHeaderButton>
+                      )}
+                      {diffPanel === 'changes' && (
+                        <FileModifiedDropdown fileHistory={fileHistory} onSelectFile={handleSelectFile} />
+                      )}
+                    </>
                   )}
                   <IconButton
                     icon="i-ph:x-circle"
@@ -464,6 +684,7 @@ export const Workbench = memo(
                     }}
                   />
                 </div>
+                <PullBanner onComplete={recordPull} />
                 <div className="relative flex-1 overflow-hidden">
                   <View initial={{ x: '0%' }} animate={{ x: selectedView === 'code' ? '0%' : '-100%' }}>
                     <EditorPanel
@@ -484,7 +705,13 @@ export const Workbench = memo(
                     initial={{ x: '100%' }}
                     animate={{ x: selectedView === 'diff' ? '0%' : selectedView === 'code' ? '100%' : '-100%' }}
                   >
-                    <DiffView fileHistory={fileHistory} setFileHistory={setFileHistory} />
+                    {diffPanel === 'timeline' ? (
+                      <SnapshotTimeline />
+                    ) : diffPanel === 'commits' ? (
+                      <GitHistory />
+                    ) : (
+                      <DiffView fileHistory={fileHistory} setFileHistory={setFileHistory} />
+                    )}
                   </View>
                   <View initial={{ x: '100%' }} animate={{ x: selectedView === 'preview' ? '0%' : '100%' }}>
                     <Preview setSelectedElement={setSelectedElement} />
@@ -498,10 +725,18 @@ export const Workbench = memo(
             onClose={() => setIsPushDialogOpen(false)}
             onPush={async (repoName, username, token, isPrivate) => {
               try {
-                console.log('Dialog onPush called with isPrivate =', isPrivate);
+                if (!token || !username) {
+                  throw new Error('Connect to GitHub first');
+                }
 
                 const commitMessage = prompt('Please enter a commit message:', 'Initial commit') || 'Initial commit';
-                const repoUrl = await workbenchStore.pushToGitHub(repoName, commitMessage, username, token, isPrivate);
+                const host = createGitHost('github', { token, username });
+                const { webUrl: repoUrl } = await workbenchStore.pushToGitHost(
+                  host,
+                  repoName,
+                  commitMessage,
+                  isPrivate,
+                );
 
                 if (updateChatMestaData && !metadata?.gitUrl) {
                   updateChatMestaData({
@@ -518,6 +753,36 @@ export const Workbench = memo(
               }
             }}
           />
+          <PushToGitHostDialog
+            hostId={pushHostId}
+            onClose={() => setPushHostId(undefined)}
+            onPush={async (hostId, repoName, isPrivate) => {
+              const host = getConnectedGitHost(hostId);
+
+              if (!host) {
+                throw new Error(`Not connected to ${hostId}`);
+              }
+
+              try {
+                const commitMessage = prompt('Please enter a commit message:', 'Initial commit') || 'Initial commit';
+                const repo = await workbenchStore.pushToGitHost(host, repoName, commitMessage, isPrivate);
+
+                // pulls clone from here with the credentials saved when the host was connected
+                if (updateChatMestaData && !metadata?.gitUrl) {
+                  updateChatMestaData({
+                    ...(metadata || {}),
+                    gitUrl: repo.cloneUrl,
+                  });
+                }
+
+                return repo.webUrl;
+              } catch (error) {
+                console.error(`Error pushing to ${host.name}:`, error);
+                toast.error(`Failed to push to ${host.name}`);
+                throw error;
+              }
+            }}
+          />
         </motion.div>
       )
     );
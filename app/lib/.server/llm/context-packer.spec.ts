@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from './constants';
+import { describeContextPacking, estimateTokens, getContextBudget, packContext } from './context-packer';
+import { PromptLibrary } from '~/lib/common/prompt-library';
+import AnthropicProvider from '~/lib/modules/llm/providers/anthropic';
+import { MODIFICATIONS_TAG_NAME, WORK_DIR } from '~/utils/constants';
+import { allowedHTMLElements } from '~/utils/markdown';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+const message = (role: 'user' | 'assistant', tokens: number, text = '') => ({
+  role,
+  content: text.padEnd(tokens * 4, '.'),
+});
+
+// 20 exported functions with 10 lines of body each, about 1100 tokens
+const largeModule = Array.from(
+  { length: 20 },
+  (_, i) => `export function step${i}() {\n${'  console.log("working on it");\n'.repeat(10)}}`,
+).join('\n');
+
+// prose has no declarations to outline
+const largeText = 'lorem ipsum dolor sit amet\n'.repeat(200);
+
+describe('getContextBudget', () => {
+  it('keeps the output tokens free for the response and leaves out the system prompt', () => {
+    expect(getContextBudget(8000, 2000, 'x'.repeat(4000))).toBe(5000);
+    expect(getContextBudget(4000, 2000, 'x'.repeat(8000))).toBe(0);
+  });
+
+  it.each(['default', 'original', 'optimized'])(
+    'leaves the chat history of the default model with the %s prompt in place',
+    (promptId) => {
+      const provider = new AnthropicProvider();
+      const model = provider.staticModels.find(({ name }) => name === 'claude-3-5-sonnet-latest')!;
+      const { contextWindow, maxOutputTokens } = provider.getModelCapabilities(model);
+      const systemPrompt = PromptLibrary.getPropmtFromLibrary(promptId, {
+        cwd: WORK_DIR,
+        allowedHtmlElements: allowedHTMLElements,
+        modificationTagName: MODIFICATIONS_TAG_NAME,
+      });
+      const messages = Array.from({ length: 6 }, (_, i) => message(i % 2 ? 'assistant' : 'user', 2000));
+
+      const packed = packContext({
+        budget: getContextBudget(contextWindow!, maxOutputTokens, systemPrompt),
+        files: {},
+        contextFiles: {},
+        messages,
+      });
+
+      expect(packed.messages).toEqual(messages);
+    },
+  );
+});
+
+describe('packContext', () => {
+  it('includes files in full by priority while they fit', () => {
+    const files: FileMap = {
+      [`${WORK_DIR}/src/App.tsx`]: file('export default function App() {}'),
+      [`${WORK_DIR}/src/Recent.tsx`]: file('export const recent = true;'),
+      [`${WORK_DIR}/src/image.png`]: { type: 'file', content: 'binary', isBinary: true },
+    };
+    const messages = [
+      message('assistant', 20, '<boltAction type="file" filePath="src/Recent.tsx">'),
+      message('user', 10),
+    ];
+
+    const packed = packContext({
+      budget: 1000,
+      files,
+      contextFiles: { 'src/utils.ts': file('export const add = (a, b) => a + b;') },
+      openFiles: [`${WORK_DIR}/src/App.tsx`, `${WORK_DIR}/src/image.png`],
+      messages,
+    });
+
+    expect(Object.keys(packed.files)).toEqual(['src/App.tsx', 'src/Recent.tsx', 'src/utils.ts']);
+    expect(packed.report.files.map(({ path, priority, mode }) => [path, priority, mode])).toEqual([
+      ['src/App.tsx', 'open', 'full'],
+      ['src/Recent.tsx', 'recent', 'full'],
+      ['src/utils.ts', 'selected', 'full'],
+    ]);
+    expect(packed.messages).toEqual(messages);
+    expect(packed.report.used).toBe(30 + packed.report.files.reduce((sum, packedFile) => sum + packedFile.tokens, 0));
+  });
+
+  it('outlines or truncates files larger than their share of the budget', () => {
+    const packed = packContext({
+      budget: 1000,
+      files: {},
+      contextFiles: { 'src/steps.ts': file(largeModule), 'docs/notes.txt': file(largeText) },
+      messages: [message('user', 10)],
+    });
+
+    const [outlined, truncated] = packed.report.files;
+
+    expect(outlined).toMatchObject({ path: 'src/steps.ts', mode: 'outline' });
+    expect(packed.files['src/steps.ts']).toMatchObject({
+      content: expect.stringContaining('export function step0() {\n... (lines 2-12 omitted)\nexport function step1()'),
+    });
+
+    expect(truncated).toMatchObject({ path: 'docs/notes.txt', mode: 'truncated' });
+    expect(truncated.tokens).toBeLessThanOrEqual(400);
+    expect(packed.files['docs/notes.txt']).toMatchObject({
+      content: expect.stringMatching(/^lorem ipsum dolor sit amet\n[\s\S]*\n\.\.\. \(\d+ more lines truncated\)$/),
+    });
+    expect(packed.report.used).toBeLessThanOrEqual(1000);
+  });
+
+  it('drops files once too little of the budget is left', () => {
+    const packed = packContext({
+      budget: 300,
+      files: { [`${WORK_DIR}/src/App.tsx`]: file('export default function App() {}') },
+      contextFiles: { 'src/steps.ts': file(largeModule) },
+      openFiles: [`${WORK_DIR}/src/App.tsx`],
+      messages: [message('user', 150)],
+    });
+
+    expect(packed.report.files.map(({ path, mode, tokens }) => [path, mode, tokens])).toEqual([
+      ['src/App.tsx', 'full', 8],
+      ['src/steps.ts', 'dropped', 0],
+    ]);
+    expect(Object.keys(packed.files)).toEqual(['src/App.tsx']);
+  });
+
+  it('truncates the summary and drops the oldest messages that do not fit', () => {
+    const messages = [message('user', 40, 'first'), message('assistant', 40), message('user', 40), message('user', 40)];
+
+    const packed = packContext({
+      budget: 200,
+      files: {},
+      contextFiles: {},
+      summary: 'The user builds a todo app. '.repeat(40),
+      messages,
+    });
+
+    expect(packed.report.summaryTruncated).toBe(true);
+    expect(packed.summary).toMatch(/\n\.\.\.$/);
+    expect(estimateTokens(packed.summary!)).toBeLessThanOrEqual(41);
+
+    // 200 - 40 for the last message - 41 for the summary leaves room for 2 of the 3 older messages
+    expect(packed.report.droppedMessages).toBe(1);
+    expect(packed.messages).toEqual(messages.slice(1));
+    expect(describeContextPacking(packed.report)).toBe(
+      'Context 161/200 tokens: summary truncated, 1 older messages dropped',
+    );
+  });
+
+  it('always keeps the last message', () => {
+    const messages = [message('user', 30), message('user', 500)];
+
+    const packed = packContext({ budget: 100, files: {}, contextFiles: {}, messages });
+
+    expect(packed.messages).toEqual(messages.slice(1));
+    expect(packed.report.droppedMessages).toBe(1);
+    expect(describeContextPacking(packed.report)).toBe('Context 500/100 tokens: 1 older messages dropped');
+  });
+});
@@ -0,0 +1,294 @@
+import type { Message } from 'ai';
+import type { FileMap } from './constants';
+import { WORK_DIR } from '~/utils/constants';
+import { serializeActionToolCalls } from '~/lib/runtime/action-tools';
+
+// a rough estimate that holds up well enough for code across the common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+// no single file may take more than this share of the budget, larger files are outlined
+const MAX_FILE_BUDGET_SHARE = 0.4;
+
+// the chat summary is always included, but truncated to this share of the budget
+const MAX_SUMMARY_BUDGET_SHARE = 0.2;
+
+// files are dropped instead of truncated when less than this is left
+const MIN_FILE_TOKENS = 200;
+
+const MAX_RECENTLY_EDITED_FILES = 5;
+
+const outlineLineRegex =
+  /^(export |import |(async )?function |class |interface |type |enum |const |let |var |def |module\.exports|#{1,6} |@media |:root)/;
+
+export type FilePackingMode = 'full' | 'outline' | 'truncated' | 'dropped';
+
+export type FilePriority = 'open' | 'locked' | 'recent' | 'selected';
+
+export interface ContextPackingReport {
+  budget: number;
+  used: number;
+  files: Array<{ path: string; priority: FilePriority; mode: FilePackingMode; tokens: number }>;
+  summaryTruncated: boolean;
+  droppedMessages: number;
+}
+
+type PackableMessage = Omit<Message, 'id'>;
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Number of tokens available for the summary, files and history given the model's context window, the tokens
+ * kept free for the response and the size of the system prompt.
+ */
+export function getContextBudget(contextWindow: number, maxOutputTokens: number, systemPrompt: string) {
+  return Math.max(contextWindow - maxOutputTokens - estimateTokens(systemPrompt), 0);
+}
+
+/**
+ * Fills the token budget by priority: the last message and chat summary first, then open and locked
+ * files, recently edited files, the selected context files, and finally the older chat history.
+ * Files that don't fit are outlined or truncated, and only dropped once the budget is exhausted.
+ *
+ * @returns The files to put in the context buffer keyed by relative path, the summary and messages to send,
+ * and a report of what was included
+ */
+export function packContext<T extends PackableMessage>(props: {
+  budget: number;
+  files: FileMap;
+  contextFiles: FileMap;
+  openFiles?: string[];
+  summary?: string;
+  messages: T[];
+}) {
+  const { budget, files, contextFiles, openFiles = [], messages } = props;
+
+  const report: ContextPackingReport = {
+    budget,
+    used: 0,
+    files: [],
+    summaryTruncated: false,
+    droppedMessages: 0,
+  };
+
+  let remaining = budget;
+  const lastMessage = messages[messages.length - 1];
+
+  if (lastMessage) {
+    remaining -= estimateMessageTokens(lastMessage);
+  }
+
+  let summary = props.summary;
+
+  if (summary) {
+    const summaryLimit = Math.floor(budget * MAX_SUMMARY_BUDGET_SHARE);
+
+    if (estimateTokens(summary) > summaryLimit) {
+      summary = `${summary.slice(0, summaryLimit * CHARS_PER_TOKEN)}\n...`;
+      report.summaryTruncated = true;
+    }
+
+    remaining -= estimateTokens(summary);
+  }
+
+  const candidates = new Map<string, FilePriority>();
+  const addCandidates = (paths: string[], priority: FilePriority) => {
+    for (const path of paths) {
+      const relativePath = toRelativePath(path);
+
+      if (!candidates.has(relativePath) && getFile(files, contextFiles, relativePath)) {
+        candidates.set(relativePath, priority);
+      }
+    }
+  };
+
+  // files in a locked folder are left to the context selection, a whole folder would fill the budget
+  const lockedFiles = Object.keys(files).filter(
+    (path) => files[path]?.type === 'file' && files[path]?.isLocked && !files[path]?.lockedByFolder,
+  );
+
+  addCandidates(openFiles, 'open');
+  addCandidates(lockedFiles, 'locked');
+  addCandidates(getRecentlyEditedFiles(messages), 'recent');
+  addCandidates(Object.keys(contextFiles), 'selected');
+
+  const packedFiles: FileMap = {};
+
+  for (const [path, priority] of candidates) {
+    const file = getFile(files, contextFiles, path)!;
+    const limit = Math.min(remaining, Math.floor(budget * MAX_FILE_BUDGET_SHARE));
+    const { mode, content } = fitFile(file.content, limit);
+    const tokens = mode === 'dropped' ? 0 : estimateTokens(content);
+
+    if (mode !== 'dropped') {
+      packedFiles[path] = { ...file, content };
+      remaining -= tokens;
+    }
+
+    report.files.push({ path, priority, mode, tokens });
+  }
+
+  // history is filled newest first, the last message is always kept
+  const history = messages.slice(0, -1);
+  let keepFrom = history.length;
+
+  while (keepFrom > 0) {
+    const tokens = estimateMessageTokens(history[keepFrom - 1]);
+
+    if (tokens > remaining) {
+      break;
+    }
+
+    remaining -= tokens;
+    keepFrom--;
+  }
+
+  report.droppedMessages = keepFrom;
+  report.used = budget - remaining;
+
+  return {
+    files: packedFiles,
+    summary,
+    messages: [...history.slice(keepFrom), ...(lastMessage ? [lastMessage] : [])],
+    report,
+  };
+}
+
+/**
+ * One line summary of the packing decisions, shown as a progress annotation.
+ */
+export function describeContextPacking(report: ContextPackingReport) {
+  const counts = report.files.reduce((acc, file) => ({ ...acc, [file.mode]: acc[file.mode] + 1 }), {
+    full: 0,
+    outline: 0,
+    truncated: 0,
+    dropped: 0,
+  } as Record<FilePackingMode, number>);
+
+  const details = [
+    report.files.length > 0 && `${counts.full} files in full`,
+    counts.outline && `${counts.outline} outlined`,
+    counts.truncated && `${counts.truncated} truncated`,
+    counts.dropped && `${counts.dropped} dropped`,
+    report.summaryTruncated && 'summary truncated',
+    report.droppedMessages && `${report.droppedMessages} older messages dropped`,
+  ].filter(Boolean);
+
+  const usage = `Context ${report.used.toLocaleString()}/${report.budget.toLocaleString()} tokens`;
+
+  return details.length > 0 ? `${usage}: ${details.join(', ')}` : usage;
+}
+
+function fitFile(content: string, limit: number): { mode: FilePackingMode; content: string } {
+  if (estimateTokens(content) <= limit) {
+    return { mode: 'full', content };
+  }
+
+  if (limit < MIN_FILE_TOKENS) {
+    return { mode: 'dropped', content: '' };
+  }
+
+  const outline = outlineFile(content);
+
+  if (outline && estimateTokens(outline) <= limit) {
+    return { mode: 'outline', content: outline };
+  }
+
+  return { mode: 'truncated', content: truncateFile(content, limit) };
+}
+
+/**
+ * Keeps the top level declarations (imports, exports, functions, classes, types, headings) of a file
+ * and marks the omitted line ranges.
+ */
+function outlineFile(content: string) {
+  const lines = content.split('\n');
+  const result: string[] = [];
+  let omittedFrom: number | undefined;
+  let keptLines = 0;
+
+  lines.forEach((line, index) => {
+    if (outlineLineRegex.test(line)) {
+      if (omittedFrom !== undefined) {
+        result.push(`... (lines ${omittedFrom + 1}-${index} omitted)`);
+        omittedFrom = undefined;
+      }
+
+      result.push(line);
+      keptLines++;
+    } else if (omittedFrom === undefined) {
+      omittedFrom = index;
+    }
+  });
+
+  if (keptLines === 0) {
+    return undefined;
+  }
+
+  if (omittedFrom !== undefined) {
+    result.push(`... (lines ${omittedFrom + 1}-${lines.length} omitted)`);
+  }
+
+  return result.join('\n');
+}
+
+function truncateFile(content: string, limit: number) {
+  const lines = content.split('\n');
+  const marker = (count: number) => `... (${count} more lines truncated)`;
+  const maxChars = limit * CHARS_PER_TOKEN - marker(lines.length).length - 1;
+  let chars = 0;
+  let count = 0;
+
+  while (count < lines.length && chars + lines[count].length + 1 <= maxChars) {
+    chars += lines[count].length + 1;
+    count++;
+  }
+
+  return [...lines.slice(0, count), marker(lines.length - count)].join('\n');
+}
+
+/**
+ * Files written by the assistant or modified by the user in the recent messages, most recent first.
+ */
+function getRecentlyEditedFiles(messages: PackableMessage[]) {
+  const paths: string[] = [];
+
+  for (let i = messages.length - 1; i >= 0 && paths.length < MAX_RECENTLY_EDITED_FILES; i--) {
+    const content = getTextContent(messages[i]);
+    const matches = [
+      ...content.matchAll(/<boltAction[^>]*type="(?:file|edit)"[^>]*filePath="([^"]+)"/g),
+      ...content.matchAll(/<(?:diff|file) path="([^"]+)">/g),
+    ];
+
+    for (const match of matches) {
+      if (!paths.includes(match[1])) {
+        paths.push(match[1]);
+      }
+    }
+  }
+
+  return paths.slice(0, MAX_RECENTLY_EDITED_FILES);
+}
+
+function getFile(files: FileMap, contextFiles: FileMap, relativePath: string) {
+  const dirent = contextFiles[relativePath] ?? files[`${WORK_DIR}/${relativePath}`];
+
+  return dirent?.type === 'file' && !dirent.isBinary ? dirent : undefined;
+}
+
+function toRelativePath(path: string) {
+  return path.startsWith(`${WORK_DIR}/`) ? path.slice(WORK_DIR.length + 1) : path;
+}
+
+function getTextContent(message: PackableMessage) {
+  const content = message.content as string | Array<{ type: string; text?: string }>;
+  const text = Array.isArray(content) ? content.map((part) => part.text ?? '').join('\n') : content;
+  const toolCalls = serializeActionToolCalls(message.parts);
+
+  return toolCalls ? `${text}\n${toolCalls}` : text;
+}
+
+function estimateMessageTokens(message: PackableMessage) {
+  return estimateTokens(getTextContent(message));
+}
@@ -0,0 +1,112 @@
+import { convertToCoreMessages, generateObject, type LanguageModelUsage, type Message } from 'ai';
+import { z } from 'zod';
+import type { FailoverTarget, IProviderSetting } from '~/types/model';
+import type { PlanStep } from '~/types/context';
+import { DEFAULT_PROVIDER } from '~/utils/constants';
+import { planPrompt } from '~/lib/common/prompts/plan-prompt';
+import type { CustomProviders } from '~/lib/modules/llm/custom-provider';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { createScopedLogger } from '~/utils/logger';
+import { getContentWithActionToolCalls } from '~/lib/runtime/action-tools';
+import { extractPropertiesFromMessage, simplifyBoltActions } from './utils';
+import { getModelInstance } from './response-cache';
+
+const logger = createScopedLogger('create-plan');
+
+export const MAX_PLAN_STEPS = 12;
+
+export const planSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        title: z.string().min(1).describe('Short imperative title, e.g. "Add the todo list component"'),
+        details: z.string().describe('Files to create or change and the behavior to implement, without code'),
+      }),
+    )
+    .min(1)
+    .max(MAX_PLAN_STEPS),
+});
+
+/**
+ * Asks the planner model for the steps of the request in the last user message.
+ */
+export async function createPlan(props: {
+  messages: Message[];
+  planner: FailoverTarget;
+  filePaths: string[];
+  summary?: string;
+  env?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+  customProviders?: CustomProviders;
+  onFinish?: (usage: LanguageModelUsage) => void;
+}): Promise<PlanStep[]> {
+  const {
+    messages,
+    planner,
+    filePaths,
+    summary,
+    env: serverEnv,
+    apiKeys,
+    providerSettings,
+    customProviders,
+    onFinish,
+  } = props;
+
+  const processedMessages = messages.map((message) => {
+    if (message.role === 'user') {
+      return { ...message, content: extractPropertiesFromMessage(message).content as string };
+    }
+
+    return message.role === 'assistant'
+      ? { ...message, content: simplifyBoltActions(getContentWithActionToolCalls(message)) }
+      : message;
+  });
+
+  const provider = LLMManager.getInstance().getProvider(planner.provider, customProviders) || DEFAULT_PROVIDER;
+  const models = await LLMManager.getInstance().getModelListFromProvider(provider, {
+    apiKeys,
+    providerSettings,
+    customProviders,
+    serverEnv: serverEnv as unknown as Record<string, string> | undefined,
+  });
+  const modelDetails = models.find((model) => model.name === planner.model);
+  const { maxOutputTokens, tools } = provider.getModelCapabilities(
+    modelDetails ?? { name: planner.model, label: planner.model, provider: provider.name, maxTokenAllowed: 8000 },
+  );
+
+  if (!tools) {
+    logger.warn(`${planner.model} does not support tool calls, the plan is requested as JSON`);
+  }
+
+  logger.info(`Planning with ${provider.name} (${planner.model})`);
+
+  const { object, usage } = await generateObject({
+    model: getModelInstance(provider, {
+      model: planner.model,
+      serverEnv,
+      apiKeys,
+      providerSettings,
+    }),
+    schema: planSchema,
+
+    // models without tool calls answer with the JSON of the schema in the text
+    mode: tools ? 'auto' : 'json',
+    system: `${planPrompt(filePaths)}${summary ? `\n<chat_summary>\n${summary}\n</chat_summary>\n` : ''}`,
+    messages: convertToCoreMessages(summary ? processedMessages.slice(-3) : processedMessages),
+    maxTokens: maxOutputTokens,
+  });
+
+  onFinish?.(usage);
+
+  return object.steps;
+}
+
+/**
+ * The plan as a markdown checklist, the text of the assistant message that carries the plan annotation.
+ */
+export function formatPlan(steps: PlanStep[]) {
+  return ['## The Plan', '', ...steps.map((step, index) => `${index + 1}. **${step.title}**: ${step.details}`)].join(
+    '\n',
+  );
+}
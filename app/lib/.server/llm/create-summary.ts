@@ -1,9 +1,12 @@
 import { generateText, type CoreTool, type GenerateTextResult, type Message } from 'ai';
 import type { IProviderSetting } from '~/types/model';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST } from '~/utils/constants';
-import { extractCurrentContext, extractPropertiesFromMessage, simplifyBoltActions } from './utils';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from '~/utils/constants';
+import { extractLatestSummary, extractPropertiesFromMessage, simplifyBoltActions } from './utils';
 import { createScopedLogger } from '~/utils/logger';
+import { getContentWithActionToolCalls } from '~/lib/runtime/action-tools';
+import type { CustomProviders } from '~/lib/modules/llm/custom-provider';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import { getModelInstance } from './response-cache';
 
 const logger = createScopedLogger('create-summary');
 
@@ -12,11 +15,12 @@ export async function createSummary(props: {
   env?: Env;
   apiKeys?: Record<string, string>;
   providerSettings?: Record<string, IProviderSetting>;
+  customProviders?: CustomProviders;
   promptId?: string;
   contextOptimization?: boolean;
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
 }) {
-  const { messages, env: serverEnv, apiKeys, providerSettings, onFinish } = props;
+  const { messages, env: serverEnv, apiKeys, providerSettings, customProviders, onFinish } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
   const processedMessages = messages.map((message) => {
@@ -27,7 +31,7 @@ export async function createSummary(props: {
 
       return { ...message, content };
     } else if (message.role == 'assistant') {
-      let content = message.content;
+      let content = getContentWithActionToolCalls(message);
 
       content = simplifyBoltActions(content);
       content = content.replace(/<div class=\\"__boltThought__\\">.*?<\/div>/s, '');
@@ -39,8 +43,8 @@ export async function createSummary(props: {
     return message;
   });
 
-  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
-  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
+  const provider = LLMManager.getInstance().getProvider(currentProvider, customProviders) || DEFAULT_PROVIDER;
+  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider, customProviders);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
 
   if (!modelDetails) {
@@ -49,6 +53,7 @@ export async function createSummary(props: {
       ...(await LLMManager.getInstance().getModelListFromProvider(provider, {
         apiKeys,
         providerSettings,
+        customProviders,
         serverEnv: serverEnv as any,
       })),
     ];
@@ -69,27 +74,28 @@ export async function createSummary(props: {
   }
 
   let slicedMessages = processedMessages;
-  const { summary } = extractCurrentContext(processedMessages);
+  const summary = extractLatestSummary(processedMessages);
   let summaryText: string | undefined = undefined;
-  let chatId: string | undefined = undefined;
 
-  if (summary && summary.type === 'chatSummary') {
-    chatId = summary.chatId;
+  if (summary) {
     summaryText = `Below is the Chat Summary till now, this is chat summary before the conversation provided by the user 
 you should also use this as historical message while providing the response to the user.        
 ${summary.summary}`;
 
-    if (chatId) {
-      let index = 0;
+    /*
+     * the summary covers the messages up to and including chatId, when that message is not in the list
+     * (e.g. the chat was restored from a snapshot) the summary covers everything before it
+     */
+    const index = processedMessages.findIndex((message) => message.id === summary.chatId);
 
-      for (let i = 0; i < processedMessages.length; i++) {
-        if (processedMessages[i].id === chatId) {
-          index = i;
-          break;
-        }
-      }
+    if (index >= 0) {
       slicedMessages = processedMessages.slice(index + 1);
     }
+
+    if (slicedMessages.length === 0) {
+      logger.debug('No new messages since the last summary, reusing it');
+      return summary.summary;
+    }
   }
 
   logger.debug('Sliced Messages:', slicedMessages.length);
@@ -160,13 +166,17 @@ Note:
         * do not write any thing other that the summary with with the provided structure
         `,
     prompt: `
-
+${
+  summaryText
+    ? `
 Here is the previous summary of the chat:
 <old_summary>
 ${summaryText} 
 </old_summary>
 
-Below is the chat after that:
+Below is the chat after that:`
+    : `Below is the chat:`
+}
 ---
 <new_chats>
 ${slicedMessages
@@ -179,7 +189,7 @@ ${slicedMessages
 
 Please provide a summary of the chat till now including the hitorical summary of the chat.
 `,
-    model: provider.getModelInstance({
+    model: getModelInstance(provider, {
       model: currentModel,
       serverEnv,
       apiKeys,
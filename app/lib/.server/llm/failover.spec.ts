@@ -0,0 +1,55 @@
+import { APICallError } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { classifyLlmError, FailoverChain } from './failover';
+
+function apiCallError(statusCode: number, responseHeaders?: Record<string, string>, responseBody?: string) {
+  return new APICallError({
+    message: `Request failed with status ${statusCode}`,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+    responseBody,
+  });
+}
+
+describe('classifyLlmError', () => {
+  it('should classify API errors by status code', () => {
+    expect(classifyLlmError(apiCallError(401)).type).toBe('authentication');
+    expect(classifyLlmError(apiCallError(429, { 'retry-after': '3' }))).toMatchObject({
+      type: 'rate_limit',
+      retryAfterMs: 3000,
+    });
+    expect(classifyLlmError(apiCallError(429, {}, '{"error":"insufficient_quota"}')).type).toBe('quota');
+    expect(classifyLlmError(apiCallError(529)).type).toBe('network');
+    expect(classifyLlmError(apiCallError(400)).type).toBe('unknown');
+  });
+
+  it('should classify other errors by their message', () => {
+    expect(classifyLlmError(new Error('Missing API key for OpenAI')).type).toBe('authentication');
+    expect(classifyLlmError(new Error('fetch failed')).type).toBe('network');
+  });
+});
+
+describe('FailoverChain', () => {
+  const anthropic = { provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' };
+  const openRouter = { provider: 'OpenRouter', model: 'anthropic/claude-3.5-sonnet' };
+  const ollama = { provider: 'Ollama', model: 'qwen2.5-coder' };
+
+  it('should retry rate limits with backoff before switching', () => {
+    const chain = new FailoverChain(anthropic, [openRouter, ollama]);
+
+    expect(chain.next(apiCallError(429))).toMatchObject({ target: anthropic, switched: false, delayMs: 1000 });
+    expect(chain.next(apiCallError(429))).toMatchObject({ target: anthropic, switched: false, delayMs: 2000 });
+    expect(chain.next(apiCallError(429))).toMatchObject({ target: openRouter, switched: true, delayMs: 0 });
+    expect(chain.next(apiCallError(500))).toMatchObject({ target: openRouter, switched: false });
+  });
+
+  it('should skip the other models of a provider after an authentication error', () => {
+    const chain = new FailoverChain(anthropic, [{ ...anthropic, model: 'claude-3-haiku' }, ollama]);
+
+    expect(chain.next(apiCallError(401))).toMatchObject({ target: ollama, switched: true });
+    expect(chain.next(apiCallError(401))).toBeUndefined();
+    expect(chain.failures.map((failure) => failure.errorType)).toEqual(['authentication', 'authentication']);
+  });
+});
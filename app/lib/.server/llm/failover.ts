@@ -0,0 +1,171 @@
+import { APICallError, RetryError } from 'ai';
+import type { LlmErrorAlertType } from '~/types/actions';
+import type { FailoverTarget } from '~/types/model';
+
+export type LlmErrorType = NonNullable<LlmErrorAlertType['errorType']>;
+
+export interface ClassifiedLlmError {
+  type: LlmErrorType;
+  message: string;
+  retryAfterMs?: number;
+}
+
+export interface FailoverStep {
+  target: FailoverTarget;
+  error: ClassifiedLlmError;
+
+  // false when the same target is retried
+  switched: boolean;
+  delayMs: number;
+}
+
+// how often the same target is retried before moving on to the next one in the chain
+const MAX_RETRIES: Record<LlmErrorType, number> = {
+  rate_limit: 2,
+  network: 2,
+  quota: 0,
+  authentication: 0,
+  unknown: 0,
+};
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export function classifyLlmError(error: unknown): ClassifiedLlmError {
+  // the SDK wraps the errors of its own retries
+  if (RetryError.isInstance(error)) {
+    return classifyLlmError(error.lastError);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (APICallError.isInstance(error) && error.statusCode) {
+    const { statusCode, responseHeaders, responseBody } = error;
+    const details = `${message} ${responseBody ?? ''}`;
+
+    if (statusCode === 401 || statusCode === 403) {
+      return { type: 'authentication', message };
+    }
+
+    if (statusCode === 402 || (statusCode === 429 && /quota|billing|credit|insufficient/i.test(details))) {
+      return { type: 'quota', message };
+    }
+
+    if (statusCode === 429) {
+      return { type: 'rate_limit', message, retryAfterMs: parseRetryAfter(responseHeaders) };
+    }
+
+    if (statusCode === 408 || statusCode >= 500) {
+      return { type: 'network', message, retryAfterMs: parseRetryAfter(responseHeaders) };
+    }
+
+    return { type: 'unknown', message };
+  }
+
+  if (/api key|unauthorized|authentication/i.test(message)) {
+    return { type: 'authentication', message };
+  }
+
+  if (/quota|billing|insufficient credit/i.test(message)) {
+    return { type: 'quota', message };
+  }
+
+  if (/rate limit|too many requests/i.test(message)) {
+    return { type: 'rate_limit', message };
+  }
+
+  if (/network|fetch failed|timed? ?out|overloaded|ECONNRESET|ECONNREFUSED|ENOTFOUND/i.test(message)) {
+    return { type: 'network', message };
+  }
+
+  return { type: 'unknown', message };
+}
+
+function parseRetryAfter(headers?: Record<string, string>) {
+  const retryAfterMs = Number(headers?.['retry-after-ms']);
+
+  if (retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers?.['retry-after'];
+
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function getRetryDelay(retry: number, retryAfterMs?: number) {
+  return Math.min(retryAfterMs ?? BASE_RETRY_DELAY_MS * 2 ** retry, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * The selected model followed by its fallbacks. Every failure either retries the current target
+ * with exponential backoff or moves on to the next one, depending on the type of the error.
+ */
+export class FailoverChain {
+  readonly targets: FailoverTarget[];
+  readonly failures: (FailoverTarget & { errorType: LlmErrorType })[] = [];
+  #index = 0;
+  #retries = 0;
+
+  constructor(primary: FailoverTarget, fallbacks: FailoverTarget[] = []) {
+    this.targets = [primary];
+
+    for (const fallback of fallbacks) {
+      if (!this.targets.some((target) => isSameTarget(target, fallback))) {
+        this.targets.push(fallback);
+      }
+    }
+  }
+
+  get current() {
+    return this.targets[this.#index];
+  }
+
+  /**
+   * @returns The target to try next, or `undefined` when the chain is exhausted
+   */
+  next(error: unknown): FailoverStep | undefined {
+    const classified = classifyLlmError(error);
+    const failed = this.current;
+
+    this.failures.push({ ...failed, errorType: classified.type });
+
+    if (this.#retries < MAX_RETRIES[classified.type]) {
+      const delayMs = getRetryDelay(this.#retries, classified.retryAfterMs);
+      this.#retries++;
+
+      return { target: failed, error: classified, switched: false, delayMs };
+    }
+
+    // a missing key or an empty balance fails every model of the provider
+    const skipProvider = classified.type === 'authentication' || classified.type === 'quota';
+
+    do {
+      this.#index++;
+    } while (skipProvider && this.current && this.current.provider === failed.provider);
+
+    this.#retries = 0;
+
+    if (!this.current) {
+      return undefined;
+    }
+
+    return { target: this.current, error: classified, switched: true, delayMs: 0 };
+  }
+}
+
+function isSameTarget(a: FailoverTarget, b: FailoverTarget) {
+  return a.provider === b.provider && a.model === b.model;
+}
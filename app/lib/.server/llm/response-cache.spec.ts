@@ -0,0 +1,94 @@
+import { generateText, simulateReadableStream, streamText, wrapLanguageModel } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  createLlmCacheMiddleware,
+  FileSystemLlmCacheStore,
+  LlmCacheMissError,
+  MemoryLlmCacheStore,
+  type LlmCacheStore,
+} from './response-cache';
+
+const usage = { promptTokens: 10, completionTokens: 5 };
+const rawCall = { rawPrompt: null, rawSettings: {} };
+
+const liveModel = new MockLanguageModelV1({
+  doGenerate: async () => ({ text: 'Hello from the model', finishReason: 'stop', usage, rawCall }),
+  doStream: async () => ({
+    stream: simulateReadableStream({
+      chunks: [
+        { type: 'response-metadata', id: 'response-1', timestamp: new Date('2025-05-01T10:00:00Z') },
+        { type: 'text-delta', textDelta: 'Hello ' },
+        { type: 'text-delta', textDelta: 'world' },
+        { type: 'finish', finishReason: 'stop', usage },
+      ],
+    }),
+    rawCall,
+  }),
+});
+
+const offlineModel = new MockLanguageModelV1({
+  doGenerate: () => Promise.reject(new Error('network access')),
+  doStream: () => Promise.reject(new Error('network access')),
+});
+
+function withCache(model: MockLanguageModelV1, mode: 'record' | 'replay', store: LlmCacheStore) {
+  return wrapLanguageModel({
+    model,
+    middleware: createLlmCacheMiddleware({ provider: 'OpenAI', model: 'gpt-4o', mode, store }),
+  });
+}
+
+describe('createLlmCacheMiddleware', () => {
+  it('should replay a recorded stream without calling the model', async () => {
+    const store = new MemoryLlmCacheStore();
+    const request = { system: 'You are Bolt', prompt: 'Say hello' };
+
+    const recorded = streamText({ model: withCache(liveModel, 'record', store), ...request });
+    await recorded.consumeStream();
+    expect(await recorded.text).toBe('Hello world');
+
+    const replayed = streamText({ model: withCache(offlineModel, 'replay', store), ...request });
+    await replayed.consumeStream();
+    expect(await replayed.text).toBe('Hello world');
+    expect((await replayed.response).timestamp).toEqual(new Date('2025-05-01T10:00:00Z'));
+  });
+
+  it('should replay generated text and fail on prompts that were never recorded', async () => {
+    const store = new MemoryLlmCacheStore();
+
+    await generateText({ model: withCache(liveModel, 'record', store), prompt: 'Say hello' });
+
+    const replayed = await generateText({ model: withCache(offlineModel, 'replay', store), prompt: 'Say hello' });
+    expect(replayed.text).toBe('Hello from the model');
+
+    await expect(
+      generateText({ model: withCache(offlineModel, 'replay', store), system: 'Changed prompt', prompt: 'Say hello' }),
+    ).rejects.toBeInstanceOf(LlmCacheMissError);
+  });
+});
+
+describe('FileSystemLlmCacheStore', () => {
+  it('should keep one file per response when the same call is recorded concurrently', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'llm-cache-'));
+    const store = new FileSystemLlmCacheStore(directory);
+
+    try {
+      expect(await store.get('missing')).toBeUndefined();
+
+      await Promise.all(
+        ['first', 'second', 'third'].map((text) =>
+          store.set('same-call', { type: 'generate', result: { text, finishReason: 'stop', usage } }),
+        ),
+      );
+
+      expect(await readdir(directory)).toEqual(['same-call.json']);
+      expect(await store.get('same-call')).toMatchObject({ type: 'generate' });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,253 @@
+import { simulateReadableStream, wrapLanguageModel, type LanguageModelV1, type LanguageModelV1Middleware } from 'ai';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('response-cache');
+
+/**
+ * `record` calls the model and saves every response, `replay` only answers from the saved responses and never
+ * touches the network, `passthrough` leaves the model alone.
+ */
+export type LlmCacheMode = 'record' | 'replay' | 'passthrough';
+
+const LLM_CACHE_MODES: LlmCacheMode[] = ['record', 'replay', 'passthrough'];
+const DEFAULT_LLM_CACHE_DIR = '.llm-cache';
+
+// taken from the SDK, the top level @ai-sdk/provider package is an older version than the one it uses
+type LanguageModelV1CallOptions = Parameters<LanguageModelV1['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+type LanguageModelV1StreamPart =
+  Awaited<ReturnType<LanguageModelV1['doStream']>>['stream'] extends ReadableStream<infer T> ? T : never;
+
+export type LlmCacheEntry =
+  | { type: 'generate'; result: Omit<GenerateResult, 'rawCall' | 'rawResponse' | 'request'> }
+  | { type: 'stream'; parts: LanguageModelV1StreamPart[] };
+
+export interface LlmCacheStore {
+  get(key: string): Promise<LlmCacheEntry | undefined>;
+  set(key: string, entry: LlmCacheEntry): Promise<void>;
+}
+
+export class LlmCacheMissError extends Error {
+  constructor(
+    readonly key: string,
+    readonly model: string,
+  ) {
+    super(`No recorded response for ${model} (${key}), run with LLM_CACHE_MODE=record first`);
+    this.name = 'LlmCacheMissError';
+  }
+}
+
+/**
+ * Keeps every response as `<key>.json` in the cache directory, so recordings can be checked in next to the tests
+ * that replay them. The file system is imported on first use, the worker runtime has none and never records.
+ */
+export class FileSystemLlmCacheStore implements LlmCacheStore {
+  readonly #directory: string;
+
+  constructor(directory: string) {
+    this.#directory = directory;
+  }
+
+  async get(key: string) {
+    const { readFile } = await import('node:fs/promises');
+
+    try {
+      return JSON.parse(await readFile(await this.#entryPath(key), 'utf-8')) as LlmCacheEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  // written to a temporary file first so an aborted run never leaves a half written response behind
+  async set(key: string, entry: LlmCacheEntry) {
+    const { mkdir, rename, writeFile } = await import('node:fs/promises');
+    const filePath = await this.#entryPath(key);
+
+    // concurrent recordings of the same call each write their own file
+    const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+
+    await mkdir(this.#directory, { recursive: true });
+    await writeFile(tempPath, JSON.stringify(entry, null, 2), 'utf-8');
+    await rename(tempPath, filePath);
+  }
+
+  async #entryPath(key: string) {
+    const { join } = await import('node:path');
+
+    return join(this.#directory, `${key}.json`);
+  }
+}
+
+export class MemoryLlmCacheStore implements LlmCacheStore {
+  readonly #entries = new Map<string, string>();
+
+  async get(key: string) {
+    const entry = this.#entries.get(key);
+
+    return entry === undefined ? undefined : (JSON.parse(entry) as LlmCacheEntry);
+  }
+
+  // stored as JSON so a replay sees exactly what the file store would give back
+  async set(key: string, entry: LlmCacheEntry) {
+    this.#entries.set(key, JSON.stringify(entry));
+  }
+}
+
+/**
+ * Content address of a call: the provider, the model and the prompt with its system message. Tools are part of it
+ * because they change what the model answers with.
+ */
+export async function getLlmCacheKey(provider: string, model: string, params: LanguageModelV1CallOptions) {
+  const content = JSON.stringify({
+    provider,
+    model,
+    prompt: params.prompt,
+    mode: params.mode,
+    responseFormat: params.responseFormat,
+  });
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// dates do not survive JSON
+function reviveTimestamp<T extends { timestamp?: Date | string }>(value: T): T {
+  return value.timestamp === undefined ? value : { ...value, timestamp: new Date(value.timestamp) };
+}
+
+const REPLAYED_RAW_CALL = { rawPrompt: null, rawSettings: {} };
+
+export function createLlmCacheMiddleware(options: {
+  provider: string;
+  model: string;
+  mode: Exclude<LlmCacheMode, 'passthrough'>;
+  store: LlmCacheStore;
+}): LanguageModelV1Middleware {
+  const { provider, model, mode, store } = options;
+
+  return {
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const key = await getLlmCacheKey(provider, model, params);
+      const entry = await store.get(key);
+
+      if (entry?.type === 'generate') {
+        const { response, ...result } = entry.result;
+
+        return { ...result, response: response && reviveTimestamp(response), rawCall: REPLAYED_RAW_CALL };
+      }
+
+      if (mode === 'replay') {
+        throw new LlmCacheMissError(key, `${provider}/${model}`);
+      }
+
+      const result = await doGenerate();
+      const { rawCall, rawResponse, request, ...response } = result;
+
+      await store.set(key, { type: 'generate', result: response });
+
+      return result;
+    },
+
+    wrapStream: async ({ doStream, params }) => {
+      const key = await getLlmCacheKey(provider, model, params);
+      const entry = await store.get(key);
+
+      if (entry?.type === 'stream') {
+        const parts = entry.parts.map((part) => (part.type === 'response-metadata' ? reviveTimestamp(part) : part));
+
+        return {
+          stream: simulateReadableStream({ chunks: parts, initialDelayInMs: null, chunkDelayInMs: null }),
+          rawCall: REPLAYED_RAW_CALL,
+        };
+      }
+
+      if (mode === 'replay') {
+        throw new LlmCacheMissError(key, `${provider}/${model}`);
+      }
+
+      const { stream, ...rest } = await doStream();
+      const parts: LanguageModelV1StreamPart[] = [];
+
+      const recorder = new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+        transform(part, controller) {
+          parts.push(part);
+          controller.enqueue(part);
+        },
+
+        // a failed or cut off response would be replayed as if it were the answer
+        async flush() {
+          if (parts.some((part) => part.type === 'error') || !parts.some((part) => part.type === 'finish')) {
+            return;
+          }
+
+          try {
+            await store.set(key, { type: 'stream', parts });
+          } catch (error) {
+            logger.error(`Failed to record response ${key}`, error);
+          }
+        },
+      });
+
+      return { stream: stream.pipeThrough(recorder), ...rest };
+    },
+  };
+}
+
+export function getLlmCacheMode(serverEnv?: Env): LlmCacheMode {
+  const mode = (serverEnv?.LLM_CACHE_MODE || process.env.LLM_CACHE_MODE || 'passthrough') as LlmCacheMode;
+
+  if (!LLM_CACHE_MODES.includes(mode)) {
+    logger.warn(`Unknown LLM_CACHE_MODE ${mode}, responses are not cached`);
+    return 'passthrough';
+  }
+
+  return mode;
+}
+
+// replay never calls the model, so it works without API keys
+function createOfflineModel(provider: string, modelId: string): LanguageModelV1 {
+  const fail = () => Promise.reject(new Error(`${provider}/${modelId} is not called while replaying responses`));
+
+  return {
+    specificationVersion: 'v1',
+    provider,
+    modelId,
+    defaultObjectGenerationMode: undefined,
+    doGenerate: fail,
+    doStream: fail,
+  };
+}
+
+/**
+ * Model instance of a provider, wrapped in the response cache when `LLM_CACHE_MODE` is `record` or `replay`.
+ * Responses are kept in `LLM_CACHE_DIR`.
+ */
+export function getModelInstance(
+  provider: BaseProvider,
+  options: Parameters<BaseProvider['getModelInstance']>[0],
+): LanguageModelV1 {
+  const mode = getLlmCacheMode(options.serverEnv);
+
+  if (mode === 'passthrough') {
+    return provider.getModelInstance(options);
+  }
+
+  const directory = options.serverEnv?.LLM_CACHE_DIR || process.env.LLM_CACHE_DIR || DEFAULT_LLM_CACHE_DIR;
+
+  return wrapLanguageModel({
+    model: mode === 'replay' ? createOfflineModel(provider.name, options.model) : provider.getModelInstance(options),
+    modelId: options.model,
+    middleware: createLlmCacheMiddleware({
+      provider: provider.name,
+      model: options.model,
+      mode,
+      store: new FileSystemLlmCacheStore(directory),
+    }),
+  });
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FileMap } from './constants';
+import { chunkFiles, RetrievalIndex, type EmbeddingProvider } from './retrieval-index';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+const lines = (count: number, text = 'line') => Array.from({ length: count }, (_, i) => `${text} ${i + 1}`).join('\n');
+
+// embeds text about signing in and everything else as two orthogonal vectors
+function createEmbeddingProvider(name: string) {
+  const embed = vi.fn(async (texts: string[]) => ({
+    embeddings: texts.map((text) => (/login|sign in/i.test(text) ? [1, 0] : [0, 1])),
+    tokens: texts.length,
+  }));
+  const provider: EmbeddingProvider = { name, provider: 'Test', model: 'test-embedding', embed };
+
+  return { provider, embed };
+}
+
+describe('chunkFiles', () => {
+  it('splits text files into overlapping chunks that start with the file path', () => {
+    const files: FileMap = {
+      '/home/project/src/long.ts': file(lines(120)),
+      '/home/project/src/short.ts': file('export {};'),
+      '/home/project/logo.png': { type: 'file', content: '', isBinary: true },
+      '/home/project/data.json': file('x'.repeat(200_001)),
+      '/home/project/src': { type: 'folder' },
+    };
+
+    const chunks = chunkFiles(files, Object.keys(files));
+
+    expect(chunks.map(({ filePath, startLine, endLine }) => [filePath, startLine, endLine])).toEqual([
+      ['/home/project/src/long.ts', 1, 60],
+      ['/home/project/src/long.ts', 51, 110],
+      ['/home/project/src/long.ts', 101, 120],
+      ['/home/project/src/short.ts', 1, 1],
+    ]);
+    expect(chunks[1].content).toBe(`/home/project/src/long.ts\n${lines(110).split('\n').slice(50).join('\n')}`);
+  });
+});
+
+describe('RetrievalIndex', () => {
+  const files: FileMap = {
+    '/home/project/src/LoginForm.tsx': file('export function LoginForm() {}'),
+    '/home/project/src/TodoList.tsx': file('export function TodoList() {}'),
+  };
+  const chunks = chunkFiles(files, Object.keys(files));
+
+  it('ranks with BM25 without an embedding provider', async () => {
+    const index = new RetrievalIndex(chunks);
+
+    expect((await index.search('todo list')).map((chunk) => chunk.filePath)).toEqual([
+      '/home/project/src/TodoList.tsx',
+    ]);
+    expect(await index.search('sign in screen')).toEqual([]);
+  });
+
+  it('ranks by the similarity of the embeddings and only embeds new chunks once', async () => {
+    const { provider, embed } = createEmbeddingProvider('cached');
+    const index = new RetrievalIndex(chunks, provider);
+
+    expect(await index.searchFiles('sign in screen', 5)).toEqual(['/home/project/src/LoginForm.tsx']);
+    expect(await index.searchFiles('sign in screen', 5)).toEqual(['/home/project/src/LoginForm.tsx']);
+
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed.mock.calls[1][0]).toEqual(['sign in screen']);
+    expect(index.embeddingTokens).toBe(4);
+  });
+
+  it('falls back to BM25 when the embedding provider fails', async () => {
+    const { provider, embed } = createEmbeddingProvider('failing');
+    embed.mockRejectedValueOnce(new Error('rate limited'));
+
+    const index = new RetrievalIndex(chunks, provider);
+
+    expect((await index.search('todo list')).map((chunk) => chunk.filePath)).toEqual([
+      '/home/project/src/TodoList.tsx',
+    ]);
+    expect(index.embeddingTokens).toBe(0);
+  });
+
+  it('scores every chunk of a project larger than the embedding cache', async () => {
+    const { provider } = createEmbeddingProvider('large');
+    const largeFiles: FileMap = Object.fromEntries(
+      Array.from({ length: 5001 }, (_, i) => [
+        `/home/project/src/login${i}.ts`,
+        file(`export const login${i} = ${i};`),
+      ]),
+    );
+    const index = new RetrievalIndex(chunkFiles(largeFiles, Object.keys(largeFiles)), provider);
+
+    const ranked = await index.search('sign in', 6000);
+
+    expect(ranked).toHaveLength(5001);
+    expect(ranked.every((chunk) => chunk.score === 1)).toBe(true);
+  });
+
+  it('evicts the least recently used embeddings first', async () => {
+    const { provider, embed } = createEmbeddingProvider('lru');
+    const project = (prefix: string, count: number): FileMap =>
+      Object.fromEntries(
+        Array.from({ length: count }, (_, i) => [
+          `/home/project/src/${prefix}${i}.ts`,
+          file(`export const ${prefix}${i} = ${i};`),
+        ]),
+      );
+    const search = (files: FileMap) => new RetrievalIndex(chunkFiles(files, Object.keys(files)), provider).search('x');
+
+    await search(files);
+    await search(project('first', 4990));
+    await search(files);
+    await search(project('second', 20));
+
+    embed.mockClear();
+    await search(files);
+
+    expect(embed).toHaveBeenCalledWith(['x']);
+  });
+});
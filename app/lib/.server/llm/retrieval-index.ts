@@ -0,0 +1,178 @@
+import type { FileMap } from './constants';
+import { Bm25Ranker } from '~/utils/bm25';
+import { cosineSimilarity } from '~/utils/vectors';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('retrieval-index');
+
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP_LINES = 10;
+const MAX_FILE_SIZE = 200_000;
+const MAX_CACHED_EMBEDDINGS = 5000;
+
+export interface ContextChunk {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+export interface RankedChunk extends ContextChunk {
+  score: number;
+}
+
+/**
+ * Turns text into vectors so chunks can be ranked by similarity to the user's request.
+ * Implementations are expected to return one vector per input, in the same order.
+ */
+export interface EmbeddingProvider {
+  name: string;
+  provider: string;
+  model: string;
+
+  // `tokens` is what the call used, when the provider reports it
+  embed(texts: string[]): Promise<{ embeddings: number[][]; tokens?: number }>;
+}
+
+/**
+ * Splits every text file into overlapping chunks of lines. Each chunk starts with its file path
+ * so that both the ranking and the embeddings can pick up on file and folder names.
+ */
+export function chunkFiles(files: FileMap, filePaths: string[]): ContextChunk[] {
+  const chunks: ContextChunk[] = [];
+
+  for (const filePath of filePaths) {
+    const dirent = files[filePath];
+
+    if (dirent?.type !== 'file' || dirent.isBinary || dirent.content.length > MAX_FILE_SIZE) {
+      continue;
+    }
+
+    const lines = dirent.content.split('\n');
+
+    for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP_LINES) {
+      const end = Math.min(start + CHUNK_LINES, lines.length);
+
+      chunks.push({
+        filePath,
+        startLine: start + 1,
+        endLine: end,
+        content: `${filePath}\n${lines.slice(start, end).join('\n')}`,
+      });
+
+      if (end === lines.length) {
+        break;
+      }
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Embeddings are cached across requests by content so unchanged chunks are only embedded once.
+ * The map is kept in order of use, the least recently used embeddings are evicted first.
+ */
+const embeddingCache = new Map<string, number[]>();
+
+export class RetrievalIndex {
+  #chunks: ContextChunk[];
+  #embeddingProvider?: EmbeddingProvider;
+
+  /**
+   * Tokens used by the embedding calls of the searches so far
+   */
+  embeddingTokens = 0;
+
+  constructor(chunks: ContextChunk[], embeddingProvider?: EmbeddingProvider) {
+    this.#chunks = chunks;
+    this.#embeddingProvider = embeddingProvider;
+  }
+
+  /**
+   * Ranks all chunks against the query, using embeddings when a provider is available
+   * and falling back to BM25 when there is none or it fails.
+   */
+  async search(query: string, limit = 20): Promise<RankedChunk[]> {
+    let scores: number[] | undefined;
+
+    if (this.#embeddingProvider) {
+      try {
+        scores = await this.#scoreWithEmbeddings(this.#embeddingProvider, query);
+      } catch (error) {
+        logger.warn(`Embedding provider ${this.#embeddingProvider.name} failed, falling back to BM25`, error);
+      }
+    }
+
+    if (!scores) {
+      scores = new Bm25Ranker(this.#chunks.map((chunk) => chunk.content)).score(query);
+    }
+
+    return this.#chunks
+      .map((chunk, index) => ({ ...chunk, score: scores[index] }))
+      .filter((chunk) => chunk.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Ranks files by their best matching chunk.
+   * @returns File paths, most relevant first
+   */
+  async searchFiles(query: string, maxFiles: number): Promise<string[]> {
+    const rankedChunks = await this.search(query, this.#chunks.length);
+    const filePaths: string[] = [];
+
+    for (const chunk of rankedChunks) {
+      if (!filePaths.includes(chunk.filePath)) {
+        filePaths.push(chunk.filePath);
+      }
+
+      if (filePaths.length >= maxFiles) {
+        break;
+      }
+    }
+
+    return filePaths;
+  }
+
+  async #scoreWithEmbeddings(provider: EmbeddingProvider, query: string) {
+    const cacheKeys = await Promise.all(
+      this.#chunks.map(async (chunk) => `${provider.name}:${await hashContent(chunk.content)}`),
+    );
+    const missing = cacheKeys.map((key, index) => ({ key, index })).filter(({ key }) => !embeddingCache.has(key));
+
+    const texts = [query, ...missing.map(({ index }) => this.#chunks[index].content)];
+    const { embeddings, tokens } = await provider.embed(texts);
+    const [queryEmbedding, ...chunkEmbeddings] = embeddings;
+
+    this.embeddingTokens += tokens ?? 0;
+
+    missing.forEach(({ key }, i) => {
+      embeddingCache.set(key, chunkEmbeddings[i]);
+    });
+
+    const scores = cacheKeys.map((key) => {
+      const embedding = embeddingCache.get(key)!;
+
+      // moved to the end, it was just used
+      embeddingCache.delete(key);
+      embeddingCache.set(key, embedding);
+
+      return Math.max(0, cosineSimilarity(queryEmbedding, embedding));
+    });
+
+    // evicted only once read, a project with more chunks than the cache holds would lose its own embeddings otherwise
+    while (embeddingCache.size > MAX_CACHED_EMBEDDINGS) {
+      embeddingCache.delete(embeddingCache.keys().next().value as string);
+    }
+
+    return scores;
+  }
+}
+
+async function hashContent(content: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -2,10 +2,13 @@ import { generateText, type CoreTool, type GenerateTextResult, type Message } fr
 import ignore from 'ignore';
 import type { IProviderSetting } from '~/types/model';
 import { IGNORE_PATTERNS, type FileMap } from './constants';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST } from '~/utils/constants';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from '~/utils/constants';
 import { createFilesContext, extractCurrentContext, extractPropertiesFromMessage, simplifyBoltActions } from './utils';
 import { createScopedLogger } from '~/utils/logger';
+import { getContentWithActionToolCalls } from '~/lib/runtime/action-tools';
+import type { CustomProviders } from '~/lib/modules/llm/custom-provider';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import { getModelInstance } from './response-cache';
 
 // Common patterns to ignore, similar to .gitignore
 
@@ -18,12 +21,13 @@ export async function selectContext(props: {
   apiKeys?: Record<string, string>;
   files: FileMap;
   providerSettings?: Record<string, IProviderSetting>;
+  customProviders?: CustomProviders;
   promptId?: string;
   contextOptimization?: boolean;
   summary: string;
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
 }) {
-  const { messages, env: serverEnv, apiKeys, files, providerSettings, summary, onFinish } = props;
+  const { messages, env: serverEnv, apiKeys, files, providerSettings, customProviders, summary, onFinish } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
   const processedMessages = messages.map((message) => {
@@ -34,7 +38,7 @@ export async function selectContext(props: {
 
       return { ...message, content };
     } else if (message.role == 'assistant') {
-      let content = message.content;
+      let content = getContentWithActionToolCalls(message);
 
       content = simplifyBoltActions(content);
 
@@ -47,8 +51,8 @@ export async function selectContext(props: {
     return message;
   });
 
-  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
-  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
+  const provider = LLMManager.getInstance().getProvider(currentProvider, customProviders) || DEFAULT_PROVIDER;
+  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider, customProviders);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
 
   if (!modelDetails) {
@@ -57,6 +61,7 @@ export async function selectContext(props: {
       ...(await LLMManager.getInstance().getModelListFromProvider(provider, {
         apiKeys,
         providerSettings,
+        customProviders,
         serverEnv: serverEnv as any,
       })),
     ];
@@ -168,7 +173,7 @@ export async function selectContext(props: {
         * if the buffer is full, you need to exclude files that is not needed and include files that is relevent.
 
         `,
-    model: provider.getModelInstance({
+    model: getModelInstance(provider, {
       model: currentModel,
       serverEnv,
       apiKeys,
@@ -0,0 +1,40 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from './constants';
+import { selectSemanticContext } from './semantic-context';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+const files: FileMap = {
+  '/home/project/src/LoginForm.tsx': file('export function LoginForm() {}'),
+  '/home/project/src/TodoList.tsx': file('export function TodoList() {}'),
+};
+
+function select(text: string, contextFiles: string[] = []) {
+  const messages: Message[] = [
+    { id: 'u1', role: 'user', content: 'Create a todo app' },
+    {
+      id: 'a1',
+      role: 'assistant',
+      content: 'Done',
+      annotations: [{ type: 'codeContext', files: contextFiles }],
+    },
+    { id: 'u2', role: 'user', content: text },
+  ];
+
+  return selectSemanticContext({ messages, files, summary: '' });
+}
+
+describe('selectSemanticContext', () => {
+  it('should select the files matching the request', async () => {
+    expect(Object.keys((await select('show the todo list')).files)).toEqual(['src/TodoList.tsx']);
+  });
+
+  it('should select no files when nothing matches the request', async () => {
+    expect(await select('make it blue')).toEqual({ files: {}, usage: undefined });
+  });
+
+  it('should select no files when every match is already in context', async () => {
+    expect((await select('show the todo list', ['src/TodoList.tsx'])).files).toEqual({});
+  });
+});
@@ -0,0 +1,160 @@
+import { embedMany, type EmbeddingModel, type Message } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createOllama } from 'ollama-ai-provider';
+import type { FailoverTarget, IProviderSetting } from '~/types/model';
+import type { FileMap } from './constants';
+import { getFilePaths } from './select-context';
+import { extractCurrentContext, extractPropertiesFromMessage } from './utils';
+import { chunkFiles, RetrievalIndex, type EmbeddingProvider } from './retrieval-index';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('semantic-context');
+
+const MAX_CONTEXT_FILES = 5;
+
+const DEFAULT_EMBEDDING_MODELS: Record<string, string> = {
+  OpenAI: 'text-embedding-3-small',
+  Ollama: 'nomic-embed-text',
+};
+
+/**
+ * Selects the files relevant to the last user message by searching the project locally instead of
+ * asking the LLM. Files are ranked with embeddings when `CONTEXT_EMBEDDING_PROVIDER` is configured,
+ * and with BM25 otherwise, so this works without any extra API calls.
+ *
+ * Returns the newly selected files keyed by their relative path, like `selectContext`, and the tokens the
+ * embedding calls used. No files are selected when nothing matches the request or every match is already
+ * in context.
+ */
+export async function selectSemanticContext(props: {
+  messages: Message[];
+  env?: Env;
+  apiKeys?: Record<string, string>;
+  files: FileMap;
+  providerSettings?: Record<string, IProviderSetting>;
+  summary: string;
+}) {
+  const { messages, env: serverEnv, apiKeys, files, providerSettings, summary } = props;
+
+  const lastUserMessage = messages.filter((x) => x.role == 'user').pop();
+
+  if (!lastUserMessage) {
+    throw new Error('No user message found');
+  }
+
+  const { content } = extractPropertiesFromMessage(lastUserMessage);
+  const userText = Array.isArray(content)
+    ? (content.find((item) => item.type === 'text')?.text as string) || ''
+    : content;
+
+  const currentFiles: string[] = [];
+  const { codeContext } = extractCurrentContext(messages);
+
+  if (codeContext?.type === 'codeContext') {
+    currentFiles.push(...codeContext.files);
+  }
+
+  const embeddingProvider = createEmbeddingProvider({ serverEnv, apiKeys, providerSettings });
+  const index = new RetrievalIndex(chunkFiles(files, getFilePaths(files)), embeddingProvider);
+
+  // the summary helps with follow-up requests like "now do the same for the footer"
+  const query = `${userText}\n${summary}`;
+  const rankedPaths = await index.searchFiles(query, MAX_CONTEXT_FILES + currentFiles.length);
+
+  const filteredFiles: FileMap = {};
+
+  for (const fullPath of rankedPaths) {
+    const path = fullPath.replace('/home/project/', '');
+
+    if (currentFiles.includes(path)) {
+      continue;
+    }
+
+    if (Object.keys(filteredFiles).length >= MAX_CONTEXT_FILES) {
+      break;
+    }
+
+    filteredFiles[path] = files[fullPath];
+  }
+
+  const totalFiles = Object.keys(filteredFiles).length;
+  logger.info(`Total files: ${totalFiles}`);
+
+  // cached embeddings cost nothing, BM25 never does
+  const usage =
+    embeddingProvider && index.embeddingTokens > 0
+      ? {
+          target: { provider: embeddingProvider.provider, model: embeddingProvider.model } satisfies FailoverTarget,
+          tokens: index.embeddingTokens,
+        }
+      : undefined;
+
+  return { files: filteredFiles, usage };
+}
+
+/**
+ * Creates the embedding provider configured with `CONTEXT_EMBEDDING_PROVIDER` (and optionally
+ * `CONTEXT_EMBEDDING_MODEL`), reusing the API key and base URL of the matching LLM provider.
+ * Returns `undefined` when none is configured or it is missing credentials.
+ */
+export function createEmbeddingProvider(options: {
+  serverEnv?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+}): EmbeddingProvider | undefined {
+  const { serverEnv, apiKeys, providerSettings } = options;
+  const env = (serverEnv as unknown as Record<string, string> | undefined) ?? {};
+
+  const providerName = env.CONTEXT_EMBEDDING_PROVIDER || process?.env?.CONTEXT_EMBEDDING_PROVIDER;
+
+  if (!providerName) {
+    return undefined;
+  }
+
+  const provider = LLMManager.getInstance().getProvider(providerName);
+
+  if (!provider || !(providerName in DEFAULT_EMBEDDING_MODELS)) {
+    logger.warn(`Embeddings are not supported for provider ${providerName}, falling back to BM25`);
+    return undefined;
+  }
+
+  const modelName =
+    env.CONTEXT_EMBEDDING_MODEL || process?.env?.CONTEXT_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[providerName];
+
+  const { baseUrl, apiKey } = provider.getProviderBaseUrlAndKey({
+    apiKeys,
+    providerSettings: providerSettings?.[providerName],
+    serverEnv: env,
+    defaultBaseUrlKey: providerName === 'Ollama' ? 'OLLAMA_API_BASE_URL' : '',
+    defaultApiTokenKey: providerName === 'OpenAI' ? 'OPENAI_API_KEY' : '',
+  });
+
+  let model: EmbeddingModel<string>;
+
+  if (providerName === 'OpenAI') {
+    if (!apiKey) {
+      logger.warn('Missing API key for OpenAI embeddings, falling back to BM25');
+      return undefined;
+    }
+
+    model = createOpenAI({ apiKey }).textEmbeddingModel(modelName);
+  } else {
+    if (!baseUrl) {
+      logger.warn('Missing base URL for Ollama embeddings, falling back to BM25');
+      return undefined;
+    }
+
+    model = createOllama({ baseURL: `${baseUrl}/api` }).textEmbeddingModel(modelName);
+  }
+
+  return {
+    name: `${providerName}/${modelName}`,
+    provider: providerName,
+    model: modelName,
+    async embed(values) {
+      const { embeddings, usage } = await embedMany({ model, values });
+      return { embeddings, tokens: usage.tokens };
+    },
+  };
+}
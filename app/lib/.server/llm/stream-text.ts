@@ -1,15 +1,21 @@
 import { convertToCoreMessages, streamText as _streamText, type Message } from 'ai';
-import { MAX_TOKENS, type FileMap } from './constants';
+import type { FileMap } from './constants';
 import { getSystemPrompt } from '~/lib/common/prompts/prompts';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
-import type { IProviderSetting } from '~/types/model';
-import { PromptLibrary } from '~/lib/common/prompt-library';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, WORK_DIR } from '~/utils/constants';
+import type { FailoverTarget, IProviderSetting } from '~/types/model';
+import { PromptLibrary, type UserPromptTemplate } from '~/lib/common/prompt-library';
 import { allowedHTMLElements } from '~/utils/markdown';
+import type { CustomProviders } from '~/lib/modules/llm/custom-provider';
 import { LLMManager } from '~/lib/modules/llm/manager';
 import { createScopedLogger } from '~/utils/logger';
 import { createFilesContext, extractPropertiesFromMessage } from './utils';
+import { getModelInstance } from './response-cache';
+import { describeContextPacking, getContextBudget, packContext, type ContextPackingReport } from './context-packer';
 import { discussPrompt } from '~/lib/common/prompts/discuss-prompt';
+import { actionToolsPrompt } from '~/lib/common/prompts/action-tools-prompt';
+import { createActionTools, type ActionOutputMode } from '~/lib/runtime/action-tools';
 import type { DesignScheme } from '~/types/design-scheme';
+import type { RejectedFileAction } from '~/types/actions';
 
 export type Messages = Message[];
 
@@ -26,6 +32,9 @@ export interface StreamingOptions extends Omit<Parameters<typeof _streamText>[0]
 
 const logger = createScopedLogger('stream-text');
 
+// every step sends the whole context again, the prompt asks the model to batch its action calls
+const MAX_ACTION_TOOL_STEPS = 20;
+
 function sanitizeText(text: string): string {
   let sanitized = text.replace(/<div class=\\"__boltThought__\\">.*?<\/div>/s, '');
   sanitized = sanitized.replace(/<think>.*?<\/think>/s, '');
@@ -41,13 +50,24 @@ export async function streamText(props: {
   apiKeys?: Record<string, string>;
   files?: FileMap;
   providerSettings?: Record<string, IProviderSetting>;
+  customProviders?: CustomProviders;
   promptId?: string;
+  userPrompt?: UserPromptTemplate;
   contextOptimization?: boolean;
   contextFiles?: FileMap;
   summary?: string;
   messageSliceId?: number;
   chatMode?: 'discuss' | 'build';
   designScheme?: DesignScheme;
+  openFiles?: string[];
+  onContextPacked?: (report: ContextPackingReport) => void;
+  actionOutputMode?: ActionOutputMode;
+  lockedPaths?: string[];
+  rejectedActions?: RejectedFileAction[];
+
+  // overrides the model selected in the last user message
+  target?: FailoverTarget;
+  onModelSelected?: (target: FailoverTarget) => void;
 }) {
   const {
     messages,
@@ -56,12 +76,21 @@ export async function streamText(props: {
     apiKeys,
     files,
     providerSettings,
+    customProviders,
     promptId,
+    userPrompt,
     contextOptimization,
     contextFiles,
     summary,
     chatMode,
     designScheme,
+    openFiles,
+    onContextPacked,
+    actionOutputMode,
+    lockedPaths,
+    rejectedActions,
+    target,
+    onModelSelected,
   } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
@@ -87,8 +116,13 @@ export async function streamText(props: {
     return newMessage;
   });
 
-  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
-  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
+  if (target) {
+    currentModel = target.model;
+    currentProvider = target.provider;
+  }
+
+  const provider = LLMManager.getInstance().getProvider(currentProvider, customProviders) || DEFAULT_PROVIDER;
+  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider, customProviders);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
 
   if (!modelDetails) {
@@ -97,6 +131,7 @@ export async function streamText(props: {
       ...(await LLMManager.getInstance().getModelListFromProvider(provider, {
         apiKeys,
         providerSettings,
+        customProviders,
         serverEnv: serverEnv as any,
       })),
     ];
@@ -116,57 +151,58 @@ export async function streamText(props: {
     }
   }
 
-  const dynamicMaxTokens = modelDetails && modelDetails.maxTokenAllowed ? modelDetails.maxTokenAllowed : MAX_TOKENS;
+  const capabilities = provider.getModelCapabilities(modelDetails);
   logger.info(
-    `Max tokens for model ${modelDetails.name} is ${dynamicMaxTokens} based on ${modelDetails.maxTokenAllowed} or ${MAX_TOKENS}`,
+    `Context window of model ${modelDetails.name} is ${capabilities.contextWindow ?? 'unknown'}, max output tokens ${capabilities.maxOutputTokens}`,
   );
 
+  if (!capabilities.vision) {
+    // images from earlier messages would fail the request, e.g. after switching to a text only model
+    processedMessages = processedMessages.map((message) =>
+      Array.isArray(message.parts)
+        ? {
+            ...message,
+            parts: message.parts.filter((part) => part.type !== 'file' || !part.mimeType.startsWith('image/')),
+          }
+        : message,
+    );
+  }
+
   let systemPrompt =
-    PromptLibrary.getPropmtFromLibrary(promptId || 'default', {
-      cwd: WORK_DIR,
-      allowedHtmlElements: allowedHTMLElements,
-      modificationTagName: MODIFICATIONS_TAG_NAME,
-      designScheme,
-      supabase: {
-        isConnected: options?.supabaseConnection?.isConnected || false,
-        hasSelectedProject: options?.supabaseConnection?.hasSelectedProject || false,
-        credentials: options?.supabaseConnection?.credentials || undefined,
+    PromptLibrary.getPropmtFromLibrary(
+      promptId || 'default',
+      {
+        cwd: WORK_DIR,
+        allowedHtmlElements: allowedHTMLElements,
+        modificationTagName: MODIFICATIONS_TAG_NAME,
+        designScheme,
+        supabase: {
+          isConnected: options?.supabaseConnection?.isConnected || false,
+          hasSelectedProject: options?.supabaseConnection?.hasSelectedProject || false,
+          credentials: options?.supabaseConnection?.credentials || undefined,
+        },
       },
-    }) ?? getSystemPrompt();
-
-  if (chatMode === 'build' && contextFiles && contextOptimization) {
-    const codeContext = createFilesContext(contextFiles, true);
+      userPrompt ? [userPrompt] : [],
+    ) ?? getSystemPrompt();
 
-    systemPrompt = `${systemPrompt}
+  // without context optimization there is no context buffer, the chat history still has to fit the budget
+  const bufferedFiles = chatMode === 'build' && contextOptimization ? contextFiles : undefined;
 
-    Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
-    CONTEXT BUFFER:
-    ---
-    ${codeContext}
-    ---
-    `;
+  if (bufferedFiles && summary) {
+    if (props.messageSliceId) {
+      processedMessages = processedMessages.slice(props.messageSliceId);
+    } else {
+      const lastMessage = processedMessages.pop();
 
-    if (summary) {
-      systemPrompt = `${systemPrompt}
-      below is the chat history till now
-      CHAT SUMMARY:
-      ---
-      ${props.summary}
-      ---
-      `;
-
-      if (props.messageSliceId) {
-        processedMessages = processedMessages.slice(props.messageSliceId);
-      } else {
-        const lastMessage = processedMessages.pop();
-
-        if (lastMessage) {
-          processedMessages = [lastMessage];
-        }
+      if (lastMessage) {
+        processedMessages = [lastMessage];
       }
     }
   }
 
+  // the instructions that follow the context buffer in the system prompt
+  let instructions = '';
+
   const effectiveLockedFilePaths = new Set<string>();
 
   if (files) {
@@ -177,13 +213,18 @@ export async function streamText(props: {
     }
   }
 
+  // the client also sends locked folders and patterns, which the file map does not know about
+  for (const lockedPath of lockedPaths ?? []) {
+    effectiveLockedFilePaths.add(lockedPath.startsWith('/') ? lockedPath : `${WORK_DIR}/${lockedPath}`);
+  }
+
   if (effectiveLockedFilePaths.size > 0) {
     const lockedFilesListString = Array.from(effectiveLockedFilePaths)
       .map((filePath) => `- ${filePath}`)
       .join('\n');
-    systemPrompt = `${systemPrompt}
+    instructions = `${instructions}
 
-    IMPORTANT: The following files are locked and MUST NOT be modified in any way. Do not suggest or make any changes to these files. You can proceed with the request but DO NOT make any changes to these files specifically:
+    IMPORTANT: The following files are locked and MUST NOT be modified in any way. Do not suggest or make any changes to these files. Paths ending with a slash lock everything inside that folder and paths with * or ? are glob patterns. You can proceed with the request but DO NOT make any changes to these files specifically:
     ${lockedFilesListString}
     ---
     `;
@@ -191,20 +232,116 @@ export async function streamText(props: {
     console.log('No locked files found from any source for prompt.');
   }
 
+  const lockedActions = rejectedActions?.filter((rejected) => rejected.reason === 'locked') ?? [];
+  const conflictedEdits = rejectedActions?.filter((rejected) => rejected.reason === 'conflict') ?? [];
+
+  if (lockedActions.length) {
+    const rejectedListString = lockedActions
+      .map(({ actionType, filePath, lockedBy }) => `- ${actionType} ${filePath} (locked by ${lockedBy})`)
+      .join('\n');
+    instructions = `${instructions}
+
+    IMPORTANT: These changes from your previous response were NOT applied because the files are locked:
+    ${rejectedListString}
+    Do not retry them. Tell the user which changes were skipped, and suggest unlocking the files if the changes are needed.
+    ---
+    `;
+  }
+
+  if (conflictedEdits.length) {
+    const conflictListString = conflictedEdits.map(({ filePath, error }) => `- ${filePath}: ${error}`).join('\n');
+    instructions = `${instructions}
+
+    IMPORTANT: These edits from your previous response were NOT applied because they did not match the files:
+    ${conflictListString}
+    Redo these changes with file actions containing the full, latest content of the files.
+    ---
+    `;
+  }
+
+  const useActionTools = chatMode === 'build' && actionOutputMode === 'tools' && capabilities.tools;
+
+  if (actionOutputMode === 'tools' && !capabilities.tools) {
+    logger.warn(
+      `${modelDetails.name} ${capabilities.tools === false ? 'does not support' : 'is not known to support'} tool calls, actions are sent as XML`,
+    );
+  }
+
+  if (useActionTools) {
+    instructions = `${instructions}\n${actionToolsPrompt()}`;
+  }
+
+  // the budget is what the prompt actually sent leaves, in discuss mode that is the discuss prompt alone
+  const sentPrompt = chatMode === 'build' ? `${systemPrompt}${instructions}` : discussPrompt();
+
+  // without a known context window, e.g. for models of OpenAI-compatible endpoints, nothing is left out
+  const packed = capabilities.contextWindow
+    ? packContext({
+        budget: getContextBudget(capabilities.contextWindow, capabilities.maxOutputTokens, sentPrompt),
+        files: bufferedFiles ? files || {} : {},
+        contextFiles: bufferedFiles ?? {},
+        openFiles: bufferedFiles ? openFiles : undefined,
+        summary: bufferedFiles ? summary : undefined,
+        messages: processedMessages,
+      })
+    : undefined;
+
+  if (packed) {
+    logger.info(describeContextPacking(packed.report));
+    onContextPacked?.(packed.report);
+
+    processedMessages = packed.messages;
+  }
+
+  if (bufferedFiles) {
+    const codeContext = createFilesContext(packed?.files ?? bufferedFiles, true);
+    const bufferedSummary = packed ? packed.summary : summary;
+
+    systemPrompt = `${systemPrompt}
+
+    Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
+    Files with "omitted" or "truncated" lines are only partially shown, change them with edit actions that only search the visible lines.
+    CONTEXT BUFFER:
+    ---
+    ${codeContext}
+    ---
+    `;
+
+    if (bufferedSummary) {
+      systemPrompt = `${systemPrompt}
+      below is the chat history till now
+      CHAT SUMMARY:
+      ---
+      ${bufferedSummary}
+      ---
+      `;
+    }
+  }
+
+  systemPrompt = `${systemPrompt}${instructions}`;
+
   logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
+  onModelSelected?.({ provider: provider.name, model: modelDetails.name });
 
   // console.log(systemPrompt, processedMessages);
 
   return await _streamText({
-    model: provider.getModelInstance({
+    model: getModelInstance(provider, {
       model: modelDetails.name,
       serverEnv,
       apiKeys,
       providerSettings,
     }),
     system: chatMode === 'build' ? systemPrompt : discussPrompt(),
-    maxTokens: dynamicMaxTokens,
+    maxTokens: capabilities.maxOutputTokens,
     messages: convertToCoreMessages(processedMessages as any),
     ...options,
+
+    // MCP tools are offered unless the model is known not to call them
+    ...(capabilities.tools === false && { tools: undefined, toolChoice: undefined }),
+    ...(useActionTools && {
+      tools: { ...options?.tools, ...createActionTools() },
+      maxSteps: Math.max(options?.maxSteps ?? 1, MAX_ACTION_TOOL_STEPS),
+    }),
   });
 }
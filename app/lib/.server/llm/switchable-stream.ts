@@ -19,26 +19,31 @@ export default class SwitchableStream extends TransformStream {
     this._controller = controllerRef;
   }
 
+  /**
+   * Replaces the current source, the stream closes once a source ends without being replaced.
+   */
   async switchSource(newStream: ReadableStream) {
-    if (this._currentReader) {
-      await this._currentReader.cancel();
-    }
+    const previousReader = this._currentReader;
 
+    // set before cancelling so the previous source ending does not close the stream
     this._currentReader = newStream.getReader();
 
-    this._pumpStream();
+    if (previousReader) {
+      this._switches++;
+      await previousReader.cancel();
+    }
 
-    this._switches++;
+    this._pumpStream(this._currentReader);
   }
 
-  private async _pumpStream() {
-    if (!this._currentReader || !this._controller) {
+  private async _pumpStream(reader: ReadableStreamDefaultReader) {
+    if (!this._controller) {
       throw new Error('Stream is not properly initialized');
     }
 
     try {
       while (true) {
-        const { done, value } = await this._currentReader.read();
+        const { done, value } = await reader.read();
 
         if (done) {
           break;
@@ -46,7 +51,15 @@ export default class SwitchableStream extends TransformStream {
 
         this._controller.enqueue(value);
       }
+
+      if (reader === this._currentReader) {
+        this._controller.terminate();
+      }
     } catch (error) {
+      if (reader !== this._currentReader) {
+        return;
+      }
+
       console.log(error);
       this._controller.error(error);
     }
@@ -64,3 +77,40 @@ export default class SwitchableStream extends TransformStream {
     return this._switches;
   }
 }
+
+/**
+ * A stream whose source is only created once it is first read, so it can take the place of a source
+ * that is still being prepared.
+ */
+export function deferStream<T>(createSource: () => Promise<ReadableStream<T>>) {
+  let reader: ReadableStreamDefaultReader<T> | undefined;
+  let cancelled = false;
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      if (!reader) {
+        const source = await createSource();
+
+        if (cancelled) {
+          await source.cancel();
+          return;
+        }
+
+        reader = source.getReader();
+      }
+
+      const { done, value } = await reader.read();
+
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      cancelled = true;
+
+      return reader?.cancel(reason);
+    },
+  });
+}
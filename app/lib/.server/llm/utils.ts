@@ -1,4 +1,4 @@
-import { type Message } from 'ai';
+import { type JSONValue, type Message } from 'ai';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
 import { IGNORE_PATTERNS, type FileMap } from './constants';
 import ignore from 'ignore';
@@ -126,3 +126,36 @@ export function extractCurrentContext(messages: Message[]) {
 
   return { summary, codeContext };
 }
+
+/**
+ * Finds the most recent chat summary, which may be on an earlier assistant message than the last one
+ * when context optimization was off for some of the requests since.
+ */
+export function extractLatestSummary(messages: Message[]) {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role !== 'assistant') {
+      continue;
+    }
+
+    const summary = messages[i].annotations?.find(isChatSummaryAnnotation);
+
+    if (summary) {
+      return summary;
+    }
+  }
+
+  return undefined;
+}
+
+function isChatSummaryAnnotation(
+  annotation: JSONValue | undefined,
+): annotation is Extract<ContextAnnotation, { type: 'chatSummary' }> {
+  return (
+    !!annotation &&
+    typeof annotation === 'object' &&
+    !Array.isArray(annotation) &&
+    annotation.type === 'chatSummary' &&
+    typeof annotation.summary === 'string' &&
+    typeof annotation.chatId === 'string'
+  );
+}
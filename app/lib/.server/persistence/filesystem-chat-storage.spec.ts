@@ -0,0 +1,90 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Message } from 'ai';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { FileBlob, MessageSnapshot } from '~/lib/persistence/messageSnapshots';
+import { FileSystemChatStorage } from './filesystem-chat-storage';
+
+const messages: Message[] = [
+  { id: 'u1', role: 'user', content: 'Add a pricing table' },
+  { id: 'a1', role: 'assistant', content: 'Done' },
+];
+
+const blob = (content: string): FileBlob => ({ hash: content.padEnd(64, '0'), content });
+
+function snapshot(chatId: string, messageId: string, timestamp: string, blobs: FileBlob[]): MessageSnapshot {
+  return {
+    chatId,
+    messageId,
+    timestamp,
+    title: messageId,
+    files: Object.fromEntries(
+      blobs.map((item, index) => [`/home/project/file${index}.ts`, { type: 'file', hash: item.hash, isBinary: false }]),
+    ),
+  };
+}
+
+let directory: string;
+let storage: FileSystemChatStorage;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'chat-storage-'));
+  storage = new FileSystemChatStorage(directory);
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('FileSystemChatStorage', () => {
+  it('keeps chats as files and finds them by id and url id', async () => {
+    expect(await storage.getAll()).toEqual([]);
+
+    const urlId = await storage.createChatFromMessages('Pricing', messages);
+
+    expect(urlId).toBe('1');
+    expect(await storage.getMessages('1')).toMatchObject({ id: '1', description: 'Pricing', messages });
+
+    await storage.setMessages('../2', messages, 'pricing-page', 'Escaped', undefined);
+
+    expect(await readdir(join(directory, 'chats'))).toEqual(expect.arrayContaining(['1.json', '%2E%2E%2F2.json']));
+    expect((await storage.getMessages('pricing-page')).id).toBe('../2');
+  });
+
+  it('writes the same chat concurrently without losing the file', async () => {
+    await Promise.all(
+      ['first', 'second', 'third'].map((description) => storage.setMessages('1', messages, '1', description)),
+    );
+
+    expect(await readdir(join(directory, 'chats'))).toEqual(['1.json']);
+    expect((await storage.getMessages('1')).description).toMatch(/first|second|third/);
+  });
+
+  it('keeps the message snapshots of a chat with their blobs', async () => {
+    const [app, page] = [blob('a'), blob('b')];
+
+    await storage.setMessageSnapshot(snapshot('1', 'a2', '2025-05-01T10:00:00Z', [app, page]), [page]);
+    await storage.setMessageSnapshot(snapshot('1', 'a1', '2025-05-01T09:00:00Z', [app]), [app]);
+    await storage.setMessageSnapshot(snapshot('1', 'a1', '2025-05-01T09:00:00Z', [app]), []);
+
+    expect((await storage.getMessageSnapshots('1')).map((item) => item.messageId)).toEqual(['a1', 'a2']);
+    expect(await storage.getMessageSnapshots('2')).toEqual([]);
+    expect(await storage.getFileBlobs([app.hash, page.hash, app.hash, blob('c').hash])).toEqual([app, page]);
+    await expect(storage.getFileBlobs(['../chats/1'])).rejects.toThrow('Invalid blob hash');
+  });
+
+  it('deletes the snapshots of a chat and the blobs no other chat refers to', async () => {
+    const [shared, own] = [blob('a'), blob('b')];
+
+    await storage.setMessages('1', messages);
+    await storage.setMessageSnapshot(snapshot('1', 'a1', '2025-05-01T09:00:00Z', [shared, own]), [shared, own]);
+    await storage.setMessageSnapshot(snapshot('2', 'a1', '2025-05-01T09:00:00Z', [shared]), []);
+
+    await storage.deleteById('1');
+
+    expect(await storage.getMessagesById('1')).toBeUndefined();
+    expect(await storage.getMessageSnapshots('1')).toEqual([]);
+    expect(await storage.getFileBlobs([shared.hash, own.hash])).toEqual([shared]);
+  });
+});
@@ -0,0 +1,203 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Message } from 'ai';
+import { BaseChatStorage } from '~/lib/persistence/chatStorage';
+import type { IChatMetadata } from '~/lib/persistence/db';
+import {
+  getReferencedHashes,
+  sortMessageSnapshots,
+  type FileBlob,
+  type MessageSnapshot,
+} from '~/lib/persistence/messageSnapshots';
+import type { Snapshot } from '~/lib/persistence/types';
+import type { ChatHistoryItem } from '~/lib/persistence/useChatHistory';
+
+/**
+ * Keeps every chat and its snapshot as a JSON file, `chats/<id>.json` and `snapshots/<id>.json`
+ * in the storage directory. The file snapshots of the messages of a chat are kept together in
+ * `message-snapshots/<id>.json`, the file contents they refer to in `blobs/<hash>`.
+ */
+export class FileSystemChatStorage extends BaseChatStorage {
+  readonly #chatsDir: string;
+  readonly #snapshotsDir: string;
+  readonly #messageSnapshotsDir: string;
+  readonly #blobsDir: string;
+
+  constructor(directory: string) {
+    super();
+    this.#chatsDir = join(directory, 'chats');
+    this.#snapshotsDir = join(directory, 'snapshots');
+    this.#messageSnapshotsDir = join(directory, 'message-snapshots');
+    this.#blobsDir = join(directory, 'blobs');
+  }
+
+  async getAll() {
+    const fileNames = await readDirectory(this.#chatsDir);
+    const chats = await Promise.all(
+      fileNames.map((fileName) => readJson<ChatHistoryItem>(join(this.#chatsDir, fileName))),
+    );
+
+    return chats.filter((chat): chat is ChatHistoryItem => !!chat);
+  }
+
+  async setMessages(
+    id: string,
+    messages: Message[],
+    urlId?: string,
+    description?: string,
+    timestamp?: string,
+    metadata?: IChatMetadata,
+  ) {
+    if (timestamp && isNaN(Date.parse(timestamp))) {
+      throw new Error('Invalid timestamp');
+    }
+
+    const chat: ChatHistoryItem = {
+      id,
+      messages,
+      urlId,
+      description,
+      timestamp: timestamp ?? new Date().toISOString(),
+      metadata,
+    };
+
+    await writeJson(this.#chatPath(id), chat);
+  }
+
+  async getMessagesById(id: string) {
+    return (await readJson<ChatHistoryItem>(this.#chatPath(id))) as ChatHistoryItem;
+  }
+
+  async getMessagesByUrlId(id: string) {
+    const chats = await this.getAll();
+
+    return chats.find((chat) => chat.urlId === id) as ChatHistoryItem;
+  }
+
+  async deleteById(id: string) {
+    await rm(this.#chatPath(id), { force: true });
+    await this.deleteSnapshot(id);
+    await rm(this.#messageSnapshotsPath(id), { force: true });
+    await this.pruneFileBlobs();
+  }
+
+  async getSnapshot(chatId: string) {
+    return readJson<Snapshot>(this.#snapshotPath(chatId));
+  }
+
+  async setSnapshot(chatId: string, snapshot: Snapshot) {
+    await writeJson(this.#snapshotPath(chatId), snapshot);
+  }
+
+  async deleteSnapshot(chatId: string) {
+    await rm(this.#snapshotPath(chatId), { force: true });
+  }
+
+  async getMessageSnapshots(chatId: string) {
+    return sortMessageSnapshots((await readJson<MessageSnapshot[]>(this.#messageSnapshotsPath(chatId))) ?? []);
+  }
+
+  // blobs are written before the snapshot that refers to them
+  async setMessageSnapshot(snapshot: MessageSnapshot, blobs: FileBlob[]) {
+    for (const blob of blobs) {
+      await writeJson(this.#blobPath(blob.hash), blob);
+    }
+
+    const snapshots = await this.getMessageSnapshots(snapshot.chatId);
+
+    await writeJson(this.#messageSnapshotsPath(snapshot.chatId), [
+      ...snapshots.filter((existing) => existing.messageId !== snapshot.messageId),
+      snapshot,
+    ]);
+  }
+
+  async getFileBlobs(hashes: string[]) {
+    const blobs = await Promise.all([...new Set(hashes)].map((hash) => readJson<FileBlob>(this.#blobPath(hash))));
+
+    return blobs.filter((blob): blob is FileBlob => !!blob);
+  }
+
+  // drops the blobs no message snapshot refers to anymore
+  async pruneFileBlobs() {
+    const snapshots: MessageSnapshot[] = [];
+
+    for (const fileName of await readDirectory(this.#messageSnapshotsDir)) {
+      snapshots.push(...((await readJson<MessageSnapshot[]>(join(this.#messageSnapshotsDir, fileName))) ?? []));
+    }
+
+    const referenced = getReferencedHashes(snapshots);
+
+    for (const fileName of await readDirectory(this.#blobsDir)) {
+      if (!referenced.has(fileName.replace(/\.json$/, ''))) {
+        await rm(join(this.#blobsDir, fileName), { force: true });
+      }
+    }
+  }
+
+  #chatPath(id: string) {
+    return join(this.#chatsDir, toFileName(id));
+  }
+
+  #snapshotPath(chatId: string) {
+    return join(this.#snapshotsDir, toFileName(chatId));
+  }
+
+  #messageSnapshotsPath(chatId: string) {
+    return join(this.#messageSnapshotsDir, toFileName(chatId));
+  }
+
+  #blobPath(hash: string) {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error('Invalid blob hash');
+    }
+
+    return join(this.#blobsDir, `${hash}.json`);
+  }
+}
+
+// ids come from the client, encoding them keeps every file inside its directory
+function toFileName(id: string) {
+  if (!id) {
+    throw new Error('Chat id is required');
+  }
+
+  return `${encodeURIComponent(id).replace(/\./g, '%2E')}.json`;
+}
+
+async function readDirectory(directory: string) {
+  try {
+    return (await readdir(directory)).filter((fileName) => fileName.endsWith('.json'));
+  } catch (error) {
+    if (isNotFound(error)) {
+      return [];
+    }
+
+    throw error;
+  }
+}
+
+async function readJson<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+// written to a temporary file first so a crash never leaves a half written chat behind
+async function writeJson(filePath: string, value: unknown) {
+  // concurrent writes of the same chat each write their own file
+  const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+
+  await mkdir(join(filePath, '..'), { recursive: true });
+  await writeFile(tempPath, JSON.stringify(value), 'utf-8');
+  await rename(tempPath, filePath);
+}
+
+function isNotFound(error: unknown) {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
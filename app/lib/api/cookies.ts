@@ -1,3 +1,5 @@
+import type { CustomProviderConfig } from '~/types/model';
+
 export function parseCookies(cookieHeader: string | null) {
   const cookies: Record<string, string> = {};
 
@@ -31,3 +33,15 @@ export function getProviderSettingsFromCookie(cookieHeader: string | null): Reco
   const cookies = parseCookies(cookieHeader);
   return cookies.providers ? JSON.parse(cookies.providers) : {};
 }
+
+export function getCustomProvidersFromCookie(cookieHeader: string | null): CustomProviderConfig[] {
+  const cookies = parseCookies(cookieHeader);
+
+  try {
+    const customProviders = cookies.customProviders ? JSON.parse(cookies.customProviders) : [];
+
+    return Array.isArray(customProviders) ? customProviders : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createUserPrompt, PromptLibrary, renderPromptTemplate, saveUserPromptVersion } from './prompt-library';
+
+const options = {
+  cwd: '/home/project',
+  allowedHtmlElements: ['a', 'b'],
+  modificationTagName: 'bolt_file_modifications',
+  supabase: { isConnected: true, hasSelectedProject: false },
+};
+
+describe('renderPromptTemplate', () => {
+  it('should fill in known variables and leave the others', () => {
+    expect(
+      renderPromptTemplate('Work in {{cwd}} with {{ allowedHtmlElements }}, {{supabaseStatus}} {{unknown}}', options),
+    ).toBe('Work in /home/project with a, b, no-project {{unknown}}');
+  });
+});
+
+describe('PromptLibrary', () => {
+  it('should resolve a user prompt by id and fork built-in prompts with variables', () => {
+    const prompt = createUserPrompt({ label: 'Mine', description: '', template: 'Root: {{cwd}}' });
+
+    expect(PromptLibrary.getPropmtFromLibrary(prompt.id, options, [prompt])).toBe('Root: /home/project');
+    expect(() => PromptLibrary.getPropmtFromLibrary(prompt.id, options)).toThrow();
+    expect(PromptLibrary.getTemplate('optimized')).toContain('{{cwd}}');
+  });
+
+  it('should keep earlier versions when a template changes', () => {
+    const prompt = saveUserPromptVersion(createUserPrompt({ label: 'Mine', description: '', template: 'v1' }), 'v2');
+
+    expect(prompt).toMatchObject({ template: 'v2', version: 2, history: [{ version: 1, template: 'v1' }] });
+    expect(saveUserPromptVersion(prompt, 'v2')).toBe(prompt);
+  });
+});
@@ -18,6 +18,122 @@ export interface PromptOptions {
   };
 }
 
+export interface UserPromptVersion {
+  version: number;
+  template: string;
+  savedAt: string;
+}
+
+/**
+ * A system prompt written in the settings. The template is rendered with the `{{variables}}` of `PROMPT_VARIABLES`.
+ */
+export interface UserPrompt {
+  id: string;
+  label: string;
+  description: string;
+  template: string;
+  version: number;
+
+  // id of the built-in or user prompt it was forked from
+  forkedFrom?: string;
+
+  // earlier versions, the latest first
+  history: UserPromptVersion[];
+  updatedAt: string;
+}
+
+// all a request needs to render a user prompt, the rest stays in the browser
+export type UserPromptTemplate = Pick<UserPrompt, 'id' | 'template'>;
+
+const MAX_PROMPT_HISTORY = 20;
+
+export const PROMPT_VARIABLES: { name: string; description: string; render: (options: PromptOptions) => string }[] = [
+  { name: 'cwd', description: 'Working directory of the project', render: (options) => options.cwd },
+  {
+    name: 'allowedHtmlElements',
+    description: 'HTML elements allowed in responses',
+    render: (options) => options.allowedHtmlElements.join(', '),
+  },
+  {
+    name: 'modificationTagName',
+    description: 'Tag that wraps file changes made by the user',
+    render: (options) => options.modificationTagName,
+  },
+  {
+    name: 'designScheme',
+    description: 'Font, palette and features picked in the design panel',
+    render: ({ designScheme }) =>
+      designScheme
+        ? [
+            `FONT: ${JSON.stringify(designScheme.font)}`,
+            `PALETTE: ${JSON.stringify(designScheme.palette)}`,
+            `FEATURES: ${JSON.stringify(designScheme.features)}`,
+          ].join('\n')
+        : 'None provided',
+  },
+  {
+    name: 'supabaseStatus',
+    description: 'connected, not-connected or no-project',
+    render: ({ supabase }) => {
+      if (!supabase?.isConnected) {
+        return 'not-connected';
+      }
+
+      return supabase.hasSelectedProject ? 'connected' : 'no-project';
+    },
+  },
+  {
+    name: 'supabaseUrl',
+    description: 'URL of the selected Supabase project',
+    render: ({ supabase }) => supabase?.credentials?.supabaseUrl ?? '',
+  },
+  {
+    name: 'supabaseAnonKey',
+    description: 'Anon key of the selected Supabase project',
+    render: ({ supabase }) => supabase?.credentials?.anonKey ?? '',
+  },
+];
+
+/**
+ * Fills in the `{{variables}}` of a user prompt, unknown variables are left as they are.
+ */
+export function renderPromptTemplate(template: string, options: PromptOptions) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    const variable = PROMPT_VARIABLES.find((candidate) => candidate.name === name);
+
+    return variable ? variable.render(options) : match;
+  });
+}
+
+export function createUserPrompt(fields: Pick<UserPrompt, 'label' | 'description' | 'template' | 'forkedFrom'>) {
+  return {
+    ...fields,
+    id: `user-${Date.now().toString(36)}`,
+    version: 1,
+    history: [],
+    updatedAt: new Date().toISOString(),
+  } satisfies UserPrompt;
+}
+
+/**
+ * Saves a new template as the next version and keeps the previous one in the history.
+ */
+export function saveUserPromptVersion(prompt: UserPrompt, template: string): UserPrompt {
+  if (template === prompt.template) {
+    return prompt;
+  }
+
+  const previous: UserPromptVersion = { version: prompt.version, template: prompt.template, savedAt: prompt.updatedAt };
+
+  return {
+    ...prompt,
+    template,
+    version: prompt.version + 1,
+    history: [previous, ...prompt.history].slice(0, MAX_PROMPT_HISTORY),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
 export class PromptLibrary {
   static library: Record<
     string,
@@ -43,23 +159,46 @@ export class PromptLibrary {
       get: (options) => optimized(options),
     },
   };
-  static getList() {
-    return Object.entries(this.library).map(([key, value]) => {
+  static getList(userPrompts: UserPrompt[] = []) {
+    const builtIn = Object.entries(this.library).map(([key, value]) => {
       const { label, description } = value;
       return {
         id: key,
         label,
         description,
+        builtIn: true,
       };
     });
+
+    return [
+      ...builtIn,
+      ...userPrompts.map(({ id, label, description }) => ({ id, label, description, builtIn: false })),
+    ];
   }
-  static getPropmtFromLibrary(promptId: string, options: PromptOptions) {
+  static getPropmtFromLibrary(promptId: string, options: PromptOptions, userPrompts: UserPromptTemplate[] = []) {
     const prompt = this.library[promptId];
 
     if (!prompt) {
+      const userPrompt = userPrompts.find((candidate) => candidate.id === promptId);
+
+      if (userPrompt) {
+        return renderPromptTemplate(userPrompt.template, options);
+      }
+
       throw 'Prompt Now Found';
     }
 
     return this.library[promptId]?.get(options);
   }
+
+  /**
+   * Text of a built-in prompt to start a user prompt from, with variables in place of the values they can stand for.
+   */
+  static getTemplate(promptId: string) {
+    return this.library[promptId]?.get({
+      cwd: '{{cwd}}',
+      allowedHtmlElements: ['{{allowedHtmlElements}}'],
+      modificationTagName: '{{modificationTagName}}',
+    });
+  }
 }
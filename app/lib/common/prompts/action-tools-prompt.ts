@@ -0,0 +1,15 @@
+export const actionToolsPrompt = () => `
+<action_tools>
+  IMPORTANT: Ignore the instructions above about writing \`<boltArtifact>\` and \`<boltAction>\` tags. Never write these tags,
+  file contents or commands into your response text. Send every change through the action tools instead:
+
+  1. Call \`open_artifact\` once with an id and a short title before any other action tool.
+  2. Call \`write_file\` with the complete content of every file you create or rewrite.
+  3. Call \`edit_file\` with SEARCH/REPLACE blocks or a unified diff for small changes to existing files.
+  4. Call \`run_shell\` for commands such as installing dependencies.
+  5. Call \`start_server\` last, and only when the dev server has to be (re)started.
+
+  The actions run in the user's browser in the order you call them, so create files before the commands that use them.
+  Make all the calls in as few responses as possible, and keep the explanation in your response text short.
+</action_tools>
+`;
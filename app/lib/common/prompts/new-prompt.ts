@@ -168,11 +168,18 @@ The year is 2025.
     - shell: Running commands (use --yes for npx/npm create, && for sequences, NEVER re-run dev servers)
     - start: Starting project (use ONLY for project startup, LAST action)
     - file: Creating/updating files (add filePath and contentType attributes)
+    - edit: Small changes to large existing files (add filePath attribute), content is SEARCH/REPLACE blocks:
+      <<<<<<< SEARCH
+      exact lines from the latest file content
+      =======
+      replacement lines
+      >>>>>>> REPLACE
 
   File Action Rules:
     - Only include new/modified files
     - ALWAYS add contentType attribute
-    - NEVER use diffs for new files or SQL migrations
+    - NEVER use diffs or edit actions for new files or SQL migrations
+    - Each SEARCH section in an edit action MUST match exactly one location of the latest file content
     - FORBIDDEN: Binary files, base64 assets
 
   Action Order:
@@ -0,0 +1,87 @@
+import { useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import { autoFixStore, resetAutoFix } from '~/lib/stores/auto-fix';
+import { autoFixEnabledStore, autoFixMaxAttemptsStore } from '~/lib/stores/settings';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { createAutoFixMessage, getAutoFixStopReason, getErrorSignature } from '~/utils/auto-fix';
+import type { AutoFixAnnotation } from '~/types/context';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('AutoFix');
+
+// errors of the preview show up a moment after the actions of the fix ran
+const FIX_SETTLE_MS = 3000;
+
+/**
+ * Sends terminal and preview errors back to the model once the chat is idle, until the error is fixed, comes back
+ * unchanged or the attempts run out.
+ */
+export function useAutoFix(options: {
+  isLoading: boolean;
+  sendFix: (message: string, annotation: AutoFixAnnotation) => void;
+}) {
+  const { isLoading, sendFix } = options;
+  const enabled = useStore(autoFixEnabledStore);
+  const maxAttempts = useStore(autoFixMaxAttemptsStore);
+  const alert = useStore(workbenchStore.alert);
+  const { status } = useStore(autoFixStore);
+
+  useEffect(() => {
+    if (!enabled || !alert || isLoading) {
+      return;
+    }
+
+    const state = autoFixStore.get();
+
+    if (state.status === 'stopped') {
+      return;
+    }
+
+    const signature = getErrorSignature(alert);
+    const stopReason = getAutoFixStopReason(state.signatures, signature, maxAttempts);
+
+    if (stopReason) {
+      logger.info(`Stopped: ${stopReason}`);
+      autoFixStore.set({ ...state, status: 'stopped', stopReason });
+
+      return;
+    }
+
+    const threadId = state.threadId ?? `${Date.now()}`;
+    const attempt = state.signatures.length + 1;
+
+    autoFixStore.set({ status: 'fixing', threadId, signatures: [...state.signatures, signature] });
+    workbenchStore.clearAlert();
+
+    sendFix(createAutoFixMessage(alert, workbenchStore.files.get(), attempt, maxAttempts), {
+      type: 'autoFix',
+      threadId,
+      attempt,
+      maxAttempts,
+      title: alert.title,
+    });
+  }, [enabled, alert, isLoading, maxAttempts]);
+
+  // the error is fixed once the response of the fix finished and no new error came up while its actions ran
+  useEffect(() => {
+    if (status !== 'fixing' || isLoading || alert) {
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    workbenchStore
+      .waitForActions()
+      .then(() => new Promise((resolve) => setTimeout(resolve, FIX_SETTLE_MS)))
+      .then(() => {
+        if (!cancelled && autoFixStore.get().status === 'fixing') {
+          logger.info('Fixed');
+          resetAutoFix();
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status, isLoading, alert]);
+}
@@ -1,7 +1,8 @@
 import { useState, useCallback } from 'react';
 import { toast } from 'react-toastify';
 import { ImportExportService } from '~/lib/services/importExportService';
-import { useIndexedDB } from '~/lib/hooks/useIndexedDB';
+import type { ChatStorage } from '~/lib/persistence/chatStorage';
+import { chatStorage, type ChatHistoryItem } from '~/lib/persistence/useChatHistory';
 import { generateId } from 'ai';
 
 interface UseDataOperationsProps {
@@ -26,9 +27,30 @@ interface UseDataOperationsProps {
   onResetChats?: () => void;
 
   /**
-   * Custom database instance (optional)
+   * Chat storage to use instead of the configured one (optional)
    */
-  customDb?: IDBDatabase;
+  customStorage?: ChatStorage;
+}
+
+/**
+ * Save chats through the chat storage, so their search entries are kept up to date
+ */
+async function saveChats(storage: ChatStorage, chats: ChatHistoryItem[], onSaved?: (saved: number) => void) {
+  let saved = 0;
+
+  await Promise.all(
+    chats.map(async (chat) => {
+      await storage.setMessages(
+        chat.id,
+        chat.messages,
+        chat.urlId ?? undefined,
+        chat.description,
+        chat.timestamp,
+        chat.metadata ?? undefined,
+      );
+      onSaved?.(++saved);
+    }),
+  );
 }
 
 /**
@@ -39,12 +61,10 @@ export function useDataOperations({
   onReloadChats,
   onResetSettings,
   onResetChats,
-  customDb,
+  customStorage,
 }: UseDataOperationsProps = {}) {
-  const { db: defaultDb } = useIndexedDB();
-
-  // Use the custom database if provided, otherwise use the default
-  const db = customDb || defaultDb;
+  // Use the custom storage if provided, otherwise the one the chats are kept in
+  const storage = customStorage || chatStorage;
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
@@ -245,20 +265,14 @@ export function useDataOperations({
    * Export all chats to a JSON file
    */
   const handleExportAllChats = useCallback(async () => {
-    if (!db) {
-      toast.error('Database not available', {
+    if (!storage) {
+      toast.error('Chat storage not available', {
         position: 'bottom-right',
         autoClose: 3000,
       });
       return;
     }
 
-    console.log('Export: Using database', {
-      name: db.name,
-      version: db.version,
-      objectStoreNames: Array.from(db.objectStoreNames),
-    });
-
     setIsExporting(true);
     setProgressPercent(0);
 
@@ -273,41 +287,10 @@ export function useDataOperations({
 
     try {
       // Step 1: Export chats
-      showProgress('Retrieving chats from database', 25);
+      showProgress('Retrieving chats from storage', 25);
 
-      console.log('Database details:', {
-        name: db.name,
-        version: db.version,
-        objectStoreNames: Array.from(db.objectStoreNames),
-      });
-
-      // Direct database query approach for more reliable access
-      const directChats = await new Promise<any[]>((resolve, reject) => {
-        try {
-          console.log(`Creating transaction on '${db.name}' database, objectStore 'chats'`);
-
-          const transaction = db.transaction(['chats'], 'readonly');
-          const store = transaction.objectStore('chats');
-          const request = store.getAll();
-
-          request.onsuccess = () => {
-            console.log(`Found ${request.result ? request.result.length : 0} chats directly from database`);
-            resolve(request.result || []);
-          };
-
-          request.onerror = () => {
-            console.error('Error querying chats store:', request.error);
-            reject(request.error);
-          };
-        } catch (err) {
-          console.error('Error creating transaction:', err);
-          reject(err);
-        }
-      });
-
-      // Export data with direct chats
       const exportData = {
-        chats: directChats,
+        chats: await storage.getAll(),
         exportDate: new Date().toISOString(),
       };
 
@@ -360,7 +343,7 @@ export function useDataOperations({
       setProgressPercent(0);
       setProgressMessage('');
     }
-  }, [db, showProgress]);
+  }, [storage, showProgress]);
 
   /**
    * Export selected chats to a JSON file
@@ -368,8 +351,8 @@ export function useDataOperations({
    */
   const handleExportSelectedChats = useCallback(
     async (chatIds: string[]) => {
-      if (!db) {
-        toast.error('Database not available', {
+      if (!storage) {
+        toast.error('Chat storage not available', {
           position: 'bottom-right',
           autoClose: 3000,
         });
@@ -397,23 +380,10 @@ export function useDataOperations({
       });
 
       try {
-        // Step 1: Get chats from database
-        showProgress('Retrieving chats from database', 25);
-
-        const transaction = db.transaction(['chats'], 'readonly');
-        const store = transaction.objectStore('chats');
-
-        // Create an array to store the promises for getting each chat
-        const chatPromises = chatIds.map((chatId) => {
-          return new Promise<any>((resolve, reject) => {
-            const request = store.get(chatId);
-            request.onsuccess = () => resolve(request.result);
-            request.onerror = () => reject(request.error);
-          });
-        });
+        // Step 1: Get chats from storage
+        showProgress('Retrieving chats from storage', 25);
 
-        // Wait for all promises to resolve
-        const chats = await Promise.all(chatPromises);
+        const chats = await Promise.all(chatIds.map((chatId) => storage.getMessagesById(chatId)));
         const filteredChats = chats.filter(Boolean); // Remove any null/undefined results
 
         console.log(`Retrieved ${filteredChats.length} chats for export`);
@@ -472,7 +442,7 @@ export function useDataOperations({
         setProgressMessage('');
       }
     },
-    [db, showProgress],
+    [storage, showProgress],
   );
 
   /**
@@ -554,8 +524,8 @@ export function useDataOperations({
    */
   const handleImportChats = useCallback(
     async (file: File) => {
-      if (!db) {
-        toast.error('Database not available', {
+      if (!storage) {
+        toast.error('Chat storage not available', {
           position: 'bottom-right',
           autoClose: 3000,
         });
@@ -618,40 +588,27 @@ export function useDataOperations({
             description: chat.description || '',
             messages: validatedMessages,
             timestamp: chat.timestamp || new Date().toISOString(),
-            urlId: chat.urlId || null,
-            metadata: chat.metadata || null,
+            urlId: chat.urlId || undefined,
+            metadata: chat.metadata || undefined,
           };
         });
 
         // Step 4: Save current chats for potential undo
-        showProgress('Preparing database transaction', 70);
+        showProgress('Backing up current chats', 70);
 
-        const currentChats = await ImportExportService.exportAllChats(db);
+        const currentChats = await ImportExportService.exportAllChats(storage);
         setLastOperation({ type: 'import-chats', data: { previous: currentChats } });
 
         // Step 5: Import chats
         showProgress(`Importing ${validatedChats.length} chats`, 80);
 
-        const transaction = db.transaction(['chats'], 'readwrite');
-        const store = transaction.objectStore('chats');
-
-        let processed = 0;
-
-        for (const chat of validatedChats) {
-          store.put(chat);
-          processed++;
-
+        await saveChats(storage, validatedChats, (processed) => {
           if (processed % 5 === 0 || processed === validatedChats.length) {
             showProgress(
               `Imported ${processed} of ${validatedChats.length} chats`,
               80 + (processed / validatedChats.length) * 20,
             );
           }
-        }
-
-        await new Promise((resolve, reject) => {
-          transaction.oncomplete = resolve;
-          transaction.onerror = reject;
         });
 
         // Step 6: Complete
@@ -684,7 +641,7 @@ export function useDataOperations({
         setProgressMessage('');
       }
     },
-    [db, onReloadChats, showProgress],
+    [storage, onReloadChats, showProgress],
   );
 
   /**
@@ -788,7 +745,7 @@ export function useDataOperations({
     });
 
     try {
-      if (db) {
+      if (storage) {
         // Step 1: Save current settings for potential undo
         showProgress('Backing up current settings', 25);
 
@@ -797,7 +754,7 @@ export function useDataOperations({
 
         // Step 2: Reset settings
         showProgress('Resetting settings to defaults', 50);
-        await ImportExportService.resetAllSettings(db);
+        await ImportExportService.resetAllSettings(storage);
 
         // Step 3: Complete
         showProgress('Completing reset', 100);
@@ -817,7 +774,7 @@ export function useDataOperations({
         // Dismiss progress toast before showing error toast
         toast.dismiss('progress-toast');
 
-        toast.error('Database not available', {
+        toast.error('Chat storage not available', {
           position: 'bottom-right',
           autoClose: 3000,
         });
@@ -837,14 +794,14 @@ export function useDataOperations({
       setProgressPercent(0);
       setProgressMessage('');
     }
-  }, [db, onResetSettings, showProgress]);
+  }, [storage, onResetSettings, showProgress]);
 
   /**
    * Reset all chats
    */
   const handleResetChats = useCallback(async () => {
-    if (!db) {
-      toast.error('Database not available', {
+    if (!storage) {
+      toast.error('Chat storage not available', {
         position: 'bottom-right',
         autoClose: 3000,
       });
@@ -867,12 +824,12 @@ export function useDataOperations({
       // Step 1: Save current chats for potential undo
       showProgress('Backing up current chats', 25);
 
-      const currentChats = await ImportExportService.exportAllChats(db);
+      const currentChats = await ImportExportService.exportAllChats(storage);
       setLastOperation({ type: 'reset-chats', data: { previous: currentChats } });
 
       // Step 2: Delete chats
-      showProgress('Deleting chats from database', 50);
-      await ImportExportService.deleteAllChats(db);
+      showProgress('Deleting chats from storage', 50);
+      await ImportExportService.deleteAllChats(storage);
 
       // Step 3: Complete
       showProgress('Completing deletion', 100);
@@ -903,7 +860,7 @@ export function useDataOperations({
       setProgressPercent(0);
       setProgressMessage('');
     }
-  }, [db, onResetChats, showProgress]);
+  }, [storage, onResetChats, showProgress]);
 
   /**
    * Download API keys template
@@ -1051,7 +1008,7 @@ export function useDataOperations({
    * Undo the last operation if possible
    */
   const handleUndo = useCallback(async () => {
-    if (!lastOperation || !db) {
+    if (!lastOperation || !storage) {
       toast.error('Nothing to undo', {
         position: 'bottom-right',
         autoClose: 3000,
@@ -1091,20 +1048,10 @@ export function useDataOperations({
 
         case 'import-chats': {
           // Delete imported chats and restore previous state
-          await ImportExportService.deleteAllChats(db);
+          await ImportExportService.deleteAllChats(storage);
 
           // Reimport previous chats
-          const transaction = db.transaction(['chats'], 'readwrite');
-          const store = transaction.objectStore('chats');
-
-          for (const chat of lastOperation.data.previous.chats) {
-            store.put(chat);
-          }
-
-          await new Promise((resolve, reject) => {
-            transaction.oncomplete = resolve;
-            transaction.onerror = reject;
-          });
+          await saveChats(storage, lastOperation.data.previous.chats);
 
           // Dismiss progress toast before showing success toast
           toast.dismiss('progress-toast');
@@ -1142,17 +1089,7 @@ export function useDataOperations({
 
         case 'reset-chats': {
           // Restore previous chats
-          const chatTransaction = db.transaction(['chats'], 'readwrite');
-          const chatStore = chatTransaction.objectStore('chats');
-
-          for (const chat of lastOperation.data.previous.chats) {
-            chatStore.put(chat);
-          }
-
-          await new Promise((resolve, reject) => {
-            chatTransaction.oncomplete = resolve;
-            chatTransaction.onerror = reject;
-          });
+          await saveChats(storage, lastOperation.data.previous.chats);
 
           // Dismiss progress toast before showing success toast
           toast.dismiss('progress-toast');
@@ -1214,7 +1151,7 @@ export function useDataOperations({
         autoClose: 3000,
       });
     }
-  }, [lastOperation, db, onReloadSettings, onReloadChats]);
+  }, [lastOperation, storage, onReloadSettings, onReloadChats]);
 
   return {
     isExporting,
@@ -1,13 +1,7 @@
 import { useStore } from '@nanostores/react';
 import { useCallback, useEffect, useState } from 'react';
 import { toast } from 'react-toastify';
-import {
-  chatId as chatIdStore,
-  db,
-  description as descriptionStore,
-  getMessages,
-  updateChatDescription,
-} from '~/lib/persistence';
+import { chatId as chatIdStore, chatStorage, description as descriptionStore } from '~/lib/persistence';
 
 interface EditChatDescriptionOptions {
   initialDescription?: string;
@@ -64,18 +58,18 @@ export function useEditChatDescription({
   }, []);
 
   const fetchLatestDescription = useCallback(async () => {
-    if (!db || !chatId) {
+    if (!chatStorage || !chatId) {
       return initialDescription;
     }
 
     try {
-      const chat = await getMessages(db, chatId);
+      const chat = await chatStorage.getMessages(chatId);
       return chat?.description || initialDescription;
     } catch (error) {
       console.error('Failed to fetch latest description:', error);
       return initialDescription;
     }
-  }, [db, chatId, initialDescription]);
+  }, [chatStorage, chatId, initialDescription]);
 
   const handleBlur = useCallback(async () => {
     const latestDescription = await fetchLatestDescription();
@@ -118,7 +112,7 @@ export function useEditChatDescription({
       }
 
       try {
-        if (!db) {
+        if (!chatStorage) {
           toast.error('Chat persistence is not available');
           return;
         }
@@ -128,7 +122,7 @@ export function useEditChatDescription({
           return;
         }
 
-        await updateChatDescription(db, chatId, currentDescription);
+        await chatStorage.updateChatDescription(chatId, currentDescription);
 
         if (syncWithGlobalStore) {
           descriptionStore.set(currentDescription);
@@ -141,7 +135,7 @@ export function useEditChatDescription({
 
       toggleEditMode();
     },
-    [currentDescription, db, chatId, initialDescription, customChatId],
+    [currentDescription, chatStorage, chatId, initialDescription, customChatId],
   );
 
   const handleKeyDown = useCallback(
@@ -1,47 +1,51 @@
 import type { Message } from 'ai';
 import { useCallback, useState } from 'react';
-import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import { StreamingMessageParser, type ParserCallbacks } from '~/lib/runtime/message-parser';
+import { ToolCallParser } from '~/lib/runtime/tool-call-parser';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('useMessageParser');
 
-const messageParser = new StreamingMessageParser({
-  callbacks: {
-    onArtifactOpen: (data) => {
-      logger.trace('onArtifactOpen', data);
-
-      workbenchStore.showWorkbench.set(true);
-      workbenchStore.addArtifact(data);
-    },
-    onArtifactClose: (data) => {
-      logger.trace('onArtifactClose');
-
-      workbenchStore.updateArtifact(data, { closed: true });
-    },
-    onActionOpen: (data) => {
-      logger.trace('onActionOpen', data.action);
-
-      // we only add shell actions when when the close tag got parsed because only then we have the content
-      if (data.action.type === 'file') {
-        workbenchStore.addAction(data);
-      }
-    },
-    onActionClose: (data) => {
-      logger.trace('onActionClose', data.action);
+// actions arrive either as XML tags in the text or as tool calls, both end up in the workbench the same way
+const callbacks: ParserCallbacks = {
+  onArtifactOpen: (data) => {
+    logger.trace('onArtifactOpen', data);
 
-      if (data.action.type !== 'file') {
-        workbenchStore.addAction(data);
-      }
+    workbenchStore.showWorkbench.set(true);
+    workbenchStore.addArtifact(data);
+  },
+  onArtifactClose: (data) => {
+    logger.trace('onArtifactClose');
+
+    workbenchStore.updateArtifact(data, { closed: true });
+  },
+  onActionOpen: (data) => {
+    logger.trace('onActionOpen', data.action);
 
-      workbenchStore.runAction(data);
-    },
-    onActionStream: (data) => {
-      logger.trace('onActionStream', data.action);
-      workbenchStore.runAction(data, true);
-    },
+    // we only add shell actions when when the close tag got parsed because only then we have the content
+    if (data.action.type === 'file') {
+      workbenchStore.addAction(data);
+    }
   },
-});
+  onActionClose: (data) => {
+    logger.trace('onActionClose', data.action);
+
+    if (data.action.type !== 'file') {
+      workbenchStore.addAction(data);
+    }
+
+    workbenchStore.runAction(data);
+  },
+  onActionStream: (data) => {
+    logger.trace('onActionStream', data.action);
+    workbenchStore.runAction(data, true);
+  },
+};
+
+const messageParser = new StreamingMessageParser({ callbacks });
+const toolCallParser = new ToolCallParser({ callbacks });
+
 const extractTextContent = (message: Message) =>
   Array.isArray(message.content)
     ? (message.content.find((item) => item.type === 'text')?.text as string) || ''
@@ -56,11 +60,18 @@ export function useMessageParser() {
     if (import.meta.env.DEV && !isLoading) {
       reset = true;
       messageParser.reset();
+      toolCallParser.reset();
     }
 
     for (const [index, message] of messages.entries()) {
       if (message.role === 'assistant' || message.role === 'user') {
-        const newParsedContent = messageParser.parse(message.id, extractTextContent(message));
+        let newParsedContent = messageParser.parse(message.id, extractTextContent(message));
+
+        if (message.role === 'assistant') {
+          const done = !isLoading || index < messages.length - 1;
+          newParsedContent += toolCallParser.parse(message.id, message.parts, done);
+        }
+
         setParsedMessages((prevParsed) => ({
           ...prevParsed,
           [index]: !reset ? (prevParsed[index] || '') + newParsedContent : newParsedContent,
@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+import { useStore } from '@nanostores/react';
+import { chatStore } from '~/lib/stores/chat';
+import { planStore, setPlanStatus, updatePlanStep, type PlanStepState } from '~/lib/stores/plan';
+
+interface SentStep {
+  messageId: string;
+  index: number;
+
+  // the step is done once the chat was busy with it and is idle again
+  started: boolean;
+}
+
+/**
+ * Sends the pending steps of the running plan to the chat, one at a time while the chat is idle.
+ * A step that fails or is stopped pauses the plan.
+ */
+export function usePlanRunner(options: {
+  isLoading: boolean;
+  error?: Error;
+  sendStep: (step: PlanStepState, index: number, total: number) => void;
+}) {
+  const { isLoading, error, sendStep } = options;
+  const plans = useStore(planStore);
+  const sentStep = useRef<SentStep>();
+
+  useEffect(() => {
+    const sent = sentStep.current;
+
+    if (sent) {
+      if (isLoading) {
+        sent.started = true;
+        return;
+      }
+
+      if (!sent.started) {
+        return;
+      }
+
+      sentStep.current = undefined;
+
+      const { steps } = plans[sent.messageId];
+      const failed = !!error || chatStore.get().aborted;
+
+      updatePlanStep(sent.messageId, steps, sent.index, { status: failed ? 'failed' : 'done' });
+
+      if (failed) {
+        setPlanStatus(sent.messageId, steps, 'paused');
+      }
+
+      return;
+    }
+
+    const running = Object.entries(plans).find(([, plan]) => plan.status === 'running');
+
+    if (isLoading || !running) {
+      return;
+    }
+
+    const [messageId, plan] = running;
+    const index = plan.steps.findIndex((step) => step.status === 'pending');
+
+    if (index < 0) {
+      setPlanStatus(messageId, plan.steps, 'done');
+      return;
+    }
+
+    sentStep.current = { messageId, index, started: false };
+    updatePlanStep(messageId, plan.steps, index, { status: 'running' });
+    sendStep(plan.steps[index], index, plan.steps.length);
+  }, [plans, isLoading, error]);
+}
@@ -2,25 +2,52 @@ import { useStore } from '@nanostores/react';
 import {
   isDebugMode,
   isEventLogsEnabled,
+  autoFixEnabledStore,
+  autoFixMaxAttemptsStore,
+  commandPolicyStore,
   promptStore,
+  userPromptsStore,
   providersStore,
+  customProvidersStore,
+  CUSTOM_PROVIDERS_KEY,
   latestBranchStore,
   autoSelectStarterTemplate,
   enableContextOptimizationStore,
+  contextSelectionModeStore,
+  actionOutputModeStore,
+  failoverChainStore,
   tabConfigurationStore,
   resetTabConfiguration as resetTabConfig,
   updateProviderSettings as updateProviderSettingsStore,
   updateLatestBranch,
   updateAutoSelectTemplate,
   updateContextOptimization,
+  updateContextSelectionMode,
+  updateActionOutputMode,
+  updateFailoverChain,
+  updateCustomProviders,
   updateEventLogs,
+  updateAutoFix,
+  updateAutoFixMaxAttempts,
+  updateCommandPolicy,
   updatePromptId,
+  updateUserPrompts,
 } from '~/lib/stores/settings';
 import { useCallback, useEffect, useState } from 'react';
 import Cookies from 'js-cookie';
-import type { IProviderSetting, ProviderInfo, IProviderConfig } from '~/types/model';
+import type {
+  IProviderSetting,
+  ProviderInfo,
+  IProviderConfig,
+  FailoverTarget,
+  CustomProviderConfig,
+} from '~/types/model';
 import type { TabWindowConfig } from '~/components/@settings/core/types';
+import type { ContextSelectionMode } from '~/types/context';
+import type { ActionOutputMode } from '~/lib/runtime/action-tools';
+import type { CommandPolicy } from '~/lib/runtime/command-policy';
 import { logStore } from '~/lib/stores/logs';
+import type { UserPrompt } from '~/lib/common/prompt-library';
 import { getLocalStorage, setLocalStorage } from '~/lib/persistence';
 
 export interface Settings {
@@ -45,6 +72,8 @@ export interface UseSettingsReturn {
   providers: Record<string, IProviderConfig>;
   activeProviders: ProviderInfo[];
   updateProviderSettings: (provider: string, config: IProviderSetting) => void;
+  customProviders: CustomProviderConfig[];
+  setCustomProviders: (configs: CustomProviderConfig[]) => void;
 
   // Debug and development settings
   debug: boolean;
@@ -52,12 +81,26 @@ export interface UseSettingsReturn {
   eventLogs: boolean;
   promptId: string;
   setPromptId: (promptId: string) => void;
+  userPrompts: UserPrompt[];
+  setUserPrompts: (prompts: UserPrompt[]) => void;
   isLatestBranch: boolean;
   enableLatestBranch: (enabled: boolean) => void;
   autoSelectTemplate: boolean;
   setAutoSelectTemplate: (enabled: boolean) => void;
   contextOptimizationEnabled: boolean;
   enableContextOptimization: (enabled: boolean) => void;
+  contextSelectionMode: ContextSelectionMode;
+  setContextSelectionMode: (mode: ContextSelectionMode) => void;
+  actionOutputMode: ActionOutputMode;
+  setActionOutputMode: (mode: ActionOutputMode) => void;
+  failoverChain: FailoverTarget[];
+  setFailoverChain: (chain: FailoverTarget[]) => void;
+  autoFixEnabled: boolean;
+  setAutoFixEnabled: (enabled: boolean) => void;
+  autoFixMaxAttempts: number;
+  setAutoFixMaxAttempts: (attempts: number) => void;
+  commandPolicy: CommandPolicy;
+  setCommandPolicy: (policy: CommandPolicy) => void;
 
   // Tab configuration
   tabConfiguration: TabWindowConfig;
@@ -71,13 +114,21 @@ interface ProviderSettingWithIndex extends IProviderSetting {
 
 export function useSettings(): UseSettingsReturn {
   const providers = useStore(providersStore);
+  const customProviders = useStore(customProvidersStore);
   const debug = useStore(isDebugMode);
   const eventLogs = useStore(isEventLogsEnabled);
   const promptId = useStore(promptStore);
+  const userPrompts = useStore(userPromptsStore);
   const isLatestBranch = useStore(latestBranchStore);
   const autoSelectTemplate = useStore(autoSelectStarterTemplate);
   const [activeProviders, setActiveProviders] = useState<ProviderInfo[]>([]);
   const contextOptimizationEnabled = useStore(enableContextOptimizationStore);
+  const contextSelectionMode = useStore(contextSelectionModeStore);
+  const actionOutputMode = useStore(actionOutputModeStore);
+  const failoverChain = useStore(failoverChainStore);
+  const autoFixEnabled = useStore(autoFixEnabledStore);
+  const autoFixMaxAttempts = useStore(autoFixMaxAttemptsStore);
+  const commandPolicy = useStore(commandPolicyStore);
   const tabConfiguration = useStore(tabConfigurationStore);
   const [settings, setSettings] = useState<Settings>(() => {
     const storedSettings = getLocalStorage('settings');
@@ -143,6 +194,46 @@ export function useSettings(): UseSettingsReturn {
     logStore.logSystem(`Context optimization ${enabled ? 'enabled' : 'disabled'}`);
   }, []);
 
+  const setContextSelectionMode = useCallback((mode: ContextSelectionMode) => {
+    updateContextSelectionMode(mode);
+    logStore.logSystem(`Context selection mode updated to ${mode}`);
+  }, []);
+
+  const setActionOutputMode = useCallback((mode: ActionOutputMode) => {
+    updateActionOutputMode(mode);
+    logStore.logSystem(`Action output mode updated to ${mode}`);
+  }, []);
+
+  const setUserPrompts = useCallback((prompts: UserPrompt[]) => {
+    updateUserPrompts(prompts);
+    logStore.logSystem(`User prompts updated to ${prompts.length} prompt(s)`);
+  }, []);
+
+  const setCustomProviders = useCallback((configs: CustomProviderConfig[]) => {
+    updateCustomProviders(configs);
+    logStore.logSystem(`Custom providers updated to ${configs.length} provider(s)`);
+  }, []);
+
+  const setFailoverChain = useCallback((chain: FailoverTarget[]) => {
+    updateFailoverChain(chain);
+    logStore.logSystem(`Provider failover chain updated to ${chain.length} fallback(s)`);
+  }, []);
+
+  const setAutoFixEnabled = useCallback((enabled: boolean) => {
+    updateAutoFix(enabled);
+    logStore.logSystem(`Auto fix ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setAutoFixMaxAttempts = useCallback((attempts: number) => {
+    updateAutoFixMaxAttempts(attempts);
+    logStore.logSystem(`Auto fix attempts updated to ${attempts}`);
+  }, []);
+
+  const setCommandPolicy = useCallback((policy: CommandPolicy) => {
+    updateCommandPolicy(policy);
+    logStore.logSystem(`Command policy updated to ${policy.rules.length} rule(s), default ${policy.defaultDecision}`);
+  }, []);
+
   const setTheme = useCallback(
     (theme: Settings['theme']) => {
       saveSettings({ theme });
@@ -180,23 +271,43 @@ export function useSettings(): UseSettingsReturn {
     Cookies.set('providers', JSON.stringify(providerSetting));
   }, [providers]);
 
+  useEffect(() => {
+    Cookies.set(CUSTOM_PROVIDERS_KEY, JSON.stringify(customProviders));
+  }, [customProviders]);
+
   return {
     ...settings,
     providers,
     activeProviders,
     updateProviderSettings,
+    customProviders,
+    setCustomProviders,
     debug,
     enableDebugMode,
     eventLogs,
     setEventLogs,
     promptId,
     setPromptId,
+    userPrompts,
+    setUserPrompts,
     isLatestBranch,
     enableLatestBranch,
     autoSelectTemplate,
     setAutoSelectTemplate,
     contextOptimizationEnabled,
     enableContextOptimization,
+    contextSelectionMode,
+    setContextSelectionMode,
+    actionOutputMode,
+    setActionOutputMode,
+    failoverChain,
+    setFailoverChain,
+    autoFixEnabled,
+    setAutoFixEnabled,
+    autoFixMaxAttempts,
+    setAutoFixMaxAttempts,
+    commandPolicy,
+    setCommandPolicy,
     setTheme,
     setLanguage,
     setNotifications,
@@ -0,0 +1,198 @@
+import type {
+  CreatePullRequestOptions,
+  CreateRepoOptions,
+  GitHostConnection,
+  GitHostFile,
+  GitHostId,
+  GitHostPullRequest,
+  GitHostRepo,
+  GitHostUser,
+  TemplateFile,
+} from './types';
+
+// lock files are kept whatever their size, they make installs much faster
+const LOCK_FILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+const MAX_TEMPLATE_FILE_SIZE = 100000;
+const TEMPLATE_BATCH_SIZE = 10;
+
+export class GitHostError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'GitHostError';
+  }
+}
+
+/**
+ * A service that hosts git repositories. Implementations translate its REST API to a common shape, clones and
+ * pushes go over plain git HTTP with the credentials from `getGitAuth`.
+ */
+export abstract class BaseGitHost {
+  abstract id: GitHostId;
+  abstract name: string;
+  abstract icon: string;
+  abstract defaultBaseUrl: string;
+
+  // where users create the token the connection needs
+  abstract tokenUrl: string;
+  selfHosted = false;
+
+  constructor(readonly connection: GitHostConnection) {}
+
+  get baseUrl() {
+    return (this.connection.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '');
+  }
+
+  /**
+   * The host that serves the repositories over git, the API may live on a subdomain of it
+   */
+  get gitDomain() {
+    return new URL(this.baseUrl).host.replace(/^api\./, '');
+  }
+
+  /**
+   * The address git clones a repository from, without asking the API
+   */
+  getCloneUrl(fullName: string) {
+    return `${new URL(this.baseUrl).protocol}//${this.gitDomain}/${fullName}.git`;
+  }
+
+  abstract getUser(): Promise<GitHostUser>;
+
+  /**
+   * The repositories the user can push to, most recently updated first
+   */
+  abstract listRepos(): Promise<GitHostRepo[]>;
+
+  /**
+   * @returns `undefined` when the repository does not exist
+   */
+  abstract getRepo(fullName: string): Promise<GitHostRepo | undefined>;
+
+  abstract createRepo(options: CreateRepoOptions): Promise<GitHostRepo>;
+
+  abstract setRepoVisibility(repo: GitHostRepo, isPrivate: boolean): Promise<GitHostRepo>;
+
+  abstract createPullRequest(repo: GitHostRepo, options: CreatePullRequestOptions): Promise<GitHostPullRequest>;
+
+  /**
+   * Every file of a branch, folders left out
+   */
+  abstract listFiles(repo: GitHostRepo, ref: string): Promise<GitHostFile[]>;
+
+  abstract readFile(repo: GitHostRepo, path: string, ref: string): Promise<string>;
+
+  /**
+   * Credentials for git over HTTP
+   */
+  abstract getGitAuth(): { username: string; password: string };
+
+  protected abstract getHeaders(): Record<string, string>;
+
+  /**
+   * The files of a repository to start a project from
+   */
+  async getTemplateFiles(fullName: string, ref?: string): Promise<TemplateFile[]> {
+    const repo = await this.getRepo(fullName);
+
+    if (!repo) {
+      throw new GitHostError(`Repository not found: ${fullName}`, 404);
+    }
+
+    const branch = ref || repo.defaultBranch;
+    const files = (await this.listFiles(repo, branch)).filter(
+      ({ path, size }) =>
+        !path.startsWith('.git/') &&
+        (LOCK_FILES.some((lockFile) => path.endsWith(lockFile)) || (size ?? 0) < MAX_TEMPLATE_FILE_SIZE),
+    );
+
+    const templateFiles: TemplateFile[] = [];
+
+    for (let i = 0; i < files.length; i += TEMPLATE_BATCH_SIZE) {
+      const batch = await Promise.all(
+        files.slice(i, i + TEMPLATE_BATCH_SIZE).map(async ({ path }) => {
+          try {
+            return { name: path.split('/').pop() || '', path, content: await this.readFile(repo, path, branch) };
+          } catch (error) {
+            console.warn(`Failed to fetch ${path}:`, error);
+            return null;
+          }
+        }),
+      );
+
+      templateFiles.push(...batch.filter((file): file is TemplateFile => !!file));
+    }
+
+    return templateFiles;
+  }
+
+  /**
+   * The account part of the `owner/name` of a new repository
+   */
+  async getOwner() {
+    return this.connection.username || (await this.getUser()).username;
+  }
+
+  /**
+   * A repository of the user by the name it was created with
+   */
+  async findOwnRepo(name: string) {
+    return this.getRepo(`${await this.getOwner()}/${this.toSlug(name)}`);
+  }
+
+  /**
+   * The path segment a host derives from a repository name
+   */
+  protected toSlug(name: string) {
+    return name;
+  }
+
+  protected async request<T>(url: string, init: RequestInit = {}): Promise<T> {
+    if (!this.baseUrl) {
+      throw new GitHostError(`${this.name} needs the address of the instance`, 0);
+    }
+
+    const response = await fetch(url.startsWith('http') ? url : `${this.baseUrl}${url}`, {
+      ...init,
+      headers: {
+        Accept: 'application/json',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...this.getHeaders(),
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new GitHostError(
+        `${this.name} API error ${response.status}: ${text || response.statusText}`,
+        response.status,
+      );
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+
+    return (contentType.includes('json') ? await response.json() : await response.text()) as T;
+  }
+
+  /**
+   * Like `request`, but resolves to `undefined` when the resource does not exist
+   */
+  protected async find<T>(url: string): Promise<T | undefined> {
+    try {
+      return await this.request<T>(url);
+    } catch (error) {
+      if (error instanceof GitHostError && error.status === 404) {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,238 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createGitHost, getRepoFullName } from './registry';
+import type { GitHostId, GitHostRepo } from './types';
+
+interface MockRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body?: unknown;
+}
+
+type MockRoutes = Record<string, unknown>;
+
+// a stand-in for the host APIs, routes are keyed by `METHOD /path` without the query
+let routes: MockRoutes = {};
+let requests: MockRequest[] = [];
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const path = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+      requests.push({ method: req.method ?? 'GET', path, headers: req.headers, body: body && JSON.parse(body) });
+
+      const response = routes[`${req.method} ${path}`];
+
+      if (response === undefined) {
+        res.writeHead(404, { 'Content-Type': 'application/json' }).end('{"message":"Not Found"}');
+      } else if (typeof response === 'string') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' }).end(response);
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(response));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(() => {
+  routes = {};
+  requests = [];
+});
+
+const host = (id: GitHostId, username?: string) => createGitHost(id, { baseUrl, username, token: 'secret' });
+
+describe('GitHubHost', () => {
+  const repo = {
+    name: 'app',
+    full_name: 'octo/app',
+    description: null,
+    private: true,
+    html_url: 'https://github.com/octo/app',
+    clone_url: 'https://github.com/octo/app.git',
+    default_branch: 'main',
+  };
+
+  it('creates repositories without an initial commit', async () => {
+    routes = { 'POST /user/repos': repo };
+
+    await expect(host('github').createRepo({ name: 'app', private: true })).resolves.toMatchObject({
+      fullName: 'octo/app',
+      cloneUrl: 'https://github.com/octo/app.git',
+    });
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+    expect(requests[0].body).toEqual({ name: 'app', private: true, auto_init: false });
+  });
+
+  it('skips large files of templates but keeps lock files', async () => {
+    routes = {
+      'GET /repos/octo/app': repo,
+      'GET /repos/octo/app/git/trees/main': {
+        tree: [
+          { path: 'src', type: 'tree' },
+          { path: 'src/index.ts', type: 'blob', size: 10 },
+          { path: 'video.mp4', type: 'blob', size: 500000 },
+          { path: 'package-lock.json', type: 'blob', size: 500000 },
+        ],
+      },
+      'GET /repos/octo/app/contents/src/index.ts': 'export {};',
+      'GET /repos/octo/app/contents/package-lock.json': '{}',
+    };
+
+    await expect(host('github').getTemplateFiles('octo/app')).resolves.toEqual([
+      { name: 'index.ts', path: 'src/index.ts', content: 'export {};' },
+      { name: 'package-lock.json', path: 'package-lock.json', content: '{}' },
+    ]);
+  });
+
+  it('returns undefined for missing repositories', async () => {
+    await expect(host('github').getRepo('octo/missing')).resolves.toBeUndefined();
+  });
+});
+
+describe('GitLabHost', () => {
+  const gitlabRepo: GitHostRepo = {
+    fullName: 'group/app',
+    name: 'app',
+    private: false,
+    webUrl: 'https://gitlab.com/group/app',
+    cloneUrl: 'https://gitlab.com/group/app.git',
+    defaultBranch: 'main',
+  };
+
+  it('opens merge requests', async () => {
+    routes = {
+      'POST /api/v4/projects/group/app/merge_requests': {
+        iid: 7,
+        web_url: 'https://gitlab.com/group/app/-/merge_requests/7',
+      },
+    };
+
+    await expect(
+      host('gitlab').createPullRequest(gitlabRepo, {
+        title: 'Add login',
+        body: 'Adds a login page',
+        head: 'bolt/add-login',
+        base: 'main',
+      }),
+    ).resolves.toEqual({
+      number: 7,
+      url: 'https://gitlab.com/group/app/-/merge_requests/7',
+      head: 'bolt/add-login',
+      base: 'main',
+    });
+    expect(requests[0].body).toEqual({
+      title: 'Add login',
+      description: 'Adds a login page',
+      source_branch: 'bolt/add-login',
+      target_branch: 'main',
+    });
+  });
+
+  it('lists projects and authenticates git as oauth2', async () => {
+    routes = {
+      'GET /api/v4/projects': [
+        {
+          id: 1,
+          name: 'app',
+          path_with_namespace: 'group/sub/app',
+          description: null,
+          visibility: 'internal',
+          web_url: 'https://gitlab.com/group/sub/app',
+          http_url_to_repo: 'https://gitlab.com/group/sub/app.git',
+          default_branch: null,
+        },
+      ],
+    };
+
+    const gitlab = host('gitlab');
+
+    await expect(gitlab.listRepos()).resolves.toMatchObject([
+      { fullName: 'group/sub/app', private: true, defaultBranch: 'main' },
+    ]);
+    expect(requests[0].headers['private-token']).toBe('secret');
+    expect(gitlab.getGitAuth()).toEqual({ username: 'oauth2', password: 'secret' });
+    expect(gitlab.getCloneUrl('group/sub/app')).toBe(`${baseUrl}/group/sub/app.git`);
+  });
+});
+
+describe('BitbucketHost', () => {
+  it('creates repositories in the workspace of the user', async () => {
+    routes = {
+      'POST /repositories/alice/my-app': {
+        name: 'My App',
+        full_name: 'alice/my-app',
+        description: '',
+        is_private: true,
+        mainbranch: null,
+        links: {
+          html: { href: 'https://bitbucket.org/alice/my-app' },
+          clone: [{ name: 'https', href: 'https://alice@bitbucket.org/alice/my-app.git' }],
+        },
+      },
+    };
+
+    await expect(host('bitbucket', 'alice').createRepo({ name: 'My App', private: true })).resolves.toMatchObject({
+      fullName: 'alice/my-app',
+      cloneUrl: 'https://bitbucket.org/alice/my-app.git',
+    });
+    expect(requests[0].headers.authorization).toBe(`Basic ${btoa('alice:secret')}`);
+    expect(createGitHost('bitbucket').getCloneUrl('alice/my-app')).toBe('https://bitbucket.org/alice/my-app.git');
+  });
+
+  it('walks the folders of a repository', async () => {
+    const repo: GitHostRepo = {
+      fullName: 'alice/app',
+      name: 'app',
+      private: true,
+      webUrl: 'https://bitbucket.org/alice/app',
+      cloneUrl: 'https://bitbucket.org/alice/app.git',
+      defaultBranch: 'main',
+    };
+
+    routes = {
+      'GET /repositories/alice/app/src/main/': {
+        values: [
+          { path: 'src', type: 'commit_directory' },
+          { path: 'README.md', type: 'commit_file', size: 4 },
+        ],
+      },
+      'GET /repositories/alice/app/src/main/src/': { values: [{ path: 'src/index.ts', type: 'commit_file', size: 8 }] },
+    };
+
+    await expect(host('bitbucket', 'alice').listFiles(repo, 'main')).resolves.toEqual([
+      { path: 'README.md', size: 4 },
+      { path: 'src/index.ts', size: 8 },
+    ]);
+  });
+});
+
+describe('GiteaHost', () => {
+  it('uses the address of the instance', async () => {
+    routes = { 'GET /api/v1/user': { login: 'bob', full_name: '', avatar_url: '' } };
+
+    await expect(host('gitea').getUser()).resolves.toMatchObject({ username: 'bob' });
+    expect(requests[0].headers.authorization).toBe('token secret');
+  });
+
+  it('fails with the status of the API', async () => {
+    await expect(host('gitea').createRepo({ name: 'app', private: false })).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('getRepoFullName', () => {
+  it('reads the repository from web and clone addresses', () => {
+    expect(getRepoFullName('https://github.com/octo/app.git')).toBe('octo/app');
+    expect(getRepoFullName('https://gitlab.com/group/sub/app/')).toBe('group/sub/app');
+  });
+});
@@ -0,0 +1,159 @@
+import { BaseGitHost } from '~/lib/modules/git-hosts/base-git-host';
+import type {
+  CreatePullRequestOptions,
+  CreateRepoOptions,
+  GitHostFile,
+  GitHostPullRequest,
+  GitHostRepo,
+  GitHostUser,
+} from '~/lib/modules/git-hosts/types';
+
+interface BitbucketApiRepo {
+  name: string;
+  full_name: string;
+  description: string;
+  is_private: boolean;
+  mainbranch?: { name: string } | null;
+  updated_on?: string;
+  links: {
+    html: { href: string };
+    clone: Array<{ name: string; href: string }>;
+  };
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+function toRepo(repo: BitbucketApiRepo): GitHostRepo {
+  const cloneUrl = repo.links.clone.find((link) => link.name === 'https')?.href ?? `${repo.links.html.href}.git`;
+
+  return {
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description || undefined,
+    private: repo.is_private,
+    webUrl: repo.links.html.href,
+
+    // clone links carry the user name, the credentials come from `getGitAuth`
+    cloneUrl: cloneUrl.replace(/\/\/[^@/]+@/, '//'),
+    defaultBranch: repo.mainbranch?.name || 'main',
+    updatedAt: repo.updated_on,
+  };
+}
+
+export default class BitbucketHost extends BaseGitHost {
+  id = 'bitbucket' as const;
+  name = 'Bitbucket';
+  icon = 'i-ph:git-branch';
+  defaultBaseUrl = 'https://api.bitbucket.org/2.0';
+  tokenUrl = 'https://bitbucket.org/account/settings/app-passwords/new';
+
+  async getUser(): Promise<GitHostUser> {
+    const user = await this.request<{ username: string; display_name: string; links: { avatar: { href: string } } }>(
+      '/user',
+    );
+
+    return { username: user.username, name: user.display_name, avatarUrl: user.links.avatar.href };
+  }
+
+  async listRepos() {
+    const { values } = await this.request<BitbucketPage<BitbucketApiRepo>>(
+      '/repositories?role=contributor&sort=-updated_on&pagelen=100',
+    );
+
+    return values.map(toRepo);
+  }
+
+  async getRepo(fullName: string) {
+    const repo = await this.find<BitbucketApiRepo>(`/repositories/${fullName}`);
+
+    return repo && toRepo(repo);
+  }
+
+  async createRepo({ name, description, private: isPrivate }: CreateRepoOptions) {
+    const workspace = await this.getOwner();
+
+    const repo = await this.request<BitbucketApiRepo>(`/repositories/${workspace}/${this.toSlug(name)}`, {
+      method: 'POST',
+      body: JSON.stringify({ scm: 'git', name, description, is_private: isPrivate }),
+    });
+
+    return toRepo(repo);
+  }
+
+  async setRepoVisibility(repo: GitHostRepo, isPrivate: boolean) {
+    const updated = await this.request<BitbucketApiRepo>(`/repositories/${repo.fullName}`, {
+      method: 'PUT',
+      body: JSON.stringify({ is_private: isPrivate }),
+    });
+
+    return toRepo(updated);
+  }
+
+  async createPullRequest(repo: GitHostRepo, { title, body, head, base }: CreatePullRequestOptions) {
+    const pull = await this.request<{ id: number; links: { html: { href: string } } }>(
+      `/repositories/${repo.fullName}/pullrequests`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          title,
+          description: body,
+          source: { branch: { name: head } },
+          destination: { branch: { name: base } },
+        }),
+      },
+    );
+
+    return { number: pull.id, url: pull.links.html.href, head, base } satisfies GitHostPullRequest;
+  }
+
+  async listFiles(repo: GitHostRepo, ref: string): Promise<GitHostFile[]> {
+    const files: GitHostFile[] = [];
+    const folders = [''];
+
+    // the source endpoint lists one folder per request, and each listing may span pages
+    while (folders.length > 0) {
+      let url: string | undefined =
+        `/repositories/${repo.fullName}/src/${encodeURIComponent(ref)}/${folders.shift()}?pagelen=100`;
+
+      while (url) {
+        const page: BitbucketPage<{ path: string; type: string; size?: number }> = await this.request(url);
+
+        for (const item of page.values) {
+          if (item.type === 'commit_directory') {
+            folders.push(`${item.path}/`);
+          } else if (item.type === 'commit_file') {
+            files.push({ path: item.path, size: item.size });
+          }
+        }
+
+        url = page.next;
+      }
+    }
+
+    return files;
+  }
+
+  readFile(repo: GitHostRepo, path: string, ref: string) {
+    return this.request<string>(`/repositories/${repo.fullName}/src/${encodeURIComponent(ref)}/${path}`, {
+      headers: { Accept: 'text/plain' },
+    });
+  }
+
+  protected toSlug(name: string) {
+    return name.toLowerCase().replace(/[^a-z0-9_.-]+/g, '-');
+  }
+
+  getGitAuth() {
+    return { username: this.connection.username ?? '', password: this.connection.token };
+  }
+
+  protected getHeaders(): Record<string, string> {
+    // app passwords only work with basic auth and the account user name
+    return this.connection.token
+      ? { Authorization: `Basic ${btoa(`${this.connection.username ?? ''}:${this.connection.token}`)}` }
+      : {};
+  }
+}
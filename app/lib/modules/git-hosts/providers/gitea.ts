@@ -0,0 +1,123 @@
+import { BaseGitHost } from '~/lib/modules/git-hosts/base-git-host';
+import type {
+  CreatePullRequestOptions,
+  CreateRepoOptions,
+  GitHostFile,
+  GitHostPullRequest,
+  GitHostRepo,
+  GitHostUser,
+} from '~/lib/modules/git-hosts/types';
+
+interface GiteaApiRepo {
+  name: string;
+  full_name: string;
+  description: string;
+  private: boolean;
+  html_url: string;
+  clone_url: string;
+  default_branch: string;
+  updated_at?: string;
+}
+
+const PAGE_SIZE = 50;
+
+function toRepo(repo: GiteaApiRepo): GitHostRepo {
+  return {
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description || undefined,
+    private: repo.private,
+    webUrl: repo.html_url,
+    cloneUrl: repo.clone_url,
+    defaultBranch: repo.default_branch || 'main',
+    updatedAt: repo.updated_at,
+  };
+}
+
+/**
+ * Gitea and its forks such as Forgejo, always self-hosted so the connection needs the address of the instance
+ */
+export default class GiteaHost extends BaseGitHost {
+  id = 'gitea' as const;
+  name = 'Gitea';
+  icon = 'i-ph:coffee';
+  defaultBaseUrl = '';
+  tokenUrl = '';
+  selfHosted = true;
+
+  async getUser(): Promise<GitHostUser> {
+    const user = await this.request<{ login: string; full_name: string; avatar_url: string }>('/api/v1/user');
+
+    return { username: user.login, name: user.full_name || undefined, avatarUrl: user.avatar_url };
+  }
+
+  async listRepos() {
+    const repos = await this.request<GiteaApiRepo[]>(`/api/v1/user/repos?limit=${PAGE_SIZE}`);
+
+    return repos.map(toRepo).sort((a, b) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''));
+  }
+
+  async getRepo(fullName: string) {
+    const repo = await this.find<GiteaApiRepo>(`/api/v1/repos/${fullName}`);
+
+    return repo && toRepo(repo);
+  }
+
+  async createRepo({ name, description, private: isPrivate }: CreateRepoOptions) {
+    const repo = await this.request<GiteaApiRepo>('/api/v1/user/repos', {
+      method: 'POST',
+      body: JSON.stringify({ name, description, private: isPrivate, auto_init: false }),
+    });
+
+    return toRepo(repo);
+  }
+
+  async setRepoVisibility(repo: GitHostRepo, isPrivate: boolean) {
+    const updated = await this.request<GiteaApiRepo>(`/api/v1/repos/${repo.fullName}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ private: isPrivate }),
+    });
+
+    return toRepo(updated);
+  }
+
+  async createPullRequest(repo: GitHostRepo, { title, body, head, base }: CreatePullRequestOptions) {
+    const pull = await this.request<{ number: number; html_url: string }>(`/api/v1/repos/${repo.fullName}/pulls`, {
+      method: 'POST',
+      body: JSON.stringify({ title, body, head, base }),
+    });
+
+    return { number: pull.number, url: pull.html_url, head, base } satisfies GitHostPullRequest;
+  }
+
+  async listFiles(repo: GitHostRepo, ref: string): Promise<GitHostFile[]> {
+    const files: GitHostFile[] = [];
+
+    for (let page = 1; ; page++) {
+      const { tree, truncated } = await this.request<{
+        tree: Array<{ path: string; type: string; size?: number }>;
+        truncated: boolean;
+      }>(`/api/v1/repos/${repo.fullName}/git/trees/${encodeURIComponent(ref)}?recursive=true&page=${page}`);
+
+      files.push(...tree.filter((item) => item.type === 'blob').map(({ path, size }) => ({ path, size })));
+
+      if (!truncated) {
+        return files;
+      }
+    }
+  }
+
+  readFile(repo: GitHostRepo, path: string, ref: string) {
+    return this.request<string>(`/api/v1/repos/${repo.fullName}/raw/${path}?ref=${encodeURIComponent(ref)}`, {
+      headers: { Accept: 'text/plain' },
+    });
+  }
+
+  getGitAuth() {
+    return { username: this.connection.username || 'oauth2', password: this.connection.token };
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return this.connection.token ? { Authorization: `token ${this.connection.token}` } : {};
+  }
+}
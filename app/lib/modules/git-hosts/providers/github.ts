@@ -0,0 +1,113 @@
+import { BaseGitHost } from '~/lib/modules/git-hosts/base-git-host';
+import type {
+  CreatePullRequestOptions,
+  CreateRepoOptions,
+  GitHostFile,
+  GitHostPullRequest,
+  GitHostRepo,
+  GitHostUser,
+} from '~/lib/modules/git-hosts/types';
+
+interface GitHubApiRepo {
+  name: string;
+  full_name: string;
+  description: string | null;
+  private: boolean;
+  html_url: string;
+  clone_url: string;
+  default_branch: string;
+  updated_at?: string;
+}
+
+function toRepo(repo: GitHubApiRepo): GitHostRepo {
+  return {
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description ?? undefined,
+    private: repo.private,
+    webUrl: repo.html_url,
+    cloneUrl: repo.clone_url,
+    defaultBranch: repo.default_branch || 'main',
+    updatedAt: repo.updated_at,
+  };
+}
+
+export default class GitHubHost extends BaseGitHost {
+  id = 'github' as const;
+  name = 'GitHub';
+  icon = 'i-ph:github-logo';
+  defaultBaseUrl = 'https://api.github.com';
+  tokenUrl = 'https://github.com/settings/tokens/new?scopes=repo,read:user&description=Bolt';
+
+  async getUser(): Promise<GitHostUser> {
+    const user = await this.request<{ login: string; name: string | null; avatar_url: string }>('/user');
+
+    return { username: user.login, name: user.name ?? undefined, avatarUrl: user.avatar_url };
+  }
+
+  async listRepos() {
+    const repos = await this.request<GitHubApiRepo[]>('/user/repos?sort=updated&per_page=100');
+
+    return repos.map(toRepo);
+  }
+
+  async getRepo(fullName: string) {
+    const repo = await this.find<GitHubApiRepo>(`/repos/${fullName}`);
+
+    return repo && toRepo(repo);
+  }
+
+  async createRepo({ name, description, private: isPrivate }: CreateRepoOptions) {
+    const repo = await this.request<GitHubApiRepo>('/user/repos', {
+      method: 'POST',
+
+      // the first push brings the history, an initial commit would reject it
+      body: JSON.stringify({ name, description, private: isPrivate, auto_init: false }),
+    });
+
+    return toRepo(repo);
+  }
+
+  async setRepoVisibility(repo: GitHostRepo, isPrivate: boolean) {
+    const updated = await this.request<GitHubApiRepo>(`/repos/${repo.fullName}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ private: isPrivate }),
+    });
+
+    return toRepo(updated);
+  }
+
+  async createPullRequest(repo: GitHostRepo, { title, body, head, base }: CreatePullRequestOptions) {
+    const pull = await this.request<{ number: number; html_url: string }>(`/repos/${repo.fullName}/pulls`, {
+      method: 'POST',
+      body: JSON.stringify({ title, body, head, base }),
+    });
+
+    return { number: pull.number, url: pull.html_url, head, base } satisfies GitHostPullRequest;
+  }
+
+  async listFiles(repo: GitHostRepo, ref: string): Promise<GitHostFile[]> {
+    const { tree } = await this.request<{ tree: Array<{ path: string; type: string; size?: number }> }>(
+      `/repos/${repo.fullName}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+    );
+
+    return tree.filter((item) => item.type === 'blob').map(({ path, size }) => ({ path, size }));
+  }
+
+  readFile(repo: GitHostRepo, path: string, ref: string) {
+    return this.request<string>(`/repos/${repo.fullName}/contents/${path}?ref=${encodeURIComponent(ref)}`, {
+      headers: { Accept: 'application/vnd.github.raw' },
+    });
+  }
+
+  getGitAuth() {
+    return { username: this.connection.username || 'x-access-token', password: this.connection.token };
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      'User-Agent': 'bolt.diy',
+      ...(this.connection.token ? { Authorization: `Bearer ${this.connection.token}` } : {}),
+    };
+  }
+}
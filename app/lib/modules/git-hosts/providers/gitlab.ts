@@ -0,0 +1,142 @@
+import { BaseGitHost } from '~/lib/modules/git-hosts/base-git-host';
+import type {
+  CreatePullRequestOptions,
+  CreateRepoOptions,
+  GitHostFile,
+  GitHostPullRequest,
+  GitHostRepo,
+  GitHostUser,
+} from '~/lib/modules/git-hosts/types';
+
+interface GitLabApiProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  description: string | null;
+  visibility: 'private' | 'internal' | 'public';
+  web_url: string;
+  http_url_to_repo: string;
+  default_branch: string | null;
+  last_activity_at?: string;
+}
+
+const PAGE_SIZE = 100;
+
+function toRepo(project: GitLabApiProject): GitHostRepo {
+  return {
+    name: project.name,
+    fullName: project.path_with_namespace,
+    description: project.description ?? undefined,
+    private: project.visibility !== 'public',
+    webUrl: project.web_url,
+    cloneUrl: project.http_url_to_repo,
+
+    // empty projects have no default branch yet
+    defaultBranch: project.default_branch || 'main',
+    updatedAt: project.last_activity_at,
+  };
+}
+
+function projectPath(fullName: string) {
+  return `/api/v4/projects/${encodeURIComponent(fullName)}`;
+}
+
+export default class GitLabHost extends BaseGitHost {
+  id = 'gitlab' as const;
+  name = 'GitLab';
+  icon = 'i-ph:gitlab-logo';
+  defaultBaseUrl = 'https://gitlab.com';
+  tokenUrl = 'https://gitlab.com/-/user_settings/personal_access_tokens?name=Bolt&scopes=api,write_repository';
+
+  async getUser(): Promise<GitHostUser> {
+    const user = await this.request<{ username: string; name: string; avatar_url: string }>('/api/v4/user');
+
+    return { username: user.username, name: user.name, avatarUrl: user.avatar_url };
+  }
+
+  async listRepos() {
+    const projects = await this.request<GitLabApiProject[]>(
+      `/api/v4/projects?membership=true&min_access_level=30&order_by=last_activity_at&per_page=${PAGE_SIZE}`,
+    );
+
+    return projects.map(toRepo);
+  }
+
+  async getRepo(fullName: string) {
+    const project = await this.find<GitLabApiProject>(projectPath(fullName));
+
+    return project && toRepo(project);
+  }
+
+  async createRepo({ name, description, private: isPrivate }: CreateRepoOptions) {
+    const project = await this.request<GitLabApiProject>('/api/v4/projects', {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        path: this.toSlug(name),
+        description,
+        visibility: isPrivate ? 'private' : 'public',
+      }),
+    });
+
+    return toRepo(project);
+  }
+
+  async setRepoVisibility(repo: GitHostRepo, isPrivate: boolean) {
+    const project = await this.request<GitLabApiProject>(projectPath(repo.fullName), {
+      method: 'PUT',
+      body: JSON.stringify({ visibility: isPrivate ? 'private' : 'public' }),
+    });
+
+    return toRepo(project);
+  }
+
+  async createPullRequest(repo: GitHostRepo, { title, body, head, base }: CreatePullRequestOptions) {
+    const request = await this.request<{ iid: number; web_url: string }>(
+      `${projectPath(repo.fullName)}/merge_requests`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ title, description: body, source_branch: head, target_branch: base }),
+      },
+    );
+
+    return { number: request.iid, url: request.web_url, head, base } satisfies GitHostPullRequest;
+  }
+
+  async listFiles(repo: GitHostRepo, ref: string): Promise<GitHostFile[]> {
+    const files: GitHostFile[] = [];
+
+    // the tree endpoint has no sizes, large files are only left out for hosts that report them
+    for (let page = 1; ; page++) {
+      const items = await this.request<Array<{ path: string; type: string }>>(
+        `${projectPath(repo.fullName)}/repository/tree?recursive=true&ref=${encodeURIComponent(ref)}&per_page=${PAGE_SIZE}&page=${page}`,
+      );
+
+      files.push(...items.filter((item) => item.type === 'blob').map(({ path }) => ({ path })));
+
+      if (items.length < PAGE_SIZE) {
+        return files;
+      }
+    }
+  }
+
+  readFile(repo: GitHostRepo, path: string, ref: string) {
+    return this.request<string>(
+      `${projectPath(repo.fullName)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`,
+      { headers: { Accept: 'text/plain' } },
+    );
+  }
+
+  protected toSlug(name: string) {
+    return name.replace(/[^A-Za-z0-9_.-]+/g, '-');
+  }
+
+  getGitAuth() {
+    // personal access tokens work with any user name, `oauth2` is the documented one
+    return { username: 'oauth2', password: this.connection.token };
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return this.connection.token ? { 'PRIVATE-TOKEN': this.connection.token } : {};
+  }
+}
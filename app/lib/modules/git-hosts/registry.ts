@@ -0,0 +1,32 @@
+import type { BaseGitHost } from './base-git-host';
+import BitbucketHost from './providers/bitbucket';
+import GiteaHost from './providers/gitea';
+import GitHubHost from './providers/github';
+import GitLabHost from './providers/gitlab';
+import type { GitHostConnection, GitHostId } from './types';
+
+export { BitbucketHost, GiteaHost, GitHubHost, GitLabHost };
+
+const GIT_HOSTS: Record<GitHostId, new (connection: GitHostConnection) => BaseGitHost> = {
+  github: GitHubHost,
+  gitlab: GitLabHost,
+  bitbucket: BitbucketHost,
+  gitea: GiteaHost,
+};
+
+export const GIT_HOST_IDS = Object.keys(GIT_HOSTS) as GitHostId[];
+
+export function isGitHostId(id: unknown): id is GitHostId {
+  return typeof id === 'string' && id in GIT_HOSTS;
+}
+
+/**
+ * The `owner/name` of a repository from its web or clone address
+ */
+export function getRepoFullName(url: string) {
+  return new URL(url).pathname.replace(/^\/+/, '').replace(/(\.git)?\/*$/, '');
+}
+
+export function createGitHost(id: GitHostId, connection: GitHostConnection = { token: '' }) {
+  return new GIT_HOSTS[id](connection);
+}
@@ -0,0 +1,67 @@
+export type GitHostId = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+export interface GitHostConnection {
+  token: string;
+
+  // the API of self-hosted instances, the public service when empty
+  baseUrl?: string;
+
+  // needed where the token alone does not identify the account, as with Bitbucket app passwords
+  username?: string;
+}
+
+export interface GitHostUser {
+  username: string;
+  name?: string;
+  avatarUrl?: string;
+}
+
+export interface GitHostRepo {
+  // `owner/name`, with subgroups on GitLab
+  fullName: string;
+  name: string;
+  description?: string;
+  private: boolean;
+  webUrl: string;
+  cloneUrl: string;
+  defaultBranch: string;
+  updatedAt?: string;
+}
+
+export interface CreateRepoOptions {
+  name: string;
+  private: boolean;
+  description?: string;
+}
+
+export interface CreatePullRequestOptions {
+  title: string;
+  body: string;
+
+  // the branch with the changes
+  head: string;
+
+  // the branch the changes are proposed for
+  base: string;
+}
+
+/**
+ * A pull request, called a merge request on GitLab
+ */
+export interface GitHostPullRequest {
+  number: number;
+  url: string;
+  head: string;
+  base: string;
+}
+
+export interface GitHostFile {
+  path: string;
+  size?: number;
+}
+
+export interface TemplateFile {
+  name: string;
+  path: string;
+  content: string;
+}
@@ -1,8 +1,9 @@
 import type { LanguageModelV1 } from 'ai';
-import type { ProviderInfo, ProviderConfig, ModelInfo } from './types';
+import type { ProviderInfo, ProviderConfig, ModelInfo, ModelCapabilities } from './types';
 import type { IProviderSetting } from '~/types/model';
 import { createOpenAI } from '@ai-sdk/openai';
 import { LLMManager } from './manager';
+import { resolveModelCapabilities } from './capabilities';
 
 export abstract class BaseProvider implements ProviderInfo {
   abstract name: string;
@@ -17,6 +18,17 @@ export abstract class BaseProvider implements ProviderInfo {
   labelForGetApiKey?: string;
   icon?: string;
 
+  // shared by all models of the provider, what is known about a model itself takes precedence
+  defaultCapabilities: Partial<ModelCapabilities> = {};
+
+  getModelCapabilities(model: ModelInfo): ModelCapabilities {
+    return resolveModelCapabilities(model, this.defaultCapabilities);
+  }
+
+  withCapabilities(models: ModelInfo[]): ModelInfo[] {
+    return models.map((model) => ({ ...model, capabilities: this.getModelCapabilities(model) }));
+  }
+
   getProviderBaseUrlAndKey(options: {
     apiKeys?: Record<string, string>;
     providerSettings?: IProviderSetting;
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MAX_OUTPUT_TOKENS, resolveModelCapabilities } from './capabilities';
+
+describe('resolveModelCapabilities', () => {
+  it('should fall back to the defaults for unknown models and leave their tool support unknown', () => {
+    expect(resolveModelCapabilities({ name: 'my-finetune' })).toEqual({
+      vision: false,
+      reasoning: false,
+      maxOutputTokens: DEFAULT_MAX_OUTPUT_TOKENS,
+    });
+  });
+
+  it('should let the model override its family and the family override the provider', () => {
+    expect(resolveModelCapabilities({ name: 'claude-3-7-sonnet-20250219' }, { reasoning: false })).toMatchObject({
+      vision: true,
+      reasoning: true,
+    });
+    expect(
+      resolveModelCapabilities(
+        { name: 'openai/gpt-4o', capabilities: { vision: false, maxOutputTokens: undefined } },
+        { tools: false },
+      ),
+    ).toMatchObject({ vision: false, tools: true, maxOutputTokens: 16384 });
+  });
+
+  it('should price models at their family list price unless the provider or the model declares a price', () => {
+    expect(resolveModelCapabilities({ name: 'claude-3-5-haiku-latest' }).pricing).toEqual({ input: 0.8, output: 4 });
+    expect(resolveModelCapabilities({ name: 'deepseek-chat' }, { pricing: { input: 0, output: 0 } }).pricing).toEqual({
+      input: 0,
+      output: 0,
+    });
+    expect(
+      resolveModelCapabilities({ name: 'openai/gpt-4o', capabilities: { pricing: { input: 5, output: 15 } } }).pricing,
+    ).toEqual({ input: 5, output: 15 });
+  });
+});
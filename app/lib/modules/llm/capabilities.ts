@@ -0,0 +1,86 @@
+import type { ModelCapabilities, ModelInfo, ModelPricing } from './types';
+
+export const DEFAULT_MAX_OUTPUT_TOKENS = 8000;
+
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  vision: false,
+  reasoning: false,
+  maxOutputTokens: DEFAULT_MAX_OUTPUT_TOKENS,
+};
+
+/*
+ * Model families whose capabilities are the same whichever provider serves them, matched against the
+ * model name in order so the more specific patterns come first.
+ */
+const MODEL_FAMILY_CAPABILITIES: [RegExp, Partial<ModelCapabilities>][] = [
+  [
+    /claude-3-7|claude-(sonnet|opus)-4|claude-4/i,
+    { vision: true, tools: true, reasoning: true, contextWindow: 200_000 },
+  ],
+  [/claude-3/i, { vision: true, tools: true, contextWindow: 200_000 }],
+  [/gpt-4\.1/i, { vision: true, tools: true, maxOutputTokens: 16384, contextWindow: 1_047_576 }],
+  [/gpt-4o|gpt-4-turbo/i, { vision: true, tools: true, maxOutputTokens: 16384, contextWindow: 128_000 }],
+  [/gpt-4|gpt-3\.5/i, { tools: true }],
+  [/(^|\/)o[134](-|$)/i, { tools: true, reasoning: true, contextWindow: 200_000 }],
+  [/gemini-2\.5|thinking/i, { vision: true, tools: true, reasoning: true, contextWindow: 1_048_576 }],
+  [/gemini-(1\.5|2\.0)/i, { vision: true, tools: true, contextWindow: 1_048_576 }],
+  [/gemini/i, { vision: true, tools: true }],
+  [/deepseek-r1|deepseek-reasoner|qwq/i, { reasoning: true }],
+  [/llava|vision|pixtral|mllama|-vl\b/i, { vision: true }],
+  [/mistral-large|mistral-small|codestral|command-r|llama-3\.[1-3]|qwen-?2\.5|deepseek-chat|grok/i, { tools: true }],
+];
+
+// list prices of the first-party APIs in USD per million tokens, providers that serve a model at another price declare it
+const MODEL_FAMILY_PRICING: [RegExp, ModelPricing][] = [
+  [/claude-(opus-4|4-opus|3-opus)/i, { input: 15, output: 75 }],
+  [/claude-(sonnet-4|4-sonnet|3[-.]7-sonnet|3[-.]5-sonnet|3-sonnet)/i, { input: 3, output: 15 }],
+  [/claude-3[-.]5-haiku/i, { input: 0.8, output: 4 }],
+  [/claude-3-haiku/i, { input: 0.25, output: 1.25 }],
+  [/gpt-4o-mini/i, { input: 0.15, output: 0.6 }],
+  [/gpt-4o/i, { input: 2.5, output: 10 }],
+  [/gpt-4\.1-nano/i, { input: 0.1, output: 0.4 }],
+  [/gpt-4\.1-mini/i, { input: 0.4, output: 1.6 }],
+  [/gpt-4\.1/i, { input: 2, output: 8 }],
+  [/gpt-4-turbo/i, { input: 10, output: 30 }],
+  [/gpt-3\.5-turbo/i, { input: 0.5, output: 1.5 }],
+  [/(^|\/)o[134]-mini/i, { input: 1.1, output: 4.4 }],
+  [/(^|\/)o1(-|$)/i, { input: 15, output: 60 }],
+  [/(^|\/)o3(-|$)/i, { input: 2, output: 8 }],
+  [/gemini-2\.5-pro/i, { input: 1.25, output: 10 }],
+  [/gemini-2\.5-flash/i, { input: 0.3, output: 2.5 }],
+  [/gemini-2\.0-flash/i, { input: 0.1, output: 0.4 }],
+  [/gemini-1\.5-pro/i, { input: 1.25, output: 5 }],
+  [/gemini-1\.5-flash/i, { input: 0.075, output: 0.3 }],
+  [/deepseek-chat/i, { input: 0.27, output: 1.1 }],
+  [/deepseek-reasoner/i, { input: 0.55, output: 2.19 }],
+];
+
+export function inferModelPricing(modelName: string): ModelPricing | undefined {
+  return MODEL_FAMILY_PRICING.find(([pattern]) => pattern.test(modelName))?.[1];
+}
+
+export function inferModelCapabilities(modelName: string): Partial<ModelCapabilities> {
+  return MODEL_FAMILY_CAPABILITIES.find(([pattern]) => pattern.test(modelName))?.[1] ?? {};
+}
+
+/**
+ * Completes the capabilities of a model: what the model itself declares wins over what is known about its
+ * family, which wins over the defaults of its provider. Only the list price of the family is weaker than the
+ * provider, so local providers can declare their models free.
+ */
+export function resolveModelCapabilities(
+  model: Pick<ModelInfo, 'name'> & Partial<ModelInfo>,
+  providerDefaults: Partial<ModelCapabilities> = {},
+): ModelCapabilities {
+  const pricing = inferModelPricing(model.name);
+
+  return {
+    ...DEFAULT_MODEL_CAPABILITIES,
+    ...(pricing && { pricing }),
+    ...providerDefaults,
+    ...inferModelCapabilities(model.name),
+
+    // dynamic models leave out what their provider's API does not report
+    ...Object.fromEntries(Object.entries(model.capabilities ?? {}).filter(([, value]) => value !== undefined)),
+  };
+}
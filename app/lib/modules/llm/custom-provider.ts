@@ -0,0 +1,117 @@
+import type { LanguageModelV1 } from 'ai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import { BaseProvider } from './base-provider';
+import type { ModelInfo } from './types';
+import type { CustomProviderConfig, IProviderSetting } from '~/types/model';
+
+const DEFAULT_MAX_TOKEN_ALLOWED = 8000;
+
+export function isValidCustomProviderConfig(config: unknown): config is CustomProviderConfig {
+  const { name, api, baseUrl, models } = (config ?? {}) as Partial<CustomProviderConfig>;
+
+  return (
+    typeof name === 'string' &&
+    name.trim().length > 0 &&
+    (api === 'openai' || api === 'anthropic') &&
+    typeof baseUrl === 'string' &&
+    /^https?:\/\//.test(baseUrl) &&
+    Array.isArray(models)
+  );
+}
+
+/**
+ * An OpenAI or Anthropic compatible endpoint defined in the settings. The definition comes with every request,
+ * the API key is looked up by the name of the provider like for the other providers.
+ */
+export class CustomProvider extends BaseProvider {
+  name: string;
+  staticModels: ModelInfo[];
+  config: { baseUrl: string };
+
+  constructor(readonly definition: CustomProviderConfig) {
+    super();
+    this.name = definition.name;
+    this.config = { baseUrl: definition.baseUrl };
+    this.staticModels = definition.models.map((model) => ({
+      name: model.name,
+      label: model.label || model.name,
+      provider: definition.name,
+      maxTokenAllowed: model.maxTokenAllowed || DEFAULT_MAX_TOKEN_ALLOWED,
+    }));
+  }
+
+  async getDynamicModels(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv: Record<string, string> = {},
+  ): Promise<ModelInfo[]> {
+    // a model list in the definition wins over asking the endpoint
+    if (this.staticModels.length > 0) {
+      return [];
+    }
+
+    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey({
+      apiKeys,
+      providerSettings: settings,
+      serverEnv,
+      defaultBaseUrlKey: '',
+      defaultApiTokenKey: '',
+    });
+
+    const authHeaders: Record<string, string> =
+      this.definition.api === 'anthropic'
+        ? { 'x-api-key': apiKey ?? '', 'anthropic-version': '2023-06-01' }
+        : { Authorization: `Bearer ${apiKey ?? ''}` };
+
+    const response = await fetch(`${baseUrl}/models`, {
+      headers: { ...authHeaders, ...this.definition.headers },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Listing the models of ${this.name} failed with status ${response.status}`);
+    }
+
+    const res = (await response.json()) as { data?: { id: string; display_name?: string }[] };
+
+    return (res.data ?? []).map((model) => ({
+      name: model.id,
+      label: model.display_name || model.id,
+      provider: this.name,
+      maxTokenAllowed: DEFAULT_MAX_TOKEN_ALLOWED,
+    }));
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const { model, serverEnv, apiKeys, providerSettings } = options;
+
+    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey({
+      apiKeys,
+      providerSettings: providerSettings?.[this.name],
+      serverEnv: serverEnv as any,
+      defaultBaseUrlKey: '',
+      defaultApiTokenKey: '',
+    });
+
+    if (!baseUrl) {
+      throw new Error(`Missing base URL for ${this.name} provider`);
+    }
+
+    // an empty key keeps the SDK from sending the server's own OpenAI or Anthropic key to the endpoint
+    const settings = { baseURL: baseUrl, apiKey: apiKey ?? '', headers: this.definition.headers };
+
+    if (this.definition.api === 'anthropic') {
+      return createAnthropic(settings)(model);
+    }
+
+    return createOpenAI({ ...settings, compatibility: 'compatible' })(model);
+  }
+}
+
+// the custom providers of one request by their name
+export type CustomProviders = Map<string, CustomProvider>;
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { CustomProviderConfig } from '~/types/model';
+import { LLMManager } from './manager';
+
+const config: CustomProviderConfig = {
+  name: 'My Gateway',
+  api: 'openai',
+  baseUrl: 'https://gateway.example.com/v1',
+  models: [{ name: 'gateway-large' }],
+};
+
+describe('LLMManager', () => {
+  it('should resolve custom providers for one request without sharing them', async () => {
+    const manager = LLMManager.getInstance();
+    const customProviders = manager.createCustomProviders([
+      config,
+      { ...config, name: 'OpenAI' },
+      { ...config, name: 'Broken', baseUrl: 'gateway' },
+    ]);
+
+    expect([...customProviders.keys()]).toEqual(['My Gateway']);
+    expect(manager.getProvider('My Gateway', customProviders)?.name).toBe('My Gateway');
+    expect(manager.getProvider('My Gateway')).toBeUndefined();
+
+    const provider = customProviders.get('My Gateway')!;
+
+    expect(manager.getStaticModelListFromProvider(provider, customProviders).map((model) => model.name)).toEqual([
+      'gateway-large',
+    ]);
+    expect(() => manager.getStaticModelListFromProvider(provider)).toThrow('Provider My Gateway not found');
+
+    const modelList = await manager.updateModelList({
+      providerSettings: { 'My Gateway': { enabled: true } },
+      customProviders,
+    });
+
+    expect(modelList.filter((model) => model.provider === 'My Gateway').map((model) => model.name)).toEqual([
+      'gateway-large',
+    ]);
+    expect(manager.getModelList().some((model) => model.provider === 'My Gateway')).toBe(false);
+  });
+});
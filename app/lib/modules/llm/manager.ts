@@ -1,5 +1,6 @@
-import type { IProviderSetting } from '~/types/model';
+import type { CustomProviderConfig, IProviderSetting } from '~/types/model';
 import { BaseProvider } from './base-provider';
+import { CustomProvider, isValidCustomProviderConfig, type CustomProviders } from './custom-provider';
 import type { ModelInfo, ProviderInfo } from './types';
 import * as providers from './registry';
 import { createScopedLogger } from '~/utils/logger';
@@ -59,11 +60,35 @@ export class LLMManager {
 
     logger.info('Registering Provider: ', provider.name);
     this._providers.set(provider.name, provider);
-    this._modelList = [...this._modelList, ...provider.staticModels];
+    this._modelList = [...this._modelList, ...provider.withCapabilities(provider.staticModels)];
   }
 
-  getProvider(name: string): BaseProvider | undefined {
-    return this._providers.get(name);
+  /*
+   * custom providers come with every request, they are resolved for that request only and never added to the
+   * providers shared by all users. A custom provider can't replace a built-in one.
+   */
+  createCustomProviders(configs: CustomProviderConfig[]): CustomProviders {
+    const customProviders: CustomProviders = new Map();
+
+    for (const config of configs) {
+      if (!isValidCustomProviderConfig(config)) {
+        logger.warn('Invalid custom provider definition. Skipping.');
+        continue;
+      }
+
+      if (this._providers.has(config.name)) {
+        logger.warn(`Custom provider ${config.name} would replace a built-in provider. Skipping.`);
+        continue;
+      }
+
+      customProviders.set(config.name, new CustomProvider(config));
+    }
+
+    return customProviders;
+  }
+
+  getProvider(name: string, customProviders?: CustomProviders): BaseProvider | undefined {
+    return this._providers.get(name) ?? customProviders?.get(name);
   }
 
   getAllProviders(): BaseProvider[] {
@@ -78,18 +103,20 @@ export class LLMManager {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
     serverEnv?: Record<string, string>;
+    customProviders?: CustomProviders;
   }): Promise<ModelInfo[]> {
-    const { apiKeys, providerSettings, serverEnv } = options;
+    const { apiKeys, providerSettings, serverEnv, customProviders } = options;
+    const allProviders = [...this._providers.values(), ...(customProviders?.values() ?? [])];
 
-    let enabledProviders = Array.from(this._providers.values()).map((p) => p.name);
+    let enabledProviders = allProviders.map((p) => p.name);
 
     if (providerSettings && Object.keys(providerSettings).length > 0) {
-      enabledProviders = enabledProviders.filter((p) => providerSettings[p].enabled);
+      enabledProviders = enabledProviders.filter((p) => providerSettings[p]?.enabled);
     }
 
     // Get dynamic models from all providers that support them
     const dynamicModels = await Promise.all(
-      Array.from(this._providers.values())
+      allProviders
         .filter((provider) => enabledProviders.includes(provider.name))
         .filter(
           (provider): provider is BaseProvider & Required<Pick<ProviderInfo, 'getDynamicModels'>> =>
@@ -106,6 +133,7 @@ export class LLMManager {
             .getDynamicModels(apiKeys, providerSettings?.[provider.name], serverEnv)
             .then((models) => {
               logger.info(`Caching ${models.length} dynamic models for ${provider.name}`);
+              models = provider.withCapabilities(models);
               provider.storeDynamicModels(options, models);
 
               return models;
@@ -118,7 +146,9 @@ export class LLMManager {
           return dynamicModels;
         }),
     );
-    const staticModels = Array.from(this._providers.values()).flatMap((p) => p.staticModels || []);
+    const staticModels = allProviders
+      .filter((p) => !(p instanceof CustomProvider) || enabledProviders.includes(p.name))
+      .flatMap((p) => p.withCapabilities(p.staticModels || []));
     const dynamicModelsFlat = dynamicModels.flat();
     const dynamicModelKeys = dynamicModelsFlat.map((d) => `${d.name}-${d.provider}`);
     const filteredStaticModesl = staticModels.filter((m) => !dynamicModelKeys.includes(`${m.name}-${m.provider}`));
@@ -126,12 +156,12 @@ export class LLMManager {
     // Combine static and dynamic models
     const modelList = [...dynamicModelsFlat, ...filteredStaticModesl];
     modelList.sort((a, b) => a.name.localeCompare(b.name));
-    this._modelList = modelList;
+    this._modelList = modelList.filter((model) => this._providers.has(model.provider));
 
     return modelList;
   }
   getStaticModelList() {
-    return [...this._providers.values()].flatMap((p) => p.staticModels || []);
+    return [...this._providers.values()].flatMap((p) => p.withCapabilities(p.staticModels || []));
   }
   async getModelListFromProvider(
     providerArg: BaseProvider,
@@ -139,15 +169,16 @@ export class LLMManager {
       apiKeys?: Record<string, string>;
       providerSettings?: Record<string, IProviderSetting>;
       serverEnv?: Record<string, string>;
+      customProviders?: CustomProviders;
     },
   ): Promise<ModelInfo[]> {
-    const provider = this._providers.get(providerArg.name);
+    const provider = this.getProvider(providerArg.name, options.customProviders);
 
     if (!provider) {
       throw new Error(`Provider ${providerArg.name} not found`);
     }
 
-    const staticModels = provider.staticModels || [];
+    const staticModels = provider.withCapabilities(provider.staticModels || []);
 
     if (!provider.getDynamicModels) {
       return staticModels;
@@ -172,6 +203,7 @@ export class LLMManager {
       .getDynamicModels?.(apiKeys, providerSettings?.[provider.name], serverEnv)
       .then((models) => {
         logger.info(`Got ${models.length} dynamic models for ${provider.name}`);
+        models = provider.withCapabilities(models);
         provider.storeDynamicModels(options, models);
 
         return models;
@@ -187,14 +219,14 @@ export class LLMManager {
 
     return modelList;
   }
-  getStaticModelListFromProvider(providerArg: BaseProvider) {
-    const provider = this._providers.get(providerArg.name);
+  getStaticModelListFromProvider(providerArg: BaseProvider, customProviders?: CustomProviders) {
+    const provider = this.getProvider(providerArg.name, customProviders);
 
     if (!provider) {
       throw new Error(`Provider ${providerArg.name} not found`);
     }
 
-    return [...(provider.staticModels || [])];
+    return provider.withCapabilities(provider.staticModels || []);
   }
 
   getDefaultProvider(): BaseProvider {
@@ -12,12 +12,17 @@ export default class AnthropicProvider extends BaseProvider {
     apiTokenKey: 'ANTHROPIC_API_KEY',
   };
 
+  defaultCapabilities = { vision: true, tools: true };
+
   staticModels: ModelInfo[] = [
     {
       name: 'claude-3-7-sonnet-20250219',
       label: 'Claude 3.7 Sonnet',
       provider: 'Anthropic',
       maxTokenAllowed: 128000,
+
+      // needs the output-128k beta header sent by getModelInstance
+      capabilities: { maxOutputTokens: 128000 },
     },
     {
       name: 'claude-3-5-sonnet-latest',
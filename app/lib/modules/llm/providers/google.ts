@@ -12,6 +12,8 @@ export default class GoogleProvider extends BaseProvider {
     apiTokenKey: 'GOOGLE_GENERATIVE_AI_API_KEY',
   };
 
+  defaultCapabilities = { vision: true, tools: true };
+
   staticModels: ModelInfo[] = [
     { name: 'gemini-1.5-flash-latest', label: 'Gemini 1.5 Flash', provider: 'Google', maxTokenAllowed: 8192 },
     {
@@ -19,6 +21,7 @@ export default class GoogleProvider extends BaseProvider {
       label: 'Gemini 2.0 Flash-thinking-exp-01-21',
       provider: 'Google',
       maxTokenAllowed: 65536,
+      capabilities: { maxOutputTokens: 65536 },
     },
     { name: 'gemini-2.0-flash-exp', label: 'Gemini 2.0 Flash', provider: 'Google', maxTokenAllowed: 8192 },
     { name: 'gemini-1.5-flash-002', label: 'Gemini 1.5 Flash-002', provider: 'Google', maxTokenAllowed: 8192 },
@@ -60,6 +63,11 @@ export default class GoogleProvider extends BaseProvider {
       label: `${m.displayName} - context ${Math.floor((m.inputTokenLimit + m.outputTokenLimit) / 1000) + 'k'}`,
       provider: this.name,
       maxTokenAllowed: m.inputTokenLimit + m.outputTokenLimit || 8000,
+      capabilities: {
+        maxOutputTokens: m.outputTokenLimit,
+        reasoning: m.thinking,
+        contextWindow: m.inputTokenLimit + m.outputTokenLimit || undefined,
+      },
     }));
   }
 
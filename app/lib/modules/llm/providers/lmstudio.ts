@@ -16,6 +16,9 @@ export default class LMStudioProvider extends BaseProvider {
     baseUrl: 'http://localhost:1234/',
   };
 
+  // models run on the user's machine
+  defaultCapabilities = { pricing: { input: 0, output: 0 } };
+
   staticModels: ModelInfo[] = [];
 
   async getDynamicModels(
@@ -12,6 +12,8 @@ export default class MistralProvider extends BaseProvider {
     apiTokenKey: 'MISTRAL_API_KEY',
   };
 
+  defaultCapabilities = { tools: true };
+
   staticModels: ModelInfo[] = [
     { name: 'open-mistral-7b', label: 'Mistral 7B', provider: 'Mistral', maxTokenAllowed: 8000 },
     { name: 'open-mixtral-8x7b', label: 'Mistral 8x7B', provider: 'Mistral', maxTokenAllowed: 8000 },
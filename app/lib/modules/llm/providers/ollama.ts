@@ -37,6 +37,9 @@ export default class OllamaProvider extends BaseProvider {
     baseUrlKey: 'OLLAMA_API_BASE_URL',
   };
 
+  // models run on the user's machine
+  defaultCapabilities = { pricing: { input: 0, output: 0 } };
+
   staticModels: ModelInfo[] = [];
 
   private _convertEnvToRecord(env?: Env): Record<string, string> {
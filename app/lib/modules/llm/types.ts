@@ -1,11 +1,33 @@
 import type { LanguageModelV1 } from 'ai';
 import type { IProviderSetting } from '~/types/model';
 
+// prices in USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelCapabilities {
+  vision: boolean;
+
+  // unknown for many models, e.g. of OpenAI-compatible endpoints, which are still offered tools
+  tools?: boolean;
+  reasoning: boolean;
+  maxOutputTokens: number;
+
+  // tokens of prompt and response together, `maxTokenAllowed` of many static models is an output limit instead
+  contextWindow?: number;
+  pricing?: ModelPricing;
+}
+
 export interface ModelInfo {
   name: string;
   label: string;
   provider: string;
   maxTokenAllowed: number;
+
+  // what is known about the model, the provider completes it with `getModelCapabilities`
+  capabilities?: Partial<ModelCapabilities>;
 }
 
 export interface ProviderInfo {
@@ -0,0 +1,260 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { splitStatements } from '~/utils/sql';
+import {
+  getMigrationFiles,
+  MIGRATIONS_DIR,
+  MigrationError,
+  MigrationTracker,
+  type MigrationFile,
+  type SqlExecutor,
+} from './migrations';
+
+interface TrackingRow {
+  name: string;
+  checksum: string;
+  down_sql: string | null;
+  applied_at: string;
+}
+
+interface Snapshot {
+  tables: Set<string>;
+  rows: TrackingRow[];
+}
+
+const TRACKING_TABLE = 'supabase_migrations.bolt_migrations';
+
+/**
+ * A stand-in for a local Postgres database. It knows which tables exist and what the tracking table holds, runs
+ * scripts atomically and fails on statements it doesn't know like Postgres fails on syntax errors.
+ */
+class LocalPostgres {
+  tables = new Set<string>();
+  rows: TrackingRow[] = [];
+  scripts: string[] = [];
+  #clock = 0;
+
+  execute: SqlExecutor = async (script) => {
+    this.scripts.push(script);
+
+    const initial = this.#snapshot();
+    let transaction: Snapshot | undefined;
+    let result: unknown[] = [];
+
+    try {
+      for (const statement of splitStatements(script)) {
+        const text = statement.replace(/\s+/g, ' ').toLowerCase();
+
+        if (text === 'begin') {
+          transaction = this.#snapshot();
+        } else if (text === 'rollback' && transaction) {
+          this.#restore(transaction);
+          transaction = undefined;
+        } else if (text === 'commit') {
+          transaction = undefined;
+        } else {
+          result = this.#run(text, statement);
+        }
+      }
+    } catch (error) {
+      this.#restore(initial);
+      throw error;
+    }
+
+    return result;
+  };
+
+  #snapshot(): Snapshot {
+    return { tables: new Set(this.tables), rows: [...this.rows] };
+  }
+
+  #restore(snapshot: Snapshot) {
+    this.tables = new Set(snapshot.tables);
+    this.rows = [...snapshot.rows];
+  }
+
+  #run(text: string, statement: string): unknown[] {
+    let match: RegExpExecArray | null;
+
+    if (text.startsWith('create schema')) {
+      return [];
+    }
+
+    if ((match = /^create table (if not exists )?([\w.]+)/.exec(text))) {
+      if (this.tables.has(match[2]) && !match[1]) {
+        throw new Error(`relation "${match[2]}" already exists`);
+      }
+
+      this.tables.add(match[2]);
+
+      return [];
+    }
+
+    if ((match = /^drop table (if exists )?([\w.]+)/.exec(text))) {
+      if (!this.tables.delete(match[2]) && !match[1]) {
+        throw new Error(`table "${match[2]}" does not exist`);
+      }
+
+      return [];
+    }
+
+    if ((match = /^(?:alter table|insert into|select .* from|delete from) ([\w.]+)/.exec(text))) {
+      if (!this.tables.has(match[1])) {
+        throw new Error(`relation "${match[1]}" does not exist`);
+      }
+
+      if (match[1] !== TRACKING_TABLE) {
+        return [];
+      }
+
+      if (text.startsWith('insert')) {
+        const [name, checksum, downSql] = [...statement.matchAll(/'((?:[^']|'')*)'|\bnull\b/g)].map((value) =>
+          value[1] === undefined ? null : value[1].replace(/''/g, "'"),
+        );
+
+        this.rows.push({
+          name: name!,
+          checksum: checksum!,
+          down_sql: downSql,
+          applied_at: new Date(Date.UTC(2026, 0, 1, 0, 0, ++this.#clock)).toISOString(),
+        });
+      } else if (text.startsWith('delete')) {
+        const name = /name = '((?:[^']|'')*)'/.exec(statement)![1].replace(/''/g, "'");
+        this.rows = this.rows.filter((row) => row.name !== name);
+      }
+
+      return this.rows.map((row) => ({ ...row }));
+    }
+
+    throw new Error(`syntax error at or near "${statement.split(/\s/)[0]}"`);
+  }
+}
+
+const migration = (name: string, content: string): MigrationFile => ({
+  name,
+  path: `${MIGRATIONS_DIR}/${name}.sql`,
+  content,
+});
+
+const createPosts = migration('create_posts', 'create table if not exists posts (id uuid primary key);');
+const createUsers = migration(
+  '20240101000000_create_users',
+  `-- users of the app
+create table users (id uuid primary key);
+alter table users enable row level security;`,
+);
+
+let db: LocalPostgres;
+let tracker: MigrationTracker;
+
+beforeEach(() => {
+  db = new LocalPostgres();
+  tracker = new MigrationTracker(db.execute);
+});
+
+describe('getMigrationFiles', () => {
+  it('keeps the SQL files of the migrations folder, versioned ones first', () => {
+    const files = getMigrationFiles({
+      [createPosts.path]: createPosts.content,
+      [`${MIGRATIONS_DIR}/20240201000000_add_bio.sql`]: '',
+      [createUsers.path]: createUsers.content,
+      [`${MIGRATIONS_DIR}/README.md`]: '',
+      [`${MIGRATIONS_DIR}/old/drop_all.sql`]: '',
+    });
+
+    expect(files.map((file) => file.name)).toEqual([
+      '20240101000000_create_users',
+      '20240201000000_add_bio',
+      'create_posts',
+    ]);
+  });
+});
+
+describe('MigrationTracker', () => {
+  it('applies pending migrations in order and records them', async () => {
+    expect((await tracker.getStatus([createPosts, createUsers])).map(({ name, state }) => [name, state])).toEqual([
+      ['20240101000000_create_users', 'pending'],
+      ['create_posts', 'pending'],
+    ]);
+
+    const applied = await tracker.applyPending([createPosts, createUsers]);
+
+    expect(applied.map((item) => item.name)).toEqual(['20240101000000_create_users', 'create_posts']);
+    expect(db.tables).toEqual(new Set([TRACKING_TABLE, 'users', 'posts']));
+    expect(applied[0].downSql).toBe('drop table if exists users;');
+    expect((await tracker.getStatus([createPosts, createUsers])).map((item) => item.state)).toEqual([
+      'applied',
+      'applied',
+    ]);
+    expect(db.scripts.filter((script) => script.startsWith('create schema'))).toHaveLength(1);
+  });
+
+  it('applies the pending migrations up to a given one', async () => {
+    const createComments = migration('create_comments', 'create table comments (id uuid primary key);');
+
+    const applied = await tracker.applyPending([createUsers, createPosts, createComments], createPosts.name);
+
+    expect(applied.map((item) => item.name)).toEqual([createUsers.name, createPosts.name]);
+    expect(db.tables.has('comments')).toBe(false);
+    await expect(tracker.applyPending([createUsers, createPosts], createPosts.name)).rejects.toThrow(
+      'create_posts is not a pending migration',
+    );
+  });
+
+  it('dry runs migrations without changing the database', async () => {
+    await tracker.dryRun(createUsers.name, createUsers.content);
+
+    expect(db.tables.has('users')).toBe(false);
+    await expect(tracker.dryRun('broken', 'create table a (id int); creat table b (id int);')).rejects.toThrow(
+      'Dry run of broken failed: syntax error at or near "creat"',
+    );
+  });
+
+  it('applies nothing of a migration that fails its dry run', async () => {
+    const broken = migration('broken', 'create table comments (id int);\nalter table missing add column x int;');
+
+    const error = await tracker.apply(broken).catch((error) => error);
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.message).toBe('Dry run of broken failed: relation "missing" does not exist');
+    expect(db.tables.has('comments')).toBe(false);
+    expect(await tracker.listApplied()).toEqual([]);
+    expect(db.scripts.some((script) => script.endsWith('commit;'))).toBe(false);
+  });
+
+  it('reports migrations changed or removed since they were applied', async () => {
+    await tracker.applyPending([createUsers, createPosts]);
+
+    const status = await tracker.getStatus([{ ...createUsers, content: `${createUsers.content}\n-- changed` }]);
+
+    expect(status.map(({ name, state }) => [name, state])).toEqual([
+      ['20240101000000_create_users', 'modified'],
+      ['create_posts', 'missing'],
+    ]);
+  });
+
+  it('rolls back the latest migration with its down migration', async () => {
+    await tracker.applyPending([createUsers, createPosts]);
+
+    await expect(tracker.rollback(createUsers.name)).rejects.toThrow(
+      'Only the latest migration, create_posts, can be rolled back',
+    );
+
+    await tracker.rollback(createPosts.name);
+    await tracker.rollback(createUsers.name);
+
+    expect(db.tables).toEqual(new Set([TRACKING_TABLE]));
+    expect((await tracker.getStatus([createUsers, createPosts])).map((item) => item.state)).toEqual([
+      'pending',
+      'pending',
+    ]);
+  });
+
+  it('keeps migrations without a down migration applied', async () => {
+    const rename = migration('widen_users', 'alter table users alter column id type text;');
+
+    await tracker.applyPending([createUsers, rename]);
+
+    await expect(tracker.rollback(rename.name)).rejects.toThrow('widen_users has no down migration');
+    expect((await tracker.listApplied()).map((item) => item.name)).toEqual([createUsers.name, rename.name]);
+  });
+});
@@ -0,0 +1,285 @@
+import { WORK_DIR } from '~/utils/constants';
+import { generateDownMigration, quoteLiteral, wrapInTransaction } from '~/utils/sql';
+
+export const MIGRATIONS_DIR = `${WORK_DIR}/supabase/migrations`;
+
+// kept next to the tables of the Supabase CLI, which doesn't touch other tables of its schema
+const TRACKING_TABLE = 'supabase_migrations.bolt_migrations';
+
+const CREATE_TRACKING_TABLE = `create schema if not exists supabase_migrations;
+create table if not exists ${TRACKING_TABLE} (
+  name text primary key,
+  checksum text not null,
+  down_sql text,
+  applied_at timestamptz not null default now()
+);`;
+
+/**
+ * Runs a script on a database and resolves with the rows of its last statement
+ */
+export type SqlExecutor = (query: string) => Promise<unknown[]>;
+
+export interface MigrationFile {
+  // the file name without `.sql`
+  name: string;
+  path: string;
+  content: string;
+}
+
+export interface AppliedMigration {
+  name: string;
+  checksum: string;
+
+  // `undefined` when the migration can't be undone
+  downSql?: string;
+  appliedAt: string;
+}
+
+/**
+ * `modified` migrations changed since they were applied, `missing` ones were applied without a file in the project.
+ */
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+  name: string;
+  state: MigrationState;
+  file?: MigrationFile;
+  applied?: AppliedMigration;
+}
+
+interface TrackingRow {
+  name: string;
+  checksum: string;
+  down_sql: string | null;
+  applied_at: string;
+}
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    readonly migration: string,
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export function getMigrationName(path: string) {
+  return (path.split('/').pop() ?? path).replace(/\.sql$/i, '');
+}
+
+// the timestamp or number the Supabase CLI puts in front of migration names
+function getVersion(name: string) {
+  return /^(\d+)_/.exec(name)?.[1];
+}
+
+/**
+ * Order migrations by the version in front of their names. Migrations without one come after, in the order they
+ * were written.
+ */
+export function sortMigrations(files: MigrationFile[]) {
+  const versioned = files.filter((file) => getVersion(file.name) !== undefined);
+  const unversioned = files.filter((file) => getVersion(file.name) === undefined);
+
+  versioned.sort(
+    (a, b) =>
+      getVersion(a.name)!.localeCompare(getVersion(b.name)!, undefined, { numeric: true }) ||
+      a.name.localeCompare(b.name),
+  );
+
+  return [...versioned, ...unversioned];
+}
+
+/**
+ * The migrations among project files keyed by path, in the order they run
+ */
+export function getMigrationFiles(files: Record<string, string>) {
+  return sortMigrations(
+    Object.entries(files)
+      .filter(
+        ([path]) =>
+          path.startsWith(`${MIGRATIONS_DIR}/`) && /^[^/]+\.sql$/i.test(path.slice(MIGRATIONS_DIR.length + 1)),
+      )
+      .map(([path, content]) => ({ name: getMigrationName(path), path, content })),
+  );
+}
+
+export async function getChecksum(sql: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(sql.trim()));
+
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Records the migrations applied to a database in a table of the database itself, so every project keeps its own
+ * history. Migrations run in a transaction that first runs and rolls back as a dry run, down migrations are
+ * generated and stored when they are applied.
+ */
+export class MigrationTracker {
+  #ready?: Promise<unknown>;
+
+  constructor(readonly execute: SqlExecutor) {}
+
+  async listApplied(): Promise<AppliedMigration[]> {
+    await this.#ensureTrackingTable();
+
+    const rows = (await this.execute(
+      `select name, checksum, down_sql, applied_at from ${TRACKING_TABLE} order by applied_at, name;`,
+    )) as TrackingRow[];
+
+    return rows.map((row) => ({
+      name: row.name,
+      checksum: row.checksum,
+      downSql: row.down_sql ?? undefined,
+      appliedAt: row.applied_at,
+    }));
+  }
+
+  /**
+   * Applied migrations in the order they ran, followed by the pending ones in the order they will run
+   */
+  async getStatus(files: MigrationFile[]): Promise<MigrationStatus[]> {
+    const applied = await this.listApplied();
+    const filesByName = new Map(files.map((file) => [file.name, file]));
+    const appliedNames = new Set(applied.map((migration) => migration.name));
+
+    const history = await Promise.all(
+      applied.map(async (migration): Promise<MigrationStatus> => {
+        const file = filesByName.get(migration.name);
+
+        if (!file) {
+          return { name: migration.name, state: 'missing', applied: migration };
+        }
+
+        const state = (await getChecksum(file.content)) === migration.checksum ? 'applied' : 'modified';
+
+        return { name: migration.name, state, file, applied: migration };
+      }),
+    );
+
+    const pending = sortMigrations(files.filter((file) => !appliedNames.has(file.name))).map(
+      (file): MigrationStatus => ({ name: file.name, state: 'pending', file }),
+    );
+
+    return [...history, ...pending];
+  }
+
+  /**
+   * Run the SQL of a migration and roll it back, failing like applying it would
+   */
+  async dryRun(name: string, sql: string) {
+    try {
+      await this.execute(wrapInTransaction(sql, 'rollback'));
+    } catch (error) {
+      throw new MigrationError(`Dry run of ${name} failed: ${getMessage(error)}`, name);
+    }
+  }
+
+  async apply(file: MigrationFile): Promise<AppliedMigration> {
+    const applied = await this.listApplied();
+
+    if (applied.some((migration) => migration.name === file.name)) {
+      throw new MigrationError(`${file.name} is already applied`, file.name);
+    }
+
+    await this.dryRun(file.name, file.content);
+
+    const checksum = await getChecksum(file.content);
+    const downSql = generateDownMigration(file.content);
+    const record = `insert into ${TRACKING_TABLE} (name, checksum, down_sql) values (${quoteLiteral(file.name)}, ${quoteLiteral(checksum)}, ${quoteLiteral(downSql)})`;
+
+    await this.#run(file.name, `${file.content}\n;\n${record}`);
+
+    return (await this.listApplied()).find((migration) => migration.name === file.name)!;
+  }
+
+  /**
+   * Apply the pending migrations in order, stopping at the first one that fails
+   * @param until The last migration to apply, the ones after it stay pending
+   */
+  async applyPending(files: MigrationFile[], until?: string) {
+    const pending = (await this.getStatus(files)).filter((migration) => migration.state === 'pending');
+    const applied: AppliedMigration[] = [];
+
+    if (until !== undefined && !pending.some((migration) => migration.name === until)) {
+      throw new MigrationError(`${until} is not a pending migration`, until);
+    }
+
+    for (const migration of pending) {
+      applied.push(await this.apply(migration.file!));
+
+      if (migration.name === until) {
+        break;
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Undo the latest applied migration with its down migration. Earlier ones can't be undone out of order.
+   */
+  async rollback(name: string) {
+    const latest = (await this.listApplied()).at(-1);
+
+    if (latest?.name !== name) {
+      throw new MigrationError(
+        latest ? `Only the latest migration, ${latest.name}, can be rolled back` : `${name} is not applied`,
+        name,
+      );
+    }
+
+    if (latest.downSql === undefined) {
+      throw new MigrationError(`${name} has no down migration`, name);
+    }
+
+    await this.dryRun(name, latest.downSql);
+    await this.#run(name, `${latest.downSql}\n;\ndelete from ${TRACKING_TABLE} where name = ${quoteLiteral(name)}`);
+  }
+
+  async #run(name: string, sql: string) {
+    try {
+      await this.execute(wrapInTransaction(sql));
+    } catch (error) {
+      throw new MigrationError(`${name} failed: ${getMessage(error)}`, name);
+    }
+  }
+
+  #ensureTrackingTable() {
+    this.#ready ??= this.execute(CREATE_TRACKING_TABLE).catch((error) => {
+      this.#ready = undefined;
+      throw error;
+    });
+
+    return this.#ready;
+  }
+}
+
+function getMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Run scripts on a Supabase project through the query endpoint of the management API
+ */
+export function createSupabaseExecutor(token: string, projectId: string): SqlExecutor {
+  return async (query) => {
+    const response = await fetch('/api/supabase/query', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ projectId, query }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: { message?: string } };
+      throw new Error(data.error?.message || response.statusText);
+    }
+
+    const result = await response.json();
+
+    return Array.isArray(result) ? result : [];
+  };
+}
@@ -0,0 +1,56 @@
+import type { Message } from 'ai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RemoteChatStorage } from './chatStorage';
+
+const message = (content: string): Message => ({ id: 'a1', role: 'assistant', content });
+
+let requests: { operation: string; args: unknown[] }[];
+
+beforeEach(() => {
+  requests = [];
+  vi.useFakeTimers();
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const request = JSON.parse(init.body as string);
+      requests.push(request);
+
+      return new Response(JSON.stringify({ result: request.operation === 'getAll' ? [] : null }));
+    }),
+  );
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('RemoteChatStorage', () => {
+  it('sends the latest messages of a chat once per interval', async () => {
+    const storage = new RemoteChatStorage('/api/chat-storage', 1000);
+
+    await storage.setMessages('1', [message('H')]);
+
+    const writes = ['He', 'Hel', 'Hello'].map((content) => storage.setMessages('1', [message(content)]));
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(requests).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await Promise.all(writes);
+
+    expect(requests.map(({ args }) => (args[1] as Message[])[0].content)).toEqual(['H', 'Hello']);
+  });
+
+  it('writes the waiting messages before any other operation', async () => {
+    const storage = new RemoteChatStorage('/api/chat-storage', 1000);
+
+    await storage.setMessages('1', [message('Hello')]);
+    storage.setMessages('1', [message('Hello world')]);
+
+    await storage.getAll();
+
+    expect(requests.map(({ operation }) => operation)).toEqual(['setMessages', 'setMessages', 'getAll']);
+    expect((requests[1].args[1] as Message[])[0].content).toBe('Hello world');
+  });
+});
@@ -0,0 +1,479 @@
+import type { Message } from 'ai';
+import * as indexedDb from './db';
+import type { IChatMetadata } from './db';
+import {
+  forgetWrittenBlobs,
+  getFileBlobs,
+  getMessageSnapshots,
+  pruneFileBlobs,
+  putMessageSnapshot,
+  type FileBlob,
+  type MessageSnapshot,
+} from './messageSnapshots';
+import { createSearchDocument, rankSearchDocuments, searchChatHistory, type ChatSearchResult } from './search';
+import type { Snapshot } from './types';
+import type { ChatHistoryItem } from './useChatHistory';
+
+export type ChatStorageBackend = 'indexeddb' | 'filesystem';
+
+/**
+ * Where chats and their snapshots are kept. The browser keeps them in IndexedDB, the filesystem
+ * backend keeps them on the server so they can be shared between browsers.
+ */
+export interface ChatStorage {
+  getAll(): Promise<ChatHistoryItem[]>;
+  setMessages(
+    id: string,
+    messages: Message[],
+    urlId?: string,
+    description?: string,
+    timestamp?: string,
+    metadata?: IChatMetadata,
+  ): Promise<void>;
+  getMessages(id: string): Promise<ChatHistoryItem>;
+  getMessagesById(id: string): Promise<ChatHistoryItem>;
+  getMessagesByUrlId(id: string): Promise<ChatHistoryItem>;
+  deleteById(id: string): Promise<void>;
+  getNextId(): Promise<string>;
+  getUrlId(id: string): Promise<string>;
+  forkChat(chatId: string, messageId: string): Promise<string>;
+  duplicateChat(id: string): Promise<string>;
+  createChatFromMessages(description: string, messages: Message[], metadata?: IChatMetadata): Promise<string>;
+  updateChatDescription(id: string, description: string): Promise<void>;
+  updateChatMetadata(id: string, metadata: IChatMetadata | undefined): Promise<void>;
+  getSnapshot(chatId: string): Promise<Snapshot | undefined>;
+  setSnapshot(chatId: string, snapshot: Snapshot): Promise<void>;
+  deleteSnapshot(chatId: string): Promise<void>;
+  getMessageSnapshots(chatId: string): Promise<MessageSnapshot[]>;
+  setMessageSnapshot(snapshot: MessageSnapshot, blobs: FileBlob[]): Promise<void>;
+  getFileBlobs(hashes: string[]): Promise<FileBlob[]>;
+  pruneFileBlobs(): Promise<void>;
+  searchChats(query: string, limit?: number): Promise<ChatSearchResult[]>;
+}
+
+export type ChatStorageOperation = keyof ChatStorage;
+
+export const CHAT_STORAGE_OPERATIONS: ChatStorageOperation[] = [
+  'getAll',
+  'setMessages',
+  'getMessages',
+  'getMessagesById',
+  'getMessagesByUrlId',
+  'deleteById',
+  'getNextId',
+  'getUrlId',
+  'forkChat',
+  'duplicateChat',
+  'createChatFromMessages',
+  'updateChatDescription',
+  'updateChatMetadata',
+  'getSnapshot',
+  'setSnapshot',
+  'deleteSnapshot',
+  'getMessageSnapshots',
+  'setMessageSnapshot',
+  'getFileBlobs',
+  'pruneFileBlobs',
+  'searchChats',
+];
+
+/**
+ * Implements the operations that are built on reading and writing whole chats,
+ * so a new backend only has to store chats and snapshots.
+ */
+export abstract class BaseChatStorage implements ChatStorage {
+  abstract getAll(): Promise<ChatHistoryItem[]>;
+  abstract setMessages(
+    id: string,
+    messages: Message[],
+    urlId?: string,
+    description?: string,
+    timestamp?: string,
+    metadata?: IChatMetadata,
+  ): Promise<void>;
+  abstract getMessagesById(id: string): Promise<ChatHistoryItem>;
+  abstract getMessagesByUrlId(id: string): Promise<ChatHistoryItem>;
+  abstract deleteById(id: string): Promise<void>;
+  abstract getSnapshot(chatId: string): Promise<Snapshot | undefined>;
+  abstract setSnapshot(chatId: string, snapshot: Snapshot): Promise<void>;
+  abstract deleteSnapshot(chatId: string): Promise<void>;
+  abstract getMessageSnapshots(chatId: string): Promise<MessageSnapshot[]>;
+  abstract setMessageSnapshot(snapshot: MessageSnapshot, blobs: FileBlob[]): Promise<void>;
+  abstract getFileBlobs(hashes: string[]): Promise<FileBlob[]>;
+  abstract pruneFileBlobs(): Promise<void>;
+
+  async getMessages(id: string) {
+    return (await this.getMessagesById(id)) || (await this.getMessagesByUrlId(id));
+  }
+
+  async getNextId() {
+    const chats = await this.getAll();
+    const highestId = chats.reduce((highest, chat) => Math.max(highest, +chat.id || 0), 0);
+
+    return String(highestId + 1);
+  }
+
+  async getUrlId(id: string) {
+    const idList = (await this.getAll()).map((chat) => chat.urlId);
+
+    if (!idList.includes(id)) {
+      return id;
+    }
+
+    let i = 2;
+
+    while (idList.includes(`${id}-${i}`)) {
+      i++;
+    }
+
+    return `${id}-${i}`;
+  }
+
+  async forkChat(chatId: string, messageId: string) {
+    const chat = await this.getMessages(chatId);
+
+    if (!chat) {
+      throw new Error('Chat not found');
+    }
+
+    const messageIndex = chat.messages.findIndex((msg) => msg.id === messageId);
+
+    if (messageIndex === -1) {
+      throw new Error('Message not found');
+    }
+
+    return this.createChatFromMessages(
+      chat.description ? `${chat.description} (fork)` : 'Forked chat',
+      chat.messages.slice(0, messageIndex + 1),
+    );
+  }
+
+  async duplicateChat(id: string) {
+    const chat = await this.getMessages(id);
+
+    if (!chat) {
+      throw new Error('Chat not found');
+    }
+
+    return this.createChatFromMessages(`${chat.description || 'Chat'} (copy)`, chat.messages);
+  }
+
+  async createChatFromMessages(description: string, messages: Message[], metadata?: IChatMetadata) {
+    const newId = await this.getNextId();
+    const newUrlId = await this.getUrlId(newId);
+
+    await this.setMessages(newId, messages, newUrlId, description, undefined, metadata);
+
+    return newUrlId;
+  }
+
+  async updateChatDescription(id: string, description: string) {
+    const chat = await this.getMessages(id);
+
+    if (!chat) {
+      throw new Error('Chat not found');
+    }
+
+    if (!description.trim()) {
+      throw new Error('Description cannot be empty');
+    }
+
+    await this.setMessages(id, chat.messages, chat.urlId, description, chat.timestamp, chat.metadata);
+  }
+
+  async updateChatMetadata(id: string, metadata: IChatMetadata | undefined) {
+    const chat = await this.getMessages(id);
+
+    if (!chat) {
+      throw new Error('Chat not found');
+    }
+
+    await this.setMessages(id, chat.messages, chat.urlId, chat.description, chat.timestamp, metadata);
+  }
+
+  async searchChats(query: string, limit?: number) {
+    const chats = await this.getAll();
+
+    return rankSearchDocuments(
+      chats.map((chat) => createSearchDocument({ ...chat, messages: chat.messages || [] })),
+      query,
+      limit,
+    );
+  }
+}
+
+export class IndexedDBChatStorage implements ChatStorage {
+  constructor(readonly db: IDBDatabase) {}
+
+  getAll() {
+    return indexedDb.getAll(this.db);
+  }
+
+  setMessages(
+    id: string,
+    messages: Message[],
+    urlId?: string,
+    description?: string,
+    timestamp?: string,
+    metadata?: IChatMetadata,
+  ) {
+    return indexedDb.setMessages(this.db, id, messages, urlId, description, timestamp, metadata);
+  }
+
+  getMessages(id: string) {
+    return indexedDb.getMessages(this.db, id);
+  }
+
+  getMessagesById(id: string) {
+    return indexedDb.getMessagesById(this.db, id);
+  }
+
+  getMessagesByUrlId(id: string) {
+    return indexedDb.getMessagesByUrlId(this.db, id);
+  }
+
+  deleteById(id: string) {
+    return indexedDb.deleteById(this.db, id);
+  }
+
+  getNextId() {
+    return indexedDb.getNextId(this.db);
+  }
+
+  getUrlId(id: string) {
+    return indexedDb.getUrlId(this.db, id);
+  }
+
+  forkChat(chatId: string, messageId: string) {
+    return indexedDb.forkChat(this.db, chatId, messageId);
+  }
+
+  duplicateChat(id: string) {
+    return indexedDb.duplicateChat(this.db, id);
+  }
+
+  createChatFromMessages(description: string, messages: Message[], metadata?: IChatMetadata) {
+    return indexedDb.createChatFromMessages(this.db, description, messages, metadata);
+  }
+
+  updateChatDescription(id: string, description: string) {
+    return indexedDb.updateChatDescription(this.db, id, description);
+  }
+
+  updateChatMetadata(id: string, metadata: IChatMetadata | undefined) {
+    return indexedDb.updateChatMetadata(this.db, id, metadata);
+  }
+
+  getSnapshot(chatId: string) {
+    return indexedDb.getSnapshot(this.db, chatId);
+  }
+
+  setSnapshot(chatId: string, snapshot: Snapshot) {
+    return indexedDb.setSnapshot(this.db, chatId, snapshot);
+  }
+
+  deleteSnapshot(chatId: string) {
+    return indexedDb.deleteSnapshot(this.db, chatId);
+  }
+
+  getMessageSnapshots(chatId: string) {
+    return getMessageSnapshots(this.db, chatId);
+  }
+
+  setMessageSnapshot(snapshot: MessageSnapshot, blobs: FileBlob[]) {
+    return putMessageSnapshot(this.db, snapshot, blobs);
+  }
+
+  getFileBlobs(hashes: string[]) {
+    return getFileBlobs(this.db, hashes);
+  }
+
+  pruneFileBlobs() {
+    return pruneFileBlobs(this.db);
+  }
+
+  searchChats(query: string, limit?: number) {
+    return searchChatHistory(this.db, query, limit);
+  }
+}
+
+// streaming responses are saved many times a second, a chat is sent to the server at most once per interval
+const REMOTE_WRITE_INTERVAL_MS = 1000;
+
+interface PendingWrite {
+  args: unknown[];
+  timer?: ReturnType<typeof setTimeout>;
+  start: () => void;
+  written: Promise<void>;
+}
+
+/**
+ * Forwards every operation to the chat storage API route, which keeps the chats on the server's filesystem.
+ */
+export class RemoteChatStorage implements ChatStorage {
+  readonly #pendingWrites = new Map<string, PendingWrite>();
+  readonly #lastWriteTimes = new Map<string, number>();
+
+  // writes reach the server in the order they were made
+  #writes: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly endpoint = '/api/chat-storage',
+    readonly writeInterval = REMOTE_WRITE_INTERVAL_MS,
+  ) {}
+
+  getAll() {
+    return this.#call<ChatHistoryItem[]>('getAll');
+  }
+
+  setMessages(
+    id: string,
+    messages: Message[],
+    urlId?: string,
+    description?: string,
+    timestamp?: string,
+    metadata?: IChatMetadata,
+  ) {
+    const args = [id, messages, urlId, description, timestamp, metadata];
+    const pending = this.#pendingWrites.get(id);
+
+    if (pending) {
+      pending.args = args;
+      return pending.written;
+    }
+
+    let start!: () => void;
+    const started = new Promise<void>((resolve) => (start = resolve));
+    const previousWrites = this.#writes;
+    const delay = (this.#lastWriteTimes.get(id) ?? -Infinity) + this.writeInterval - Date.now();
+    const write: PendingWrite = {
+      args,
+      start,
+      timer: delay > 0 ? setTimeout(start, delay) : undefined,
+      written: Promise.all([started, previousWrites]).then(() => {
+        this.#pendingWrites.delete(id);
+        this.#lastWriteTimes.set(id, Date.now());
+
+        return this.#request<void>('setMessages', ...write.args);
+      }),
+    };
+
+    this.#pendingWrites.set(id, write);
+    this.#writes = write.written.catch(() => undefined);
+
+    if (!write.timer) {
+      start();
+    }
+
+    return write.written;
+  }
+
+  getMessages(id: string) {
+    return this.#call<ChatHistoryItem>('getMessages', id);
+  }
+
+  getMessagesById(id: string) {
+    return this.#call<ChatHistoryItem>('getMessagesById', id);
+  }
+
+  getMessagesByUrlId(id: string) {
+    return this.#call<ChatHistoryItem>('getMessagesByUrlId', id);
+  }
+
+  async deleteById(id: string) {
+    await this.#call<void>('deleteById', id);
+
+    // the server drops the blobs only the deleted chat referred to
+    forgetWrittenBlobs();
+  }
+
+  getNextId() {
+    return this.#call<string>('getNextId');
+  }
+
+  getUrlId(id: string) {
+    return this.#call<string>('getUrlId', id);
+  }
+
+  forkChat(chatId: string, messageId: string) {
+    return this.#call<string>('forkChat', chatId, messageId);
+  }
+
+  duplicateChat(id: string) {
+    return this.#call<string>('duplicateChat', id);
+  }
+
+  createChatFromMessages(description: string, messages: Message[], metadata?: IChatMetadata) {
+    return this.#call<string>('createChatFromMessages', description, messages, metadata);
+  }
+
+  updateChatDescription(id: string, description: string) {
+    return this.#call<void>('updateChatDescription', id, description);
+  }
+
+  updateChatMetadata(id: string, metadata: IChatMetadata | undefined) {
+    return this.#call<void>('updateChatMetadata', id, metadata);
+  }
+
+  getSnapshot(chatId: string) {
+    return this.#call<Snapshot | undefined>('getSnapshot', chatId);
+  }
+
+  setSnapshot(chatId: string, snapshot: Snapshot) {
+    return this.#call<void>('setSnapshot', chatId, snapshot);
+  }
+
+  deleteSnapshot(chatId: string) {
+    return this.#call<void>('deleteSnapshot', chatId);
+  }
+
+  getMessageSnapshots(chatId: string) {
+    return this.#call<MessageSnapshot[]>('getMessageSnapshots', chatId);
+  }
+
+  setMessageSnapshot(snapshot: MessageSnapshot, blobs: FileBlob[]) {
+    return this.#call<void>('setMessageSnapshot', snapshot, blobs);
+  }
+
+  getFileBlobs(hashes: string[]) {
+    return this.#call<FileBlob[]>('getFileBlobs', hashes);
+  }
+
+  async pruneFileBlobs() {
+    await this.#call<void>('pruneFileBlobs');
+    forgetWrittenBlobs();
+  }
+
+  searchChats(query: string, limit?: number) {
+    return this.#call<ChatSearchResult[]>('searchChats', query, limit);
+  }
+
+  // every other operation sees the messages that are still waiting to be written
+  async #call<T>(operation: ChatStorageOperation, ...args: unknown[]): Promise<T> {
+    const writes = [...this.#pendingWrites.values()];
+
+    writes.forEach((write) => {
+      clearTimeout(write.timer);
+      write.start();
+    });
+    await Promise.allSettled(writes.map((write) => write.written));
+
+    return this.#request<T>(operation, ...args);
+  }
+
+  async #request<T>(operation: ChatStorageOperation, ...args: unknown[]): Promise<T> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operation, args }),
+    });
+    const data = (await response.json()) as { result?: T; error?: string };
+
+    if (!response.ok) {
+      throw new Error(data.error || `Chat storage request failed: ${response.status}`);
+    }
+
+    // JSON has no undefined, missing chats and snapshots come back as null
+    return (data.result ?? undefined) as T;
+  }
+}
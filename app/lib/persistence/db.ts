@@ -2,11 +2,33 @@ import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
 import type { Snapshot } from './types'; // Import Snapshot type
+import type { GitHostPullRequest } from '~/lib/modules/git-hosts/types';
+import type { PlanState } from '~/lib/stores/plan';
+import {
+  createSearchDocument,
+  removeFromSearchIndex,
+  SEARCH_INDEX_STORE,
+  updateSearchIndex,
+  type ChatSearchDocument,
+} from './search';
+import { deleteMessageSnapshots, FILE_BLOBS_STORE, MESSAGE_SNAPSHOTS_STORE } from './messageSnapshots';
 
 export interface IChatMetadata {
-  gitUrl: string;
+  gitUrl?: string;
   gitBranch?: string;
+
+  // the remote commit of the last clone or pull, the base of the next pull
+  gitCommit?: string;
+
+  // the pull request the chat proposed its changes in, later proposals push to its branch
+  pullRequest?: GitHostPullRequest;
+
+  // the commit the chat last pushed to the pull request, later proposals only hold the changes made since
+  proposedCommit?: string;
   netlifySiteId?: string;
+
+  // the step state of the plans in the chat, keyed by the id of the message with the plan
+  plans?: Record<string, PlanState>;
 }
 
 const logger = createScopedLogger('ChatHistory');
@@ -19,7 +41,7 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 2);
+    const request = indexedDB.open('boltHistory', 4);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -38,6 +60,24 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
           db.createObjectStore('snapshots', { keyPath: 'chatId' });
         }
       }
+
+      if (oldVersion < 3) {
+        // existing chats are indexed on the first search
+        if (!db.objectStoreNames.contains(SEARCH_INDEX_STORE)) {
+          db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: 'chatId' });
+        }
+      }
+
+      if (oldVersion < 4) {
+        if (!db.objectStoreNames.contains(MESSAGE_SNAPSHOTS_STORE)) {
+          const store = db.createObjectStore(MESSAGE_SNAPSHOTS_STORE, { keyPath: ['chatId', 'messageId'] });
+          store.createIndex('chatId', 'chatId', { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains(FILE_BLOBS_STORE)) {
+          db.createObjectStore(FILE_BLOBS_STORE, { keyPath: 'hash' });
+        }
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -72,7 +112,7 @@ export async function setMessages(
   metadata?: IChatMetadata,
 ): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readwrite');
+    const transaction = db.transaction(['chats', SEARCH_INDEX_STORE], 'readwrite');
     const store = transaction.objectStore('chats');
 
     if (timestamp && isNaN(Date.parse(timestamp))) {
@@ -80,17 +120,35 @@ export async function setMessages(
       return;
     }
 
-    const request = store.put({
+    const chat = {
       id,
       messages,
       urlId,
       description,
       timestamp: timestamp ?? new Date().toISOString(),
       metadata,
-    });
+    };
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    store.put(chat);
+
+    const searchStore = transaction.objectStore(SEARCH_INDEX_STORE);
+    const previousRequest = searchStore.get(id);
+    let document: ChatSearchDocument | undefined;
+
+    previousRequest.onsuccess = () => {
+      document = createSearchDocument(chat, previousRequest.result);
+      searchStore.put(document);
+    };
+
+    // the chat and its search index are written together or not at all
+    transaction.oncomplete = () => {
+      if (document) {
+        updateSearchIndex(db, document);
+      }
+
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
@@ -123,10 +181,17 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['chats', 'snapshots'], 'readwrite'); // Add snapshots store to transaction
+    const transaction = db.transaction(
+      ['chats', 'snapshots', SEARCH_INDEX_STORE, MESSAGE_SNAPSHOTS_STORE, FILE_BLOBS_STORE],
+      'readwrite',
+    ); // Add snapshots store to transaction
     const chatStore = transaction.objectStore('chats');
     const snapshotStore = transaction.objectStore('snapshots');
 
+    transaction.objectStore(SEARCH_INDEX_STORE).delete(id);
+    removeFromSearchIndex(db, id);
+    deleteMessageSnapshots(transaction, id);
+
     const deleteChatRequest = chatStore.delete(id);
     const deleteSnapshotRequest = snapshotStore.delete(id); // Also delete snapshot
 
@@ -1,3 +1,7 @@
 export * from './localStorage';
 export * from './db';
 export * from './useChatHistory';
+export * from './search';
+export * from './messageSnapshots';
+export * from './chatStorage';
+export * from './usage';
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { isLockPattern, matchesLockPattern } from './lockedFiles';
+
+describe('lock patterns', () => {
+  it('recognizes globs', () => {
+    expect(isLockPattern('src/**/*.test.ts')).toBe(true);
+    expect(isLockPattern('/home/project/src/App.tsx')).toBe(false);
+  });
+
+  it('matches absolute and project relative paths', () => {
+    expect(matchesLockPattern('src/**/*.test.ts', '/home/project/src/utils/a.test.ts')).toBe(true);
+    expect(matchesLockPattern('*.env', 'config/local.env')).toBe(true);
+    expect(matchesLockPattern('src/**/*.test.ts', '/home/project/src/App.tsx')).toBe(false);
+  });
+});
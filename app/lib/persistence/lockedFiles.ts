@@ -1,4 +1,6 @@
+import ignore from 'ignore';
 import { createScopedLogger } from '~/utils/logger';
+import { WORK_DIR } from '~/utils/constants';
 
 const logger = createScopedLogger('LockedFiles');
 
@@ -7,10 +9,34 @@ export const LOCKED_FILES_KEY = 'bolt.lockedFiles';
 
 export interface LockedItem {
   chatId: string; // Chat ID to scope locks to a specific project
+
+  // folder locks may also be a gitignore-style glob relative to the project, e.g. `src/generated/**`
   path: string;
   isFolder: boolean; // Indicates if this is a folder lock
 }
 
+/**
+ * Check if a locked path is a glob pattern instead of a path
+ */
+export function isLockPattern(path: string): boolean {
+  return /[*?[]/.test(path);
+}
+
+/**
+ * Check if a path matches a glob lock pattern
+ * @param pattern Glob relative to the project
+ * @param path Absolute or project relative path to check
+ */
+export function matchesLockPattern(pattern: string, path: string): boolean {
+  const relativePath = path.startsWith(`${WORK_DIR}/`) ? path.slice(WORK_DIR.length + 1) : path;
+
+  if (!relativePath || !ignore.isPathValid(relativePath)) {
+    return false;
+  }
+
+  return ignore().add(pattern).ignores(relativePath);
+}
+
 // In-memory cache for locked items to reduce localStorage reads
 let lockedItemsCache: LockedItem[] | null = null;
 
@@ -171,7 +197,7 @@ export function addLockedFile(chatId: string, filePath: string): void {
  * Add a folder to the locked items list
  */
 export function addLockedFolder(chatId: string, folderPath: string): void {
-  addLockedItem(chatId, folderPath);
+  addLockedItem(chatId, folderPath, true);
 }
 
 /**
@@ -302,12 +328,15 @@ function checkParentFolderLocks(chatId: string, path: string): { locked: boolean
     return { locked: false };
   }
 
-  // Check each parent folder
+  // Check each parent folder, absolute paths keep their leading slash
   const pathParts = path.split('/');
-  let currentPath = '';
 
-  for (let i = 0; i < pathParts.length - 1; i++) {
-    currentPath = currentPath ? `${currentPath}/${pathParts[i]}` : pathParts[i];
+  for (let i = 1; i < pathParts.length; i++) {
+    const currentPath = pathParts.slice(0, i).join('/');
+
+    if (!currentPath) {
+      continue;
+    }
 
     const folderLock = chatMap.get(currentPath);
 
@@ -316,6 +345,13 @@ function checkParentFolderLocks(chatId: string, path: string): { locked: boolean
     }
   }
 
+  // Then check the glob patterns
+  for (const item of chatMap.values()) {
+    if (item.isFolder && isLockPattern(item.path) && matchesLockPattern(item.path, path)) {
+      return { locked: true, lockedBy: item.path };
+    }
+  }
+
   return { locked: false };
 }
 
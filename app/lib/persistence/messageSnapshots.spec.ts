@@ -0,0 +1,120 @@
+import type { Message } from 'ai';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ChatStorage } from './chatStorage';
+import {
+  forgetWrittenBlobs,
+  getChangedSnapshotPaths,
+  getReferencedHashes,
+  loadMessageSnapshotFiles,
+  saveMessageSnapshot,
+  type FileBlob,
+  type MessageSnapshot,
+} from './messageSnapshots';
+import type { FileMap } from '~/lib/stores/files';
+
+const message: Message = { id: 'a1', role: 'assistant', content: 'Done' };
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+function createStorage() {
+  const blobs = new Map<string, string>();
+  const writes: FileBlob[][] = [];
+
+  const storage = {
+    setMessageSnapshot: async (_snapshot: MessageSnapshot, newBlobs: FileBlob[]) => {
+      writes.push(newBlobs);
+      newBlobs.forEach((blob) => blobs.set(blob.hash, blob.content));
+    },
+    getFileBlobs: async (hashes: string[]) =>
+      hashes.filter((hash) => blobs.has(hash)).map((hash) => ({ hash, content: blobs.get(hash)! })),
+  } as unknown as ChatStorage;
+
+  return { storage, writes };
+}
+
+function snapshot(files: MessageSnapshot['files']): MessageSnapshot {
+  return { chatId: '1', messageId: 'a1', timestamp: '2025-05-01T09:00:00Z', title: 'Done', files };
+}
+
+beforeEach(() => {
+  forgetWrittenBlobs();
+});
+
+describe('saveMessageSnapshot', () => {
+  it('should send each file content once', async () => {
+    const { storage, writes } = createStorage();
+    const files: FileMap = {
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/a.ts': file('same'),
+      '/home/project/src/b.ts': file('same'),
+    };
+
+    const first = await saveMessageSnapshot(storage, '1', message, files);
+
+    expect(writes[0].map((blob) => blob.content)).toEqual(['same']);
+    expect(first.files['/home/project/src']).toEqual({ type: 'folder' });
+
+    await saveMessageSnapshot(storage, '1', message, { ...files, '/home/project/src/c.ts': file('new') });
+
+    expect(writes[1].map((blob) => blob.content)).toEqual(['new']);
+
+    forgetWrittenBlobs();
+    await saveMessageSnapshot(storage, '1', message, files);
+
+    expect(writes[2].map((blob) => blob.content)).toEqual(['same']);
+  });
+
+  it('should load the files of a snapshot back', async () => {
+    const { storage } = createStorage();
+    const files: FileMap = {
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/a.ts': file('export const a = 1;'),
+      '/home/project/src/b.ts': file('export const b = 2;'),
+    };
+
+    const saved = await saveMessageSnapshot(storage, '1', message, files);
+
+    expect(await loadMessageSnapshotFiles(storage, saved)).toEqual(files);
+    expect(await loadMessageSnapshotFiles(storage, saved, ['/home/project/src/b.ts'])).toEqual({
+      '/home/project/src/b.ts': files['/home/project/src/b.ts'],
+    });
+  });
+});
+
+describe('getChangedSnapshotPaths', () => {
+  it('should return the added, removed and changed files but no folders', () => {
+    const from = snapshot({
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/kept.ts': { type: 'file', hash: 'a', isBinary: false },
+      '/home/project/src/changed.ts': { type: 'file', hash: 'b', isBinary: false },
+      '/home/project/src/removed.ts': { type: 'file', hash: 'c', isBinary: false },
+    });
+    const to = snapshot({
+      '/home/project/lib': { type: 'folder' },
+      '/home/project/src/kept.ts': { type: 'file', hash: 'a', isBinary: false },
+      '/home/project/src/changed.ts': { type: 'file', hash: 'd', isBinary: false },
+      '/home/project/src/added.ts': { type: 'file', hash: 'c', isBinary: false },
+    });
+
+    expect(getChangedSnapshotPaths(from, to)).toEqual([
+      '/home/project/src/added.ts',
+      '/home/project/src/changed.ts',
+      '/home/project/src/removed.ts',
+    ]);
+    expect(getChangedSnapshotPaths(to, to)).toEqual([]);
+  });
+});
+
+describe('getReferencedHashes', () => {
+  it('should collect the file hashes of all snapshots', () => {
+    const snapshots = [
+      snapshot({ '/home/project/a.ts': { type: 'file', hash: 'a', isBinary: false } }),
+      snapshot({
+        '/home/project/b.ts': { type: 'file', hash: 'b', isBinary: false },
+        '/home/project': { type: 'folder' },
+      }),
+    ];
+
+    expect([...getReferencedHashes(snapshots)]).toEqual(['a', 'b']);
+  });
+});
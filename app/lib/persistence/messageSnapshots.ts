@@ -0,0 +1,280 @@
+import type { Message } from 'ai';
+import type { FileMap } from '~/lib/stores/files';
+import { getContentWithActionToolCalls } from '~/lib/runtime/action-tools';
+import type { ChatStorage } from './chatStorage';
+
+export const MESSAGE_SNAPSHOTS_STORE = 'messageSnapshots';
+export const FILE_BLOBS_STORE = 'fileBlobs';
+
+export type SnapshotEntry = { type: 'file'; hash: string; isBinary: boolean; isLocked?: boolean } | { type: 'folder' };
+
+/**
+ * The files of a chat after an assistant message. File contents are stored once in the blob store
+ * and referenced by their hash, so unchanged files don't take up space in every snapshot.
+ */
+export interface MessageSnapshot {
+  chatId: string;
+  messageId: string;
+  timestamp: string;
+  title: string;
+  files: Record<string, SnapshotEntry>;
+}
+
+export interface FileBlob {
+  hash: string;
+  content: string;
+}
+
+// hashes of the blobs written by this session, cleared when blobs are pruned
+const writtenHashes = new Set<string>();
+
+// the file map keeps unchanged contents, so most files don't need to be hashed again
+const hashCache = new Map<string, { content: string; hash: string }>();
+
+/**
+ * Snapshot the files after a message in the chat storage. Only the blobs this session has not written yet are
+ * sent along.
+ */
+export async function saveMessageSnapshot(storage: ChatStorage, chatId: string, message: Message, files: FileMap) {
+  const entries: Record<string, SnapshotEntry> = {};
+  const blobs: FileBlob[] = [];
+
+  for (const [path, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'folder') {
+      entries[path] = { type: 'folder' };
+    } else if (dirent?.type === 'file') {
+      const hash = await hashContent(path, dirent.content);
+      entries[path] = { type: 'file', hash, isBinary: dirent.isBinary, isLocked: dirent.isLocked };
+
+      if (!writtenHashes.has(hash) && !blobs.some((blob) => blob.hash === hash)) {
+        blobs.push({ hash, content: dirent.content });
+      }
+    }
+  }
+
+  const snapshot: MessageSnapshot = {
+    chatId,
+    messageId: message.id,
+    timestamp: new Date().toISOString(),
+    title: getSnapshotTitle(message),
+    files: entries,
+  };
+
+  await storage.setMessageSnapshot(snapshot, blobs);
+  blobs.forEach((blob) => writtenHashes.add(blob.hash));
+
+  return snapshot;
+}
+
+/**
+ * Loads the contents of the given files of a snapshot, or of all its files when no paths are given.
+ * @returns A file map as the workbench keeps it
+ */
+export async function loadMessageSnapshotFiles(
+  storage: ChatStorage,
+  snapshot: MessageSnapshot,
+  paths = Object.keys(snapshot.files),
+): Promise<FileMap> {
+  const hashes = paths.flatMap((path) => {
+    const entry = snapshot.files[path];
+    return entry?.type === 'file' ? [entry.hash] : [];
+  });
+  const contents = new Map((await storage.getFileBlobs(hashes)).map((blob) => [blob.hash, blob.content]));
+  const files: FileMap = {};
+
+  for (const path of paths) {
+    const entry = snapshot.files[path];
+
+    if (entry?.type === 'folder') {
+      files[path] = { type: 'folder' };
+    } else if (entry?.type === 'file' && contents.has(entry.hash)) {
+      files[path] = {
+        type: 'file',
+        content: contents.get(entry.hash)!,
+        isBinary: entry.isBinary,
+        isLocked: entry.isLocked,
+      };
+    }
+  }
+
+  return files;
+}
+
+// the blobs of a pruned store may be gone, they are sent again with the next snapshot
+export function forgetWrittenBlobs() {
+  writtenHashes.clear();
+}
+
+/**
+ * Stores a snapshot with its new blobs in IndexedDB
+ */
+export async function putMessageSnapshot(db: IDBDatabase, snapshot: MessageSnapshot, blobs: FileBlob[]) {
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([MESSAGE_SNAPSHOTS_STORE, FILE_BLOBS_STORE], 'readwrite');
+    const blobStore = transaction.objectStore(FILE_BLOBS_STORE);
+
+    for (const blob of blobs) {
+      blobStore.put(blob);
+    }
+
+    transaction.objectStore(MESSAGE_SNAPSHOTS_STORE).put(snapshot);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * @returns The snapshots of a chat in IndexedDB, oldest first
+ */
+export async function getMessageSnapshots(db: IDBDatabase, chatId: string): Promise<MessageSnapshot[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(MESSAGE_SNAPSHOTS_STORE, 'readonly');
+    const request = transaction.objectStore(MESSAGE_SNAPSHOTS_STORE).index('chatId').getAll(chatId);
+
+    request.onsuccess = () => resolve(sortMessageSnapshots(request.result as MessageSnapshot[]));
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * @returns The blobs of the given hashes that are in IndexedDB
+ */
+export async function getFileBlobs(db: IDBDatabase, hashes: string[]): Promise<FileBlob[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(FILE_BLOBS_STORE, 'readonly');
+    const blobStore = transaction.objectStore(FILE_BLOBS_STORE);
+    const blobs: FileBlob[] = [];
+
+    for (const hash of new Set(hashes)) {
+      const request = blobStore.get(hash);
+
+      request.onsuccess = () => {
+        if (request.result) {
+          blobs.push(request.result as FileBlob);
+        }
+      };
+    }
+
+    transaction.oncomplete = () => resolve(blobs);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export function sortMessageSnapshots(snapshots: MessageSnapshot[]) {
+  return snapshots.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+/**
+ * Paths of the files that differ between two snapshots, including added and removed files.
+ */
+export function getChangedSnapshotPaths(from: MessageSnapshot, to: MessageSnapshot) {
+  const paths = new Set([...Object.keys(from.files), ...Object.keys(to.files)]);
+
+  return [...paths]
+    .filter((path) => {
+      const before = from.files[path];
+      const after = to.files[path];
+
+      if (before?.type !== 'file' && after?.type !== 'file') {
+        return false;
+      }
+
+      return (
+        before?.type !== after?.type ||
+        (before?.type === 'file' && after?.type === 'file' && before.hash !== after.hash)
+      );
+    })
+    .sort();
+}
+
+/**
+ * Deletes the snapshots of a chat and the blobs no other snapshot refers to, as part of a transaction
+ * that includes both snapshot stores.
+ */
+export function deleteMessageSnapshots(transaction: IDBTransaction, chatId: string) {
+  const snapshotStore = transaction.objectStore(MESSAGE_SNAPSHOTS_STORE);
+  const keysRequest = snapshotStore.index('chatId').getAllKeys(chatId);
+
+  keysRequest.onsuccess = () => {
+    keysRequest.result.forEach((key) => snapshotStore.delete(key));
+
+    // requests run in order, so the remaining snapshots are read after the deletes
+    deleteUnreferencedBlobs(transaction);
+  };
+}
+
+/**
+ * Deletes the blobs in IndexedDB no snapshot refers to, like the contents of a file a snapshot was replaced with
+ */
+export async function pruneFileBlobs(db: IDBDatabase) {
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([MESSAGE_SNAPSHOTS_STORE, FILE_BLOBS_STORE], 'readwrite');
+
+    deleteUnreferencedBlobs(transaction);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function deleteUnreferencedBlobs(transaction: IDBTransaction) {
+  const blobStore = transaction.objectStore(FILE_BLOBS_STORE);
+  const snapshotsRequest = transaction.objectStore(MESSAGE_SNAPSHOTS_STORE).getAll();
+
+  snapshotsRequest.onsuccess = () => {
+    const referenced = getReferencedHashes(snapshotsRequest.result as MessageSnapshot[]);
+    const blobKeysRequest = blobStore.getAllKeys();
+
+    blobKeysRequest.onsuccess = () => {
+      blobKeysRequest.result.filter((hash) => !referenced.has(String(hash))).forEach((hash) => blobStore.delete(hash));
+      forgetWrittenBlobs();
+    };
+  };
+}
+
+export function getReferencedHashes(snapshots: MessageSnapshot[]) {
+  const referenced = new Set<string>();
+
+  for (const snapshot of snapshots) {
+    for (const entry of Object.values(snapshot.files)) {
+      if (entry.type === 'file') {
+        referenced.add(entry.hash);
+      }
+    }
+  }
+
+  return referenced;
+}
+
+async function hashContent(path: string, content: string) {
+  const cached = hashCache.get(path);
+
+  if (cached?.content === content) {
+    return cached.hash;
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  hashCache.set(path, { content, hash });
+
+  return hash;
+}
+
+function getSnapshotTitle(message: Message) {
+  const content = getContentWithActionToolCalls(message);
+  const artifactTitle = content.match(/<boltArtifact[^>]*title="([^"]*)"/)?.[1];
+
+  if (artifactTitle) {
+    return artifactTitle;
+  }
+
+  const text = content
+    .replace(/<boltArtifact[\s\S]*?(<\/boltArtifact>|$)/g, ' ')
+    .replace(/<div class=\\?"__boltThought__\\?">[\s\S]*?<\/div>/g, ' ')
+    .replace(/<think>[\s\S]*?<\/think>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return text.slice(0, 80) || 'Untitled step';
+}
@@ -0,0 +1,154 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { ChatSearchIndex, createSearchDocument, fuseRankings, type ChatSearchDocument } from './search';
+
+const timestamp = '2025-05-01T09:00:00Z';
+
+const pricingChat = createSearchDocument({
+  id: '1',
+  urlId: 'pricing-page',
+  description: 'Landing page',
+  timestamp,
+  messages: [
+    { id: 'u1', role: 'user', content: '[Model: gpt-4o]\n\n[Provider: OpenAI]\n\nAdd a pricing table' },
+    {
+      id: 'a1',
+      role: 'assistant',
+      content:
+        'Here it is <boltArtifact id="pricing" title="Pricing table"><boltAction type="file" filePath="src/PricingTable.tsx">export {}</boltAction></boltArtifact>',
+    },
+    { id: 'h1', role: 'user', content: 'hidden context', annotations: ['hidden'] },
+  ],
+});
+
+const loginChat = createSearchDocument({
+  id: '2',
+  description: 'Auth',
+  timestamp,
+  messages: [{ id: 'u2', role: 'user', content: 'Build a login form with a password field' }],
+});
+
+describe('createSearchDocument', () => {
+  it('indexes the text, artifact titles and written files of visible messages', () => {
+    expect(pricingChat.entries).toEqual([
+      { messageId: 'u1', role: 'user', text: 'Add a pricing table', artifactTitles: [], filePaths: [] },
+      {
+        messageId: 'a1',
+        role: 'assistant',
+        text: 'Here it is',
+        artifactTitles: ['Pricing table'],
+        filePaths: ['src/PricingTable.tsx'],
+      },
+    ]);
+  });
+
+  it('indexes the actions of the tool call output mode', () => {
+    const document = createSearchDocument({
+      id: '3',
+      timestamp,
+      messages: [
+        {
+          id: 'a3',
+          role: 'assistant',
+          content: 'Adding the footer',
+          parts: [
+            {
+              type: 'tool-invocation',
+              toolInvocation: {
+                state: 'result',
+                toolCallId: '1',
+                toolName: 'write_file',
+                args: { filePath: 'src/Footer.tsx', content: 'export {}' },
+                result: 'Queued',
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(document.entries).toEqual([
+      {
+        messageId: 'a3',
+        role: 'assistant',
+        text: 'Adding the footer',
+        artifactTitles: ['Project changes'],
+        filePaths: ['src/Footer.tsx'],
+      },
+    ]);
+  });
+
+  it('keeps the embeddings of unchanged messages only', () => {
+    const previous: ChatSearchDocument = {
+      ...loginChat,
+      embeddingModel: 'OpenAI/text-embedding-3-small',
+      entries: loginChat.entries.map((entry) => ({ ...entry, embedding: [1, 0] })),
+    };
+    const messages: Message[] = [
+      { id: 'u2', role: 'user', content: 'Build a login form with a password field' },
+      { id: 'a2', role: 'assistant', content: 'Done' },
+    ];
+
+    const document = createSearchDocument({ id: '2', timestamp, messages }, previous);
+
+    expect(document.embeddingModel).toBe('OpenAI/text-embedding-3-small');
+    expect(document.entries.map((entry) => entry.embedding)).toEqual([[1, 0], undefined]);
+    expect(
+      createSearchDocument(
+        { id: '2', timestamp, messages: [{ ...messages[0], content: 'Build a signup form' }] },
+        previous,
+      ).entries[0].embedding,
+    ).toBeUndefined();
+  });
+});
+
+describe('ChatSearchIndex', () => {
+  it('finds the best matching message of each chat', () => {
+    const index = new ChatSearchIndex([pricingChat, loginChat]);
+
+    expect(index.search('pricing table', 10)).toMatchObject([
+      { chatId: '1', urlId: 'pricing-page', messageId: 'a1', filePaths: ['src/PricingTable.tsx'] },
+    ]);
+    expect(index.search('password', 10).map((result) => result.chatId)).toEqual(['2']);
+    expect(index.search('the', 10)).toEqual([]);
+  });
+
+  it('ranks changed and deleted chats on the next search', () => {
+    const index = new ChatSearchIndex([pricingChat]);
+
+    expect(index.search('login', 10)).toEqual([]);
+
+    index.put(loginChat);
+    expect(index.search('login', 10).map((result) => result.chatId)).toEqual(['2']);
+
+    index.delete('2');
+    expect(index.search('login', 10)).toEqual([]);
+  });
+
+  it('finds messages that say the same in other words with the embedding of the query', () => {
+    const model = 'OpenAI/text-embedding-3-small';
+    const embed = (document: ChatSearchDocument, embedding: number[]): ChatSearchDocument => ({
+      ...document,
+      embeddingModel: model,
+      entries: document.entries.map((entry) => ({ ...entry, embedding })),
+    });
+    const index = new ChatSearchIndex([embed(pricingChat, [0, 1]), embed(loginChat, [1, 0.1])]);
+
+    expect(index.search('sign in screen', 10)).toEqual([]);
+    expect(index.search('sign in screen', 10, { model, vector: [1, 0] }).map((result) => result.chatId)).toEqual(['2']);
+
+    // embeddings of another model are not comparable
+    expect(index.search('sign in screen', 10, { model: 'Ollama/nomic-embed-text', vector: [1, 0] })).toEqual([]);
+  });
+});
+
+describe('fuseRankings', () => {
+  it('merges keyword and semantic ranks and ignores dissimilar messages', () => {
+    const fused = fuseRankings([2, 0, 1, 0], [0.1, 0.9, 0.8, 0.2]);
+
+    expect(fused[2]).toBeGreaterThan(fused[0]);
+    expect(fused[2]).toBeGreaterThan(fused[1]);
+    expect(fused[3]).toBe(0);
+    expect(fuseRankings([2, 0], undefined)).toEqual([2, 0]);
+  });
+});
@@ -0,0 +1,466 @@
+import type { Message } from 'ai';
+import { Bm25Ranker, tokenize } from '~/utils/bm25';
+import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+import { cosineSimilarity } from '~/utils/vectors';
+import { createScopedLogger } from '~/utils/logger';
+import { serializeActionToolCalls } from '~/lib/runtime/action-tools';
+
+const logger = createScopedLogger('ChatSearch');
+
+export const SEARCH_INDEX_STORE = 'searchIndex';
+
+// long messages are cut off, the start of a message is what people remember it by
+const MAX_INDEXED_TEXT_LENGTH = 4000;
+const SNIPPET_RADIUS = 60;
+
+// texts per request to the embeddings endpoint, its limit
+const EMBEDDING_BATCH_SIZE = 100;
+
+// messages less similar to the query are left out of the semantic ranking
+const MIN_SIMILARITY = 0.3;
+
+// the usual constant of reciprocal rank fusion, it keeps single top ranks from dominating
+const RRF_K = 60;
+
+export interface SearchEntry {
+  messageId: string;
+  role: Message['role'];
+  text: string;
+  artifactTitles: string[];
+  filePaths: string[];
+
+  // the embedding of the entry, added by the first semantic search that needs it
+  embedding?: number[];
+}
+
+/**
+ * Searchable contents of a chat, stored next to it and rewritten whenever its messages are saved.
+ */
+export interface ChatSearchDocument {
+  chatId: string;
+  urlId?: string;
+  description?: string;
+  timestamp: string;
+  entries: SearchEntry[];
+
+  // the model the embeddings of the entries come from
+  embeddingModel?: string;
+}
+
+export interface ChatSearchResult {
+  chatId: string;
+  urlId?: string;
+  description?: string;
+  timestamp: string;
+  messageId: string;
+  snippet: string;
+  filePaths: string[];
+  score: number;
+}
+
+export interface QueryEmbedding {
+  model: string;
+  vector: number[];
+}
+
+/**
+ * @param previous The stored document of the chat, embeddings of unchanged entries are kept
+ */
+export function createSearchDocument(
+  chat: {
+    id: string;
+    urlId?: string;
+    description?: string;
+    timestamp: string;
+    messages: Message[];
+  },
+  previous?: ChatSearchDocument,
+): ChatSearchDocument {
+  const previousEntries = new Map(previous?.entries.map((entry) => [entry.messageId, entry]));
+
+  const entries = chat.messages
+    .filter((message) => (message.role === 'user' || message.role === 'assistant') && !isHidden(message))
+    .map((message): SearchEntry => {
+      const content = getTextContent(message);
+      const artifactTitles = [...content.matchAll(/<boltArtifact[^>]*title="([^"]*)"/g)].map((match) => match[1]);
+      const filePaths = [
+        ...new Set([...content.matchAll(/<boltAction[^>]*filePath="([^"]*)"/g)].map((match) => match[1])),
+      ];
+
+      const text = content
+        .replace(MODEL_REGEX, '')
+        .replace(PROVIDER_REGEX, '')
+        .replace(/<boltArtifact[\s\S]*?(<\/boltArtifact>|$)/g, ' ')
+        .replace(/<div class=\\?"__boltThought__\\?">[\s\S]*?<\/div>/g, ' ')
+        .replace(/<think>[\s\S]*?<\/think>/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, MAX_INDEXED_TEXT_LENGTH);
+
+      const entry = { messageId: message.id, role: message.role, text, artifactTitles, filePaths };
+      const embedding = previousEntries.get(message.id)?.embedding;
+
+      return embedding && getEmbeddingText(previousEntries.get(message.id)!) === getEmbeddingText(entry)
+        ? { ...entry, embedding }
+        : entry;
+    })
+    .filter((entry) => entry.text || entry.artifactTitles.length || entry.filePaths.length);
+
+  return {
+    chatId: chat.id,
+    urlId: chat.urlId,
+    description: chat.description,
+    timestamp: chat.timestamp,
+    entries,
+    embeddingModel: entries.some((entry) => entry.embedding) ? previous?.embeddingModel : undefined,
+  };
+}
+
+/**
+ * The search documents of all chats, kept in memory with a BM25 ranker over their messages so a search only has to
+ * score the query. The ranker is rebuilt on the next search after a document changed.
+ */
+export class ChatSearchIndex {
+  #documents = new Map<string, ChatSearchDocument>();
+  #ranking?: { candidates: Array<{ document: ChatSearchDocument; entry: SearchEntry }>; ranker: Bm25Ranker };
+
+  constructor(documents: ChatSearchDocument[] = []) {
+    documents.forEach((document) => this.#documents.set(document.chatId, document));
+  }
+
+  get documents() {
+    return [...this.#documents.values()];
+  }
+
+  put(document: ChatSearchDocument) {
+    this.#documents.set(document.chatId, document);
+    this.#ranking = undefined;
+  }
+
+  delete(chatId: string) {
+    this.#documents.delete(chatId);
+    this.#ranking = undefined;
+  }
+
+  /**
+   * Ranks the messages against the query with BM25 over the message text, artifact titles and the paths of the
+   * files written. With the embedding of the query, the messages are also ranked by their similarity to it and
+   * both rankings are merged, so messages that say the same in other words are found too.
+   * @returns The best matching message of each chat, best matching chats first
+   */
+  search(query: string, limit = 20, queryEmbedding?: QueryEmbedding): ChatSearchResult[] {
+    if (tokenize(query).length === 0) {
+      return [];
+    }
+
+    const { candidates, ranker } = this.#getRanking();
+    const scores = fuseRankings(
+      ranker.score(query),
+      queryEmbedding
+        ? candidates.map(({ document, entry }) =>
+            document.embeddingModel === queryEmbedding.model && entry.embedding
+              ? cosineSimilarity(queryEmbedding.vector, entry.embedding)
+              : 0,
+          )
+        : undefined,
+    );
+
+    const bestByChat = new Map<string, ChatSearchResult>();
+
+    candidates.forEach(({ document, entry }, index) => {
+      const score = scores[index];
+      const best = bestByChat.get(document.chatId);
+
+      if (score <= 0 || (best && best.score >= score)) {
+        return;
+      }
+
+      bestByChat.set(document.chatId, {
+        chatId: document.chatId,
+        urlId: document.urlId,
+        description: document.description,
+        timestamp: document.timestamp,
+        messageId: entry.messageId,
+        snippet: createSnippet(entry.text || entry.artifactTitles.join(', '), query),
+        filePaths: entry.filePaths.filter((path) => matchesQuery(path, query)),
+        score,
+      });
+    });
+
+    return [...bestByChat.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  #getRanking() {
+    if (!this.#ranking) {
+      const candidates = this.documents.flatMap((document) => document.entries.map((entry) => ({ document, entry })));
+      const ranker = new Bm25Ranker(
+        candidates.map(({ document, entry }) => [document.description, getEmbeddingText(entry)].join('\n')),
+      );
+
+      this.#ranking = { candidates, ranker };
+    }
+
+    return this.#ranking;
+  }
+}
+
+/**
+ * Merges the BM25 scores with the similarities to the query by reciprocal rank fusion, only similar enough
+ * messages take part in the semantic ranking
+ */
+export function fuseRankings(bm25Scores: number[], similarities?: number[]) {
+  if (!similarities) {
+    return bm25Scores;
+  }
+
+  const fused = bm25Scores.map(() => 0);
+
+  for (const scores of [
+    bm25Scores,
+    similarities.map((similarity) => (similarity >= MIN_SIMILARITY ? similarity : 0)),
+  ]) {
+    scores
+      .map((score, index) => ({ score, index }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .forEach(({ index }, rank) => {
+        fused[index] += 1 / (RRF_K + rank + 1);
+      });
+  }
+
+  return fused;
+}
+
+/**
+ * Ranks the messages of the given search documents, for storages that don't keep a search index. These have no
+ * embeddings, so the ranking is BM25 only.
+ */
+export function rankSearchDocuments(documents: ChatSearchDocument[], query: string, limit = 20): ChatSearchResult[] {
+  return new ChatSearchIndex(documents).search(query, limit);
+}
+
+// one index per database, loaded by the first search
+const searchIndexes = new WeakMap<IDBDatabase, Promise<ChatSearchIndex>>();
+
+/**
+ * Searches all chats of the database. The index is loaded once, later searches only read it. When an embedding
+ * provider is configured, the messages that have no embedding yet are embedded and stored first.
+ */
+export async function searchChatHistory(db: IDBDatabase, query: string, limit = 20): Promise<ChatSearchResult[]> {
+  if (tokenize(query).length === 0) {
+    return [];
+  }
+
+  const index = await getSearchIndex(db);
+  const queryEmbedding = await embedIndex(db, index, query).catch((error) => {
+    logger.warn('Semantic search failed, searching by keywords only', error);
+    return undefined;
+  });
+
+  return index.search(query, limit, queryEmbedding);
+}
+
+/**
+ * Keeps a loaded index up to date with a document written to the database
+ */
+export function updateSearchIndex(db: IDBDatabase, document: ChatSearchDocument) {
+  searchIndexes.get(db)?.then((index) => index.put(document));
+}
+
+export function removeFromSearchIndex(db: IDBDatabase, chatId: string) {
+  searchIndexes.get(db)?.then((index) => index.delete(chatId));
+}
+
+function getSearchIndex(db: IDBDatabase) {
+  let index = searchIndexes.get(db);
+
+  if (!index) {
+    index = getAllSearchDocuments(db).then((documents) => new ChatSearchIndex(documents));
+    index.catch(() => searchIndexes.delete(db));
+    searchIndexes.set(db, index);
+  }
+
+  return index;
+}
+
+// unset until the first request tells whether the server can embed texts
+let isEmbeddingAvailable: boolean | undefined;
+
+/**
+ * Embeds the query and the entries of the index that have no embedding of the same model yet, storing the new ones
+ * @returns The embedding of the query, `undefined` when no embedding provider is configured
+ */
+async function embedIndex(db: IDBDatabase, index: ChatSearchIndex, query: string): Promise<QueryEmbedding | undefined> {
+  if (isEmbeddingAvailable === false) {
+    return undefined;
+  }
+
+  const queryResult = await embedTexts([query]);
+
+  if (!queryResult) {
+    return undefined;
+  }
+
+  const { model } = queryResult;
+  const documents = index.documents.filter(
+    (document) => document.embeddingModel !== model || document.entries.some((entry) => !entry.embedding),
+  );
+  const entries = documents.flatMap((document) =>
+    document.entries.filter((entry) => document.embeddingModel !== model || !entry.embedding),
+  );
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < entries.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = await embedTexts(entries.slice(i, i + EMBEDDING_BATCH_SIZE).map(getEmbeddingText));
+
+    if (batch?.model !== model) {
+      throw new Error('The embedding model changed while indexing');
+    }
+
+    embeddings.push(...batch.embeddings);
+  }
+
+  if (documents.length > 0) {
+    const embeddingsByEntry = new Map(entries.map((entry, i) => [entry, embeddings[i]]));
+    const updated = documents.map((document): ChatSearchDocument => ({
+      ...document,
+      embeddingModel: model,
+      entries: document.entries.map((entry) => ({
+        ...entry,
+        embedding: embeddingsByEntry.get(entry) ?? entry.embedding,
+      })),
+    }));
+
+    await putSearchDocuments(db, updated);
+    updated.forEach((document) => index.put(document));
+  }
+
+  return { model, vector: queryResult.embeddings[0] };
+}
+
+async function embedTexts(texts: string[]): Promise<{ model: string; embeddings: number[][] } | undefined> {
+  const response = await fetch('/api/embeddings', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ texts }),
+  });
+
+  if (response.status === 501) {
+    isEmbeddingAvailable = false;
+    return undefined;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to embed texts: ${response.status}`);
+  }
+
+  isEmbeddingAvailable = true;
+
+  return response.json();
+}
+
+function putSearchDocuments(db: IDBDatabase, documents: ChatSearchDocument[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['chats', SEARCH_INDEX_STORE], 'readwrite');
+    const chatStore = transaction.objectStore('chats');
+    const searchStore = transaction.objectStore(SEARCH_INDEX_STORE);
+
+    for (const document of documents) {
+      // a chat deleted while its messages were embedded stays deleted
+      const request = chatStore.getKey(document.chatId);
+
+      request.onsuccess = () => {
+        if (request.result !== undefined) {
+          searchStore.put(document);
+        }
+      };
+    }
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Loads the search documents of all chats. Chats are also written outside of `setMessages` (imports,
+ * undoing a reset) so documents of deleted chats are removed and chats without a document are indexed here.
+ */
+async function getAllSearchDocuments(db: IDBDatabase): Promise<ChatSearchDocument[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['chats', SEARCH_INDEX_STORE], 'readwrite');
+    const chatStore = transaction.objectStore('chats');
+    const searchStore = transaction.objectStore(SEARCH_INDEX_STORE);
+    const keysRequest = chatStore.getAllKeys();
+    const documentsRequest = searchStore.getAll();
+    const documents: ChatSearchDocument[] = [];
+
+    documentsRequest.onsuccess = () => {
+      const chatIds = new Set(keysRequest.result.map(String));
+
+      for (const document of documentsRequest.result as ChatSearchDocument[]) {
+        if (chatIds.has(document.chatId)) {
+          documents.push(document);
+          chatIds.delete(document.chatId);
+        } else {
+          searchStore.delete(document.chatId);
+        }
+      }
+
+      for (const chatId of chatIds) {
+        const chatRequest = chatStore.get(chatId);
+
+        chatRequest.onsuccess = () => {
+          if (chatRequest.result) {
+            const document = createSearchDocument({
+              ...chatRequest.result,
+              messages: chatRequest.result.messages || [],
+            });
+            searchStore.put(document);
+            documents.push(document);
+          }
+        };
+      }
+    };
+
+    transaction.oncomplete = () => resolve(documents);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// what is ranked and embedded of an entry
+function getEmbeddingText(entry: Pick<SearchEntry, 'artifactTitles' | 'filePaths' | 'text'>) {
+  return [...entry.artifactTitles, ...entry.filePaths, entry.text].join('\n');
+}
+
+function createSnippet(text: string, query: string) {
+  const lowerText = text.toLowerCase();
+  const positions = tokenize(query)
+    .map((term) => lowerText.indexOf(term))
+    .filter((position) => position >= 0);
+
+  if (positions.length === 0) {
+    return text.slice(0, SNIPPET_RADIUS * 2);
+  }
+
+  const start = Math.max(0, Math.min(...positions) - SNIPPET_RADIUS);
+  const end = Math.min(text.length, start + SNIPPET_RADIUS * 2);
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+function matchesQuery(value: string, query: string) {
+  const terms = new Set(tokenize(value));
+  return tokenize(query).some((term) => terms.has(term));
+}
+
+function getTextContent(message: Message) {
+  const content = message.content as string | Array<{ type: string; text?: string }>;
+  const text = Array.isArray(content) ? content.map((part) => part.text ?? '').join('\n') : content;
+  const toolCalls = serializeActionToolCalls(message.parts);
+
+  return toolCalls ? `${text}\n${toolCalls}` : text;
+}
+
+function isHidden(message: Message) {
+  return message.annotations?.includes('hidden') ?? false;
+}
@@ -4,4 +4,7 @@ export interface Snapshot {
   chatIndex: string;
   files: FileMap;
   summary?: string;
+
+  /** id of the last message covered by the summary */
+  summaryChatId?: string;
 }
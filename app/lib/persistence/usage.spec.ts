@@ -0,0 +1,66 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { collectUsageRecords, summarizeUsage, usageRecordsToCsv } from './usage';
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+const messages: Message[] = [
+  { id: '1', role: 'user', content: '[Model: gpt-4o]\n\n[Provider: OpenAI]\n\nBuild a todo app' },
+  {
+    id: '2',
+    role: 'assistant',
+    content: 'Sure',
+    createdAt: new Date('2025-05-01T10:00:00Z'),
+    annotations: [
+      {
+        type: 'usage',
+        value: usage(3000, 1100),
+        entries: [
+          { stage: 'summary', provider: 'OpenAI', model: 'gpt-4o', ...usage(1000, 100) },
+          { stage: 'response', provider: 'Anthropic', model: 'claude-3-haiku', ...usage(2000, 1000) },
+        ],
+      },
+    ],
+  },
+  { id: '3', role: 'user', content: '[Model: gpt-4o]\n\n[Provider: OpenAI]\n\nAdd a button' },
+  {
+    id: '4',
+    role: 'assistant',
+    content: 'Done',
+    createdAt: new Date('2025-05-02T10:00:00Z'),
+    annotations: [{ type: 'usage', value: usage(1_000_000, 0) }],
+  },
+];
+
+const chats = [{ id: 'chat-1', description: 'Todo, app', timestamp: '2025-05-01T09:00:00Z', messages }];
+
+const getPrice = (provider: string) => (provider === 'OpenAI' ? { input: 2.5, output: 10 } : undefined);
+
+describe('collectUsageRecords', () => {
+  it('should read the entries and fall back to the model of the request for older messages', () => {
+    expect(collectUsageRecords(chats).map(({ stage, provider, model, day }) => [stage, provider, model, day])).toEqual([
+      ['summary', 'OpenAI', 'gpt-4o', '2025-05-01'],
+      ['response', 'Anthropic', 'claude-3-haiku', '2025-05-01'],
+      ['response', 'OpenAI', 'gpt-4o', '2025-05-02'],
+    ]);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('should add up tokens and cost per group', () => {
+    const records = collectUsageRecords(chats);
+
+    expect(summarizeUsage(records, 'provider', getPrice)).toMatchObject([
+      { key: 'OpenAI', totalTokens: 1_001_100, cost: 2.5 + 0.0035 },
+      { key: 'Anthropic', totalTokens: 3000, cost: undefined },
+    ]);
+    expect(summarizeUsage(records, 'day', getPrice).map((total) => total.key)).toEqual(['2025-05-02', '2025-05-01']);
+    expect(usageRecordsToCsv(records, getPrice).split('\n')[1]).toBe(
+      '2025-05-01,chat-1,"Todo, app",2,summary,OpenAI,gpt-4o,1000,100,1100,0.003500',
+    );
+  });
+});
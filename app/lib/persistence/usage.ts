@@ -0,0 +1,175 @@
+import type { Message } from 'ai';
+import type { ModelPricing } from '~/lib/modules/llm/types';
+import type { ProviderAnnotation, TokenUsage, UsageAnnotation, UsageEntry } from '~/types/context';
+import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+
+export const UNKNOWN_USAGE_SOURCE = 'unknown';
+
+/**
+ * One model call of a response, as saved in the usage annotation of the assistant message.
+ */
+export interface UsageRecord extends UsageEntry {
+  chatId: string;
+  chatDescription?: string;
+  messageId: string;
+
+  // YYYY-MM-DD in UTC
+  day: string;
+}
+
+export interface UsageTotals extends TokenUsage {
+  // undefined when the price of a model in the group is unknown
+  cost: number | undefined;
+}
+
+export type UsageGroup = 'chat' | 'provider' | 'model' | 'day';
+
+export type PriceLookup = (provider: string, model: string) => ModelPricing | undefined;
+
+export function getPriceKey(provider: string, model: string) {
+  return `${provider}/${model}`;
+}
+
+function findAnnotation<T extends { type: string }>(message: Message, type: T['type']) {
+  return message.annotations?.find(
+    (annotation) => !!annotation && typeof annotation === 'object' && (annotation as { type?: string }).type === type,
+  ) as T | undefined;
+}
+
+export function collectUsageRecords(
+  chats: { id: string; description?: string; timestamp: string; messages: Message[] }[],
+): UsageRecord[] {
+  const records: UsageRecord[] = [];
+
+  for (const chat of chats) {
+    let lastUserContent = '';
+
+    for (const message of chat.messages) {
+      if (message.role === 'user') {
+        lastUserContent = typeof message.content === 'string' ? message.content : '';
+        continue;
+      }
+
+      const usage = findAnnotation<UsageAnnotation>(message, 'usage');
+
+      if (message.role !== 'assistant' || !usage?.value) {
+        continue;
+      }
+
+      const day = new Date(message.createdAt ?? chat.timestamp).toISOString().slice(0, 10);
+      const base = { chatId: chat.id, chatDescription: chat.description, messageId: message.id, day };
+
+      if (usage.entries?.length) {
+        records.push(...usage.entries.map((entry) => ({ ...base, ...entry })));
+        continue;
+      }
+
+      // messages saved before usage was broken down only know the model that answered
+      const provider = findAnnotation<ProviderAnnotation>(message, 'provider');
+
+      records.push({
+        ...base,
+        stage: 'response',
+        provider: provider?.provider ?? lastUserContent.match(PROVIDER_REGEX)?.[1] ?? UNKNOWN_USAGE_SOURCE,
+        model: provider?.model ?? lastUserContent.match(MODEL_REGEX)?.[1] ?? UNKNOWN_USAGE_SOURCE,
+        promptTokens: usage.value.promptTokens || 0,
+        completionTokens: usage.value.completionTokens || 0,
+        totalTokens: usage.value.totalTokens || 0,
+      });
+    }
+  }
+
+  return records;
+}
+
+export function getUsageCost(usage: TokenUsage, pricing?: ModelPricing) {
+  if (!pricing) {
+    return undefined;
+  }
+
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+export function sumUsage(records: UsageRecord[], getPrice: PriceLookup): UsageTotals {
+  return records.reduce<UsageTotals>(
+    (total, record) => {
+      const cost = getUsageCost(record, getPrice(record.provider, record.model));
+
+      return {
+        promptTokens: total.promptTokens + record.promptTokens,
+        completionTokens: total.completionTokens + record.completionTokens,
+        totalTokens: total.totalTokens + record.totalTokens,
+        cost: total.cost === undefined || cost === undefined ? undefined : total.cost + cost,
+      };
+    },
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 },
+  );
+}
+
+const getGroupKey: Record<UsageGroup, (record: UsageRecord) => string> = {
+  chat: (record) => record.chatId,
+  provider: (record) => record.provider,
+  model: (record) => getPriceKey(record.provider, record.model),
+  day: (record) => record.day,
+};
+
+/**
+ * Adds up the records by chat, provider, model or day, the most expensive first.
+ */
+export function summarizeUsage(records: UsageRecord[], group: UsageGroup, getPrice: PriceLookup) {
+  const groups = new Map<string, UsageRecord[]>();
+
+  for (const record of records) {
+    const key = getGroupKey[group](record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  const totals = [...groups.entries()].map(([key, groupRecords]) => ({
+    key,
+    label: group === 'chat' ? groupRecords[0].chatDescription || key : key,
+    ...sumUsage(groupRecords, getPrice),
+  }));
+
+  // days read best in order, latest first
+  return totals.sort((a, b) =>
+    group === 'day' ? b.key.localeCompare(a.key) : (b.cost ?? 0) - (a.cost ?? 0) || b.totalTokens - a.totalTokens,
+  );
+}
+
+function escapeCsvValue(value: string | number | undefined) {
+  const text = value === undefined ? '' : String(value);
+
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function usageRecordsToCsv(records: UsageRecord[], getPrice: PriceLookup) {
+  const header = [
+    'day',
+    'chat_id',
+    'chat',
+    'message_id',
+    'stage',
+    'provider',
+    'model',
+    'prompt_tokens',
+    'completion_tokens',
+    'total_tokens',
+    'cost_usd',
+  ];
+
+  const rows = records.map((record) => [
+    record.day,
+    record.chatId,
+    record.chatDescription,
+    record.messageId,
+    record.stage,
+    record.provider,
+    record.model,
+    record.promptTokens,
+    record.completionTokens,
+    record.totalTokens,
+    getUsageCost(record, getPrice(record.provider, record.model))?.toFixed(6),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\n');
+}
@@ -5,23 +5,16 @@ import { generateId, type JSONValue, type Message } from 'ai';
 import { toast } from 'react-toastify';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { logStore } from '~/lib/stores/logs'; // Import logStore
-import {
-  getMessages,
-  getNextId,
-  getUrlId,
-  openDatabase,
-  setMessages,
-  duplicateChat,
-  createChatFromMessages,
-  getSnapshot,
-  setSnapshot,
-  type IChatMetadata,
-} from './db';
+import { openDatabase, type IChatMetadata } from './db';
+import { IndexedDBChatStorage, RemoteChatStorage, type ChatStorage } from './chatStorage';
+import { chatStorageBackendStore } from '~/lib/stores/settings';
+import { saveMessageSnapshot } from './messageSnapshots';
 import type { FileMap } from '~/lib/stores/files';
 import type { Snapshot } from './types';
 import { webcontainer } from '~/lib/webcontainer';
 import { detectProjectCommands, createCommandActionsString } from '~/utils/projectCommands';
 import type { ContextAnnotation } from '~/types/context';
+import { planStore, restorePlans, type PlanState } from '~/lib/stores/plan';
 
 export interface ChatHistoryItem {
   id: string;
@@ -36,9 +29,91 @@ const persistenceEnabled = !import.meta.env.VITE_DISABLE_PERSISTENCE;
 
 export const db = persistenceEnabled ? await openDatabase() : undefined;
 
+export const chatStorage: ChatStorage | undefined = !persistenceEnabled
+  ? undefined
+  : chatStorageBackendStore.get() === 'filesystem'
+    ? new RemoteChatStorage()
+    : db && new IndexedDBChatStorage(db);
+
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const chatMetadata = atom<IChatMetadata | undefined>(undefined);
+
+// writes of the current chat run one after the other so a metadata update never stores messages that are outdated
+let chatWrites: Promise<unknown> = Promise.resolve();
+
+function queueChatWrite<T>(write: () => Promise<T>): Promise<T> {
+  const queued = chatWrites.then(write);
+  chatWrites = queued.catch(() => undefined);
+
+  return queued;
+}
+
+/*
+ * message snapshots are saved one after the other, so each knows the blobs the previous one wrote. The first one of
+ * a session drops the blobs no snapshot refers to anymore.
+ */
+let messageSnapshotWrites: Promise<unknown> | undefined;
+
+// the assistant messages of this session whose files were snapshotted
+const snapshottedMessages = new Set<string>();
+
+function queueMessageSnapshot<T>(storage: ChatStorage, save: () => Promise<T>): Promise<T> {
+  messageSnapshotWrites ??= storage.pruneFileBlobs().catch((error) => console.error('Failed to prune blobs:', error));
+
+  const queued = messageSnapshotWrites.then(save);
+  messageSnapshotWrites = queued.catch(() => undefined);
+
+  return queued;
+}
+
+async function savePlans(plans: Record<string, PlanState>) {
+  const metadata = chatMetadata.get();
+
+  if (JSON.stringify(plans) === JSON.stringify(metadata?.plans ?? {})) {
+    return;
+  }
+
+  // a chat that is not stored yet gets the plans with its first messages
+  chatMetadata.set({ ...metadata, plans });
+
+  const id = chatId.get();
+
+  if (!id || !chatStorage) {
+    return;
+  }
+
+  try {
+    await queueChatWrite(() => chatStorage!.updateChatMetadata(id, chatMetadata.get()));
+  } catch (error) {
+    console.error('Failed to save the plan:', error);
+  }
+}
+
+/**
+ * Record files changed outside of a response, such as by a pull, as the latest snapshot of the current chat so
+ * they are restored with it and show up in the timeline
+ * @param title Title of the timeline entry
+ */
+export async function recordFilesSnapshot(title: string, files: FileMap) {
+  const id = chatId.get();
+
+  if (!id || !chatStorage) {
+    return;
+  }
+
+  const [{ messages }, snapshot] = await Promise.all([chatStorage.getMessages(id), chatStorage.getSnapshot(id)]);
+  const lastMessage = messages.at(-1);
+
+  if (!lastMessage) {
+    return;
+  }
+
+  await chatStorage.setSnapshot(id, { ...snapshot, chatIndex: lastMessage.id, files });
+  await queueMessageSnapshot(chatStorage, () =>
+    saveMessageSnapshot(chatStorage!, id, { id: generateId(), role: 'assistant', content: title }, files),
+  );
+}
 export function useChatHistory() {
   const navigate = useNavigate();
   const { id: mixedId } = useLoaderData<{ id?: string }>();
@@ -50,7 +125,7 @@ export function useChatHistory() {
   const [urlId, setUrlId] = useState<string | undefined>();
 
   useEffect(() => {
-    if (!db) {
+    if (!chatStorage) {
       setReady(true);
 
       if (persistenceEnabled) {
@@ -64,8 +139,8 @@ export function useChatHistory() {
 
     if (mixedId) {
       Promise.all([
-        getMessages(db, mixedId),
-        getSnapshot(db, mixedId), // Fetch snapshot from DB
+        chatStorage.getMessages(mixedId),
+        chatStorage.getSnapshot(mixedId), // Fetch snapshot from DB
       ])
         .then(async ([storedMessages, snapshot]) => {
           if (storedMessages && storedMessages.messages.length > 0) {
@@ -74,7 +149,7 @@ export function useChatHistory() {
              * const snapshot: Snapshot = snapshotStr ? JSON.parse(snapshotStr) : { chatIndex: 0, files: {} }; // Use snapshot from DB
              */
             const validSnapshot = snapshot || { chatIndex: '', files: {} }; // Ensure snapshot is not undefined
-            const summary = validSnapshot.summary;
+            let summary = validSnapshot.summary;
 
             const rewindId = searchParams.get('rewindTo');
             let startingIdx = -1;
@@ -91,6 +166,14 @@ export function useChatHistory() {
               startingIdx = -1;
             }
 
+            // a summary that covers messages after the rewind point can't be reused
+            if (
+              validSnapshot.summaryChatId &&
+              storedMessages.messages.findIndex((m) => m.id === validSnapshot.summaryChatId) >= endingIdx
+            ) {
+              summary = undefined;
+            }
+
             let filteredMessages = storedMessages.messages.slice(startingIdx + 1, endingIdx);
             let archivedMessages: Message[] = [];
 
@@ -150,10 +233,10 @@ ${value.content}
                   `, // Added commandActionsString, followupMessage, updated id and title
                   annotations: [
                     'no-store',
-                    ...(summary
+                    ...(summary && validSnapshot.summaryChatId
                       ? [
                           {
-                            chatId: storedMessages.messages[snapshotIndex].id,
+                            chatId: validSnapshot.summaryChatId,
                             type: 'chatSummary',
                             summary,
                           } satisfies ContextAnnotation,
@@ -179,6 +262,7 @@ ${value.content}
             description.set(storedMessages.description);
             chatId.set(storedMessages.id);
             chatMetadata.set(storedMessages.metadata);
+            restorePlans(storedMessages.metadata?.plans);
           } else {
             navigate('/', { replace: true });
           }
@@ -195,31 +279,39 @@ ${value.content}
       // Handle case where there is no mixedId (e.g., new chat)
       setReady(true);
     }
-  }, [mixedId, db, navigate, searchParams]); // Added db, navigate, searchParams dependencies
+  }, [mixedId, chatStorage, navigate, searchParams]); // Added chatStorage, navigate, searchParams dependencies
+
+  useEffect(() => planStore.listen((plans) => savePlans(plans)), []);
 
   const takeSnapshot = useCallback(
-    async (chatIdx: string, files: FileMap, _chatId?: string | undefined, chatSummary?: string) => {
+    async (
+      chatIdx: string,
+      files: FileMap,
+      _chatId?: string | undefined,
+      chatSummary?: Extract<ContextAnnotation, { type: 'chatSummary' }>,
+    ) => {
       const id = chatId.get();
 
-      if (!id || !db) {
+      if (!id || !chatStorage) {
         return;
       }
 
       const snapshot: Snapshot = {
         chatIndex: chatIdx,
         files,
-        summary: chatSummary,
+        summary: chatSummary?.summary,
+        summaryChatId: chatSummary?.chatId,
       };
 
       // localStorage.setItem(`snapshot:${id}`, JSON.stringify(snapshot)); // Remove localStorage usage
       try {
-        await setSnapshot(db, id, snapshot);
+        await chatStorage.setSnapshot(id, snapshot);
       } catch (error) {
         console.error('Failed to save snapshot:', error);
         toast.error('Failed to save chat snapshot.');
       }
     },
-    [db],
+    [chatStorage],
   );
 
   const restoreSnapshot = useCallback(async (id: string, snapshot?: Snapshot) => {
@@ -261,20 +353,24 @@ ${value.content}
     updateChatMestaData: async (metadata: IChatMetadata) => {
       const id = chatId.get();
 
-      if (!db || !id) {
+      if (!chatStorage || !id) {
         return;
       }
 
       try {
-        await setMessages(db, id, initialMessages, urlId, description.get(), undefined, metadata);
+        // the initial messages are stale once the chat went on
+        await queueChatWrite(async () => {
+          const { messages } = await chatStorage!.getMessages(id);
+          await chatStorage!.setMessages(id, messages, urlId, description.get(), undefined, metadata);
+        });
         chatMetadata.set(metadata);
       } catch (error) {
         toast.error('Failed to update chat metadata');
         console.error(error);
       }
     },
-    storeMessageHistory: async (messages: Message[]) => {
-      if (!db || messages.length === 0) {
+    storeMessageHistory: async (messages: Message[], isLoading = false) => {
+      if (!chatStorage || messages.length === 0) {
         return;
       }
 
@@ -284,25 +380,25 @@ ${value.content}
       let _urlId = urlId;
 
       if (!urlId && firstArtifact?.id) {
-        const urlId = await getUrlId(db, firstArtifact.id);
+        const urlId = await chatStorage.getUrlId(firstArtifact.id);
         _urlId = urlId;
         navigateChat(urlId);
         setUrlId(urlId);
       }
 
-      let chatSummary: string | undefined = undefined;
-      const lastMessage = messages[messages.length - 1];
-
-      if (lastMessage.role === 'assistant') {
-        const annotations = lastMessage.annotations as JSONValue[];
-        const filteredAnnotations = (annotations?.filter(
-          (annotation: JSONValue) =>
-            annotation && typeof annotation === 'object' && Object.keys(annotation).includes('type'),
-        ) || []) as { type: string; value: any } & { [key: string]: any }[];
+      // keep the latest summary even if the last requests were made without context optimization
+      let chatSummary: Extract<ContextAnnotation, { type: 'chatSummary' }> | undefined = undefined;
 
-        if (filteredAnnotations.find((annotation) => annotation.type === 'chatSummary')) {
-          chatSummary = filteredAnnotations.find((annotation) => annotation.type === 'chatSummary')?.summary;
+      for (let i = messages.length - 1; i >= 0 && !chatSummary; i--) {
+        if (messages[i].role !== 'assistant') {
+          continue;
         }
+
+        const annotations = messages[i].annotations as JSONValue[];
+        chatSummary = annotations?.find(
+          (annotation: JSONValue) =>
+            !!annotation && typeof annotation === 'object' && (annotation as ContextAnnotation).type === 'chatSummary',
+        ) as Extract<ContextAnnotation, { type: 'chatSummary' }> | undefined;
       }
 
       takeSnapshot(messages[messages.length - 1].id, workbenchStore.files.get(), _urlId, chatSummary);
@@ -313,7 +409,7 @@ ${value.content}
 
       // Ensure chatId.get() is used here as well
       if (initialMessages.length === 0 && !chatId.get()) {
-        const nextId = await getNextId(db);
+        const nextId = await chatStorage.getNextId();
 
         chatId.set(nextId);
 
@@ -332,23 +428,35 @@ ${value.content}
         return;
       }
 
-      await setMessages(
-        db,
-        finalChatId, // Use the potentially updated chatId
-        [...archivedMessages, ...messages],
-        urlId,
-        description.get(),
-        undefined,
-        chatMetadata.get(),
+      await queueChatWrite(() =>
+        chatStorage!.setMessages(
+          finalChatId, // Use the potentially updated chatId
+          [...archivedMessages, ...messages],
+          urlId,
+          description.get(),
+          undefined,
+          chatMetadata.get(),
+        ),
       );
+
+      const lastMessage = messages[messages.length - 1];
+
+      // the files are snapshotted once per response, when the actions it started are done
+      if (!isLoading && lastMessage.role === 'assistant' && !snapshottedMessages.has(lastMessage.id)) {
+        snapshottedMessages.add(lastMessage.id);
+        queueMessageSnapshot(chatStorage, async () => {
+          await workbenchStore.waitForActions();
+          await saveMessageSnapshot(chatStorage!, finalChatId, lastMessage, workbenchStore.files.get());
+        }).catch((error) => console.error('Failed to save message snapshot:', error));
+      }
     },
     duplicateCurrentChat: async (listItemId: string) => {
-      if (!db || (!mixedId && !listItemId)) {
+      if (!chatStorage || (!mixedId && !listItemId)) {
         return;
       }
 
       try {
-        const newId = await duplicateChat(db, mixedId || listItemId);
+        const newId = await chatStorage.duplicateChat(mixedId || listItemId);
         navigate(`/chat/${newId}`);
         toast.success('Chat duplicated successfully');
       } catch (error) {
@@ -357,12 +465,12 @@ ${value.content}
       }
     },
     importChat: async (description: string, messages: Message[], metadata?: IChatMetadata) => {
-      if (!db) {
+      if (!chatStorage) {
         return;
       }
 
       try {
-        const newId = await createChatFromMessages(db, description, messages, metadata);
+        const newId = await chatStorage.createChatFromMessages(description, messages, metadata);
         window.location.href = `/chat/${newId}`;
         toast.success('Chat imported successfully');
       } catch (error) {
@@ -374,11 +482,11 @@ ${value.content}
       }
     },
     exportChat: async (id = urlId) => {
-      if (!db || !id) {
+      if (!chatStorage || !id) {
         return;
       }
 
-      const chat = await getMessages(db, id);
+      const chat = await chatStorage.getMessages(id);
       const chatData = {
         messages: chat.messages,
         description: chat.description,
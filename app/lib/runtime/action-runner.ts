@@ -4,18 +4,31 @@ import { atom, map, type MapStore } from 'nanostores';
 import type { ActionAlert, BoltAction, DeployAlert, FileHistory, SupabaseAction, SupabaseAlert } from '~/types/actions';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
+import { applyEditPatch, PatchConflictError } from '~/utils/patch';
+import { ActionScheduler } from './action-scheduler';
 import type { ActionCallbackData } from './message-parser';
 import type { BoltShell } from '~/utils/shell';
+import { commandPolicyStore } from '~/lib/stores/settings';
+import { logStore } from '~/lib/stores/logs';
+import { addRejectedAction } from '~/lib/stores/rejected-actions';
+import { isFileLocked } from '~/utils/fileLocks';
+import { evaluateCommandPolicy } from './command-policy';
 
 const logger = createScopedLogger('ActionRunner');
 
-export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
+/**
+ * `awaiting-approval` holds a command that matched an `ask` rule of the command policy until the user decides.
+ */
+export type ActionStatus = 'pending' | 'running' | 'awaiting-approval' | 'complete' | 'aborted' | 'failed';
 
 export type BaseActionState = BoltAction & {
   status: Exclude<ActionStatus, 'failed'>;
   abort: () => void;
   executed: boolean;
   abortSignal: AbortSignal;
+
+  // why the command waits for approval
+  approvalReason?: string;
 };
 
 export type FailedActionState = BoltAction &
@@ -26,11 +39,10 @@ export type FailedActionState = BoltAction &
 
 export type ActionState = BaseActionState | FailedActionState;
 
-type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed'>>;
+type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed' | 'approvalReason'>>;
 
 export type ActionStateUpdate =
-  | BaseActionUpdate
-  | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string });
+  BaseActionUpdate | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string });
 
 type ActionsMap = MapStore<Record<string, ActionState>>;
 
@@ -63,9 +75,17 @@ class ActionCommandError extends Error {
   }
 }
 
+// a command denied by the policy or a write to a locked file, the message is shown with the action
+class ActionRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActionRejectedError';
+  }
+}
+
 export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
-  #currentExecutionPromise: Promise<void> = Promise.resolve();
+  #scheduler = new ActionScheduler();
   #shellTerminal: () => BoltShell;
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
@@ -73,6 +93,7 @@ export class ActionRunner {
   onSupabaseAlert?: (alert: SupabaseAlert) => void;
   onDeployAlert?: (alert: DeployAlert) => void;
   buildOutput?: { path: string; exitCode: number; output: string };
+  #approvals = new Map<string, (approved: boolean) => void>();
 
   constructor(
     webcontainerPromise: Promise<WebContainer>,
@@ -111,10 +132,21 @@ export class ActionRunner {
       },
       abortSignal: abortController.signal,
     });
+  }
 
-    this.#currentExecutionPromise.then(() => {
-      this.#updateAction(actionId, { status: 'running' });
-    });
+  /**
+   * No more actions are added to the artifact, its start actions can run once the others are done
+   */
+  close() {
+    this.#scheduler.close();
+  }
+
+  approveAction(actionId: string) {
+    this.#approvals.get(actionId)?.(true);
+  }
+
+  denyAction(actionId: string) {
+    this.#approvals.get(actionId)?.(false);
   }
 
   async runAction(data: ActionCallbackData, isStreaming: boolean = false) {
@@ -135,16 +167,12 @@ export class ActionRunner {
 
     this.#updateAction(actionId, { ...action, ...data.action, executed: !isStreaming });
 
-    this.#currentExecutionPromise = this.#currentExecutionPromise
-      .then(() => {
-        return this.#executeAction(actionId, isStreaming);
-      })
+    await this.#scheduler
+      .schedule(actionId, data.action, () => this.#executeAction(actionId, isStreaming))
       .catch((error) => {
         console.error('Action failed:', error);
       });
 
-    await this.#currentExecutionPromise;
-
     return;
   }
 
@@ -156,13 +184,46 @@ export class ActionRunner {
     try {
       switch (action.type) {
         case 'shell': {
+          await this.#checkCommandPolicy(actionId, action);
           await this.#runShellAction(action);
           break;
         }
         case 'file': {
+          await this.#checkFileLock(action);
           await this.#runFileAction(action);
           break;
         }
+        case 'edit': {
+          await this.#checkFileLock(action);
+
+          try {
+            await this.#runEditAction(action);
+          } catch (error) {
+            if (!(error instanceof PatchConflictError)) {
+              throw error;
+            }
+
+            this.#updateAction(actionId, { status: 'failed', error: error.message });
+            logger.error(`[${action.type}]:Action failed\n\n`, error);
+            addRejectedAction({
+              actionType: 'edit',
+              filePath: action.filePath,
+              reason: 'conflict',
+              error: error.message,
+              content: action.content,
+            });
+
+            this.onAlert?.({
+              type: 'error',
+              title: 'Edit Failed',
+              description: `Could not apply the edit to ${action.filePath}`,
+              content: error.message,
+            });
+
+            return;
+          }
+          break;
+        }
         case 'supabase': {
           try {
             await this.handleSupabaseAction(action as SupabaseAction);
@@ -188,14 +249,18 @@ export class ActionRunner {
         case 'start': {
           // making the start app non blocking
 
-          this.#runStartAction(action)
+          this.#checkCommandPolicy(actionId, action)
+            .then(() => this.#runStartAction(action))
             .then(() => this.#updateAction(actionId, { status: 'complete' }))
             .catch((err: Error) => {
               if (action.abortSignal.aborted) {
                 return;
               }
 
-              this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
+              this.#updateAction(actionId, {
+                status: 'failed',
+                error: err instanceof ActionRejectedError ? err.message : 'Action failed',
+              });
               logger.error(`[${action.type}]:Action failed\n\n`, err);
 
               if (!(err instanceof ActionCommandError)) {
@@ -207,6 +272,7 @@ export class ActionRunner {
                 title: 'Dev Server Failed',
                 description: err.header,
                 content: err.output,
+                source: 'terminal',
               });
             });
 
@@ -228,7 +294,10 @@ export class ActionRunner {
         return;
       }
 
-      this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
+      this.#updateAction(actionId, {
+        status: 'failed',
+        error: error instanceof ActionRejectedError ? error.message : 'Action failed',
+      });
       logger.error(`[${action.type}]:Action failed\n\n`, error);
 
       if (!(error instanceof ActionCommandError)) {
@@ -240,6 +309,7 @@ export class ActionRunner {
         title: 'Dev Server Failed',
         description: error.header,
         content: error.output,
+        source: 'terminal',
       });
 
       // re-throw the error to be caught in the promise chain
@@ -299,6 +369,76 @@ export class ActionRunner {
     return resp;
   }
 
+  /**
+   * Resolves once the command may run and throws a `ActionRejectedError` when it may not.
+   */
+  async #checkCommandPolicy(actionId: string, action: ActionState) {
+    const { decision, command, rule } = evaluateCommandPolicy(action.content, commandPolicyStore.get());
+    const details = { command: action.content, matched: command, rule: rule?.pattern, decision };
+
+    if (decision === 'allow') {
+      logStore.logSystem('Command allowed by policy', details);
+      return;
+    }
+
+    const reason = rule?.description || (rule ? `Matches ${rule.pattern}` : 'No rule allows this command');
+
+    if (decision === 'deny') {
+      logStore.logWarning('Command denied by policy', details);
+      throw new ActionRejectedError(`Denied by the command policy: ${reason}`);
+    }
+
+    logStore.logWarning('Command waiting for approval', details);
+    this.#updateAction(actionId, { status: 'awaiting-approval', approvalReason: reason });
+
+    const approved = await new Promise<boolean>((resolve) => {
+      this.#approvals.set(actionId, resolve);
+      action.abortSignal.addEventListener('abort', () => resolve(false), { once: true });
+    });
+
+    this.#approvals.delete(actionId);
+    logStore.logUserAction(`Command ${approved ? 'approved' : 'denied'}`, details);
+
+    if (!approved) {
+      throw new ActionRejectedError('Denied by the user');
+    }
+
+    this.#updateAction(actionId, { status: 'running', approvalReason: undefined });
+  }
+
+  /**
+   * Throws an `ActionRejectedError` for writes to locked files and records them for the next request.
+   */
+  async #checkFileLock(action: ActionState) {
+    if (action.type !== 'file' && action.type !== 'edit') {
+      unreachable('Expected file or edit action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const { locked, lockedBy } = isFileLocked(nodePath.join(webcontainer.workdir, action.filePath));
+
+    if (!locked) {
+      return;
+    }
+
+    const relativeLock = lockedBy?.startsWith(`${webcontainer.workdir}/`)
+      ? nodePath.relative(webcontainer.workdir, lockedBy)
+      : lockedBy || action.filePath;
+
+    const rejected = {
+      actionType: action.type,
+      filePath: action.filePath,
+      reason: 'locked',
+      lockedBy: relativeLock,
+    } as const;
+
+    if (addRejectedAction(rejected)) {
+      logStore.logWarning('Change to a locked file rejected', rejected);
+    }
+
+    throw new ActionRejectedError(`Not applied, ${action.filePath} is locked`);
+  }
+
   async #runFileAction(action: ActionState) {
     if (action.type !== 'file') {
       unreachable('Expected file action');
@@ -329,6 +469,48 @@ export class ActionRunner {
     }
   }
 
+  /**
+   * Paths, relative to the working directory, of every file written by this runner's actions
+   */
+  getTouchedFiles() {
+    const filePaths = new Set<string>();
+
+    for (const action of Object.values(this.actions.get())) {
+      if ((action.type === 'file' || action.type === 'edit' || action.type === 'supabase') && action.filePath) {
+        filePaths.add(action.filePath);
+      }
+    }
+
+    return [...filePaths];
+  }
+
+  /**
+   * Applies a patch to the current content of a file. The WebContainer file system is the
+   * state `FilesStore` mirrors, and reading it here also picks up writes from earlier actions
+   * that the file watcher has not reported yet.
+   */
+  async #runEditAction(action: ActionState) {
+    if (action.type !== 'edit') {
+      unreachable('Expected edit action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+
+    let currentContent: string;
+
+    try {
+      currentContent = await webcontainer.fs.readFile(relativePath, 'utf-8');
+    } catch {
+      throw new PatchConflictError(action.filePath, 'the file does not exist, use a file action to create it');
+    }
+
+    const content = applyEditPatch(action.filePath, currentContent, action.content);
+
+    await webcontainer.fs.writeFile(relativePath, content);
+    logger.debug(`File edited ${relativePath}`);
+  }
+
   #updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActionScheduler } from './action-scheduler';
+import { StreamingMessageParser, type ActionCallbackData } from './message-parser';
+
+const DURATIONS = {
+  file: 10,
+  edit: 10,
+  shell: 50,
+  build: 50,
+  start: 5,
+  supabase: 20,
+};
+
+describe('ActionScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should write files concurrently before running a shell barrier', async () => {
+    const result = await runArtifact(
+      '<boltArtifact title="Some title" id="artifact_1">' +
+        '<boltAction type="file" filePath="package.json">{}</boltAction>' +
+        '<boltAction type="file" filePath="index.js">foo</boltAction>' +
+        '<boltAction type="file" filePath="style.css">bar</boltAction>' +
+        '<boltAction type="shell">npm install</boltAction>' +
+        '</boltArtifact>',
+    );
+
+    expect(result).toMatchSnapshot();
+  });
+
+  it('should wait for a shell barrier before writing the files after it', async () => {
+    const result = await runArtifact(
+      '<boltArtifact title="Some title" id="artifact_1">' +
+        '<boltAction type="file" filePath="package.json">{}</boltAction>' +
+        '<boltAction type="shell">npm install</boltAction>' +
+        '<boltAction type="file" filePath="index.js">foo</boltAction>' +
+        '<boltAction type="file" filePath="style.css">bar</boltAction>' +
+        '<boltAction type="build">npm run build</boltAction>' +
+        '</boltArtifact>',
+    );
+
+    expect(result).toMatchSnapshot();
+  });
+
+  it('should run start actions after all other actions of the artifact', async () => {
+    const result = await runArtifact(
+      '<boltArtifact title="Some title" id="artifact_1">' +
+        '<boltAction type="file" filePath="index.js">foo</boltAction>' +
+        '<boltAction type="shell">npm install</boltAction>' +
+        '<boltAction type="start">npm run dev</boltAction>' +
+        '<boltAction type="file" filePath="README.md">baz</boltAction>' +
+        '<boltAction type="start">npm run preview</boltAction>' +
+        '</boltArtifact>',
+    );
+
+    expect(result).toMatchSnapshot();
+  });
+
+  it('should keep writes to the same file in order', async () => {
+    const result = await runArtifact(
+      '<boltArtifact title="Some title" id="artifact_1">' +
+        '<boltAction type="file" filePath="index.js">foo</boltAction>' +
+        '<boltAction type="file" filePath="style.css">bar</boltAction>' +
+        '<boltAction type="file" filePath="index.js">foo bar</boltAction>' +
+        '</boltArtifact>',
+    );
+
+    expect(result).toMatchSnapshot();
+  });
+
+  it('should run dependents of a failed action', async () => {
+    const scheduler = new ActionScheduler();
+    const events: string[] = [];
+
+    const failed = scheduler.schedule('0', { type: 'shell', content: 'npm install' }, async () => {
+      events.push('start 0');
+      throw new Error('npm install failed');
+    });
+    const next = scheduler.schedule('1', { type: 'file', filePath: 'index.js', content: 'foo' }, async () => {
+      events.push('start 1');
+    });
+
+    await expect(failed).rejects.toThrow('npm install failed');
+    await next;
+
+    expect(events).toEqual(['start 0', 'start 1']);
+    expect(scheduler.getDependencies('1')).toEqual(['0']);
+  });
+});
+
+async function runArtifact(input: string) {
+  const actions: ActionCallbackData[] = [];
+
+  const parser = new StreamingMessageParser({
+    artifactElement: () => '',
+    callbacks: {
+      onActionOpen: vi.fn(),
+      onActionClose: (data) => actions.push(data),
+    },
+  });
+
+  parser.parse('message_1', input);
+
+  const scheduler = new ActionScheduler();
+  const events: string[] = [];
+
+  const promises = actions.map(({ actionId, action }) => {
+    const label = `${actionId}:${action.type}${action.type === 'file' ? `:${action.filePath}` : ''}`;
+
+    return scheduler.schedule(actionId, action, async () => {
+      events.push(`start ${label}`);
+      await new Promise((resolve) => setTimeout(resolve, DURATIONS[action.type]));
+      events.push(`end ${label}`);
+    });
+  });
+
+  scheduler.close();
+
+  await vi.runAllTimersAsync();
+  await Promise.all(promises);
+
+  return {
+    events,
+    dependencies: Object.fromEntries(actions.map(({ actionId }) => [actionId, scheduler.getDependencies(actionId)])),
+  };
+}
@@ -0,0 +1,158 @@
+import type { BoltAction } from '~/types/actions';
+
+type ActionTask = () => Promise<void>;
+
+export interface ScheduledAction {
+  actionId: string;
+  dependencies: string[];
+  promise: Promise<void>;
+}
+
+/**
+ * Schedules the actions of an artifact based on a dependency graph instead of a single serial chain.
+ *
+ * - file and edit actions run concurrently with each other, but writes to the same path stay ordered
+ * - shell, build and supabase actions are barriers: they wait for everything before them
+ *   and everything after them waits for them
+ * - start actions run last: once the artifact is closed, they wait for all its other actions and the start
+ *   actions before them, and nothing waits for them
+ *
+ * A failed action does not prevent its dependents from running, the same way the serial chain behaved.
+ */
+export class ActionScheduler {
+  #nodes = new Map<string, ScheduledAction>();
+  #lastBarrier?: string;
+  #sinceBarrier = new Set<string>();
+  #lastWriteByPath = new Map<string, string>();
+  #startActions = new Set<string>();
+  #closed: Promise<void>;
+  #resolveClosed!: () => void;
+
+  constructor() {
+    this.#closed = new Promise((resolve) => {
+      this.#resolveClosed = resolve;
+    });
+  }
+
+  /**
+   * Schedule an action. Scheduling the same action again (e.g. while its content is streaming)
+   * queues the task behind the previous run of that action.
+   * @param actionId Id of the action
+   * @param action The parsed action, used to determine its dependencies
+   * @param task Executes the action
+   * @returns A promise that settles once the task has run
+   */
+  schedule(actionId: string, action: BoltAction, task: ActionTask): Promise<void> {
+    const previous = this.#nodes.get(actionId);
+
+    if (action.type === 'start') {
+      return this.#scheduleStart(actionId, task, previous);
+    }
+
+    const dependencies = this.#resolveDependencies(actionId, action);
+
+    const waitFor = dependencies.map((id) => this.#nodes.get(id)!.promise);
+
+    if (previous) {
+      waitFor.push(previous.promise);
+    }
+
+    const promise = Promise.allSettled(waitFor).then(() => task());
+
+    this.#nodes.set(actionId, {
+      actionId,
+      dependencies: [...new Set([...(previous?.dependencies ?? []), ...dependencies])],
+      promise,
+    });
+
+    return promise;
+  }
+
+  /**
+   * Marks the artifact as closed, no actions other than start actions are scheduled after this.
+   * The start actions run once everything else has settled.
+   */
+  close() {
+    this.#resolveClosed();
+  }
+
+  /**
+   * Ids of the actions the given action waits for
+   */
+  getDependencies(actionId: string) {
+    return this.#nodes.get(actionId)?.dependencies ?? [];
+  }
+
+  #resolveDependencies(actionId: string, action: BoltAction) {
+    const dependencies = new Set<string>();
+
+    switch (action.type) {
+      case 'file':
+      case 'edit': {
+        if (this.#lastBarrier) {
+          dependencies.add(this.#lastBarrier);
+        }
+
+        const lastWrite = this.#lastWriteByPath.get(action.filePath);
+
+        if (lastWrite) {
+          dependencies.add(lastWrite);
+        }
+
+        this.#sinceBarrier.add(actionId);
+        this.#lastWriteByPath.set(action.filePath, actionId);
+        break;
+      }
+      case 'shell':
+      case 'build':
+      case 'supabase': {
+        if (this.#lastBarrier) {
+          dependencies.add(this.#lastBarrier);
+        }
+
+        this.#sinceBarrier.forEach((id) => dependencies.add(id));
+
+        this.#lastBarrier = actionId;
+        this.#sinceBarrier.clear();
+        this.#lastWriteByPath.clear();
+        break;
+      }
+    }
+
+    dependencies.delete(actionId);
+
+    return [...dependencies];
+  }
+
+  #scheduleStart(actionId: string, task: ActionTask, previous?: ScheduledAction): Promise<void> {
+    this.#startActions.add(actionId);
+
+    const node: ScheduledAction = { actionId, dependencies: previous?.dependencies ?? [], promise: Promise.resolve() };
+
+    node.promise = this.#closed
+      .then(() => {
+        // the other actions of the artifact are only all known once it is closed
+        node.dependencies = this.#getStartDependencies(actionId);
+
+        const waitFor = node.dependencies.map((id) => this.#nodes.get(id)!.promise);
+
+        if (previous) {
+          waitFor.push(previous.promise);
+        }
+
+        return Promise.allSettled(waitFor);
+      })
+      .then(() => task());
+
+    this.#nodes.set(actionId, node);
+
+    return node.promise;
+  }
+
+  #getStartDependencies(actionId: string) {
+    const startActions = [...this.#startActions];
+    const earlierStarts = startActions.slice(0, startActions.indexOf(actionId));
+
+    return [...this.#nodes.keys()].filter((id) => !this.#startActions.has(id) || earlierStarts.includes(id));
+  }
+}
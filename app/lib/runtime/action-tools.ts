@@ -0,0 +1,153 @@
+import { tool, type Message, type ToolSet } from 'ai';
+import { z } from 'zod';
+import type { BoltAction } from '~/types/actions';
+import type { BoltArtifactData } from '~/types/artifact';
+
+/**
+ * How the model sends actions: `xml` writes `<boltArtifact>`/`<boltAction>` tags into its response,
+ * `tools` calls the action tools below, which needs a provider with tool calling support.
+ */
+export type ActionOutputMode = 'xml' | 'tools';
+
+export const actionToolSchemas = {
+  open_artifact: z.object({
+    id: z.string().min(1).describe('Unique kebab-case id, reused when updating the same project'),
+    title: z.string().min(1).describe('Short title of the changes, e.g. "Todo App with Local Storage"'),
+  }),
+  write_file: z.object({
+    filePath: z.string().min(1).describe('Path relative to the project root'),
+    content: z.string().describe('The complete new content of the file, never a placeholder or a partial file'),
+  }),
+  edit_file: z.object({
+    filePath: z.string().min(1).describe('Path relative to the project root of an existing file'),
+    content: z.string().min(1).describe('SEARCH/REPLACE blocks or a unified diff to apply to the file'),
+  }),
+  run_shell: z.object({
+    command: z.string().min(1).describe('Shell command to run, e.g. installing dependencies'),
+  }),
+  start_server: z.object({
+    command: z.string().min(1).describe('Command that starts the dev server, only needed once per project'),
+  }),
+};
+
+export type ActionToolName = keyof typeof actionToolSchemas;
+
+const actionToolDescriptions: Record<ActionToolName, string> = {
+  open_artifact: 'Start a set of changes to the project. Call this once before any other action tool.',
+  write_file: 'Create a file or overwrite an existing one with the given content.',
+  edit_file: 'Change part of an existing file.',
+  run_shell: 'Run a shell command in the project directory and wait for it to finish.',
+  start_server: 'Start the development server.',
+};
+
+export function isActionToolName(toolName: string): toolName is ActionToolName {
+  return toolName in actionToolSchemas;
+}
+
+/**
+ * The action tools for the model. The actions are run in the browser, on the server the tools
+ * only acknowledge the call so the model can continue.
+ */
+export function createActionTools(): ToolSet {
+  return Object.fromEntries(
+    (Object.keys(actionToolSchemas) as ActionToolName[]).map((toolName) => [
+      toolName,
+      tool({
+        description: actionToolDescriptions[toolName],
+        parameters: actionToolSchemas[toolName],
+        execute: async () => "Queued, the action runs in the user's browser in the order it was called.",
+      }),
+    ]),
+  );
+}
+
+export type ParsedToolCall =
+  | { kind: 'artifact'; artifact: BoltArtifactData }
+  | { kind: 'action'; action: BoltAction }
+  | { kind: 'invalid'; error: string };
+
+const toParsedToolCall: {
+  [K in ActionToolName]: (args: z.infer<(typeof actionToolSchemas)[K]>) => ParsedToolCall;
+} = {
+  open_artifact: ({ id, title }) => ({ kind: 'artifact', artifact: { id, title } }),
+  write_file: ({ filePath, content }) => ({
+    kind: 'action',
+    action: { type: 'file', filePath, content: content.endsWith('\n') ? content : `${content}\n` },
+  }),
+  edit_file: ({ filePath, content }) => ({ kind: 'action', action: { type: 'edit', filePath, content } }),
+  run_shell: ({ command }) => ({ kind: 'action', action: { type: 'shell', content: command } }),
+  start_server: ({ command }) => ({ kind: 'action', action: { type: 'start', content: command } }),
+};
+
+/**
+ * Validates the arguments of an action tool call and turns it into the artifact or action
+ * the XML format would have produced.
+ */
+export function parseActionToolCall(toolName: ActionToolName, args: unknown): ParsedToolCall {
+  const result = actionToolSchemas[toolName].safeParse(args);
+
+  if (!result.success) {
+    return { kind: 'invalid', error: result.error.issues.map((issue) => issue.message).join(', ') };
+  }
+
+  return toParsedToolCall[toolName](result.data as never);
+}
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+function serializeAction(action: BoltAction) {
+  const filePath = 'filePath' in action && action.filePath ? ` filePath="${escapeAttribute(action.filePath)}"` : '';
+
+  return `<boltAction type="${action.type}"${filePath}>${action.content}</boltAction>`;
+}
+
+/**
+ * The action tool calls of a message as the `<boltArtifact>` the `xml` mode would have written, for the code that
+ * reads the actions of a message from its text, like the summary, the search index and the snapshot titles.
+ */
+export function serializeActionToolCalls(parts: Message['parts']) {
+  let artifact: BoltArtifactData | undefined;
+  const actions: string[] = [];
+
+  for (const part of parts ?? []) {
+    if (part.type !== 'tool-invocation' || part.toolInvocation.state === 'partial-call') {
+      continue;
+    }
+
+    const { toolName, args } = part.toolInvocation;
+
+    if (!isActionToolName(toolName)) {
+      continue;
+    }
+
+    const parsed = parseActionToolCall(toolName, args);
+
+    if (parsed.kind === 'artifact') {
+      artifact ??= parsed.artifact;
+    } else if (parsed.kind === 'action') {
+      actions.push(serializeAction(parsed.action));
+    }
+  }
+
+  if (!artifact && actions.length === 0) {
+    return '';
+  }
+
+  // the tool call parser names artifacts the same when the model skipped open_artifact
+  const { id, title } = artifact ?? { id: 'tool-calls', title: 'Project changes' };
+
+  return [
+    `<boltArtifact id="${escapeAttribute(id)}" title="${escapeAttribute(title)}">`,
+    ...actions,
+    '</boltArtifact>',
+  ].join('\n');
+}
+
+/**
+ * The text of a message followed by its serialized action tool calls
+ */
+export function getContentWithActionToolCalls(message: Pick<Message, 'content' | 'parts'>) {
+  const toolCalls = serializeActionToolCalls(message.parts);
+
+  return toolCalls ? `${message.content}\n${toolCalls}` : message.content;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CommandParseError,
+  DEFAULT_COMMAND_POLICY,
+  evaluateCommandPolicy,
+  getCommandPaths,
+  splitCommands,
+} from './command-policy';
+
+describe('splitCommands', () => {
+  it('splits chains and pipes', () => {
+    expect(splitCommands('npm install && npm run build | tee out.log; echo done')).toEqual([
+      'npm install',
+      'npm run build',
+      'tee out.log',
+      'echo done',
+    ]);
+  });
+
+  it('splits background commands and groups but not redirects', () => {
+    expect(splitCommands('npm run dev & (cd dist; rm -rf *) && npm test 2>&1 &> test.log')).toEqual([
+      'npm run dev',
+      'cd dist',
+      'rm -rf *',
+      'npm test 2>&1 &> test.log',
+    ]);
+  });
+
+  it('keeps quoted and escaped separators in their command', () => {
+    expect(splitCommands(`echo "a && b; c | d" 'e & f' \\; && ls`)).toEqual([`echo "a && b; c | d" 'e & f' \\;`, 'ls']);
+  });
+
+  it('adds the commands of substitutions and shell scripts', () => {
+    expect(splitCommands('echo "$(rm -rf /)" `git push`')).toEqual([
+      'rm -rf /',
+      'git push',
+      'echo "$(rm -rf /)" `git push`',
+    ]);
+    expect(splitCommands('echo $(cat $(ls))')).toEqual(['ls', 'cat $(ls)', 'echo $(cat $(ls))']);
+    expect(splitCommands(`sh -c 'npm ci && rm -rf ~' sh`)).toEqual([
+      `sh -c 'npm ci && rm -rf ~' sh`,
+      'npm ci',
+      'rm -rf ~',
+    ]);
+    expect(splitCommands('/bin/bash -lc "git reset --hard"')).toEqual([
+      '/bin/bash -lc "git reset --hard"',
+      'git reset --hard',
+    ]);
+    expect(splitCommands("echo '$(rm -rf /)'")).toEqual(["echo '$(rm -rf /)'"]);
+  });
+
+  it('throws on unclosed quotes and substitutions', () => {
+    expect(() => splitCommands("echo 'done")).toThrow(CommandParseError);
+    expect(() => splitCommands('echo $(ls')).toThrow(CommandParseError);
+    expect(() => splitCommands('echo `ls')).toThrow(CommandParseError);
+  });
+});
+
+describe('getCommandPaths', () => {
+  it('returns the project paths given to a command', () => {
+    expect(getCommandPaths('rm -rf ./node_modules /home/project/dist "src/app.ts" --force')).toEqual([
+      'node_modules',
+      'dist',
+      'src/app.ts',
+    ]);
+  });
+});
+
+describe('evaluateCommandPolicy', () => {
+  const decide = (command: string) => evaluateCommandPolicy(command, DEFAULT_COMMAND_POLICY).decision;
+
+  it('applies the default rules', () => {
+    expect(decide('npm install && npm run dev')).toBe('allow');
+    expect(decide('rm -rf /')).toBe('deny');
+    expect(decide('rm -rf dist')).toBe('ask');
+    expect(decide('npm ci')).toBe('ask');
+    expect(decide('git push origin main')).toBe('ask');
+    expect(decide('mv node_modules/.bin tmp')).toBe('ask');
+  });
+
+  it('checks the commands hidden in substitutions, scripts and background jobs', () => {
+    expect(decide('echo $(rm -rf /)')).toBe('deny');
+    expect(decide('echo `git push`')).toBe('ask');
+    expect(decide(`bash -c 'rm -rf ~'`)).toBe('deny');
+    expect(decide('npm run dev & git push')).toBe('ask');
+  });
+
+  it('asks for command lines it can not split', () => {
+    expect(evaluateCommandPolicy("echo 'done", DEFAULT_COMMAND_POLICY)).toEqual({
+      decision: 'ask',
+      command: "echo 'done",
+    });
+    expect(evaluateCommandPolicy("echo 'done", { defaultDecision: 'deny', rules: [] }).decision).toBe('deny');
+  });
+
+  it('uses the strictest decision of a chain and reports the command', () => {
+    expect(evaluateCommandPolicy('rm -rf dist && rm -rf ~', DEFAULT_COMMAND_POLICY)).toMatchObject({
+      decision: 'deny',
+      command: 'rm -rf ~',
+    });
+  });
+
+  it('lets the first matching rule decide', () => {
+    const policy = {
+      defaultDecision: 'ask' as const,
+      rules: [
+        { decision: 'allow' as const, target: 'command' as const, syntax: 'glob' as const, pattern: 'git status' },
+        { decision: 'deny' as const, target: 'command' as const, syntax: 'regex' as const, pattern: '^git\\s' },
+        { decision: 'deny' as const, target: 'command' as const, syntax: 'regex' as const, pattern: '(' },
+      ],
+    };
+
+    expect(evaluateCommandPolicy('git status', policy).decision).toBe('allow');
+    expect(evaluateCommandPolicy('git reset --hard', policy).decision).toBe('deny');
+    expect(evaluateCommandPolicy('ls', policy).decision).toBe('ask');
+  });
+});
@@ -0,0 +1,292 @@
+import ignore from 'ignore';
+import { WORK_DIR } from '~/utils/constants';
+
+export type CommandPolicyDecision = 'allow' | 'deny' | 'ask';
+
+export interface CommandPolicyRule {
+  decision: CommandPolicyDecision;
+
+  // `command` rules match one command of a chain, `path` rules match the paths given to it
+  target: 'command' | 'path';
+
+  // globs use `*` for any text in commands and gitignore syntax for paths
+  syntax: 'glob' | 'regex';
+  pattern: string;
+  description?: string;
+}
+
+/**
+ * The first rule that matches a command decides, commands without a matching rule get the default decision.
+ */
+export interface CommandPolicy {
+  defaultDecision: CommandPolicyDecision;
+  rules: CommandPolicyRule[];
+}
+
+export interface CommandPolicyResult {
+  decision: CommandPolicyDecision;
+
+  // the command of the chain that led to the decision
+  command?: string;
+  rule?: CommandPolicyRule;
+}
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  defaultDecision: 'allow',
+  rules: [
+    {
+      decision: 'deny',
+      target: 'command',
+      syntax: 'regex',
+      pattern: '^rm\\s+(-\\w+\\s+)*(/|~|\\*|/\\*)$',
+      description: 'Removes the root, home or every file',
+    },
+    {
+      decision: 'ask',
+      target: 'command',
+      syntax: 'regex',
+      pattern: '^rm\\s+(-\\w+\\s+)*-\\w*[rR]',
+      description: 'Removes folders recursively',
+    },
+    {
+      decision: 'ask',
+      target: 'command',
+      syntax: 'glob',
+      pattern: 'npm ci*',
+      description: 'Reinstalls and wipes node_modules',
+    },
+    {
+      decision: 'ask',
+      target: 'path',
+      syntax: 'glob',
+      pattern: 'node_modules',
+      description: 'Touches node_modules',
+    },
+    { decision: 'ask', target: 'command', syntax: 'glob', pattern: 'git *', description: 'Runs a git operation' },
+    { decision: 'ask', target: 'path', syntax: 'glob', pattern: '.git', description: 'Touches the git repository' },
+  ],
+};
+
+const DECISION_WEIGHT: Record<CommandPolicyDecision, number> = { allow: 0, ask: 1, deny: 2 };
+
+export class CommandParseError extends Error {}
+
+// `sh -c '...'`, `bash -c "..."` and `eval ...` run their argument as another command line
+const SHELL_SCRIPT_REGEX = /^(?:\S*\/)?(?:(?:ba|da|z)?sh\s+(?:-\w+\s+)*-\w*c\w*|eval)\s+([\s\S]+)$/;
+
+/**
+ * Splits a command line into its commands at `&&`, `||`, `;`, `|`, `&`, parentheses and new lines, outside of quotes.
+ * The commands of `$(...)`, backticks and shell scripts like `sh -c '...'` are added as well.
+ * @throws {CommandParseError} When a quote or a command substitution is not closed
+ */
+export function splitCommands(commandLine: string): string[] {
+  const commands: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+
+  const flush = () => {
+    const command = current.trim();
+    current = '';
+
+    if (command) {
+      commands.push(command, ...getScriptCommands(command));
+    }
+  };
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i];
+
+    if (quote === "'") {
+      current += char;
+      quote = char === "'" ? undefined : quote;
+      continue;
+    }
+
+    if (char === '\\') {
+      current += commandLine.slice(i, i + 2);
+      i++;
+      continue;
+    }
+
+    if (char === '"' || (char === "'" && !quote)) {
+      current += char;
+      quote = quote ? undefined : char;
+      continue;
+    }
+
+    // substitutions run in double quotes too
+    if (char === '`' || (char === '$' && commandLine[i + 1] === '(')) {
+      const end = findSubstitutionEnd(commandLine, i);
+
+      if (end === -1) {
+        throw new CommandParseError(`Unclosed command substitution in: ${commandLine}`);
+      }
+
+      commands.push(...splitCommands(commandLine.slice(char === '`' ? i + 1 : i + 2, end)));
+      current += commandLine.slice(i, end + 1);
+      i = end;
+      continue;
+    }
+
+    if (quote) {
+      current += char;
+      continue;
+    }
+
+    if (char === '\n' || char === ';' || char === '(' || char === ')') {
+      flush();
+      continue;
+    }
+
+    if (char === '|' || char === '&') {
+      // redirects like `2>&1` and `&>` are part of the command
+      if (char === '&' && (commandLine[i - 1] === '>' || commandLine[i - 1] === '<' || commandLine[i + 1] === '>')) {
+        current += char;
+        continue;
+      }
+
+      flush();
+
+      if (commandLine[i + 1] === char) {
+        i++;
+      }
+
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (quote) {
+    throw new CommandParseError(`Unclosed ${quote} in: ${commandLine}`);
+  }
+
+  flush();
+
+  return commands;
+}
+
+/**
+ * @param start Index of the backtick or the `$` of `$(`
+ * @returns Index of the closing backtick or parenthesis, -1 when there is none
+ */
+function findSubstitutionEnd(commandLine: string, start: number) {
+  if (commandLine[start] === '`') {
+    for (let i = start + 1; i < commandLine.length; i++) {
+      if (commandLine[i] === '\\') {
+        i++;
+      } else if (commandLine[i] === '`') {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = start + 1; i < commandLine.length; i++) {
+    const char = commandLine[i];
+
+    if (char === '\\' && quote !== "'") {
+      i++;
+    } else if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+function getScriptCommands(command: string) {
+  const script = SHELL_SCRIPT_REGEX.exec(command)?.[1];
+
+  if (!script) {
+    return [];
+  }
+
+  // the script is the first word, the words after it are its arguments
+  const word = /^'([^']*)'|^"((?:[^"\\]|\\.)*)"|^\S+/.exec(script)!;
+
+  return splitCommands(word[1] ?? word[2] ?? word[0]);
+}
+
+/**
+ * The arguments of a command that look like project paths, relative to the project.
+ */
+export function getCommandPaths(command: string) {
+  const [, ...args] = command.split(/\s+/).map((arg) => arg.replace(/^['"]|['"]$/g, ''));
+
+  return args
+    .filter((arg) => arg && !arg.startsWith('-') && !arg.includes('=') && !arg.includes('://'))
+    .map((arg) => (arg.startsWith(`${WORK_DIR}/`) ? arg.slice(WORK_DIR.length + 1) : arg).replace(/^(\.\/)+/, ''))
+    .filter((arg) => arg && arg !== '.' && ignore.isPathValid(arg));
+}
+
+function globToRegExp(glob: string) {
+  return new RegExp(`^${glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+}
+
+function matchesRule(rule: CommandPolicyRule, command: string) {
+  try {
+    if (rule.target === 'command') {
+      return rule.syntax === 'regex'
+        ? new RegExp(rule.pattern).test(command)
+        : globToRegExp(rule.pattern).test(command);
+    }
+
+    const paths = getCommandPaths(command);
+
+    if (rule.syntax === 'regex') {
+      const regex = new RegExp(rule.pattern);
+      return paths.some((path) => regex.test(path));
+    }
+
+    const matcher = ignore().add(rule.pattern);
+
+    return paths.some((path) => matcher.ignores(path));
+  } catch {
+    // a rule with an invalid pattern never matches
+    return false;
+  }
+}
+
+/**
+ * Decides whether a command line may run. Every command of a chain is checked and the strictest decision wins.
+ */
+export function evaluateCommandPolicy(commandLine: string, policy: CommandPolicy): CommandPolicyResult {
+  let result: CommandPolicyResult = { decision: policy.defaultDecision };
+  let commands: string[];
+
+  try {
+    commands = splitCommands(commandLine);
+  } catch (error) {
+    if (!(error instanceof CommandParseError)) {
+      throw error;
+    }
+
+    // a command line that can't be split may hide any command, it is never allowed without asking
+    return {
+      decision: DECISION_WEIGHT[policy.defaultDecision] > DECISION_WEIGHT.ask ? policy.defaultDecision : 'ask',
+      command: commandLine,
+    };
+  }
+
+  for (const command of commands) {
+    const rule = policy.rules.find((candidate) => candidate.pattern && matchesRule(candidate, command));
+    const decision = rule?.decision ?? policy.defaultDecision;
+
+    if (!result.command || DECISION_WEIGHT[decision] > DECISION_WEIGHT[result.decision]) {
+      result = { decision, command, rule };
+    }
+  }
+
+  return result;
+}
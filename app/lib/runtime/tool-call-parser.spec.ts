@@ -0,0 +1,116 @@
+import type { Message } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import type { ActionCallback, ArtifactCallback } from './message-parser';
+import { getContentWithActionToolCalls, serializeActionToolCalls } from './action-tools';
+import { ToolCallParser } from './tool-call-parser';
+
+function toolCall(toolCallId: string, toolName: string, args: unknown, state: 'partial-call' | 'call' = 'call') {
+  return { type: 'tool-invocation', toolInvocation: { toolCallId, toolName, args, state } } as NonNullable<
+    Message['parts']
+  >[number];
+}
+
+function createParser() {
+  const callbacks = {
+    onArtifactOpen: vi.fn<ArtifactCallback>(),
+    onArtifactClose: vi.fn<ArtifactCallback>(),
+    onActionOpen: vi.fn<ActionCallback>(),
+    onActionClose: vi.fn<ActionCallback>(),
+  };
+
+  return { callbacks, parser: new ToolCallParser({ callbacks, artifactElement: () => '<artifact />' }) };
+}
+
+describe('ToolCallParser', () => {
+  it('should turn action tool calls into artifact and action callbacks', () => {
+    const { callbacks, parser } = createParser();
+
+    const output = parser.parse(
+      'message_1',
+      [
+        toolCall('1', 'open_artifact', { id: 'todo-app', title: 'Todo App' }),
+        toolCall('2', 'write_file', { filePath: 'index.js', content: 'console.log(1);' }),
+        toolCall('3', 'run_shell', { command: 'npm install' }),
+      ],
+      true,
+    );
+
+    expect(output).toBe('<artifact />');
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledWith({
+      messageId: 'message_1',
+      id: 'todo-app',
+      title: 'Todo App',
+    });
+    expect(callbacks.onActionClose.mock.calls.map(([data]) => [data.actionId, data.action])).toEqual([
+      ['0', { type: 'file', filePath: 'index.js', content: 'console.log(1);\n' }],
+      ['1', { type: 'shell', content: 'npm install' }],
+    ]);
+    expect(callbacks.onArtifactClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should handle every tool call once while the message streams', () => {
+    const { callbacks, parser } = createParser();
+    const parts = [
+      toolCall('1', 'open_artifact', { id: 'app', title: 'App' }),
+      toolCall('2', 'write_file', { filePath: 'a.js' }, 'partial-call'),
+    ];
+
+    parser.parse('message_1', parts, false);
+    parts[1] = toolCall('2', 'write_file', { filePath: 'a.js', content: 'a' });
+    parser.parse('message_1', parts, false);
+    parser.parse('message_1', parts, true);
+
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledTimes(1);
+    expect(callbacks.onActionOpen).toHaveBeenCalledTimes(1);
+    expect(callbacks.onArtifactClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip invalid arguments and unrelated tools', () => {
+    const { callbacks, parser } = createParser();
+
+    parser.parse(
+      'message_1',
+      [
+        toolCall('1', 'write_file', { content: 'missing path' }),
+        toolCall('2', 'search_docs', { query: 'react' }),
+        toolCall('3', 'start_server', { command: 'npm run dev' }),
+      ],
+      true,
+    );
+
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledWith(expect.objectContaining({ id: 'message_1-artifact' }));
+    expect(callbacks.onActionClose).toHaveBeenCalledTimes(1);
+    expect(callbacks.onActionClose.mock.calls[0][0].action).toEqual({ type: 'start', content: 'npm run dev' });
+  });
+});
+
+describe('serializeActionToolCalls', () => {
+  it('writes the finished action tool calls as the XML of the artifact', () => {
+    const xml = serializeActionToolCalls([
+      { type: 'text', text: 'Adding the app' },
+      toolCall('1', 'open_artifact', { id: 'todo-app', title: 'Todo "App"' }),
+      toolCall('2', 'write_file', { filePath: 'src/App.tsx', content: 'export {};' }),
+      toolCall('3', 'edit_file', { filePath: 'src/main.tsx', content: '<<<<<<< SEARCH' }, 'partial-call'),
+      toolCall('4', 'run_shell', { command: 'npm install' }),
+      toolCall('5', 'search_docs', { query: 'react' }),
+    ]);
+
+    expect(xml).toBe(
+      [
+        '<boltArtifact id="todo-app" title="Todo &quot;App&quot;">',
+        '<boltAction type="file" filePath="src/App.tsx">export {};\n</boltAction>',
+        '<boltAction type="shell">npm install</boltAction>',
+        '</boltArtifact>',
+      ].join('\n'),
+    );
+  });
+
+  it('adds them to the text of the message', () => {
+    const parts = [toolCall('1', 'start_server', { command: 'npm run dev' })];
+
+    expect(getContentWithActionToolCalls({ content: 'Starting it', parts })).toBe(
+      'Starting it\n<boltArtifact id="tool-calls" title="Project changes">\n<boltAction type="start">npm run dev</boltAction>\n</boltArtifact>',
+    );
+    expect(getContentWithActionToolCalls({ content: 'Nothing to do', parts: [] })).toBe('Nothing to do');
+  });
+});
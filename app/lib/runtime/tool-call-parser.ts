@@ -0,0 +1,104 @@
+import type { Message } from 'ai';
+import type { BoltArtifactData } from '~/types/artifact';
+import { createScopedLogger } from '~/utils/logger';
+import { isActionToolName, parseActionToolCall } from './action-tools';
+import { createArtifactElement, type StreamingMessageParserOptions } from './message-parser';
+
+const logger = createScopedLogger('ToolCallParser');
+
+interface MessageState {
+  handledToolCalls: Set<string>;
+  currentArtifact?: BoltArtifactData;
+  closed: boolean;
+  actionId: number;
+}
+
+/**
+ * Counterpart of `StreamingMessageParser` for the `tools` output mode. Action tool calls in the message parts
+ * are validated and reported through the same callbacks the XML tags would trigger.
+ */
+export class ToolCallParser {
+  #messages = new Map<string, MessageState>();
+
+  constructor(private _options: StreamingMessageParserOptions = {}) {}
+
+  /**
+   * @param done Whether the message is complete, which closes its artifact
+   * @returns The artifact element when the artifact of the message was opened by this call
+   */
+  parse(messageId: string, parts: Message['parts'], done: boolean) {
+    let state = this.#messages.get(messageId);
+
+    if (!state) {
+      state = { handledToolCalls: new Set(), closed: false, actionId: 0 };
+      this.#messages.set(messageId, state);
+    }
+
+    let output = '';
+
+    for (const part of parts ?? []) {
+      if (part.type !== 'tool-invocation') {
+        continue;
+      }
+
+      const { toolCallId, toolName, args, state: invocationState } = part.toolInvocation;
+
+      // arguments are only complete once the call is finished
+      if (invocationState === 'partial-call' || !isActionToolName(toolName) || state.handledToolCalls.has(toolCallId)) {
+        continue;
+      }
+
+      state.handledToolCalls.add(toolCallId);
+
+      const parsed = parseActionToolCall(toolName, args);
+
+      if (parsed.kind === 'invalid') {
+        logger.warn(`Invalid arguments for ${toolName}: ${parsed.error}`);
+        continue;
+      }
+
+      if (parsed.kind === 'artifact') {
+        if (!state.currentArtifact) {
+          output += this.#openArtifact(messageId, state, parsed.artifact);
+        }
+
+        continue;
+      }
+
+      if (!state.currentArtifact) {
+        logger.warn('Action tool called before open_artifact');
+        output += this.#openArtifact(messageId, state, { id: `${messageId}-artifact`, title: 'Project changes' });
+      }
+
+      const actionData = {
+        artifactId: state.currentArtifact!.id,
+        messageId,
+        actionId: String(state.actionId++),
+        action: parsed.action,
+      };
+
+      this._options.callbacks?.onActionOpen?.(actionData);
+      this._options.callbacks?.onActionClose?.(actionData);
+    }
+
+    if (done && state.currentArtifact && !state.closed) {
+      state.closed = true;
+      this._options.callbacks?.onArtifactClose?.({ messageId, ...state.currentArtifact });
+    }
+
+    return output;
+  }
+
+  reset() {
+    this.#messages.clear();
+  }
+
+  #openArtifact(messageId: string, state: MessageState, artifact: BoltArtifactData) {
+    state.currentArtifact = artifact;
+    this._options.callbacks?.onArtifactOpen?.({ messageId, ...artifact });
+
+    const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+
+    return artifactFactory({ messageId });
+  }
+}
@@ -1,6 +1,6 @@
 import Cookies from 'js-cookie';
 import { type Message } from 'ai';
-import { getAllChats, deleteChat } from '~/lib/persistence/chats';
+import type { ChatStorage } from '~/lib/persistence/chatStorage';
 
 interface ExtendedMessage extends Message {
   name?: string;
@@ -14,17 +14,16 @@ interface ExtendedMessage extends Message {
 export class ImportExportService {
   /**
    * Export all chats to a JSON file
-   * @param db The IndexedDB database instance
+   * @param storage The chat storage in use
    * @returns A promise that resolves to the export data
    */
-  static async exportAllChats(db: IDBDatabase): Promise<{ chats: any[]; exportDate: string }> {
-    if (!db) {
-      throw new Error('Database not initialized');
+  static async exportAllChats(storage: ChatStorage): Promise<{ chats: any[]; exportDate: string }> {
+    if (!storage) {
+      throw new Error('Chat storage not initialized');
     }
 
     try {
-      // Get all chats from the database using the getAllChats helper
-      const chats = await getAllChats(db);
+      const chats = await storage.getAll();
 
       // Validate and sanitize each chat before export
       const sanitizedChats = chats.map((chat) => ({
@@ -109,6 +108,13 @@ export class ImportExportService {
           // Event logs
           isEventLogsEnabled: this._safeGetItem('isEventLogsEnabled'),
 
+          // Auto fix
+          isAutoFixEnabled: this._safeGetItem('isAutoFixEnabled'),
+          autoFixMaxAttempts: this._safeGetItem('autoFixMaxAttempts'),
+
+          // Command policy
+          commandPolicy: this._safeGetItem('commandPolicy'),
+
           // Energy saver settings
           energySaverMode: this._safeGetItem('energySaverMode'),
           autoEnergySaver: this._safeGetItem('autoEnergySaver'),
@@ -122,6 +128,7 @@ export class ImportExportService {
 
           // Prompt settings
           promptId: this._safeGetItem('promptId'),
+          userPrompts: this._safeGetItem('userPrompts'),
           cachedPrompt: allCookies.cachedPrompt,
         },
 
@@ -280,9 +287,9 @@ export class ImportExportService {
 
   /**
    * Reset all settings to default values
-   * @param db The IndexedDB database instance
+   * @param storage The chat storage in use
    */
-  static async resetAllSettings(db: IDBDatabase): Promise<void> {
+  static async resetAllSettings(storage: ChatStorage): Promise<void> {
     // 1. Clear all localStorage items related to application settings
     const localStorageKeysToPreserve: string[] = ['debug_mode']; // Keys to preserve if needed
 
@@ -318,15 +325,11 @@ export class ImportExportService {
       }
     });
 
-    // 3. Clear all data from IndexedDB
-    if (!db) {
-      console.warn('Database not initialized, skipping IndexedDB reset');
+    // 3. Delete all chats
+    if (!storage) {
+      console.warn('Chat storage not initialized, skipping chat reset');
     } else {
-      // Get all chats and delete them
-      const chats = await getAllChats(db);
-
-      const deletePromises = chats.map((chat) => deleteChat(db, chat.id));
-      await Promise.all(deletePromises);
+      await this._deleteChats(storage);
     }
 
     // 4. Clear any chat snapshots
@@ -341,26 +344,32 @@ export class ImportExportService {
   }
 
   /**
-   * Delete all chats from the database
-   * @param db The IndexedDB database instance
+   * Delete all chats from the chat storage
+   * @param storage The chat storage in use
    */
-  static async deleteAllChats(db: IDBDatabase): Promise<void> {
+  static async deleteAllChats(storage: ChatStorage): Promise<void> {
     // Clear chat history from localStorage
     localStorage.removeItem('bolt_chat_history');
 
-    // Clear chats from IndexedDB
-    if (!db) {
-      throw new Error('Database not initialized');
+    if (!storage) {
+      throw new Error('Chat storage not initialized');
     }
 
-    // Get all chats and delete them one by one
-    const chats = await getAllChats(db);
-    const deletePromises = chats.map((chat) => deleteChat(db, chat.id));
-    await Promise.all(deletePromises);
+    await this._deleteChats(storage);
   }
 
   // Private helper methods
 
+  /**
+   * Delete the chats one by one, each with its snapshots and search entry
+   * @param storage The chat storage in use
+   */
+  private static async _deleteChats(storage: ChatStorage): Promise<void> {
+    for (const chat of await storage.getAll()) {
+      await storage.deleteById(chat.id);
+    }
+  }
+
   /**
    * Import settings from a comprehensive format
    * @param data The imported data
@@ -435,6 +444,14 @@ export class ImportExportService {
         }
       }
 
+      if (data.ui.userPrompts) {
+        try {
+          this._safeSetItem('userPrompts', data.ui.userPrompts);
+        } catch (err) {
+          console.error('Error importing user prompts:', err);
+        }
+      }
+
       // Import UI cookies
       const uiCookies = ['tabConfiguration', 'cachedPrompt'];
       uiCookies.forEach((key) => {
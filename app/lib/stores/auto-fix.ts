@@ -0,0 +1,21 @@
+import { atom } from 'nanostores';
+
+/**
+ * `stopped` leaves the alert to the user, the loop starts over with the next message the user sends.
+ */
+export type AutoFixStatus = 'idle' | 'fixing' | 'stopped';
+
+export interface AutoFixState {
+  status: AutoFixStatus;
+  threadId?: string;
+
+  // one per attempt, see `getErrorSignature`
+  signatures: string[];
+  stopReason?: string;
+}
+
+export const autoFixStore = atom<AutoFixState>({ status: 'idle', signatures: [] });
+
+export function resetAutoFix() {
+  autoFixStore.set({ status: 'idle', signatures: [] });
+}
@@ -17,6 +17,8 @@ import {
   getLockedFilesForChat,
   getLockedFoldersForChat,
   isPathInLockedFolder,
+  isLockPattern,
+  matchesLockPattern,
   migrateLegacyLocks,
   clearCache,
 } from '~/lib/persistence/lockedFiles';
@@ -169,6 +171,11 @@ export class FilesStore {
 
       // Process folder locks
       for (const lockedFolder of lockedFolders) {
+        if (isLockPattern(lockedFolder.path)) {
+          this.#applyLockToPatternMatches(currentFiles, updates, lockedFolder.path);
+          continue;
+        }
+
         const folder = currentFiles[lockedFolder.path];
 
         if (folder?.type === 'folder') {
@@ -226,6 +233,51 @@ export class FilesStore {
     });
   }
 
+  /**
+   * Apply a glob lock to all files it matches
+   * @param currentFiles Current file map
+   * @param updates Updates to apply
+   * @param pattern Glob relative to the project
+   */
+  #applyLockToPatternMatches(currentFiles: FileMap, updates: FileMap, pattern: string) {
+    Object.entries(currentFiles).forEach(([path, file]) => {
+      if (file?.type === 'file' && matchesLockPattern(pattern, path)) {
+        updates[path] = {
+          ...file,
+          isLocked: true,
+          lockedByFolder: pattern,
+        };
+      }
+    });
+  }
+
+  /**
+   * Lock all files matching a glob, including files created later
+   * @param pattern Glob relative to the project, e.g. `src/generated/**`
+   * @param chatId Optional chat ID (defaults to current chat)
+   * @returns True if the pattern was locked
+   */
+  lockPattern(pattern: string, chatId?: string) {
+    const currentFiles = this.files.get();
+    const currentChatId = chatId || getCurrentChatId();
+
+    if (!isLockPattern(pattern)) {
+      logger.error(`Not a glob pattern: ${pattern}`);
+      return false;
+    }
+
+    const updates: FileMap = {};
+
+    this.#applyLockToPatternMatches(currentFiles, updates, pattern);
+    this.files.set({ ...currentFiles, ...updates });
+
+    addLockedFolder(currentChatId, pattern);
+
+    logger.info(`Pattern locked: ${pattern} for chat: ${currentChatId}`);
+
+    return true;
+  }
+
   /**
    * Lock a file
    * @param filePath Path to the file to lock
@@ -334,6 +386,21 @@ export class FilesStore {
     const currentFiles = this.files.get();
     const currentChatId = chatId || getCurrentChatId();
 
+    if (isLockPattern(folderPath)) {
+      const updates: FileMap = {};
+
+      Object.entries(currentFiles).forEach(([path, file]) => {
+        if (file?.type === 'file' && file.lockedByFolder === folderPath) {
+          updates[path] = { ...file, isLocked: false, lockedByFolder: undefined };
+        }
+      });
+
+      this.files.set({ ...currentFiles, ...updates });
+      removeLockedFolder(currentChatId, folderPath);
+
+      return true;
+    }
+
     if (!folder || folder.type !== 'folder') {
       logger.error(`Cannot unlock non-existent folder: ${folderPath}`);
       return false;
@@ -516,6 +583,101 @@ export class FilesStore {
     return this.files.get()[path];
   }
 
+  /**
+   * Capture the current state of all files so it can be restored later.
+   * The file map is replaced on every update, so holding on to the reference is enough, except for files written
+   * so recently that the watcher may not have reported them yet: those are read from disk.
+   * @param writtenPaths Paths of the files written since the watcher last reported
+   * @returns The file map at this point in time
+   */
+  async createCheckpoint(writtenPaths: string[] = []): Promise<FileMap> {
+    const files = this.files.get();
+
+    if (writtenPaths.length === 0) {
+      return files;
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const checkpoint: FileMap = { ...files };
+
+    for (const filePath of writtenPaths) {
+      const current = files[filePath];
+
+      try {
+        const buffer = await webcontainer.fs.readFile(path.relative(webcontainer.workdir, filePath));
+        const isBinary = isBinaryFile(buffer);
+
+        checkpoint[filePath] = {
+          type: 'file',
+          content: isBinary ? Buffer.from(buffer).toString('base64') : this.#decodeFileContent(buffer),
+          isBinary,
+          isLocked: current?.type === 'file' ? current.isLocked : false,
+        };
+      } catch {
+        // the file is gone from disk
+        checkpoint[filePath] = undefined;
+      }
+    }
+
+    return checkpoint;
+  }
+
+  /**
+   * Restore files to the state they had when a checkpoint was taken.
+   * Files that did not exist in the checkpoint are deleted.
+   * @param checkpoint File map returned by `createCheckpoint`
+   * @param filePaths Paths of the files to restore
+   * @returns The paths that were actually restored
+   */
+  async restoreCheckpoint(checkpoint: FileMap, filePaths: string[]) {
+    const webcontainer = await this.#webcontainer;
+    const restoredPaths: string[] = [];
+
+    for (const filePath of filePaths) {
+      const previous = checkpoint[filePath];
+      const current = this.getFile(filePath);
+      const relativePath = path.relative(webcontainer.workdir, filePath);
+
+      try {
+        if (previous?.type === 'file') {
+          if (current?.content === previous.content) {
+            continue;
+          }
+
+          if (previous.isBinary && !previous.content) {
+            logger.warn(`Cannot restore binary file without content: ${filePath}`);
+            continue;
+          }
+
+          const dirPath = path.dirname(relativePath);
+
+          if (dirPath !== '.') {
+            await webcontainer.fs.mkdir(dirPath, { recursive: true });
+          }
+
+          await webcontainer.fs.writeFile(
+            relativePath,
+            previous.isBinary ? Buffer.from(previous.content, 'base64') : previous.content,
+          );
+
+          this.files.setKey(filePath, { ...previous, isLocked: current?.isLocked ?? previous.isLocked });
+        } else if (current) {
+          await this.deleteFile(filePath);
+        } else {
+          continue;
+        }
+
+        restoredPaths.push(filePath);
+      } catch (error) {
+        logger.error(`Failed to restore file ${filePath}\n\n`, error);
+      }
+    }
+
+    logger.info(`Restored ${restoredPaths.length} files from checkpoint`);
+
+    return restoredPaths;
+  }
+
   getFileModifications() {
     return computeFileModifications(this.files.get(), this.#modifiedFiles);
   }
@@ -0,0 +1,98 @@
+import Cookies from 'js-cookie';
+import { atom } from 'nanostores';
+import { createGitHost, isGitHostId } from '~/lib/modules/git-hosts/registry';
+import type { GitHostConnection, GitHostId, GitHostUser } from '~/lib/modules/git-hosts/types';
+
+const STORAGE_KEY = 'git_host_connections';
+
+export interface GitHostAccount {
+  connection: GitHostConnection;
+  user: GitHostUser;
+}
+
+export type GitHostAccounts = Partial<Record<GitHostId, GitHostAccount>>;
+
+function loadAccounts(): GitHostAccounts {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Record<string, GitHostAccount>;
+
+    return Object.fromEntries(Object.entries(stored).filter(([id]) => isGitHostId(id)));
+  } catch (error) {
+    console.error('Failed to read the git host connections:', error);
+    return {};
+  }
+}
+
+export const gitHostAccounts = atom<GitHostAccounts>(loadAccounts());
+export const isConnectingGitHost = atom<boolean>(false);
+
+function saveAccounts(accounts: GitHostAccounts) {
+  gitHostAccounts.set(accounts);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+}
+
+/**
+ * The provider of a connected host
+ */
+export function getConnectedGitHost(id: GitHostId) {
+  const account = gitHostAccounts.get()[id];
+
+  return account && createGitHost(id, account.connection);
+}
+
+/**
+ * The connected host a repository address belongs to. GitHub uses the token of its own connection.
+ */
+export function getGitHostForUrl(url: string) {
+  const domain = new URL(url).host;
+
+  for (const id of Object.keys(gitHostAccounts.get()) as GitHostId[]) {
+    const host = getConnectedGitHost(id);
+
+    if (host?.gitDomain === domain) {
+      return host;
+    }
+  }
+
+  const githubToken = Cookies.get('githubToken');
+
+  if (domain === 'github.com' && githubToken) {
+    return createGitHost('github', { token: githubToken, username: Cookies.get('githubUsername') });
+  }
+
+  return undefined;
+}
+
+/**
+ * Check the credentials against the host and remember them. They are also stored where clones and pulls look up
+ * git credentials, so repositories of the host can be imported without asking again.
+ */
+export async function connectGitHost(id: GitHostId, connection: GitHostConnection) {
+  isConnectingGitHost.set(true);
+
+  try {
+    const host = createGitHost(id, connection);
+    const user = await host.getUser();
+
+    Cookies.set(`git:${host.gitDomain}`, JSON.stringify(host.getGitAuth()));
+    saveAccounts({ ...gitHostAccounts.get(), [id]: { connection, user } });
+
+    return user;
+  } finally {
+    isConnectingGitHost.set(false);
+  }
+}
+
+export function disconnectGitHost(id: GitHostId) {
+  const { [id]: account, ...rest } = gitHostAccounts.get();
+
+  if (account) {
+    Cookies.remove(`git:${createGitHost(id, account.connection).gitDomain}`);
+  }
+
+  saveAccounts(rest);
+}
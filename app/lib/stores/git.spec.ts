@@ -0,0 +1,108 @@
+import fs from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import git, { TREE } from 'isomorphic-git';
+import { describe, expect, it } from 'vitest';
+import { getStatusChanges, overlayTree, writeTreeWith } from './git';
+
+describe('getStatusChanges', () => {
+  it('stages new and modified files and removes deleted ones', () => {
+    expect(
+      getStatusChanges([
+        ['unchanged.ts', 1, 1, 1],
+        ['new.ts', 0, 2, 0],
+        ['modified.ts', 1, 2, 1],
+        ['staged.ts', 1, 2, 2],
+        ['deleted.ts', 1, 0, 1],
+        ['added-then-deleted.ts', 0, 0, 3],
+      ]),
+    ).toEqual({
+      add: ['new.ts', 'modified.ts', 'staged.ts'],
+      remove: ['deleted.ts', 'added-then-deleted.ts'],
+    });
+  });
+});
+
+describe('writeTreeWith', () => {
+  it('replaces, adds and deletes files in nested folders', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'git-tree-'));
+
+    try {
+      await git.init({ fs, dir });
+
+      const base = await writeTreeWith(fs, dir, undefined, [
+        ['README.md', '# App'],
+        ['src/index.ts', 'export {};'],
+        ['src/old/legacy.ts', 'legacy'],
+      ]);
+      const tree = await writeTreeWith(fs, dir, base, [
+        ['src/index.ts', 'export const a = 1;'],
+        ['src/lib/util.ts', 'export {};'],
+        ['src/old/legacy.ts', null],
+      ]);
+
+      const files: Record<string, string> = Object.fromEntries(
+        await git.walk({
+          fs,
+          dir,
+          trees: [TREE({ ref: tree! })],
+          map: async (filepath, [entry]) =>
+            (await entry?.type()) === 'blob'
+              ? [filepath, new TextDecoder().decode((await entry!.content())!)]
+              : undefined,
+        }),
+      );
+
+      expect(files).toEqual({
+        'README.md': '# App',
+        'src/index.ts': 'export const a = 1;',
+        'src/lib/util.ts': 'export {};',
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('overlayTree', () => {
+  it('keeps the files only the base has and replaces the others', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'git-tree-'));
+
+    try {
+      await git.init({ fs, dir });
+
+      const remote = await writeTreeWith(fs, dir, undefined, [
+        ['README.md', '# Remote'],
+        ['LICENSE', 'MIT'],
+        ['src/remote.ts', 'remote'],
+      ]);
+      const local = await writeTreeWith(fs, dir, undefined, [
+        ['README.md', '# App'],
+        ['src/index.ts', 'export {};'],
+      ]);
+      const tree = await overlayTree(fs, dir, remote!, local!);
+
+      const files: Record<string, string> = Object.fromEntries(
+        await git.walk({
+          fs,
+          dir,
+          trees: [TREE({ ref: tree })],
+          map: async (filepath, [entry]) =>
+            (await entry?.type()) === 'blob'
+              ? [filepath, new TextDecoder().decode((await entry!.content())!)]
+              : undefined,
+        }),
+      );
+
+      expect(files).toEqual({
+        LICENSE: 'MIT',
+        'README.md': '# App',
+        'src/index.ts': 'export {};',
+        'src/remote.ts': 'remote',
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
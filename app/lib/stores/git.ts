@@ -0,0 +1,581 @@
+import type { WebContainer } from '@webcontainer/api';
+import git, {
+  TREE,
+  type AuthCallback,
+  type AuthFailureCallback,
+  type AuthSuccessCallback,
+  type PromiseFsClient,
+  type TreeEntry,
+} from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+import { atom } from 'nanostores';
+import { getFs } from '~/lib/webcontainer/git-fs';
+import { profileStore } from './profile';
+
+export const DEFAULT_BRANCH = 'main';
+
+// never tracked, whatever the .gitignore of the project says
+const EXCLUDED_PATHS = ['node_modules/', '.DS_Store'];
+
+const MAX_LOG_DEPTH = 200;
+
+export interface GitCommit {
+  oid: string;
+  message: string;
+  author: string;
+
+  // seconds since the epoch
+  timestamp: number;
+  parents: string[];
+}
+
+export interface GitFileChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+}
+
+export interface GitPushOptions {
+  url: string;
+  auth: { username: string; password: string };
+
+  // the current branch when not set
+  ref?: string;
+  remoteRef?: string;
+  force?: boolean;
+
+  /**
+   * The fetched head of the remote branch. When the local history doesn't contain it, such as for a repository
+   * created with a README, the files of the branch are committed on top of it instead.
+   */
+  onto?: string;
+}
+
+export interface GitCommitFilesOptions {
+  // the commit the files are applied to
+  parent: string;
+
+  // the branch that points to the new commit
+  ref: string;
+  message: string;
+
+  // contents keyed by path, `null` deletes a file
+  files: Record<string, string | null>;
+}
+
+export interface GitFetchOptions {
+  url: string;
+
+  // the default branch of the remote when not set
+  ref?: string;
+  onAuth?: AuthCallback;
+  onAuthFailure?: AuthFailureCallback;
+  onAuthSuccess?: AuthSuccessCallback;
+}
+
+/**
+ * `merge` commits the pulled files with the local and the remote commit as parents, `squash` commits them as a
+ * single commit after the remote one and leaves the local history behind.
+ */
+export type PullStrategy = 'merge' | 'squash';
+
+type StatusRow = [string, number, number, number];
+
+/**
+ * The paths to stage and to remove so the next commit matches the working tree
+ * @param matrix Rows of `git.statusMatrix`, as `[path, head, workdir, stage]`
+ */
+export function getStatusChanges(matrix: StatusRow[]) {
+  const add: string[] = [];
+  const remove: string[] = [];
+
+  for (const [filepath, head, workdir, stage] of matrix) {
+    if (workdir === 0) {
+      if (head !== 0 || stage !== 0) {
+        remove.push(filepath);
+      }
+    } else if (head !== 1 || workdir !== 1 || stage !== 1) {
+      add.push(filepath);
+    }
+  }
+
+  return { add, remove };
+}
+
+/**
+ * Write a tree that is `oid` with some files replaced, folders left empty are removed
+ * @param oid The tree to start from, `undefined` for an empty one
+ * @returns The new tree, `undefined` when it has no entries
+ */
+export async function writeTreeWith(
+  fs: PromiseFsClient,
+  dir: string,
+  oid: string | undefined,
+  files: Array<[string, string | null]>,
+): Promise<string | undefined> {
+  const entries = new Map<string, TreeEntry>();
+  const folders = new Map<string, Array<[string, string | null]>>();
+
+  if (oid) {
+    for (const entry of (await git.readTree({ fs, dir, oid })).tree) {
+      entries.set(entry.path, entry);
+    }
+  }
+
+  for (const [filepath, content] of files) {
+    const [name, ...rest] = filepath.split('/');
+
+    if (rest.length > 0) {
+      folders.set(name, [...(folders.get(name) ?? []), [rest.join('/'), content]]);
+    } else if (content === null) {
+      entries.delete(name);
+    } else {
+      const blob = await git.writeBlob({ fs, dir, blob: new TextEncoder().encode(content) });
+      const mode = entries.get(name)?.type === 'blob' ? entries.get(name)!.mode : '100644';
+
+      entries.set(name, { mode, path: name, oid: blob, type: 'blob' });
+    }
+  }
+
+  for (const [name, changes] of folders) {
+    const existing = entries.get(name);
+    const tree = await writeTreeWith(fs, dir, existing?.type === 'tree' ? existing.oid : undefined, changes);
+
+    if (tree) {
+      entries.set(name, { mode: '040000', path: name, oid: tree, type: 'tree' });
+    } else {
+      entries.delete(name);
+    }
+  }
+
+  return entries.size > 0 ? git.writeTree({ fs, dir, tree: [...entries.values()] }) : undefined;
+}
+
+/**
+ * Write a tree that is `base` with the entries of `overlay` on top, files only `base` has are kept
+ * @param base The tree, or commit, to start from
+ * @param overlay The tree, or commit, whose entries win
+ * @returns The new tree
+ */
+export async function overlayTree(fs: PromiseFsClient, dir: string, base: string, overlay: string): Promise<string> {
+  const entries = new Map<string, TreeEntry>();
+
+  for (const entry of (await git.readTree({ fs, dir, oid: base })).tree) {
+    entries.set(entry.path, entry);
+  }
+
+  for (const entry of (await git.readTree({ fs, dir, oid: overlay })).tree) {
+    const existing = entries.get(entry.path);
+
+    if (entry.type === 'tree' && existing?.type === 'tree') {
+      entries.set(entry.path, { ...entry, oid: await overlayTree(fs, dir, existing.oid, entry.oid) });
+    } else {
+      entries.set(entry.path, entry);
+    }
+  }
+
+  return git.writeTree({ fs, dir, tree: [...entries.values()] });
+}
+
+/**
+ * A local repository in the WebContainer working directory. Every operation runs after the previous one so
+ * commits, checkouts and pushes never see a half written index.
+ */
+export class GitStore {
+  #webcontainer: Promise<WebContainer>;
+  #repo?: Promise<{ fs: PromiseFsClient; dir: string }>;
+  #queue: Promise<unknown> = Promise.resolve();
+
+  commits = atom<GitCommit[]>([]);
+  branches = atom<string[]>([]);
+  currentBranch = atom<string | undefined>(undefined);
+
+  constructor(webcontainerPromise: Promise<WebContainer>) {
+    this.#webcontainer = webcontainerPromise;
+  }
+
+  /**
+   * Commit every change of the working tree
+   * @returns The id of the new commit, or `undefined` when nothing changed
+   */
+  commitAll(message: string) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+
+      if (!(await this.#stageAll())) {
+        return undefined;
+      }
+
+      const oid = await git.commit({ fs, dir, message, author: this.#getAuthor() });
+      await this.#refresh();
+
+      return oid;
+    });
+  }
+
+  /**
+   * Commit the working tree on top of a fetched remote commit, see `PullStrategy`
+   */
+  commitPull(message: string, remoteOid: string, strategy: PullStrategy) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      const head = await git.resolveRef({ fs, dir, ref: 'HEAD' }).catch(() => undefined);
+
+      await this.#stageAll();
+
+      const oid = await git.commit({
+        fs,
+        dir,
+        message,
+        author: this.#getAuthor(),
+        parent: strategy === 'merge' && head ? [head, remoteOid] : [remoteOid],
+      });
+      await this.#refresh();
+
+      return oid;
+    });
+  }
+
+  /**
+   * Commit files on top of any commit, such as a fetched remote one, without touching the working tree or the
+   * current branch
+   * @returns The id of the new commit
+   */
+  commitFiles({ parent, ref, message, files }: GitCommitFilesOptions) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      const { commit } = await git.readCommit({ fs, dir, oid: parent });
+      const tree =
+        (await writeTreeWith(fs, dir, commit.tree, Object.entries(files))) ??
+        (await git.writeTree({ fs, dir, tree: [] }));
+
+      const oid = await git.commit({
+        fs,
+        dir,
+        message,
+        author: this.#getAuthor(),
+        parent: [parent],
+        tree,
+        ref: `refs/heads/${ref}`,
+      });
+      await this.#refresh();
+
+      return oid;
+    });
+  }
+
+  /**
+   * The paths the project does not ignore in its .gitignore
+   */
+  filterIgnored(paths: string[]) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      const ignored = await Promise.all(paths.map((filepath) => git.isIgnored({ fs, dir, filepath })));
+
+      return paths.filter((_, index) => !ignored[index]);
+    });
+  }
+
+  hasChanges() {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      const { add, remove } = getStatusChanges(await git.statusMatrix({ fs, dir }));
+
+      return add.length > 0 || remove.length > 0;
+    });
+  }
+
+  refresh() {
+    return this.#enqueue(() => this.#refresh());
+  }
+
+  createBranch(name: string) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      await git.branch({ fs, dir, ref: name, checkout: true });
+      await this.#refresh();
+    });
+  }
+
+  /**
+   * Switch the working tree to another branch, refused while there are uncommitted changes
+   */
+  checkout(name: string) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      const { add, remove } = getStatusChanges(await git.statusMatrix({ fs, dir }));
+
+      if (add.length > 0 || remove.length > 0) {
+        throw new Error('Commit the current changes before switching branches');
+      }
+
+      await git.checkout({ fs, dir, ref: name });
+      await this.#refresh();
+    });
+  }
+
+  /**
+   * The files that differ between two commits
+   * @param from The older commit, `undefined` compares with an empty tree
+   * @param to The newer commit
+   */
+  getChanges(from: string | undefined, to: string) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      const refs = from ? [from, to] : [to];
+
+      const changes: GitFileChange[] = await git.walk({
+        fs,
+        dir,
+        trees: refs.map((ref) => TREE({ ref })),
+        map: async (filepath, entries) => {
+          const [before, after] = from ? entries : [null, entries[0]];
+
+          if (filepath === '.' || (await before?.type()) === 'tree' || (await after?.type()) === 'tree') {
+            return undefined;
+          }
+
+          const [beforeOid, afterOid] = await Promise.all([before?.oid(), after?.oid()]);
+
+          if (beforeOid === afterOid) {
+            return undefined;
+          }
+
+          return {
+            path: filepath,
+            status: !beforeOid ? 'added' : !afterOid ? 'deleted' : 'modified',
+          } satisfies GitFileChange;
+        },
+      });
+
+      return changes;
+    });
+  }
+
+  /**
+   * The text of a file at a commit, empty when the file does not exist there
+   */
+  readFile(oid: string, filepath: string) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+
+      try {
+        const { blob } = await git.readBlob({ fs, dir, oid, filepath });
+        return new TextDecoder().decode(blob);
+      } catch {
+        return '';
+      }
+    });
+  }
+
+  /**
+   * Fetch a branch of a remote without touching the working tree
+   * @returns The fetched commit and the name of its branch
+   */
+  fetch({ url, ref, onAuth, onAuthFailure, onAuthSuccess }: GitFetchOptions) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+
+      const result = await git.fetch({
+        fs,
+        http,
+        dir,
+        url,
+        ref,
+        singleBranch: true,
+        corsProxy: '/api/git-proxy',
+        onAuth,
+        onAuthFailure,
+        onAuthSuccess,
+      });
+
+      if (!result.fetchHead) {
+        throw new Error(`Nothing was fetched from ${url}`);
+      }
+
+      return {
+        oid: result.fetchHead,
+        branch: ref ?? result.defaultBranch?.replace('refs/heads/', '') ?? DEFAULT_BRANCH,
+      };
+    });
+  }
+
+  /**
+   * The latest commit that both the current branch and the given commit descend from
+   */
+  findMergeBase(oid: string) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      const head = await git.resolveRef({ fs, dir, ref: 'HEAD' }).catch(() => undefined);
+
+      if (!head) {
+        return undefined;
+      }
+
+      const [mergeBase] = await git.findMergeBase({ fs, dir, oids: [head, oid] });
+
+      return mergeBase as string | undefined;
+    });
+  }
+
+  /**
+   * The text files of a commit, keyed by their path in the repository. Binary files are left out.
+   */
+  readFiles(oid: string) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      const decoder = new TextDecoder();
+
+      const entries: Array<[string, string]> = await git.walk({
+        fs,
+        dir,
+        trees: [TREE({ ref: oid })],
+        map: async (filepath, [entry]) => {
+          if (filepath === '.' || !entry || (await entry.type()) !== 'blob') {
+            return undefined;
+          }
+
+          const content = await entry.content();
+
+          return content && !content.includes(0) ? [filepath, decoder.decode(content)] : undefined;
+        },
+      });
+
+      return Object.fromEntries(entries);
+    });
+  }
+
+  /**
+   * Push a branch with its history
+   * @returns The pushed branch
+   */
+  push({ url, auth, ref: branch, remoteRef, force, onto }: GitPushOptions) {
+    return this.#enqueue(async () => {
+      const { fs, dir } = await this.#getRepo();
+      const ref = branch ?? (await git.currentBranch({ fs, dir })) ?? DEFAULT_BRANCH;
+      let source = ref;
+
+      if (onto) {
+        const head = await git.resolveRef({ fs, dir, ref });
+
+        if (head !== onto && !(await git.isDescendent({ fs, dir, oid: head, ancestor: onto, depth: -1 }))) {
+          const { commit } = await git.readCommit({ fs, dir, oid: head });
+
+          // the commit only exists for the push, the local branch keeps its history
+          source = await git.commit({
+            fs,
+            dir,
+            message: commit.message,
+            author: this.#getAuthor(),
+            parent: [onto],
+            tree: await overlayTree(fs, dir, onto, head),
+            noUpdateBranch: true,
+          });
+        }
+      }
+
+      const result = await git.push({
+        fs,
+        http,
+        dir,
+        url,
+        ref: source,
+        remoteRef: remoteRef ?? ref,
+        force,
+        corsProxy: '/api/git-proxy',
+        onAuth: () => auth,
+      });
+
+      if (!result.ok) {
+        throw new Error(result.error ?? `Failed to push ${ref}`);
+      }
+
+      return ref;
+    });
+  }
+
+  /**
+   * Stage every change of the working tree
+   * @returns False when nothing changed
+   */
+  async #stageAll() {
+    const { fs, dir } = await this.#getRepo();
+    const { add, remove } = getStatusChanges(await git.statusMatrix({ fs, dir }));
+
+    if (add.length > 0) {
+      await git.add({ fs, dir, filepath: add });
+    }
+
+    for (const filepath of remove) {
+      await git.remove({ fs, dir, filepath });
+    }
+
+    return add.length > 0 || remove.length > 0;
+  }
+
+  #enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.#queue.then(task);
+
+    // a failed operation must not block the ones after it
+    this.#queue = result.catch(() => undefined);
+
+    return result;
+  }
+
+  #getRepo() {
+    if (!this.#repo) {
+      this.#repo = this.#webcontainer.then(async (webcontainer) => {
+        const fs = getFs(webcontainer);
+        const dir = webcontainer.workdir;
+
+        const exists = await webcontainer.fs
+          .readdir('.git')
+          .then(() => true)
+          .catch(() => false);
+
+        if (!exists) {
+          await git.init({ fs, dir, defaultBranch: DEFAULT_BRANCH });
+        }
+
+        await webcontainer.fs.mkdir('.git/info', { recursive: true });
+        await webcontainer.fs.writeFile('.git/info/exclude', `${EXCLUDED_PATHS.join('\n')}\n`);
+
+        return { fs, dir };
+      });
+
+      // let the next call try again
+      this.#repo.catch(() => {
+        this.#repo = undefined;
+      });
+    }
+
+    return this.#repo;
+  }
+
+  async #refresh() {
+    const { fs, dir } = await this.#getRepo();
+
+    this.currentBranch.set((await git.currentBranch({ fs, dir })) ?? undefined);
+    this.branches.set(await git.listBranches({ fs, dir }));
+
+    try {
+      const log = await git.log({ fs, dir, depth: MAX_LOG_DEPTH });
+
+      this.commits.set(
+        log.map(({ oid, commit }) => ({
+          oid,
+          message: commit.message.trim(),
+          author: commit.author.name,
+          timestamp: commit.author.timestamp,
+          parents: commit.parent,
+        })),
+      );
+    } catch {
+      // a repository without commits has no log
+      this.commits.set([]);
+    }
+  }
+
+  #getAuthor() {
+    return { name: profileStore.get().username || 'Bolt', email: 'bolt@localhost' };
+  }
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getPlan, planStore, restorePlans, setPlanStatus, updatePlanStep } from './plan';
+
+const steps = [
+  { title: 'Add the list', details: 'Create TodoList.tsx' },
+  { title: 'Add the form', details: 'Create TodoForm.tsx' },
+];
+
+describe('plan store', () => {
+  beforeEach(() => {
+    planStore.set({});
+  });
+
+  it('starts with all steps pending', () => {
+    expect(getPlan('a', steps)).toEqual({
+      status: 'idle',
+      steps: steps.map((step) => ({ ...step, status: 'pending' })),
+    });
+  });
+
+  it('updates a single step', () => {
+    updatePlanStep('a', steps, 1, { status: 'skipped' });
+    updatePlanStep('a', steps, 0, { title: 'Add the todo list' });
+
+    expect(planStore.get().a.steps.map(({ title, status }) => [title, status])).toEqual([
+      ['Add the todo list', 'pending'],
+      ['Add the form', 'skipped'],
+    ]);
+  });
+
+  it('pauses the running plan when another one starts', () => {
+    setPlanStatus('a', steps, 'running');
+    setPlanStatus('b', steps, 'running');
+
+    expect(planStore.get().a.status).toBe('paused');
+    expect(planStore.get().b.status).toBe('running');
+  });
+});
+
+describe('restorePlans', () => {
+  it('keeps the stored steps and stops the plan that was running', () => {
+    restorePlans({
+      a: {
+        status: 'running',
+        steps: [
+          { ...steps[0], status: 'done' },
+          { ...steps[1], status: 'running' },
+        ],
+      },
+      b: { status: 'paused', steps: steps.map((step) => ({ ...step, status: 'pending' })) },
+    });
+
+    expect(getPlan('a', steps)).toEqual({
+      status: 'paused',
+      steps: [
+        { ...steps[0], status: 'done' },
+        { ...steps[1], status: 'failed' },
+      ],
+    });
+    expect(getPlan('b', steps).status).toBe('paused');
+
+    restorePlans(undefined);
+    expect(planStore.get()).toEqual({});
+  });
+});
@@ -0,0 +1,90 @@
+import { atom, map } from 'nanostores';
+import type { PlanStep } from '~/types/context';
+import type { FailoverTarget } from '~/types/model';
+
+export type PlanStepStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+export type PlanStepState = PlanStep & { status: PlanStepStatus };
+
+/**
+ * `running` sends the next pending step whenever the chat is idle, `paused` lets the current step finish and stops.
+ */
+export type PlanStatus = 'idle' | 'running' | 'paused' | 'done';
+
+export interface PlanState {
+  steps: PlanStepState[];
+  status: PlanStatus;
+}
+
+const CODER_MODEL_KEY = 'planCoderModel';
+
+const getStoredCoderModel = (): FailoverTarget | undefined => {
+  if (typeof localStorage === 'undefined') {
+    return undefined;
+  }
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(CODER_MODEL_KEY) || 'null');
+
+    return stored?.provider && stored?.model ? stored : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// the model that implements the steps, the model of the chat plans them
+export const coderModelStore = atom<FailoverTarget | undefined>(getStoredCoderModel());
+
+// keyed by the id of the assistant message with the plan
+export const planStore = map<Record<string, PlanState>>({});
+
+export const updateCoderModel = (target: FailoverTarget) => {
+  coderModelStore.set(target);
+  localStorage.setItem(CODER_MODEL_KEY, JSON.stringify(target));
+};
+
+/**
+ * Restores the plans stored with a chat. A reload stops the plan that was running and the response of its current
+ * step, so that step can be retried.
+ */
+export function restorePlans(plans: Record<string, PlanState> = {}) {
+  planStore.set(
+    Object.fromEntries(
+      Object.entries(plans).map(([messageId, plan]) => [
+        messageId,
+        {
+          status: plan.status === 'running' ? 'paused' : plan.status,
+          steps: plan.steps.map((step) => (step.status === 'running' ? { ...step, status: 'failed' } : step)),
+        },
+      ]),
+    ),
+  );
+}
+
+export function getPlan(messageId: string, steps: PlanStep[]): PlanState {
+  return planStore.get()[messageId] ?? { steps: steps.map((step) => ({ ...step, status: 'pending' })), status: 'idle' };
+}
+
+function setPlan(messageId: string, steps: PlanStep[], update: (plan: PlanState) => PlanState) {
+  planStore.setKey(messageId, update(getPlan(messageId, steps)));
+}
+
+export function setPlanStatus(messageId: string, steps: PlanStep[], status: PlanStatus) {
+  // only one plan runs at a time
+  if (status === 'running') {
+    for (const [id, plan] of Object.entries(planStore.get())) {
+      if (id !== messageId && plan.status === 'running') {
+        planStore.setKey(id, { ...plan, status: 'paused' });
+      }
+    }
+  }
+
+  setPlan(messageId, steps, (plan) => ({ ...plan, status }));
+}
+
+export function updatePlanStep(messageId: string, steps: PlanStep[], index: number, changes: Partial<PlanStepState>) {
+  setPlan(messageId, steps, (plan) => ({
+    ...plan,
+    steps: plan.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+  }));
+}
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { addRejectedAction, clearRejectedActions, rejectedActionsStore } from './rejected-actions';
+import type { RejectedFileAction } from '~/types/actions';
+
+function conflict(content: string, error = 'SEARCH block 1 was not found'): RejectedFileAction {
+  return { actionType: 'edit', filePath: 'src/App.tsx', reason: 'conflict', error, content };
+}
+
+beforeEach(() => {
+  clearRejectedActions();
+});
+
+describe('addRejectedAction', () => {
+  it('should record each conflicting edit to the same file', () => {
+    expect(addRejectedAction(conflict('<<<<<<< SEARCH\nconst a = 1;'))).toBe(true);
+    expect(addRejectedAction(conflict('<<<<<<< SEARCH\nconst b = 2;'))).toBe(true);
+    expect(addRejectedAction(conflict('<<<<<<< SEARCH\nconst b = 2;'))).toBe(false);
+
+    expect(rejectedActionsStore.get()).toHaveLength(2);
+  });
+
+  it('should record a conflict on a file that was already rejected as locked', () => {
+    const locked: RejectedFileAction = {
+      actionType: 'edit',
+      filePath: 'src/App.tsx',
+      reason: 'locked',
+      lockedBy: 'src',
+    };
+
+    expect(addRejectedAction(locked)).toBe(true);
+    expect(addRejectedAction(locked)).toBe(false);
+    expect(addRejectedAction(conflict('<<<<<<< SEARCH\nconst a = 1;'))).toBe(true);
+
+    expect(rejectedActionsStore.get().map((rejected) => rejected.reason)).toEqual(['locked', 'conflict']);
+  });
+});
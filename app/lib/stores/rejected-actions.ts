@@ -0,0 +1,36 @@
+import { atom } from 'nanostores';
+import type { RejectedFileAction } from '~/types/actions';
+
+// collected while a response runs, sent with the next request and cleared once that request is answered
+export const rejectedActionsStore = atom<RejectedFileAction[]>([]);
+
+/**
+ * @returns False when the action was already recorded, e.g. by an earlier run while streaming
+ */
+export function addRejectedAction(rejected: RejectedFileAction) {
+  const current = rejectedActionsStore.get();
+
+  if (current.some((item) => isSameRejection(item, rejected))) {
+    return false;
+  }
+
+  rejectedActionsStore.set([...current, rejected]);
+
+  return true;
+}
+
+export function clearRejectedActions() {
+  rejectedActionsStore.set([]);
+}
+
+// several edits to the same file can each fail, and a file can be both locked and edited with a conflict
+function isSameRejection(a: RejectedFileAction, b: RejectedFileAction) {
+  return (
+    a.filePath === b.filePath &&
+    a.actionType === b.actionType &&
+    a.reason === b.reason &&
+    a.lockedBy === b.lockedBy &&
+    a.error === b.error &&
+    a.content === b.content
+  );
+}
@@ -1,6 +1,12 @@
 import { atom, map } from 'nanostores';
 import { PROVIDER_LIST } from '~/utils/constants';
-import type { IProviderConfig } from '~/types/model';
+import type { CustomProviderConfig, FailoverTarget, IProviderConfig } from '~/types/model';
+import type { ContextSelectionMode } from '~/types/context';
+import type { ChatStorageBackend } from '~/lib/persistence/chatStorage';
+import type { ActionOutputMode } from '~/lib/runtime/action-tools';
+import { DEFAULT_COMMAND_POLICY, type CommandPolicy } from '~/lib/runtime/command-policy';
+import type { ModelPricing } from '~/lib/modules/llm/types';
+import { PromptLibrary, type UserPrompt } from '~/lib/common/prompt-library';
 import type { TabVisibilityConfig, TabWindowConfig, UserTabConfig } from '~/components/@settings/core/types';
 import { DEFAULT_TAB_CONFIG } from '~/components/@settings/core/constants';
 import { toggleTheme } from './theme';
@@ -53,9 +59,37 @@ export const shortcutsStore = map<Shortcuts>({
 // Create a single key for provider settings
 const PROVIDER_SETTINGS_KEY = 'provider_settings';
 
+// also the name of the cookie the definitions are sent to the server with
+export const CUSTOM_PROVIDERS_KEY = 'customProviders';
+
 // Add this helper function at the top of the file
 const isBrowser = typeof window !== 'undefined';
 
+const getStoredCustomProviders = (): CustomProviderConfig[] => {
+  if (!isBrowser) {
+    return [];
+  }
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_PROVIDERS_KEY) || '[]');
+
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const toProviderConfig = (config: CustomProviderConfig, enabled: boolean): IProviderConfig => ({
+  name: config.name,
+  staticModels: config.models.map((model) => ({
+    name: model.name,
+    label: model.label || model.name,
+    provider: config.name,
+    maxTokenAllowed: model.maxTokenAllowed || 8000,
+  })),
+  settings: { enabled },
+});
+
 // Initialize provider settings from both localStorage and defaults
 const getInitialProviderSettings = (): ProviderSetting => {
   const initialSettings: ProviderSetting = {};
@@ -71,6 +105,10 @@ const getInitialProviderSettings = (): ProviderSetting => {
     };
   });
 
+  getStoredCustomProviders().forEach((config) => {
+    initialSettings[config.name] ??= toProviderConfig(config, true);
+  });
+
   // Only try to load from localStorage in the browser
   if (isBrowser) {
     const savedSettings = localStorage.getItem(PROVIDER_SETTINGS_KEY);
@@ -93,6 +131,26 @@ const getInitialProviderSettings = (): ProviderSetting => {
 };
 
 export const providersStore = map<ProviderSetting>(getInitialProviderSettings());
+export const customProvidersStore = atom<CustomProviderConfig[]>(getStoredCustomProviders());
+
+// custom providers are listed with the other providers, removing one drops its settings too
+export const updateCustomProviders = (configs: CustomProviderConfig[]) => {
+  const providers = { ...providersStore.get() };
+
+  customProvidersStore
+    .get()
+    .filter((previous) => !configs.some((config) => config.name === previous.name))
+    .forEach((removed) => delete providers[removed.name]);
+
+  configs.forEach((config) => {
+    providers[config.name] = toProviderConfig(config, providers[config.name]?.settings.enabled ?? true);
+  });
+
+  customProvidersStore.set(configs);
+  providersStore.set(providers);
+  localStorage.setItem(CUSTOM_PROVIDERS_KEY, JSON.stringify(configs));
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(providers));
+};
 
 // Create a function to update provider settings that handles both store and persistence
 export const updateProviderSettings = (provider: string, settings: ProviderSetting) => {
@@ -122,8 +180,17 @@ const SETTINGS_KEYS = {
   LATEST_BRANCH: 'isLatestBranch',
   AUTO_SELECT_TEMPLATE: 'autoSelectTemplate',
   CONTEXT_OPTIMIZATION: 'contextOptimizationEnabled',
+  CONTEXT_SELECTION_MODE: 'contextSelectionMode',
+  CHAT_STORAGE_BACKEND: 'chatStorageBackend',
+  ACTION_OUTPUT_MODE: 'actionOutputMode',
+  FAILOVER_CHAIN: 'providerFailoverChain',
+  MODEL_PRICE_OVERRIDES: 'modelPriceOverrides',
   EVENT_LOGS: 'isEventLogsEnabled',
+  AUTO_FIX: 'isAutoFixEnabled',
+  AUTO_FIX_MAX_ATTEMPTS: 'autoFixMaxAttempts',
+  COMMAND_POLICY: 'commandPolicy',
   PROMPT_ID: 'promptId',
+  USER_PROMPTS: 'userPrompts',
   DEVELOPER_MODE: 'isDeveloperMode',
 } as const;
 
@@ -147,12 +214,83 @@ const getInitialSettings = () => {
     }
   };
 
+  const getStoredFailoverChain = (): FailoverTarget[] => {
+    if (!isBrowser) {
+      return [];
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.FAILOVER_CHAIN) || '[]');
+
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const getStoredPriceOverrides = (): Record<string, ModelPricing> => {
+    if (!isBrowser) {
+      return {};
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.MODEL_PRICE_OVERRIDES) || '{}');
+
+      return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+      return {};
+    }
+  };
+
+  const getStoredUserPrompts = (): UserPrompt[] => {
+    if (!isBrowser) {
+      return [];
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.USER_PROMPTS) || '[]');
+
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const getStoredCommandPolicy = (): CommandPolicy => {
+    if (!isBrowser) {
+      return DEFAULT_COMMAND_POLICY;
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.COMMAND_POLICY) || 'null');
+
+      return stored && Array.isArray(stored.rules) ? stored : DEFAULT_COMMAND_POLICY;
+    } catch {
+      return DEFAULT_COMMAND_POLICY;
+    }
+  };
+
   return {
     latestBranch: getStoredBoolean(SETTINGS_KEYS.LATEST_BRANCH, false),
     autoSelectTemplate: getStoredBoolean(SETTINGS_KEYS.AUTO_SELECT_TEMPLATE, true),
     contextOptimization: getStoredBoolean(SETTINGS_KEYS.CONTEXT_OPTIMIZATION, true),
+    contextSelectionMode: (isBrowser && localStorage.getItem(SETTINGS_KEYS.CONTEXT_SELECTION_MODE) === 'semantic'
+      ? 'semantic'
+      : 'llm') as ContextSelectionMode,
+    actionOutputMode: (isBrowser && localStorage.getItem(SETTINGS_KEYS.ACTION_OUTPUT_MODE) === 'tools'
+      ? 'tools'
+      : 'xml') as ActionOutputMode,
+    failoverChain: getStoredFailoverChain(),
+    modelPriceOverrides: getStoredPriceOverrides(),
+    chatStorageBackend: (isBrowser && localStorage.getItem(SETTINGS_KEYS.CHAT_STORAGE_BACKEND) === 'filesystem'
+      ? 'filesystem'
+      : 'indexeddb') as ChatStorageBackend,
     eventLogs: getStoredBoolean(SETTINGS_KEYS.EVENT_LOGS, true),
+    autoFix: getStoredBoolean(SETTINGS_KEYS.AUTO_FIX, false),
+    commandPolicy: getStoredCommandPolicy(),
+    autoFixMaxAttempts: (isBrowser && Number(localStorage.getItem(SETTINGS_KEYS.AUTO_FIX_MAX_ATTEMPTS))) || 3,
     promptId: isBrowser ? localStorage.getItem(SETTINGS_KEYS.PROMPT_ID) || 'default' : 'default',
+    userPrompts: getStoredUserPrompts(),
     developerMode: getStoredBoolean(SETTINGS_KEYS.DEVELOPER_MODE, false),
   };
 };
@@ -163,8 +301,23 @@ const initialSettings = getInitialSettings();
 export const latestBranchStore = atom<boolean>(initialSettings.latestBranch);
 export const autoSelectStarterTemplate = atom<boolean>(initialSettings.autoSelectTemplate);
 export const enableContextOptimizationStore = atom<boolean>(initialSettings.contextOptimization);
+export const contextSelectionModeStore = atom<ContextSelectionMode>(initialSettings.contextSelectionMode);
+export const actionOutputModeStore = atom<ActionOutputMode>(initialSettings.actionOutputMode);
+export const failoverChainStore = atom<FailoverTarget[]>(initialSettings.failoverChain);
+
+// prices in USD per million tokens keyed by `provider/model`, used instead of the known price of the model
+export const modelPriceOverridesStore = atom<Record<string, ModelPricing>>(initialSettings.modelPriceOverrides);
+export const chatStorageBackendStore = atom<ChatStorageBackend>(initialSettings.chatStorageBackend);
 export const isEventLogsEnabled = atom<boolean>(initialSettings.eventLogs);
+
+// sends terminal and preview errors back to the model without asking, up to the given number of attempts
+export const autoFixEnabledStore = atom<boolean>(initialSettings.autoFix);
+export const autoFixMaxAttemptsStore = atom<number>(initialSettings.autoFixMaxAttempts);
+
+// decides which shell and start commands run right away, wait for approval or are refused
+export const commandPolicyStore = atom<CommandPolicy>(initialSettings.commandPolicy);
 export const promptStore = atom<string>(initialSettings.promptId);
+export const userPromptsStore = atom<UserPrompt[]>(initialSettings.userPrompts);
 
 // Helper functions to update settings with persistence
 export const updateLatestBranch = (enabled: boolean) => {
@@ -182,16 +335,75 @@ export const updateContextOptimization = (enabled: boolean) => {
   localStorage.setItem(SETTINGS_KEYS.CONTEXT_OPTIMIZATION, JSON.stringify(enabled));
 };
 
+export const updateContextSelectionMode = (mode: ContextSelectionMode) => {
+  contextSelectionModeStore.set(mode);
+  localStorage.setItem(SETTINGS_KEYS.CONTEXT_SELECTION_MODE, mode);
+};
+
+export const updateActionOutputMode = (mode: ActionOutputMode) => {
+  actionOutputModeStore.set(mode);
+  localStorage.setItem(SETTINGS_KEYS.ACTION_OUTPUT_MODE, mode);
+};
+
+export const updateFailoverChain = (chain: FailoverTarget[]) => {
+  failoverChainStore.set(chain);
+  localStorage.setItem(SETTINGS_KEYS.FAILOVER_CHAIN, JSON.stringify(chain));
+};
+
+export const updateModelPriceOverride = (key: string, pricing: ModelPricing | undefined) => {
+  const updated = { ...modelPriceOverridesStore.get() };
+
+  if (pricing) {
+    updated[key] = pricing;
+  } else {
+    delete updated[key];
+  }
+
+  modelPriceOverridesStore.set(updated);
+  localStorage.setItem(SETTINGS_KEYS.MODEL_PRICE_OVERRIDES, JSON.stringify(updated));
+};
+
+// the storage is picked when the app loads, the new backend is used after a reload
+export const updateChatStorageBackend = (backend: ChatStorageBackend) => {
+  chatStorageBackendStore.set(backend);
+  localStorage.setItem(SETTINGS_KEYS.CHAT_STORAGE_BACKEND, backend);
+};
+
 export const updateEventLogs = (enabled: boolean) => {
   isEventLogsEnabled.set(enabled);
   localStorage.setItem(SETTINGS_KEYS.EVENT_LOGS, JSON.stringify(enabled));
 };
 
+export const updateAutoFix = (enabled: boolean) => {
+  autoFixEnabledStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX, JSON.stringify(enabled));
+};
+
+export const updateAutoFixMaxAttempts = (attempts: number) => {
+  autoFixMaxAttemptsStore.set(attempts);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX_MAX_ATTEMPTS, String(attempts));
+};
+
+export const updateCommandPolicy = (policy: CommandPolicy) => {
+  commandPolicyStore.set(policy);
+  localStorage.setItem(SETTINGS_KEYS.COMMAND_POLICY, JSON.stringify(policy));
+};
+
 export const updatePromptId = (id: string) => {
   promptStore.set(id);
   localStorage.setItem(SETTINGS_KEYS.PROMPT_ID, id);
 };
 
+export const updateUserPrompts = (prompts: UserPrompt[]) => {
+  userPromptsStore.set(prompts);
+  localStorage.setItem(SETTINGS_KEYS.USER_PROMPTS, JSON.stringify(prompts));
+
+  // a deleted prompt cannot stay selected
+  if (!PromptLibrary.library[promptStore.get()] && !prompts.some((prompt) => prompt.id === promptStore.get())) {
+    updatePromptId('default');
+  }
+};
+
 // Initialize tab configuration from localStorage or defaults
 const getInitialTabConfiguration = (): TabWindowConfig => {
   const defaultConfig: TabWindowConfig = {
@@ -0,0 +1,82 @@
+import { atom } from 'nanostores';
+import {
+  createSupabaseExecutor,
+  getMigrationFiles,
+  MigrationTracker,
+  type MigrationFile,
+  type MigrationStatus,
+} from '~/lib/modules/supabase/migrations';
+import type { FileMap } from './files';
+import { supabaseConnection } from './supabase';
+
+export const supabaseMigrations = atom<MigrationStatus[]>([]);
+export const isRunningMigrations = atom(false);
+
+let current: { key: string; tracker: MigrationTracker } | undefined;
+
+// one tracker per project, it creates the tracking table the first time it is used
+function getTracker() {
+  const { token, selectedProjectId } = supabaseConnection.get();
+
+  if (!token || !selectedProjectId) {
+    throw new Error('Connect to Supabase and select a project first');
+  }
+
+  const key = `${selectedProjectId}:${token}`;
+
+  if (current?.key !== key) {
+    current = { key, tracker: new MigrationTracker(createSupabaseExecutor(token, selectedProjectId)) };
+  }
+
+  return current.tracker;
+}
+
+export function getProjectMigrations(files: FileMap) {
+  const contents: Record<string, string> = {};
+
+  for (const [path, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'file' && !dirent.isBinary) {
+      contents[path] = dirent.content;
+    }
+  }
+
+  return getMigrationFiles(contents);
+}
+
+export async function refreshMigrations(files: MigrationFile[]) {
+  supabaseMigrations.set(await getTracker().getStatus(files));
+}
+
+async function runMigrations<T>(files: MigrationFile[], task: (tracker: MigrationTracker) => Promise<T>) {
+  isRunningMigrations.set(true);
+
+  try {
+    return await task(getTracker());
+  } finally {
+    await refreshMigrations(files).catch((error) => console.error('Failed to refresh migrations:', error));
+    isRunningMigrations.set(false);
+  }
+}
+
+export function dryRunMigration(file: MigrationFile, files: MigrationFile[]) {
+  return runMigrations(files, (tracker) => tracker.dryRun(file.name, file.content));
+}
+
+/**
+ * Apply a migration with the pending ones before it, each after a dry run. A migration that is already applied is
+ * left as it is.
+ */
+export function applyMigration(file: MigrationFile, files: MigrationFile[]) {
+  return runMigrations(files, async (tracker) => {
+    const applied = (await tracker.listApplied()).find((migration) => migration.name === file.name);
+    return applied ?? (await tracker.applyPending(files, file.name)).at(-1)!;
+  });
+}
+
+export function applyPendingMigrations(files: MigrationFile[]) {
+  return runMigrations(files, (tracker) => tracker.applyPending(files));
+}
+
+export function rollbackMigration(name: string, files: MigrationFile[]) {
+  return runMigrations(files, (tracker) => tracker.rollback(name));
+}
@@ -0,0 +1,221 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ActionCallbackData } from '~/lib/runtime/message-parser';
+import { addLockedFile, addLockedFolder, clearCache, saveLockedItems } from '~/lib/persistence/lockedFiles';
+
+const WORKDIR = '/home/project';
+
+// the WebContainer file system, keyed by path relative to the working directory
+const disk = new Map<string, string>();
+
+vi.mock('~/lib/webcontainer', () => ({
+  webcontainer: Promise.resolve({
+    workdir: '/home/project',
+    fs: {
+      writeFile: vi.fn(async (filePath: string, content: string) => {
+        // slow writes stand in for large files
+        if (content.startsWith('slow')) {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+
+        disk.set(filePath, content);
+      }),
+      readFile: vi.fn(async (filePath: string, encoding?: string) => {
+        if (!disk.has(filePath)) {
+          throw new Error(`ENOENT: ${filePath}`);
+        }
+
+        return encoding ? disk.get(filePath) : new TextEncoder().encode(disk.get(filePath));
+      }),
+      mkdir: vi.fn(),
+      rm: vi.fn(async (filePath: string) => {
+        disk.delete(filePath);
+      }),
+    },
+    internal: { watchPaths: vi.fn() },
+    on: vi.fn(),
+  }),
+}));
+
+const { workbenchStore } = await import('./workbench');
+
+let artifactCount = 0;
+
+function addArtifact() {
+  const messageId = `message-${++artifactCount}`;
+  workbenchStore.addArtifact({ messageId, id: messageId, title: 'Artifact' });
+
+  return messageId;
+}
+
+function writeFile(messageId: string, actionId: string, filePath: string, content: string) {
+  const data: ActionCallbackData = {
+    artifactId: messageId,
+    messageId,
+    actionId,
+    action: { type: 'file', filePath, content },
+  };
+
+  workbenchStore.addAction(data);
+  workbenchStore.runAction(data);
+
+  return data;
+}
+
+function getAction(messageId: string, actionId: string) {
+  return workbenchStore.artifacts.get()[messageId].runner.actions.get()[actionId];
+}
+
+function setFile(filePath: string, content: string) {
+  disk.set(filePath, content);
+  workbenchStore.files.setKey(`${WORKDIR}/${filePath}`, { type: 'file', content, isBinary: false });
+}
+
+// the file watcher is not running, the store learns about written files like it would from the watcher
+function syncFiles() {
+  for (const [filePath, content] of disk) {
+    workbenchStore.files.setKey(`${WORKDIR}/${filePath}`, { type: 'file', content, isBinary: false });
+  }
+}
+
+beforeAll(() => {
+  // the runner resolves action paths against the working directory like the WebContainer does
+  vi.spyOn(process, 'cwd').mockReturnValue(WORKDIR);
+});
+
+beforeEach(() => {
+  disk.clear();
+  saveLockedItems([]);
+  clearCache();
+});
+
+describe('locked files', () => {
+  it.each([
+    ['the file', () => addLockedFile('default', `${WORKDIR}/src/config.ts`)],
+    ['its folder', () => addLockedFolder('default', `${WORKDIR}/src`)],
+    ['a pattern', () => addLockedFolder('default', 'src/*.ts')],
+  ])('keeps the content of a path locked by %s', async (_, lock) => {
+    setFile('src/config.ts', 'export const original = true;');
+    lock();
+
+    const messageId = addArtifact();
+    writeFile(messageId, 'write', 'src/config.ts', 'export const original = false;');
+
+    await vi.waitFor(() => expect(getAction(messageId, 'write').status).toBe('failed'));
+
+    expect(disk.get('src/config.ts')).toBe('export const original = true;');
+    expect(workbenchStore.files.get()[`${WORKDIR}/src/config.ts`]).toMatchObject({
+      content: 'export const original = true;',
+    });
+    expect(workbenchStore.unsavedFiles.get().has(`${WORKDIR}/src/config.ts`)).toBe(false);
+  });
+});
+
+describe('file actions', () => {
+  it('writes the same path in the order of the artifacts', async () => {
+    // an open document takes the path where writes run in the background
+    setFile('src/App.tsx', 'original');
+    workbenchStore.setDocuments(workbenchStore.files.get());
+
+    const first = addArtifact();
+    writeFile(first, 'write', 'src/App.tsx', 'slow first version');
+
+    const second = addArtifact();
+    writeFile(second, 'write', 'src/App.tsx', 'second version');
+
+    await vi.waitFor(() => expect(getAction(second, 'write').status).toBe('complete'));
+
+    expect(getAction(first, 'write').status).toBe('complete');
+    expect(disk.get('src/App.tsx')).toBe('second version');
+  });
+});
+
+describe('waitForActions', () => {
+  it('resolves once the queued actions and their writes are done', async () => {
+    setFile('src/App.tsx', 'original');
+    workbenchStore.setDocuments(workbenchStore.files.get());
+
+    const messageId = addArtifact();
+    writeFile(messageId, 'write', 'src/App.tsx', 'slow new version');
+
+    await workbenchStore.waitForActions();
+
+    expect(disk.get('src/App.tsx')).toBe('slow new version');
+  });
+});
+
+describe('artifact rollback', () => {
+  it('lists the files written by the actions of an artifact', async () => {
+    const messageId = addArtifact();
+    writeFile(messageId, 'a', 'src/a.ts', 'a');
+    writeFile(messageId, 'b', 'src/b.ts', 'b');
+    writeFile(messageId, 'a2', 'src/a.ts', 'a2');
+    workbenchStore.addAction({
+      artifactId: messageId,
+      messageId,
+      actionId: 'install',
+      action: { type: 'shell', content: 'npm i' },
+    });
+
+    await vi.waitFor(() => expect(getAction(messageId, 'install')).toBeDefined());
+
+    expect(workbenchStore.artifacts.get()[messageId].runner.getTouchedFiles()).toEqual(['src/a.ts', 'src/b.ts']);
+  });
+
+  it('restores the files the latest artifact wrote and deletes the ones it created', async () => {
+    setFile('src/App.tsx', 'original');
+
+    const messageId = addArtifact();
+    writeFile(messageId, 'change', 'src/App.tsx', 'changed');
+    writeFile(messageId, 'create', 'src/New.tsx', 'new');
+
+    await vi.waitFor(() => expect(getAction(messageId, 'create').status).toBe('complete'));
+    syncFiles();
+
+    expect(workbenchStore.canRollbackArtifact(messageId)).toBe(true);
+
+    const rolledBackFiles = await workbenchStore.rollbackArtifact(messageId);
+
+    expect(rolledBackFiles.sort()).toEqual([`${WORKDIR}/src/App.tsx`, `${WORKDIR}/src/New.tsx`]);
+    expect(disk.get('src/App.tsx')).toBe('original');
+    expect(disk.has('src/New.tsx')).toBe(false);
+    expect(workbenchStore.artifacts.get()[messageId].outcome).toBe('rolled-back');
+    expect(workbenchStore.canRollbackArtifact(messageId)).toBe(false);
+  });
+
+  it('keeps the writes of the previous artifact the watcher has not reported yet', async () => {
+    setFile('src/App.tsx', 'original');
+
+    const first = addArtifact();
+    writeFile(first, 'write', 'src/App.tsx', 'slow first version');
+
+    const second = addArtifact();
+    writeFile(second, 'write', 'src/App.tsx', 'second version');
+
+    await vi.waitFor(() => expect(getAction(second, 'write').status).toBe('complete'));
+    syncFiles();
+
+    expect(await workbenchStore.rollbackArtifact(second)).toEqual([`${WORKDIR}/src/App.tsx`]);
+    expect(disk.get('src/App.tsx')).toBe('slow first version');
+  });
+
+  it('drops the checkpoints of superseded artifacts and of the previous chat', async () => {
+    const first = addArtifact();
+    writeFile(first, 'write', 'src/first.ts', 'first');
+
+    await vi.waitFor(() => expect(getAction(first, 'write').status).toBe('complete'));
+    expect(workbenchStore.canRollbackArtifact(first)).toBe(true);
+
+    const second = addArtifact();
+
+    expect(workbenchStore.canRollbackArtifact(first)).toBe(false);
+    expect(await workbenchStore.rollbackArtifact(first)).toEqual([]);
+
+    writeFile(second, 'write', 'src/second.ts', 'second');
+    await vi.waitFor(() => expect(getAction(second, 'write').status).toBe('complete'));
+    expect(workbenchStore.canRollbackArtifact(second)).toBe(true);
+
+    workbenchStore.setReloadedMessages([]);
+
+    expect(workbenchStore.canRollbackArtifact(second)).toBe(false);
+  });
+});
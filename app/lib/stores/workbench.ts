@@ -7,26 +7,35 @@ import type { ITerminal } from '~/types/terminal';
 import { unreachable } from '~/utils/unreachable';
 import { EditorStore } from './editor';
 import { FilesStore, type FileMap } from './files';
+import { GitStore, type GitFetchOptions, type PullStrategy } from './git';
 import { PreviewsStore } from './previews';
 import { TerminalStore } from './terminal';
 import JSZip from 'jszip';
 import fileSaver from 'file-saver';
-import { Octokit, type RestEndpointMethodTypes } from '@octokit/rest';
+import type { BaseGitHost } from '~/lib/modules/git-hosts/base-git-host';
+import type { GitHostPullRequest } from '~/lib/modules/git-hosts/types';
 import { path } from '~/utils/path';
 import { extractRelativePath } from '~/utils/diff';
 import { description } from '~/lib/persistence';
-import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
 import type { ActionAlert, DeployAlert, SupabaseAlert } from '~/types/actions';
+import { findConflicts, mergeFiles } from '~/utils/merge';
+import { shouldIncludeFile } from '~/utils/fileUtils';
+import { getFollowUpChanges, getProposedChanges } from '~/utils/pull-request';
+import { isFileLocked } from '~/utils/fileLocks';
 
 const { saveAs } = fileSaver;
 
+export type ArtifactOutcome = 'running' | 'complete' | 'failed' | 'rolled-back';
+
 export interface ArtifactState {
   id: string;
   title: string;
   type?: string;
   closed: boolean;
   runner: ActionRunner;
+  outcome?: ArtifactOutcome;
+  rolledBackFiles?: string[];
 }
 
 export type ArtifactUpdateState = Pick<ArtifactState, 'title' | 'closed'>;
@@ -35,14 +44,84 @@ type Artifacts = MapStore<Record<string, ArtifactState>>;
 
 export type WorkbenchViewType = 'code' | 'diff' | 'preview';
 
+export interface PullOptions extends GitFetchOptions {
+  strategy: PullStrategy;
+
+  // the remote commit of the last clone or pull, the merge base with the local history stands in when it is unknown
+  base?: string;
+}
+
+export interface ProposeChangesOptions {
+  host: BaseGitHost;
+
+  // `owner/name` of the repository
+  repo: string;
+
+  // the branch the changes are proposed for, the default branch of the repository when not set
+  baseBranch?: string;
+
+  // the branch a new pull request is opened from
+  branch: string;
+  title: string;
+
+  // the remote commit the chat started from, a first proposal only holds the changes made since
+  base?: string;
+
+  // the pull request of an earlier proposal, new changes are committed to its branch
+  pullRequest?: GitHostPullRequest;
+
+  // the commit the earlier proposal pushed to the pull request
+  proposedCommit?: string;
+
+  // the description of a new pull request
+  describe: (files: Record<string, string>) => string | Promise<string>;
+}
+
+/**
+ * A pull whose merge left conflicts, it is committed once they are resolved
+ */
+export interface PendingPull {
+  url: string;
+  branch: string;
+  remoteOid: string;
+  strategy: PullStrategy;
+  conflictedFiles: string[];
+
+  // no common commit with the remote was found, every file that differs from it is a conflict
+  withoutBase?: boolean;
+}
+
 export class WorkbenchStore {
   #previewsStore = new PreviewsStore(webcontainer);
   #filesStore = new FilesStore(webcontainer);
   #editorStore = new EditorStore(this.#filesStore);
   #terminalStore = new TerminalStore(webcontainer);
+  #gitStore = new GitStore(webcontainer);
 
   #reloadedMessages = new Set<string>();
 
+  /**
+   * File checkpoints taken before the first action of each artifact, keyed by message id. Only the latest artifact
+   * of the current chat keeps its checkpoint, rolling back an older one would also undo the changes made after it.
+   */
+  #artifactCheckpoints = new Map<string, FileMap>();
+
+  /**
+   * File writes still running in the scheduler of each artifact, keyed by message id. Actions of other artifacts
+   * wait for them, so writes to the same path stay in order across artifacts.
+   */
+  #pendingWrites = new Map<string, Set<Promise<void>>>();
+
+  /**
+   * Artifacts whose changes were already committed to the local repository
+   */
+  #committedArtifacts = new Set<string>();
+
+  /**
+   * Files before the pending pull changed them, restored when it is aborted
+   */
+  #pullCheckpoint?: { files: FileMap; paths: string[] };
+
   artifacts: Artifacts = import.meta.hot?.data.artifacts ?? map({});
 
   showWorkbench: WritableAtom<boolean> = import.meta.hot?.data.showWorkbench ?? atom(false);
@@ -54,6 +133,8 @@ export class WorkbenchStore {
     import.meta.hot?.data.supabaseAlert ?? atom<SupabaseAlert | undefined>(undefined);
   deployAlert: WritableAtom<DeployAlert | undefined> =
     import.meta.hot?.data.deployAlert ?? atom<DeployAlert | undefined>(undefined);
+  pendingPull: WritableAtom<PendingPull | undefined> =
+    import.meta.hot?.data.pendingPull ?? atom<PendingPull | undefined>(undefined);
   modifiedFiles = new Set<string>();
   artifactIdList: string[] = [];
   #globalExecutionQueue = Promise.resolve();
@@ -66,6 +147,7 @@ export class WorkbenchStore {
       import.meta.hot.data.actionAlert = this.actionAlert;
       import.meta.hot.data.supabaseAlert = this.supabaseAlert;
       import.meta.hot.data.deployAlert = this.deployAlert;
+      import.meta.hot.data.pendingPull = this.pendingPull;
 
       // Ensure binary files are properly preserved across hot reloads
       const filesMap = this.files.get();
@@ -83,10 +165,28 @@ export class WorkbenchStore {
     this.#globalExecutionQueue = this.#globalExecutionQueue.then(() => callback());
   }
 
+  /**
+   * Resolves once the queued actions ran and the file writes they started are done
+   */
+  async waitForActions() {
+    let queue: Promise<void>;
+
+    do {
+      queue = this.#globalExecutionQueue;
+      await queue.catch(() => undefined);
+    } while (queue !== this.#globalExecutionQueue);
+
+    await Promise.all([...this.#pendingWrites.values()].flatMap((writes) => [...writes]));
+  }
+
   get previews() {
     return this.#previewsStore.previews;
   }
 
+  get git() {
+    return this.#gitStore;
+  }
+
   get files() {
     return this.#filesStore.files;
   }
@@ -307,6 +407,15 @@ export class WorkbenchStore {
     return this.#filesStore.lockFolder(folderPath);
   }
 
+  /**
+   * Lock all files matching a glob to prevent edits
+   * @param pattern Glob relative to the project, e.g. `src/generated/**`
+   * @returns True if the pattern was successfully locked
+   */
+  lockPattern(pattern: string) {
+    return this.#filesStore.lockPattern(pattern);
+  }
+
   /**
    * Unlock a file to allow edits
    * @param filePath Path to the file to unlock
@@ -463,6 +572,16 @@ export class WorkbenchStore {
 
   setReloadedMessages(messages: string[]) {
     this.#reloadedMessages = new Set(messages);
+
+    // the checkpoints belong to the chat that was open before
+    this.#artifactCheckpoints.clear();
+  }
+
+  /**
+   * Whether the files of an artifact can still be rolled back to the checkpoint taken before its first action
+   */
+  canRollbackArtifact(messageId: string) {
+    return this.#artifactCheckpoints.has(messageId);
   }
 
   addArtifact({ messageId, title, id, type }: ArtifactCallbackData) {
@@ -476,36 +595,44 @@ export class WorkbenchStore {
       this.artifactIdList.push(messageId);
     }
 
+    // the new artifact supersedes the earlier ones
+    this.#artifactCheckpoints.clear();
+
+    const runner = new ActionRunner(
+      webcontainer,
+      () => this.boltTerminal,
+      (alert) => {
+        if (this.#reloadedMessages.has(messageId)) {
+          return;
+        }
+
+        this.actionAlert.set(alert);
+      },
+      (alert) => {
+        if (this.#reloadedMessages.has(messageId)) {
+          return;
+        }
+
+        this.supabaseAlert.set(alert);
+      },
+      (alert) => {
+        if (this.#reloadedMessages.has(messageId)) {
+          return;
+        }
+
+        this.deployAlert.set(alert);
+      },
+    );
+
+    runner.actions.listen(() => this.#updateArtifactOutcome(messageId));
+
     this.artifacts.setKey(messageId, {
       id,
       title,
       closed: false,
       type,
-      runner: new ActionRunner(
-        webcontainer,
-        () => this.boltTerminal,
-        (alert) => {
-          if (this.#reloadedMessages.has(messageId)) {
-            return;
-          }
-
-          this.actionAlert.set(alert);
-        },
-        (alert) => {
-          if (this.#reloadedMessages.has(messageId)) {
-            return;
-          }
-
-          this.supabaseAlert.set(alert);
-        },
-        (alert) => {
-          if (this.#reloadedMessages.has(messageId)) {
-            return;
-          }
-
-          this.deployAlert.set(alert);
-        },
-      ),
+      runner,
+      outcome: 'running',
     });
   }
 
@@ -517,6 +644,240 @@ export class WorkbenchStore {
     }
 
     this.artifacts.setKey(messageId, { ...artifact, ...state });
+    this.#updateArtifactOutcome(messageId);
+
+    if (state.closed) {
+      // queued behind the actions of the artifact, so the runner has seen all of them when it closes
+      this.addToExecutionQueue(async () => artifact.runner.close());
+    }
+  }
+
+  /**
+   * Restore every file touched by an artifact to the checkpoint taken before its first action
+   * @param messageId Id of the message the artifact belongs to
+   * @returns The paths that were rolled back
+   */
+  async rollbackArtifact(messageId: string) {
+    const artifact = this.#getArtifact(messageId);
+    const checkpoint = this.#artifactCheckpoints.get(messageId);
+
+    if (!artifact || !checkpoint) {
+      return [];
+    }
+
+    this.#artifactCheckpoints.delete(messageId);
+
+    const wc = await webcontainer;
+    const touchedFiles = artifact.runner.getTouchedFiles().map((filePath) => path.join(wc.workdir, filePath));
+    const rolledBackFiles = await this.#filesStore.restoreCheckpoint(checkpoint, touchedFiles);
+
+    const unsavedFiles = new Set(this.unsavedFiles.get());
+
+    for (const filePath of rolledBackFiles) {
+      unsavedFiles.delete(filePath);
+    }
+
+    this.unsavedFiles.set(unsavedFiles);
+
+    this.artifacts.setKey(messageId, {
+      ...this.#getArtifact(messageId),
+      outcome: 'rolled-back',
+      rolledBackFiles,
+    });
+
+    return rolledBackFiles;
+  }
+
+  /**
+   * Restore all files to the state of a message snapshot, files that were created after it are deleted
+   * @param files File map loaded from the snapshot
+   * @param paths Restricts the restore to these paths
+   * @returns The paths that were restored
+   */
+  async restoreSnapshotFiles(files: FileMap, paths?: string[]) {
+    const currentFiles = this.files.get();
+    const filePaths = (paths ?? [...new Set([...Object.keys(currentFiles), ...Object.keys(files)])]).filter(
+      (filePath) => currentFiles[filePath]?.type === 'file' || files[filePath]?.type === 'file',
+    );
+    const restoredFiles = await this.#filesStore.restoreCheckpoint(files, filePaths);
+
+    const unsavedFiles = new Set(this.unsavedFiles.get());
+
+    for (const filePath of restoredFiles) {
+      unsavedFiles.delete(filePath);
+    }
+
+    this.unsavedFiles.set(unsavedFiles);
+
+    return restoredFiles;
+  }
+
+  /**
+   * Fetch a remote branch and merge it into the files. Without conflicts the result is committed right away,
+   * otherwise it stays pending until `completePull`.
+   * @returns The pull, with the files that still have conflicts
+   */
+  async pullFromRemote({ strategy, base, ...fetchOptions }: PullOptions): Promise<PendingPull> {
+    if (this.pendingPull.get()) {
+      throw new Error('Finish or abort the current pull first');
+    }
+
+    const wc = await webcontainer;
+    const { oid: remoteOid, branch } = await this.#gitStore.fetch(fetchOptions);
+
+    const [baseFiles, theirsFiles] = await Promise.all([
+      this.#readPullBase(base, remoteOid),
+      this.#gitStore.readFiles(remoteOid),
+    ]);
+
+    const oursFiles = this.#getTextFiles(wc.workdir);
+    const include = (files: Record<string, string>) =>
+      Object.fromEntries(Object.entries(files).filter(([filePath]) => shouldIncludeFile(filePath)));
+    const { files, conflicted } = mergeFiles(include(baseFiles ?? {}), oursFiles, include(theirsFiles));
+
+    const target: FileMap = {};
+    const paths = Object.keys(files).map((filePath) => path.join(wc.workdir, filePath));
+
+    for (const [filePath, content] of Object.entries(files)) {
+      target[path.join(wc.workdir, filePath)] =
+        content === null ? undefined : { type: 'file', content, isBinary: false };
+    }
+
+    this.#pullCheckpoint = { files: await this.#filesStore.createCheckpoint(), paths };
+    await this.restoreSnapshotFiles(target, paths);
+
+    const pull: PendingPull = {
+      url: fetchOptions.url,
+      branch,
+      remoteOid,
+      strategy,
+      conflictedFiles: conflicted.map((filePath) => path.join(wc.workdir, filePath)),
+      withoutBase: !baseFiles,
+    };
+
+    if (pull.conflictedFiles.length > 0) {
+      this.pendingPull.set(pull);
+    } else {
+      await this.#commitPull(pull);
+    }
+
+    return pull;
+  }
+
+  /**
+   * The files of the remote commit of the last clone or pull, or of the merge base of the local history and the
+   * remote commit when that one is unknown or not in the repository anymore
+   */
+  async #readPullBase(base: string | undefined, remoteOid: string) {
+    const baseFiles = base ? await this.#gitStore.readFiles(base).catch(() => undefined) : undefined;
+
+    if (baseFiles) {
+      return baseFiles;
+    }
+
+    const mergeBase = await this.#gitStore.findMergeBase(remoteOid).catch(() => undefined);
+
+    return mergeBase ? this.#gitStore.readFiles(mergeBase) : undefined;
+  }
+
+  /**
+   * The files of the pending pull that still have conflict markers
+   */
+  getUnresolvedPullFiles() {
+    const files = this.files.get();
+
+    return (this.pendingPull.get()?.conflictedFiles ?? []).filter((filePath) => {
+      const dirent = files[filePath];
+      return dirent?.type === 'file' && findConflicts(dirent.content).length > 0;
+    });
+  }
+
+  async completePull() {
+    const pull = this.pendingPull.get();
+
+    if (!pull) {
+      return undefined;
+    }
+
+    const unresolved = this.getUnresolvedPullFiles();
+
+    if (unresolved.length > 0) {
+      throw new Error(
+        `Resolve the conflicts in ${unresolved.map((filePath) => extractRelativePath(filePath)).join(', ')}`,
+      );
+    }
+
+    await this.#commitPull(pull);
+    this.pendingPull.set(undefined);
+
+    return pull;
+  }
+
+  async abortPull() {
+    if (this.#pullCheckpoint) {
+      await this.restoreSnapshotFiles(this.#pullCheckpoint.files, this.#pullCheckpoint.paths);
+    }
+
+    this.#pullCheckpoint = undefined;
+    this.pendingPull.set(undefined);
+  }
+
+  async #commitPull({ url, branch, remoteOid, strategy }: PendingPull) {
+    const remoteName = url.replace(/^https?:\/\//, '').replace(/\.git$/, '');
+    const message =
+      strategy === 'merge'
+        ? `Merge branch '${branch}' of ${remoteName}`
+        : `Apply local changes on top of ${branch} (${remoteOid.slice(0, 7)})`;
+
+    await this.#gitStore.commitPull(message, remoteOid, strategy);
+    this.#pullCheckpoint = undefined;
+  }
+
+  #updateArtifactOutcome(messageId: string) {
+    const artifact = this.#getArtifact(messageId);
+
+    if (!artifact || artifact.outcome === 'rolled-back') {
+      return;
+    }
+
+    const actions = Object.values(artifact.runner.actions.get());
+    let outcome: ArtifactOutcome = 'running';
+
+    if (actions.some((action) => action.status === 'failed')) {
+      outcome = 'failed';
+    } else if (
+      artifact.closed &&
+      actions.every(
+        (action) => action.status === 'complete' || (action.type === 'start' && action.status === 'running'),
+      )
+    ) {
+      outcome = 'complete';
+    }
+
+    if (artifact.outcome !== outcome) {
+      this.artifacts.setKey(messageId, { ...artifact, outcome });
+    }
+
+    // a failed artifact is committed too, but only once every action of it stopped touching the files
+    const settled =
+      artifact.closed &&
+      actions.every(
+        (action) =>
+          !['pending', 'running', 'awaiting-approval'].includes(action.status) ||
+          (action.type === 'start' && action.status === 'running'),
+      );
+
+    if (outcome !== 'running' && settled && !this.#committedArtifacts.has(messageId)) {
+      this.#committedArtifacts.add(messageId);
+      this.#commitArtifact(messageId, artifact.title).catch((error) => {
+        console.error(`Failed to commit artifact "${artifact.title}":`, error);
+      });
+    }
+  }
+
+  async #commitArtifact(messageId: string, title: string) {
+    await Promise.all(this.#pendingWrites.get(messageId) ?? []);
+    await this.#gitStore.commitAll(title);
   }
   addAction(data: ActionCallbackData) {
     // this._addAction(data);
@@ -532,6 +893,19 @@ export class WorkbenchStore {
       unreachable('Artifact not found');
     }
 
+    // the actions of reloaded messages are not run again, there is nothing to roll back
+    if (!this.#reloadedMessages.has(messageId) && !this.#artifactCheckpoints.has(messageId)) {
+      // the watcher may not have reported the writes of the artifact before this one yet
+      await this.#waitForOtherArtifacts(messageId);
+
+      const wc = await webcontainer;
+      const writtenPaths = (this.#getPreviousArtifact(messageId)?.runner.getTouchedFiles() ?? []).map((filePath) =>
+        path.join(wc.workdir, filePath),
+      );
+
+      this.#artifactCheckpoints.set(messageId, await this.#filesStore.createCheckpoint(writtenPaths));
+    }
+
     return artifact.runner.addAction(data);
   }
 
@@ -557,16 +931,25 @@ export class WorkbenchStore {
       return;
     }
 
+    await this.#waitForOtherArtifacts(messageId);
+
+    if (data.action.type === 'file' || data.action.type === 'edit') {
+      const wc = await webcontainer;
+
+      // nothing reaches the editor or the disk for locked paths, the runner rejects the action and reports it
+      if (isFileLocked(path.join(wc.workdir, data.action.filePath)).locked) {
+        if (!isStreaming) {
+          await artifact.runner.runAction(data);
+        }
+
+        return;
+      }
+    }
+
     if (data.action.type === 'file') {
       const wc = await webcontainer;
       const fullPath = path.join(wc.workdir, data.action.filePath);
 
-      /*
-       * For scoped locks, we would need to implement diff checking here
-       * to determine if the AI is modifying existing code or just adding new code
-       * This is a more complex feature that would be implemented in a future update
-       */
-
       if (this.selectedFile.value !== fullPath) {
         this.setSelectedFile(fullPath);
       }
@@ -583,19 +966,61 @@ export class WorkbenchStore {
 
       this.#editorStore.updateFile(fullPath, data.action.content);
 
-      if (!isStreaming && data.action.content) {
-        await this.saveFile(fullPath);
+      if (!isStreaming) {
+        // the runner's scheduler writes the file, concurrently with the other writes of the artifact
+        this.#trackWrite(
+          messageId,
+          artifact.runner.runAction(data).then(() => this.resetAllFileModifications()),
+        );
+      }
+    } else if (data.action.type === 'edit') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
+
+      if (this.selectedFile.value !== fullPath) {
+        this.setSelectedFile(fullPath);
       }
 
-      if (!isStreaming) {
-        await artifact.runner.runAction(data);
-        this.resetAllFileModifications();
+      if (this.currentView.value !== 'code') {
+        this.currentView.set('code');
       }
+
+      // the patched content reaches the editor through the file watcher
+      this.#trackWrite(messageId, artifact.runner.runAction(data));
+    } else if (data.action.type === 'start') {
+      // start actions run once the artifact is closed and its other actions are done, nothing waits for them
+      artifact.runner.runAction(data);
     } else {
+      // shell and build actions are barriers, everything after them has to wait
       await artifact.runner.runAction(data);
     }
   }
 
+  #trackWrite(messageId: string, write: Promise<void>) {
+    const writes = this.#pendingWrites.get(messageId) ?? new Set<Promise<void>>();
+
+    const tracked: Promise<void> = write
+      .catch((error) => console.error('File action failed:', error))
+      .finally(() => {
+        writes.delete(tracked);
+
+        if (writes.size === 0 && this.#pendingWrites.get(messageId) === writes) {
+          this.#pendingWrites.delete(messageId);
+        }
+      });
+
+    writes.add(tracked);
+    this.#pendingWrites.set(messageId, writes);
+  }
+
+  async #waitForOtherArtifacts(messageId: string) {
+    const writes = [...this.#pendingWrites].filter(([id]) => id !== messageId).flatMap(([, pending]) => [...pending]);
+
+    if (writes.length > 0) {
+      await Promise.all(writes);
+    }
+  }
+
   actionStreamSampler = createSampler(async (data: ActionCallbackData, isStreaming: boolean = false) => {
     return await this._runAction(data, isStreaming);
   }, 100); // TODO: remove this magic number to have it configurable
@@ -605,6 +1030,14 @@ export class WorkbenchStore {
     return artifacts[id];
   }
 
+  #getPreviousArtifact(id: string) {
+    const artifacts = this.artifacts.get();
+    const ids = Object.keys(artifacts);
+    const index = ids.indexOf(id);
+
+    return index > 0 ? artifacts[ids[index - 1]] : undefined;
+  }
+
   async downloadZip() {
     const zip = new JSZip();
     const files = this.files.get();
@@ -674,199 +1107,191 @@ export class WorkbenchStore {
     return syncedFiles;
   }
 
-  async pushToGitHub(
-    repoName: string,
-    commitMessage?: string,
-    githubUsername?: string,
-    ghToken?: string,
-    isPrivate: boolean = false,
-  ) {
-    try {
-      // Use cookies if username and token are not provided
-      const githubToken = ghToken || Cookies.get('githubToken');
-      const owner = githubUsername || Cookies.get('githubUsername');
+  /**
+   * Commit the pending changes and push the local history to a repository of the user, created when missing
+   * @returns The repository pushed to
+   */
+  async pushToGitHost(host: BaseGitHost, repoName: string, commitMessage?: string, isPrivate: boolean = false) {
+    let repo = await host.findOwnRepo(repoName);
+    let visibilityJustChanged = false;
+
+    if (!repo) {
+      repo = await host.createRepo({ name: repoName, private: isPrivate });
+
+      // give the host a moment to initialize the new repository
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    } else if (repo.private !== isPrivate) {
+      try {
+        repo = await host.setRepoVisibility(repo, isPrivate);
+        visibilityJustChanged = true;
 
-      if (!githubToken || !owner) {
-        throw new Error('GitHub token or username is not set in cookies or provided.');
+        // and to apply the new visibility
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+      } catch (error) {
+        // the files are pushed with the old visibility
+        console.error('Failed to update repository visibility:', error);
       }
+    }
 
-      // Log the isPrivate flag to verify it's being properly passed
-      console.log(`pushToGitHub called with isPrivate=${isPrivate}`);
+    if (Object.keys(this.files.get()).length === 0) {
+      throw new Error('No files found to push');
+    }
 
-      // Initialize Octokit with the auth token
-      const octokit = new Octokit({ auth: githubToken });
+    await this.#gitStore.commitAll(commitMessage || 'Update from your app');
 
-      // Check if the repository already exists before creating it
-      let repo: RestEndpointMethodTypes['repos']['get']['response']['data'];
-      let visibilityJustChanged = false;
+    const { cloneUrl, defaultBranch } = repo;
+    const auth = host.getGitAuth();
 
+    // an empty repository has no branch to fetch, the local history is pushed as it is
+    const remote = await this.#gitStore
+      .fetch({ url: cloneUrl, ref: defaultBranch, onAuth: () => auth })
+      .catch(() => undefined);
+
+    const maxAttempts = 3;
+
+    for (let attempt = 1; ; attempt++) {
       try {
-        const resp = await octokit.repos.get({ owner, repo: repoName });
-        repo = resp.data;
-        console.log('Repository already exists, using existing repo');
-
-        // Check if we need to update visibility of existing repo
-        if (repo.private !== isPrivate) {
-          console.log(
-            `Updating repository visibility from ${repo.private ? 'private' : 'public'} to ${isPrivate ? 'private' : 'public'}`,
-          );
-
-          try {
-            // Update repository visibility using the update method
-            const { data: updatedRepo } = await octokit.repos.update({
-              owner,
-              repo: repoName,
-              private: isPrivate,
-            });
-
-            console.log('Repository visibility updated successfully');
-            repo = updatedRepo;
-            visibilityJustChanged = true;
-
-            // Add a delay after changing visibility to allow GitHub to fully process the change
-            console.log('Waiting for visibility change to propagate...');
-            await new Promise((resolve) => setTimeout(resolve, 3000)); // 3 second delay
-          } catch (visibilityError) {
-            console.error('Failed to update repository visibility:', visibilityError);
-
-            // Continue with push even if visibility update fails
-          }
-        }
+        await this.#gitStore.push({ url: cloneUrl, auth, remoteRef: defaultBranch, onto: remote?.oid });
+
+        return repo;
       } catch (error) {
-        if (error instanceof Error && 'status' in error && error.status === 404) {
-          // Repository doesn't exist, so create a new one
-          console.log(`Creating new repository with private=${isPrivate}`);
+        // a rejected push fails the same way every time
+        const rejected = error instanceof Error && 'code' in error && error.code === 'PushRejectedError';
 
-          // Create new repository with specified privacy setting
-          const createRepoOptions = {
-            name: repoName,
-            private: isPrivate,
-            auto_init: true,
-          };
+        // a repository that was just created or changed visibility may not accept pushes yet
+        if (rejected || !(visibilityJustChanged || attempt === 1) || attempt === maxAttempts) {
+          console.error(`Error pushing to ${host.name}:`, error);
+          throw error;
+        }
 
-          console.log('Create repo options:', createRepoOptions);
+        await new Promise((resolve) => setTimeout(resolve, attempt * 2000));
+      }
+    }
+  }
 
-          const { data: newRepo } = await octokit.repos.createForAuthenticatedUser(createRepoOptions);
+  /**
+   * Commit the changes of the chat, the edits of `getModifiedFiles` included, to a branch of the remote and open a
+   * pull request for them. With the pull request of an earlier proposal, the changes made since are committed on top
+   * of its branch and the pull request picks them up.
+   * @returns The pull request, the pushed commit and the committed files
+   */
+  async proposeChanges({
+    host,
+    repo: fullName,
+    baseBranch,
+    branch,
+    title,
+    base,
+    pullRequest,
+    proposedCommit,
+    describe,
+  }: ProposeChangesOptions) {
+    const wc = await webcontainer;
+    const repo = await host.getRepo(fullName);
+
+    if (!repo) {
+      throw new Error(`Repository not found: ${fullName}`);
+    }
 
-          console.log('Repository created:', newRepo.html_url, 'Private:', newRepo.private);
-          repo = newRepo;
+    const auth = host.getGitAuth();
+    const target = pullRequest?.base ?? baseBranch ?? repo.defaultBranch;
+    const head = pullRequest?.head ?? branch;
 
-          // Add a small delay after creating a repository to allow GitHub to fully initialize it
-          console.log('Waiting for repository to initialize...');
-          await new Promise((resolve) => setTimeout(resolve, 2000)); // 2 second delay
-        } else {
-          console.error('Cannot create repo:', error);
-          throw error; // Some other error occurred
-        }
+    const { oid: remoteOid } = await this.#gitStore.fetch({
+      url: repo.cloneUrl,
+      ref: pullRequest ? head : target,
+      onAuth: () => auth,
+    });
+
+    const current = await this.#getChatChanges(wc.workdir);
+    let parent = remoteOid;
+    let files: Record<string, string>;
+
+    if (pullRequest) {
+      const remoteFiles = await this.#gitStore.readFiles(remoteOid);
+
+      // pull requests proposed before the commit was recorded have nothing else to compare with
+      const proposedFiles = proposedCommit
+        ? await this.#gitStore.readFiles(proposedCommit).catch(() => {
+            throw new Error(`The last proposed commit is not on ${head} anymore, open a new pull request instead`);
+          })
+        : remoteFiles;
+
+      const followUp = getFollowUpChanges(proposedFiles, remoteFiles, current);
+
+      if (followUp.conflicts.length > 0) {
+        throw new Error(
+          `${followUp.conflicts.join(', ')} changed on ${head} since the last proposal, pull the branch first`,
+        );
       }
 
-      // Get all files
-      const files = this.files.get();
+      files = followUp.files;
+    } else {
+      // the commit the chat was imported at may be gone from the remote, the branch head is the next best base
+      let parentFiles = base ? await this.#gitStore.readFiles(base).catch(() => undefined) : undefined;
 
-      if (!files || Object.keys(files).length === 0) {
-        throw new Error('No files found to push');
+      if (parentFiles) {
+        parent = base!;
+      } else {
+        parentFiles = await this.#gitStore.readFiles(remoteOid);
       }
 
-      // Function to push files with retry logic
-      const pushFilesToRepo = async (attempt = 1): Promise<string> => {
-        const maxAttempts = 3;
-
-        try {
-          console.log(`Pushing files to repository (attempt ${attempt}/${maxAttempts})...`);
-
-          // Create blobs for each file
-          const blobs = await Promise.all(
-            Object.entries(files).map(async ([filePath, dirent]) => {
-              if (dirent?.type === 'file' && dirent.content) {
-                const { data: blob } = await octokit.git.createBlob({
-                  owner: repo.owner.login,
-                  repo: repo.name,
-                  content: Buffer.from(dirent.content).toString('base64'),
-                  encoding: 'base64',
-                });
-                return { path: extractRelativePath(filePath), sha: blob.sha };
-              }
-
-              return null;
-            }),
-          );
-
-          const validBlobs = blobs.filter(Boolean); // Filter out any undefined blobs
-
-          if (validBlobs.length === 0) {
-            throw new Error('No valid files to push');
-          }
+      files = getProposedChanges(parentFiles, current);
+    }
 
-          // Refresh repository reference to ensure we have the latest data
-          const repoRefresh = await octokit.repos.get({ owner, repo: repoName });
-          repo = repoRefresh.data;
-
-          // Get the latest commit SHA (assuming main branch, update dynamically if needed)
-          const { data: ref } = await octokit.git.getRef({
-            owner: repo.owner.login,
-            repo: repo.name,
-            ref: `heads/${repo.default_branch || 'main'}`, // Handle dynamic branch
-          });
-          const latestCommitSha = ref.object.sha;
-
-          // Create a new tree
-          const { data: newTree } = await octokit.git.createTree({
-            owner: repo.owner.login,
-            repo: repo.name,
-            base_tree: latestCommitSha,
-            tree: validBlobs.map((blob) => ({
-              path: blob!.path,
-              mode: '100644',
-              type: 'blob',
-              sha: blob!.sha,
-            })),
-          });
-
-          // Create a new commit
-          const { data: newCommit } = await octokit.git.createCommit({
-            owner: repo.owner.login,
-            repo: repo.name,
-            message: commitMessage || 'Initial commit from your app',
-            tree: newTree.sha,
-            parents: [latestCommitSha],
-          });
-
-          // Update the reference
-          await octokit.git.updateRef({
-            owner: repo.owner.login,
-            repo: repo.name,
-            ref: `heads/${repo.default_branch || 'main'}`, // Handle dynamic branch
-            sha: newCommit.sha,
-          });
-
-          console.log('Files successfully pushed to repository');
-
-          return repo.html_url;
-        } catch (error) {
-          console.error(`Error during push attempt ${attempt}:`, error);
-
-          // If we've just changed visibility and this is not our last attempt, wait and retry
-          if ((visibilityJustChanged || attempt === 1) && attempt < maxAttempts) {
-            const delayMs = attempt * 2000; // Increasing delay with each attempt
-            console.log(`Waiting ${delayMs}ms before retry...`);
-            await new Promise((resolve) => setTimeout(resolve, delayMs));
-
-            return pushFilesToRepo(attempt + 1);
-          }
+    if (Object.keys(files).length === 0) {
+      throw new Error('There are no changes to propose');
+    }
 
-          throw error; // Rethrow if we're out of attempts
-        }
-      };
+    const commit = await this.#gitStore.commitFiles({ parent, ref: head, message: title, files });
+    await this.#gitStore.push({ url: repo.cloneUrl, auth, ref: head, remoteRef: head });
 
-      // Execute the push function with retry logic
-      const repoUrl = await pushFilesToRepo();
+    return {
+      pullRequest:
+        pullRequest ?? (await host.createPullRequest(repo, { title, body: await describe(files), head, base: target })),
+      commit,
+      files,
+    };
+  }
 
-      // Return the repository URL
-      return repoUrl;
-    } catch (error) {
-      console.error('Error pushing to GitHub:', error);
-      throw error; // Rethrow the error for further handling
+  /**
+   * The text files the artifacts of the chat wrote and the edits of `getModifiedFiles`, keyed by their path relative
+   * to the working directory. Files the project ignores, such as an .env, are left out.
+   */
+  async #getChatChanges(workdir: string) {
+    const textFiles = this.#getTextFiles(workdir);
+    const paths = new Set(
+      Object.keys(this.getModifiedFiles() ?? {}).map((filePath) => path.relative(workdir, filePath)),
+    );
+    const artifacts = this.artifacts.get();
+
+    // the imported files are the starting point, not a change
+    for (const artifact of Object.values(artifacts)) {
+      if (artifact.type !== 'bundled' && artifact.outcome !== 'rolled-back') {
+        artifact.runner.getTouchedFiles().forEach((filePath) => paths.add(filePath));
+      }
     }
+
+    const tracked = await this.#gitStore.filterIgnored(
+      [...paths].filter((filePath) => textFiles[filePath] !== undefined && shouldIncludeFile(filePath)),
+    );
+
+    return Object.fromEntries(tracked.map((filePath) => [filePath, textFiles[filePath]]));
+  }
+
+  /**
+   * The text files of the project keyed by their path relative to the working directory
+   */
+  #getTextFiles(workdir: string) {
+    const files: Record<string, string> = {};
+
+    for (const [filePath, dirent] of Object.entries(this.files.get())) {
+      if (dirent?.type === 'file' && !dirent.isBinary) {
+        files[path.relative(workdir, filePath)] = dirent.content;
+      }
+    }
+
+    return files;
   }
 }
 
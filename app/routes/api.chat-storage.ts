@@ -0,0 +1,42 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { CHAT_STORAGE_OPERATIONS, type ChatStorageOperation } from '~/lib/persistence/chatStorage';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.chat-storage');
+
+function getStorageDirectory(context: LoaderFunctionArgs['context']) {
+  return context?.cloudflare?.env?.CHAT_STORAGE_DIR || process.env.CHAT_STORAGE_DIR;
+}
+
+export async function loader({ context }: LoaderFunctionArgs) {
+  return Response.json({ available: !!getStorageDirectory(context) });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const directory = getStorageDirectory(context);
+
+  if (!directory) {
+    return Response.json({ error: 'Filesystem chat storage is not configured, set CHAT_STORAGE_DIR' }, { status: 501 });
+  }
+
+  const { operation, args = [] } = (await request.json()) as { operation: ChatStorageOperation; args?: unknown[] };
+
+  if (!CHAT_STORAGE_OPERATIONS.includes(operation) || !Array.isArray(args)) {
+    return Response.json({ error: `Unknown chat storage operation: ${operation}` }, { status: 400 });
+  }
+
+  try {
+    // the filesystem is only loaded when the server keeps the chats, the worker runtime has none
+    const filesystemChatStorage = await import('~/lib/.server/persistence/filesystem-chat-storage');
+    const storage = new filesystemChatStorage.FileSystemChatStorage(directory);
+    const result = await (storage[operation] as (...args: unknown[]) => Promise<unknown>).apply(storage, args);
+
+    return Response.json({ result: result ?? null });
+  } catch (error) {
+    logger.error(`Chat storage operation ${operation} failed:`, error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Chat storage operation failed' },
+      { status: 500 },
+    );
+  }
+}
@@ -1,18 +1,40 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
-import { createDataStream, generateId } from 'ai';
-import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS, type FileMap } from '~/lib/.server/llm/constants';
+import { createDataStream, formatDataStreamPart, generateId } from 'ai';
+import type { DataStreamString } from '@ai-sdk/ui-utils';
+import { MAX_RESPONSE_SEGMENTS, type FileMap } from '~/lib/.server/llm/constants';
 import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
 import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
-import SwitchableStream from '~/lib/.server/llm/switchable-stream';
-import type { IProviderSetting } from '~/types/model';
+import SwitchableStream, { deferStream } from '~/lib/.server/llm/switchable-stream';
+import { FailoverChain } from '~/lib/.server/llm/failover';
+import type { FailoverTarget, IProviderSetting } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 import { getFilePaths, selectContext } from '~/lib/.server/llm/select-context';
-import type { ContextAnnotation, ProgressAnnotation } from '~/types/context';
+import { selectSemanticContext } from '~/lib/.server/llm/semantic-context';
+import { describeContextPacking, type ContextPackingReport } from '~/lib/.server/llm/context-packer';
+import type {
+  ChatMode,
+  ContextAnnotation,
+  ContextSelectionMode,
+  PlanAnnotation,
+  PlanStepRequest,
+  ProgressAnnotation,
+  ProviderAnnotation,
+  TokenUsage,
+  UsageAnnotation,
+  UsageEntry,
+  UsageStage,
+} from '~/types/context';
 import { WORK_DIR } from '~/utils/constants';
 import { createSummary } from '~/lib/.server/llm/create-summary';
+import { createPlan, formatPlan } from '~/lib/.server/llm/create-plan';
 import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
 import type { DesignScheme } from '~/types/design-scheme';
+import type { RejectedFileAction } from '~/types/actions';
 import { MCPService } from '~/lib/services/mcpService';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { getCustomProvidersFromCookie } from '~/lib/api/cookies';
+import type { ActionOutputMode } from '~/lib/runtime/action-tools';
+import type { UserPromptTemplate } from '~/lib/common/prompt-library';
 
 export async function action(args: ActionFunctionArgs) {
   return chatAction(args);
@@ -38,25 +60,61 @@ function parseCookies(cookieHeader: string): Record<string, string> {
   return cookies;
 }
 
+const getErrorMessage = (error: any) => `Custom error: ${error.message}`;
+
 async function chatAction({ context, request }: ActionFunctionArgs) {
-  const { messages, files, promptId, contextOptimization, supabase, chatMode, designScheme, maxLLMSteps } =
-    await request.json<{
-      messages: Messages;
-      files: any;
-      promptId?: string;
-      contextOptimization: boolean;
-      chatMode: 'discuss' | 'build';
-      designScheme?: DesignScheme;
-      supabase?: {
-        isConnected: boolean;
-        hasSelectedProject: boolean;
-        credentials?: {
-          anonKey?: string;
-          supabaseUrl?: string;
-        };
+  const {
+    messages,
+    files,
+    openFiles,
+    promptId,
+    userPrompt,
+    contextOptimization,
+    actionOutputMode,
+    failoverChain,
+    supabase,
+    chatMode,
+    planStep,
+    designScheme,
+    maxLLMSteps,
+    lockedPaths,
+    rejectedActions,
+  } = await request.json<{
+    messages: Messages;
+    files: any;
+    openFiles?: string[];
+    promptId?: string;
+
+    // sent when `promptId` is a prompt written in the settings
+    userPrompt?: UserPromptTemplate;
+
+    // older clients send a boolean, which selects files with the LLM
+    contextOptimization: boolean | ContextSelectionMode;
+    actionOutputMode?: ActionOutputMode;
+
+    // tried in order when the selected model fails
+    failoverChain?: FailoverTarget[];
+    chatMode: ChatMode;
+
+    // set when the message is a step of a plan, which is built like any other message
+    planStep?: PlanStepRequest;
+    designScheme?: DesignScheme;
+    supabase?: {
+      isConnected: boolean;
+      hasSelectedProject: boolean;
+      credentials?: {
+        anonKey?: string;
+        supabaseUrl?: string;
       };
-      maxLLMSteps: number;
-    }>();
+    };
+    maxLLMSteps: number;
+
+    // relative to the project, folders end with a slash and patterns are globs
+    lockedPaths?: string[];
+
+    // file changes of the previous response that were not applied
+    rejectedActions?: RejectedFileAction[];
+  }>();
 
   const cookieHeader = request.headers.get('Cookie');
   const apiKeys = JSON.parse(parseCookies(cookieHeader || '').apiKeys || '{}');
@@ -64,13 +122,49 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     parseCookies(cookieHeader || '').providers || '{}',
   );
 
-  const stream = new SwitchableStream();
+  const customProviders = LLMManager.getInstance().createCustomProviders(getCustomProvidersFromCookie(cookieHeader));
+
+  const contextSelectionMode: ContextSelectionMode = contextOptimization === 'semantic' ? 'semantic' : 'llm';
 
   const cumulativeUsage = {
     completionTokens: 0,
     promptTokens: 0,
     totalTokens: 0,
   };
+  const usageEntries: UsageEntry[] = [];
+
+  // calls of the same stage and model, like the segments of a long response, add up to one entry
+  const recordUsage = (stage: UsageStage, target: FailoverTarget, usage?: Partial<TokenUsage>) => {
+    if (!usage) {
+      return;
+    }
+
+    logger.debug(`${stage} token usage`, JSON.stringify(usage));
+
+    let entry = usageEntries.find(
+      (existing) =>
+        existing.stage === stage && existing.provider === target.provider && existing.model === target.model,
+    );
+
+    if (!entry) {
+      entry = {
+        stage,
+        provider: target.provider,
+        model: target.model,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+      };
+      usageEntries.push(entry);
+    }
+
+    entry.completionTokens += usage.completionTokens || 0;
+    entry.promptTokens += usage.promptTokens || 0;
+    entry.totalTokens += usage.totalTokens || 0;
+    cumulativeUsage.completionTokens += usage.completionTokens || 0;
+    cumulativeUsage.promptTokens += usage.promptTokens || 0;
+    cumulativeUsage.totalTokens += usage.totalTokens || 0;
+  };
   const encoder: TextEncoder = new TextEncoder();
   let progressCounter: number = 1;
 
@@ -89,6 +183,9 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
         let messageSliceId = 0;
 
         const processedMessages = await mcpService.processToolInvocations(messages, dataStream);
+        const lastUserMessage = processedMessages.filter((x) => x.role == 'user').slice(-1)[0];
+        const selected = extractPropertiesFromMessage(lastUserMessage);
+        const selectedTarget: FailoverTarget = { provider: selected.provider, model: selected.model };
 
         if (processedMessages.length > 3) {
           messageSliceId = processedMessages.length - 3;
@@ -112,15 +209,11 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             env: context.cloudflare?.env,
             apiKeys,
             providerSettings,
+            customProviders,
             promptId,
-            contextOptimization,
+            contextOptimization: !!contextOptimization,
             onFinish(resp) {
-              if (resp.usage) {
-                logger.debug('createSummary token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
-              }
+              recordUsage('summary', selectedTarget, resp.usage);
             },
           });
           dataStream.writeData({
@@ -149,24 +242,39 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
 
           // Select context files
           console.log(`Messages count: ${processedMessages.length}`);
-          filteredFiles = await selectContext({
-            messages: [...processedMessages],
-            env: context.cloudflare?.env,
-            apiKeys,
-            files,
-            providerSettings,
-            promptId,
-            contextOptimization,
-            summary,
-            onFinish(resp) {
-              if (resp.usage) {
-                logger.debug('selectContext token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
-              }
-            },
-          });
+
+          if (contextSelectionMode === 'semantic') {
+            const semanticContext = await selectSemanticContext({
+              messages: [...processedMessages],
+              env: context.cloudflare?.env,
+              apiKeys,
+              files,
+              providerSettings,
+              summary,
+            });
+
+            filteredFiles = semanticContext.files;
+
+            if (semanticContext.usage) {
+              const { target, tokens } = semanticContext.usage;
+              recordUsage('context', target, { promptTokens: tokens, completionTokens: 0, totalTokens: tokens });
+            }
+          } else {
+            filteredFiles = await selectContext({
+              messages: [...processedMessages],
+              env: context.cloudflare?.env,
+              apiKeys,
+              files,
+              providerSettings,
+              customProviders,
+              promptId,
+              contextOptimization: !!contextOptimization,
+              summary,
+              onFinish(resp) {
+                recordUsage('context', selectedTarget, resp.usage);
+              },
+            });
+          }
 
           if (filteredFiles) {
             logger.debug(`files in context : ${JSON.stringify(Object.keys(filteredFiles))}`);
@@ -196,6 +304,72 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           // logger.debug('Code Files Selected');
         }
 
+        // the planner answers with the steps only, the client sends them to the coder model one by one
+        if (chatMode === 'plan') {
+          dataStream.writeData({
+            type: 'progress',
+            label: 'plan',
+            status: 'in-progress',
+            order: progressCounter++,
+            message: 'Planning',
+          } satisfies ProgressAnnotation);
+
+          const steps = await createPlan({
+            messages: [...processedMessages],
+            planner: selectedTarget,
+            filePaths,
+            summary,
+            env: context.cloudflare?.env,
+            apiKeys,
+            providerSettings,
+            customProviders,
+            onFinish(usage) {
+              recordUsage('plan', selectedTarget, usage);
+            },
+          });
+
+          dataStream.writeMessageAnnotation({ type: 'plan', steps } satisfies PlanAnnotation);
+          dataStream.writeMessageAnnotation({
+            type: 'usage',
+            value: { ...cumulativeUsage },
+            entries: usageEntries,
+          } satisfies UsageAnnotation);
+          dataStream.write(formatDataStreamPart('text', formatPlan(steps)));
+          dataStream.writeData({
+            type: 'progress',
+            label: 'plan',
+            status: 'complete',
+            order: progressCounter++,
+            message: `Planned ${steps.length} step(s)`,
+          } satisfies ProgressAnnotation);
+
+          return;
+        }
+
+        if (planStep) {
+          dataStream.writeData({
+            type: 'progress',
+            label: 'planStep',
+            status: 'in-progress',
+            order: progressCounter++,
+            message: `Step ${planStep.index + 1} of ${planStep.total}: ${planStep.title}`,
+          } satisfies ProgressAnnotation);
+        }
+
+        const writeContextBudget = (report: ContextPackingReport) => {
+          dataStream.writeData({
+            type: 'progress',
+            label: 'contextBudget',
+            status: 'complete',
+            order: progressCounter++,
+            message: describeContextPacking(report),
+          } satisfies ProgressAnnotation);
+        };
+
+        const failover = new FailoverChain(selectedTarget, failoverChain);
+        let usedTarget: FailoverTarget | undefined;
+        let responseSegments = 0;
+
         const options: StreamingOptions = {
           supabaseConnection: supabase,
           toolChoice: 'auto',
@@ -208,12 +382,12 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             });
           },
           onFinish: async ({ text: content, finishReason, usage }) => {
-            logger.debug('usage', JSON.stringify(usage));
+            // failed attempts are billed as well
+            recordUsage('response', usedTarget ?? failover.current, usage);
 
-            if (usage) {
-              cumulativeUsage.completionTokens += usage.completionTokens || 0;
-              cumulativeUsage.promptTokens += usage.promptTokens || 0;
-              cumulativeUsage.totalTokens += usage.totalTokens || 0;
+            // the failed response is either continued by the next model in the chain or reported as an error
+            if (finishReason === 'error') {
+              return;
             }
 
             if (finishReason !== 'length') {
@@ -224,7 +398,17 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                   promptTokens: cumulativeUsage.promptTokens,
                   totalTokens: cumulativeUsage.totalTokens,
                 },
-              });
+                entries: usageEntries,
+              } satisfies UsageAnnotation);
+
+              if (usedTarget) {
+                dataStream.writeMessageAnnotation({
+                  type: 'provider',
+                  ...usedTarget,
+                  failures: failover.failures,
+                } satisfies ProviderAnnotation);
+              }
+
               dataStream.writeData({
                 type: 'progress',
                 label: 'response',
@@ -232,22 +416,32 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                 order: progressCounter++,
                 message: 'Response Generated',
               } satisfies ProgressAnnotation);
+
+              if (planStep) {
+                dataStream.writeData({
+                  type: 'progress',
+                  label: 'planStep',
+                  status: 'complete',
+                  order: progressCounter++,
+                  message: `Step ${planStep.index + 1} of ${planStep.total} done`,
+                } satisfies ProgressAnnotation);
+              }
+
               await new Promise((resolve) => setTimeout(resolve, 0));
 
               // stream.close();
               return;
             }
 
-            if (stream.switches >= MAX_RESPONSE_SEGMENTS) {
+            if (responseSegments >= MAX_RESPONSE_SEGMENTS) {
               throw Error('Cannot continue message: Maximum segments reached');
             }
 
-            const switchesLeft = MAX_RESPONSE_SEGMENTS - stream.switches;
+            const switchesLeft = MAX_RESPONSE_SEGMENTS - responseSegments;
 
-            logger.info(`Reached max token limit (${MAX_TOKENS}): Continuing message (${switchesLeft} switches left)`);
+            logger.info(`Reached max output tokens: Continuing message (${switchesLeft} switches left)`);
 
-            const lastUserMessage = processedMessages.filter((x) => x.role == 'user').slice(-1)[0];
-            const { model, provider } = extractPropertiesFromMessage(lastUserMessage);
+            const { model, provider } = failover.current;
             processedMessages.push({ id: generateId(), role: 'assistant', content });
             processedMessages.push({
               id: generateId(),
@@ -255,37 +449,164 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
               content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${CONTINUE_PROMPT}`,
             });
 
-            const result = await streamText({
+            streamResponse();
+
+            return;
+          },
+        };
+
+        /**
+         * Decides how to go on after a failed response. Text that was already streamed stays with the user
+         * and the next model is asked to continue it.
+         *
+         * @returns Creates the stream of the next attempt, or `undefined` when the chain is exhausted
+         */
+        const failOver = (responseStream: SwitchableStream, error: unknown, partialText: string) => {
+          const failed = failover.current;
+          const step = failover.next(error);
+
+          if (!step) {
+            logger.error(`${failed.provider} (${failed.model}) failed and no fallback is left: ${error}`);
+            return undefined;
+          }
+
+          const message = step.switched
+            ? `${failed.provider} failed (${step.error.type}), switching to ${step.target.provider} (${step.target.model})`
+            : `${failed.provider} failed (${step.error.type}), retrying in ${Math.round(step.delayMs / 1000)}s`;
+
+          logger.warn(`${message}: ${step.error.message}`);
+          dataStream.writeData({
+            type: 'progress',
+            label: 'failover',
+            status: 'complete',
+            order: progressCounter++,
+            message,
+          } satisfies ProgressAnnotation);
+
+          if (partialText) {
+            processedMessages.push({ id: generateId(), role: 'assistant', content: partialText });
+            processedMessages.push({
+              id: generateId(),
+              role: 'user',
+              content: `[Model: ${step.target.model}]\n\n[Provider: ${step.target.provider}]\n\n${CONTINUE_PROMPT}`,
+            });
+          }
+
+          return async () => {
+            await new Promise((resolve) => setTimeout(resolve, step.delayMs));
+
+            return createResponseSource(responseStream);
+          };
+        };
+
+        const createResponseSource = async (
+          responseStream: SwitchableStream,
+        ): Promise<ReadableStream<DataStreamString>> => {
+          let attemptError: unknown;
+          let attemptText = '';
+          let failedOver = false;
+          const decoder = new TextDecoder();
+          let result: Awaited<ReturnType<typeof streamText>>;
+
+          try {
+            result = await streamText({
               messages: [...processedMessages],
               env: context.cloudflare?.env,
-              options,
+              options: {
+                ...options,
+
+                // retries are handled by the failover chain
+                maxRetries: 0,
+                onChunk: ({ chunk }) => {
+                  if (chunk.type === 'text-delta') {
+                    attemptText += chunk.textDelta;
+                  }
+                },
+              },
               apiKeys,
               files,
               providerSettings,
+              customProviders,
               promptId,
-              contextOptimization,
+              userPrompt,
+              contextOptimization: !!contextOptimization,
               contextFiles: filteredFiles,
-              chatMode,
+              chatMode: chatMode === 'discuss' ? 'discuss' : 'build',
               designScheme,
+              lockedPaths,
+              rejectedActions,
               summary,
               messageSliceId,
+              openFiles,
+              onContextPacked: writeContextBudget,
+              actionOutputMode,
+              target: failover.current,
+              onModelSelected: (target) => {
+                usedTarget = target;
+              },
             });
+          } catch (error) {
+            const next = failOver(responseStream, error, '');
+
+            if (!next) {
+              throw error;
+            }
 
-            result.mergeIntoDataStream(dataStream);
+            return next();
+          }
 
-            (async () => {
-              for await (const part of result.fullStream) {
-                if (part.type === 'error') {
-                  const error: any = part.error;
-                  logger.error(`${error}`);
+          (async () => {
+            for await (const part of result.fullStream) {
+              if (part.type === 'error') {
+                const error: any = part.error;
+                logger.error(`${error}`);
 
-                  return;
-                }
+                return;
               }
-            })();
+            }
+          })();
+
+          return result
+            .toDataStream({
+              getErrorMessage: (error) => {
+                attemptError = error;
+                return getErrorMessage(error);
+              },
+            })
+            .pipeThrough(
+              new TransformStream<Uint8Array, DataStreamString>({
+                transform: (bytes, controller) => {
+                  const chunk = decoder.decode(bytes, { stream: true });
+
+                  // the rest of a failed attempt is dropped while the next one is prepared
+                  if (failedOver) {
+                    return;
+                  }
+
+                  if (attemptError && chunk.startsWith('3:')) {
+                    const next = failOver(responseStream, attemptError, attemptText);
+
+                    if (next) {
+                      failedOver = true;
+                      responseStream.switchSource(deferStream(next));
+
+                      return;
+                    }
+                  }
+
+                  controller.enqueue(chunk as DataStreamString);
+                },
+              }),
+            );
+        };
 
-            return;
-          },
+        // every segment of the response gets its own stream, failing over switches its source
+        const streamResponse = () => {
+          const responseStream = new SwitchableStream();
+
+          responseSegments++;
+          dataStream.merge(responseStream.readable);
+          responseStream.switchSource(deferStream(() => createResponseSource(responseStream)));
         };
 
         dataStream.writeData({
@@ -296,35 +617,9 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           message: 'Generating Response',
         } satisfies ProgressAnnotation);
 
-        const result = await streamText({
-          messages: [...processedMessages],
-          env: context.cloudflare?.env,
-          options,
-          apiKeys,
-          files,
-          providerSettings,
-          promptId,
-          contextOptimization,
-          contextFiles: filteredFiles,
-          chatMode,
-          designScheme,
-          summary,
-          messageSliceId,
-        });
-
-        (async () => {
-          for await (const part of result.fullStream) {
-            if (part.type === 'error') {
-              const error: any = part.error;
-              logger.error(`${error}`);
-
-              return;
-            }
-          }
-        })();
-        result.mergeIntoDataStream(dataStream);
+        streamResponse();
       },
-      onError: (error: any) => `Custom error: ${error.message}`,
+      onError: getErrorMessage,
     }).pipeThrough(
       new TransformStream({
         transform: (chunk, controller) => {
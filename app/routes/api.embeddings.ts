@@ -0,0 +1,49 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { createEmbeddingProvider } from '~/lib/.server/llm/semantic-context';
+import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.embeddings');
+
+// larger batches are split by the client
+const MAX_TEXTS = 100;
+const MAX_TEXT_LENGTH = 8000;
+
+/**
+ * Embeds texts with the provider configured with `CONTEXT_EMBEDDING_PROVIDER`, for the semantic search of the chat
+ * history. Responds with 501 when none is configured.
+ */
+export async function action({ context, request }: ActionFunctionArgs) {
+  const { texts } = await request.json<{ texts: string[] }>();
+
+  if (
+    !Array.isArray(texts) ||
+    texts.length > MAX_TEXTS ||
+    texts.some((text) => typeof text !== 'string' || text.length > MAX_TEXT_LENGTH)
+  ) {
+    return Response.json(
+      { error: `Expected up to ${MAX_TEXTS} texts of up to ${MAX_TEXT_LENGTH} characters` },
+      { status: 400 },
+    );
+  }
+
+  const cookieHeader = request.headers.get('Cookie');
+  const provider = createEmbeddingProvider({
+    serverEnv: context.cloudflare?.env,
+    apiKeys: getApiKeysFromCookie(cookieHeader),
+    providerSettings: getProviderSettingsFromCookie(cookieHeader),
+  });
+
+  if (!provider) {
+    return Response.json({ error: 'No embedding provider is configured' }, { status: 501 });
+  }
+
+  try {
+    const { embeddings } = await provider.embed(texts);
+
+    return Response.json({ model: provider.name, embeddings });
+  } catch (error) {
+    logger.error('Failed to embed texts:', error);
+    return Response.json({ error: error instanceof Error ? error.message : 'Failed to embed texts' }, { status: 502 });
+  }
+}
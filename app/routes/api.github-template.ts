@@ -1,5 +1,6 @@
 import { json } from '@remix-run/cloudflare';
 import JSZip from 'jszip';
+import { createGitHost, isGitHostId } from '~/lib/modules/git-hosts/registry';
 
 // Function to detect if we're running in Cloudflare
 function isCloudflareEnvironment(context: any): boolean {
@@ -204,12 +205,27 @@ async function fetchRepoContentsZip(repo: string, githubToken?: string) {
 export async function loader({ request, context }: { request: Request; context: any }) {
   const url = new URL(request.url);
   const repo = url.searchParams.get('repo');
+  const host = url.searchParams.get('host') ?? 'github';
 
   if (!repo) {
     return json({ error: 'Repository name is required' }, { status: 400 });
   }
 
+  if (!isGitHostId(host)) {
+    return json({ error: `Unknown git host: ${host}` }, { status: 400 });
+  }
+
   try {
+    /*
+     * templates on other hosts are read through the API of their public service, public repositories need no token.
+     * Self-hosted instances are never fetched from here, the browser reads them itself.
+     */
+    if (host !== 'github') {
+      const gitHost = createGitHost(host);
+
+      return json(await gitHost.getTemplateFiles(repo));
+    }
+
     // Access environment variables from Cloudflare context or process.env
     const githubToken = context?.cloudflare?.env?.GITHUB_TOKEN || process.env.GITHUB_TOKEN;
 
@@ -1,12 +1,12 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import { streamText } from '~/lib/.server/llm/stream-text';
+import { getModelInstance } from '~/lib/.server/llm/response-cache';
 import type { IProviderSetting, ProviderInfo } from '~/types/model';
 import { generateText } from 'ai';
-import { PROVIDER_LIST } from '~/utils/constants';
-import { MAX_TOKENS } from '~/lib/.server/llm/constants';
 import { LLMManager } from '~/lib/modules/llm/manager';
 import type { ModelInfo } from '~/lib/modules/llm/types';
-import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import type { CustomProviders } from '~/lib/modules/llm/custom-provider';
+import { getApiKeysFromCookie, getCustomProvidersFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
 import { createScopedLogger } from '~/utils/logger';
 
 export async function action(args: ActionFunctionArgs) {
@@ -17,6 +17,7 @@ async function getModelList(options: {
   apiKeys?: Record<string, string>;
   providerSettings?: Record<string, IProviderSetting>;
   serverEnv?: Record<string, string>;
+  customProviders?: CustomProviders;
 }) {
   const llmManager = LLMManager.getInstance(import.meta.env);
   return llmManager.updateModelList(options);
@@ -54,6 +55,8 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
   const apiKeys = getApiKeysFromCookie(cookieHeader);
   const providerSettings = getProviderSettingsFromCookie(cookieHeader);
 
+  const customProviders = LLMManager.getInstance().createCustomProviders(getCustomProvidersFromCookie(cookieHeader));
+
   if (streamOutput) {
     try {
       const result = await streamText({
@@ -66,9 +69,10 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
             content: `${message}`,
           },
         ],
-        env: context.cloudflare?.env as any,
+        env: context.cloudflare?.env,
         apiKeys,
         providerSettings,
+        customProviders,
       });
 
       return new Response(result.textStream, {
@@ -94,21 +98,26 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
     }
   } else {
     try {
-      const models = await getModelList({ apiKeys, providerSettings, serverEnv: context.cloudflare?.env as any });
+      const models = await getModelList({
+        apiKeys,
+        providerSettings,
+        serverEnv: context.cloudflare?.env as unknown as Record<string, string> | undefined,
+        customProviders,
+      });
       const modelDetails = models.find((m: ModelInfo) => m.name === model);
 
       if (!modelDetails) {
         throw new Error('Model not found');
       }
 
-      const dynamicMaxTokens = modelDetails && modelDetails.maxTokenAllowed ? modelDetails.maxTokenAllowed : MAX_TOKENS;
-
-      const providerInfo = PROVIDER_LIST.find((p) => p.name === provider.name);
+      const providerInfo = LLMManager.getInstance().getProvider(provider.name, customProviders);
 
       if (!providerInfo) {
         throw new Error('Provider not found');
       }
 
+      const { maxOutputTokens } = providerInfo.getModelCapabilities(modelDetails);
+
       logger.info(`Generating response Provider: ${provider.name}, Model: ${modelDetails.name}`);
 
       const result = await generateText({
@@ -119,13 +128,13 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
             content: `${message}`,
           },
         ],
-        model: providerInfo.getModelInstance({
+        model: getModelInstance(providerInfo, {
           model: modelDetails.name,
-          serverEnv: context.cloudflare?.env as any,
+          serverEnv: context.cloudflare?.env,
           apiKeys,
           providerSettings,
         }),
-        maxTokens: dynamicMaxTokens,
+        maxTokens: maxOutputTokens,
         toolChoice: 'none',
       });
       logger.info(`Generated response`);
@@ -2,7 +2,7 @@ import { json } from '@remix-run/cloudflare';
 import { LLMManager } from '~/lib/modules/llm/manager';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { ProviderInfo } from '~/types/model';
-import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import { getApiKeysFromCookie, getCustomProvidersFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
 
 interface ModelsResponse {
   modelList: ModelInfo[];
@@ -57,20 +57,28 @@ export async function loader({
   const cookieHeader = request.headers.get('Cookie');
   const apiKeys = getApiKeysFromCookie(cookieHeader);
   const providerSettings = getProviderSettingsFromCookie(cookieHeader);
+  const customProviders = llmManager.createCustomProviders(getCustomProvidersFromCookie(cookieHeader));
 
-  const { providers, defaultProvider } = getProviderInfo(llmManager);
+  const { providers: builtInProviders, defaultProvider } = getProviderInfo(llmManager);
+
+  // the built-in providers are cached, custom providers differ from user to user
+  const providers = [
+    ...builtInProviders,
+    ...[...customProviders.values()].map((provider) => ({ name: provider.name, staticModels: provider.staticModels })),
+  ];
 
   let modelList: ModelInfo[] = [];
 
   if (params.provider) {
     // Only update models for the specific provider
-    const provider = llmManager.getProvider(params.provider);
+    const provider = llmManager.getProvider(params.provider, customProviders);
 
     if (provider) {
       modelList = await llmManager.getModelListFromProvider(provider, {
         apiKeys,
         providerSettings,
         serverEnv: context.cloudflare?.env,
+        customProviders,
       });
     }
   } else {
@@ -79,6 +87,7 @@ export async function loader({
       apiKeys,
       providerSettings,
       serverEnv: context.cloudflare?.env,
+      customProviders,
     });
   }
 
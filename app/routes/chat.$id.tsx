@@ -2,7 +2,10 @@ import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
 import { default as IndexRoute } from './_index';
 
 export async function loader(args: LoaderFunctionArgs) {
-  return json({ id: args.params.id });
+  // set by the history search to scroll to the matching message
+  const messageId = new URL(args.request.url).searchParams.get('message') ?? undefined;
+
+  return json({ id: args.params.id, messageId });
 }
 
 export default IndexRoute;
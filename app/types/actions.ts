@@ -1,6 +1,6 @@
 import type { Change } from 'diff';
 
-export type ActionType = 'file' | 'shell' | 'supabase';
+export type ActionType = 'file' | 'edit' | 'shell' | 'supabase';
 
 export interface BaseAction {
   content: string;
@@ -11,6 +11,15 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+/**
+ * Patches an existing file instead of rewriting it. The content holds either
+ * SEARCH/REPLACE blocks or a unified diff.
+ */
+export interface EditAction extends BaseAction {
+  type: 'edit';
+  filePath: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
@@ -30,10 +39,30 @@ export interface SupabaseAction extends BaseAction {
   projectId?: string;
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction | BuildAction | SupabaseAction;
+export type BoltAction = FileAction | EditAction | ShellAction | StartAction | BuildAction | SupabaseAction;
 
 export type BoltActionData = BoltAction | BaseAction;
 
+/**
+ * A file change of the model that was not applied, sent back with the next request so the model can adapt.
+ */
+export interface RejectedFileAction {
+  actionType: 'file' | 'edit';
+  filePath: string;
+
+  // `conflict` when the SEARCH blocks or the diff of an edit did not match the file
+  reason: 'locked' | 'conflict';
+
+  // the locked file, folder or pattern
+  lockedBy?: string;
+
+  // why an edit did not apply, such as the SEARCH block that was not found
+  error?: string;
+
+  // the SEARCH/REPLACE blocks or diff of the edit that did not apply
+  content?: string;
+}
+
 export interface ActionAlert {
   type: string;
   title: string;
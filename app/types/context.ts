@@ -1,3 +1,43 @@
+import type { LlmErrorAlertType } from './actions';
+
+/**
+ * How the files sent to the LLM are picked when context optimization is enabled:
+ * - `llm` asks the model to pick the relevant files
+ * - `semantic` ranks the files locally with embeddings or BM25, without an extra model call
+ */
+export type ContextSelectionMode = 'llm' | 'semantic';
+
+/**
+ * `plan` asks a planner model for a list of steps, which are then sent one by one to a coder model in `build` mode.
+ */
+export type ChatMode = 'discuss' | 'build' | 'plan';
+
+export type PlanStep = {
+  title: string;
+  details: string;
+};
+
+export type PlanAnnotation = {
+  type: 'plan';
+  steps: PlanStep[];
+};
+
+// sent with the request of every step, the step itself is the text of the user message
+export type PlanStepRequest = {
+  index: number;
+  total: number;
+  title: string;
+};
+
+// added to the user messages sent by the auto fix loop, the attempts of one loop share the thread id
+export type AutoFixAnnotation = {
+  type: 'autoFix';
+  threadId: string;
+  attempt: number;
+  maxAttempts: number;
+  title: string;
+};
+
 export type ContextAnnotation =
   | {
       type: 'codeContext';
@@ -9,6 +49,38 @@ export type ContextAnnotation =
       chatId: string;
     };
 
+export type ProviderAnnotation = {
+  type: 'provider';
+  provider: string;
+  model: string;
+
+  // the models that failed before this one answered, in order
+  failures: { provider: string; model: string; errorType: LlmErrorAlertType['errorType'] }[];
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+// the model calls behind a response: the chat summary and the file selection come before the response itself
+export type UsageStage = 'summary' | 'context' | 'plan' | 'response';
+
+export type UsageEntry = TokenUsage & {
+  stage: UsageStage;
+  provider: string;
+  model: string;
+};
+
+export type UsageAnnotation = {
+  type: 'usage';
+
+  // the total of all entries
+  value: TokenUsage;
+  entries: UsageEntry[];
+};
+
 export type ProgressAnnotation = {
   type: 'progress';
   label: string;
@@ -22,3 +22,26 @@ export interface IProviderSetting {
 export type IProviderConfig = ProviderInfo & {
   settings: IProviderSetting;
 };
+
+// a provider and model to fall back to when the selected one keeps failing
+export type FailoverTarget = {
+  provider: string;
+  model: string;
+};
+
+// the API a custom provider's endpoint speaks
+export type CustomProviderApi = 'openai' | 'anthropic';
+
+/**
+ * A provider defined in the settings instead of in code. Its API key is kept with the other keys,
+ * under the name of the provider.
+ */
+export type CustomProviderConfig = {
+  name: string;
+  api: CustomProviderApi;
+  baseUrl: string;
+  headers?: Record<string, string>;
+
+  // empty to list the models of the endpoint
+  models: { name: string; label?: string; maxTokenAllowed?: number }[];
+};
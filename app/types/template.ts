@@ -1,8 +1,13 @@
+import type { GitHostId } from '~/lib/modules/git-hosts/types';
+
 export interface Template {
   name: string;
   label: string;
   description: string;
   githubRepo: string;
+
+  // where `githubRepo` lives when it is not on GitHub
+  gitHost?: { id: GitHostId; baseUrl?: string };
   tags?: string[];
   icon?: string;
 }
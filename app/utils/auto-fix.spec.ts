@@ -0,0 +1,98 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import {
+  createAutoFixMessage,
+  findReferencedFiles,
+  getAutoFixStopReason,
+  getErrorSignature,
+  groupAutoFixThreads,
+} from './auto-fix';
+import type { FileMap } from '~/lib/stores/files';
+
+const files: FileMap = {
+  '/home/project/src': { type: 'folder' },
+  '/home/project/src/App.tsx': { type: 'file', content: 'export default App;', isBinary: false },
+  '/home/project/src/main.tsx': { type: 'file', content: 'render(<App />);', isBinary: false },
+  '/home/project/node_modules/react/index.js': { type: 'file', content: '', isBinary: false },
+};
+
+describe('getErrorSignature', () => {
+  it('ignores line numbers and timestamps', () => {
+    const alert = {
+      type: 'preview',
+      title: 'Uncaught Exception',
+      description: 'x is not defined',
+      source: 'preview' as const,
+    };
+
+    expect(getErrorSignature({ ...alert, content: 'at src/App.tsx?t=1712:12:5' })).toBe(
+      getErrorSignature({ ...alert, content: 'at src/App.tsx?t=1899:14:9' }),
+    );
+  });
+});
+
+describe('getAutoFixStopReason', () => {
+  it('stops on a repeated error or when the attempts run out', () => {
+    expect(getAutoFixStopReason([], 'a', 3)).toBeUndefined();
+    expect(getAutoFixStopReason(['a'], 'a', 3)).toMatch(/same error/);
+    expect(getAutoFixStopReason(['a', 'b'], 'c', 2)).toMatch(/after 2 attempts/);
+  });
+});
+
+describe('findReferencedFiles', () => {
+  it('returns the project files in the order they are mentioned', () => {
+    expect(
+      findReferencedFiles('at main (src/main.tsx:3)\nat App (src/App.tsx:1)\nnode_modules/react/index.js', files),
+    ).toEqual(['src/main.tsx', 'src/App.tsx']);
+  });
+});
+
+describe('createAutoFixMessage', () => {
+  it('includes the error and the mentioned files', () => {
+    const message = createAutoFixMessage(
+      {
+        type: 'error',
+        title: 'Build Failed',
+        description: 'vite build',
+        content: 'src/App.tsx: error',
+        source: 'terminal',
+      },
+      files,
+      1,
+      3,
+    );
+
+    expect(message).toContain('*Auto fix 1 of 3: fix this terminal error*');
+    expect(message).toContain('`src/App.tsx`:\n```tsx\nexport default App;\n```');
+  });
+});
+
+describe('groupAutoFixThreads', () => {
+  const fix = (id: string, threadId: string): Message => ({
+    id,
+    role: 'user',
+    content: '',
+    annotations: [{ type: 'autoFix', threadId, attempt: 1, maxAttempts: 3, title: 'Build Failed' }],
+  });
+
+  it('groups the attempts of a thread with their responses', () => {
+    const messages: Message[] = [
+      { id: '1', role: 'user', content: '' },
+      { id: '2', role: 'assistant', content: '' },
+      fix('3', 't1'),
+      { id: '4', role: 'assistant', content: '' },
+      fix('5', 't1'),
+      { id: '6', role: 'assistant', content: '' },
+      { id: '7', role: 'user', content: '' },
+    ];
+
+    expect(
+      groupAutoFixThreads(messages).map((group) => [group.threadId, group.messages.map(({ message }) => message.id)]),
+    ).toEqual([
+      [undefined, ['1']],
+      [undefined, ['2']],
+      ['t1', ['3', '4', '5', '6']],
+      [undefined, ['7']],
+    ]);
+  });
+});
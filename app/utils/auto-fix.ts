@@ -0,0 +1,119 @@
+import type { Message } from 'ai';
+import type { ActionAlert } from '~/types/actions';
+import type { AutoFixAnnotation } from '~/types/context';
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from './constants';
+import { getLanguageFromExtension } from './getLanguageFromExtension';
+
+const MAX_REFERENCED_FILES = 3;
+const MAX_FILE_LENGTH = 8000;
+
+/**
+ * The error without the parts that change between runs of the same failure, such as line numbers, ports and
+ * timestamps, so a repeated error can be recognized.
+ */
+export function getErrorSignature(alert: ActionAlert) {
+  return `${alert.title}\n${alert.description}\n${alert.content}`
+    .replace(/\x1b\[[0-9;]*m/g, '')
+    .replace(/[?&]t=\d+/g, '')
+    .replace(/\d+/g, 'N')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 1000);
+}
+
+/**
+ * The reason to stop fixing, or `undefined` when the error should be sent to the model.
+ */
+export function getAutoFixStopReason(previousSignatures: string[], signature: string, maxAttempts: number) {
+  if (previousSignatures.includes(signature)) {
+    return 'The same error came back after a fix';
+  }
+
+  if (previousSignatures.length >= maxAttempts) {
+    return `The error is still there after ${maxAttempts} ${maxAttempts === 1 ? 'attempt' : 'attempts'}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * The project files mentioned in the error, in the order they first appear.
+ */
+export function findReferencedFiles(text: string, files: FileMap) {
+  const matches: Array<{ path: string; position: number }> = [];
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type !== 'file' || dirent.isBinary || !filePath.startsWith(`${WORK_DIR}/`)) {
+      continue;
+    }
+
+    const relativePath = filePath.slice(WORK_DIR.length + 1);
+    const position = text.indexOf(relativePath);
+
+    if (position >= 0 && !relativePath.startsWith('node_modules/')) {
+      matches.push({ path: relativePath, position });
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.position - b.position || b.path.length - a.path.length)
+    .slice(0, MAX_REFERENCED_FILES)
+    .map(({ path }) => path);
+}
+
+export function createAutoFixMessage(alert: ActionAlert, files: FileMap, attempt: number, maxAttempts: number) {
+  const isPreview = alert.source === 'preview';
+  const referencedFiles = findReferencedFiles(`${alert.description}\n${alert.content}`, files);
+
+  const fileSections = referencedFiles.map((relativePath) => {
+    const file = files[`${WORK_DIR}/${relativePath}`];
+    const content = file?.type === 'file' ? file.content : '';
+    const language = getLanguageFromExtension(relativePath.split('.').pop() ?? '');
+    const truncated = content.length > MAX_FILE_LENGTH ? `${content.slice(0, MAX_FILE_LENGTH)}\n...` : content;
+
+    return `\`${relativePath}\`:\n\`\`\`${language}\n${truncated}\n\`\`\``;
+  });
+
+  return [
+    `*Auto fix ${attempt} of ${maxAttempts}: fix this ${isPreview ? 'preview' : 'terminal'} error*`,
+    `\`\`\`${isPreview ? 'js' : 'sh'}\n${alert.content}\n\`\`\``,
+    ...(fileSections.length ? ['Files mentioned in the error:', ...fileSections] : []),
+  ].join('\n\n');
+}
+
+export function getAutoFixAnnotation(message: Message) {
+  return message.annotations?.find(
+    (annotation): annotation is AutoFixAnnotation =>
+      !!annotation && typeof annotation === 'object' && (annotation as AutoFixAnnotation).type === 'autoFix',
+  );
+}
+
+export interface MessageGroup {
+  threadId?: string;
+  messages: Array<{ message: Message; index: number }>;
+}
+
+/**
+ * Groups the fix requests of one auto fix thread together with the responses to them, all other messages stay on
+ * their own.
+ */
+export function groupAutoFixThreads(messages: Message[]) {
+  const groups: MessageGroup[] = [];
+
+  messages.forEach((message, index) => {
+    const threadId = message.role === 'user' ? getAutoFixAnnotation(message)?.threadId : undefined;
+    const last = groups.at(-1);
+
+    // responses belong to the thread of the request before them
+    const joinsThread = message.role === 'user' ? !!threadId && last?.threadId === threadId : !!last?.threadId;
+
+    if (last && joinsThread) {
+      last.messages.push({ message, index });
+    } else {
+      groups.push({ threadId, messages: [{ message, index }] });
+    }
+  });
+
+  return groups;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Ranker, tokenize } from './bm25';
+
+describe('tokenize', () => {
+  it('splits identifiers into lowercase terms without stop words', () => {
+    expect(tokenize('Add the userProfile to fetch_user_data and TodoList-item')).toEqual([
+      'add',
+      'user',
+      'profile',
+      'fetch',
+      'user',
+      'data',
+      'todo',
+      'list',
+      'item',
+    ]);
+  });
+});
+
+describe('Bm25Ranker', () => {
+  const ranker = new Bm25Ranker([
+    'export function LoginForm() { return <form>password</form>; }',
+    'export function TodoList() { return <ul>todo todo todo</ul>; }',
+    'export const api = { login: () => fetch("/login") };',
+    'the end',
+  ]);
+
+  it('scores documents with the query terms only', () => {
+    const scores = ranker.score('login form');
+
+    expect(scores[0]).toBeGreaterThan(0);
+    expect(scores[2]).toBeGreaterThan(0);
+    expect(scores[1]).toBe(0);
+    expect(scores[3]).toBe(0);
+  });
+
+  it('ranks documents that match more and rarer terms higher', () => {
+    const [loginForm, , api] = ranker.score('login form');
+
+    expect(loginForm).toBeGreaterThan(api);
+    expect(ranker.score('password login')[0]).toBeGreaterThan(ranker.score('login')[0]);
+  });
+
+  it('scores nothing for queries of stop words', () => {
+    expect(ranker.score('the')).toEqual([0, 0, 0, 0]);
+    expect(new Bm25Ranker([]).score('login')).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+// BM25 tuning parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'can',
+  'do',
+  'for',
+  'from',
+  'how',
+  'i',
+  'if',
+  'in',
+  'is',
+  'it',
+  'me',
+  'my',
+  'of',
+  'on',
+  'or',
+  'please',
+  'should',
+  'so',
+  'that',
+  'the',
+  'this',
+  'to',
+  'we',
+  'with',
+  'you',
+]);
+
+/**
+ * Splits text into lowercase terms, breaking up camelCase, snake_case and kebab-case identifiers.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Pure TypeScript BM25 ranking, see https://en.wikipedia.org/wiki/Okapi_BM25
+ */
+export class Bm25Ranker {
+  #documents: Array<Map<string, number>> = [];
+  #documentLengths: number[] = [];
+  #documentFrequencies = new Map<string, number>();
+  #averageLength = 0;
+
+  constructor(documents: string[]) {
+    for (const document of documents) {
+      const termFrequencies = new Map<string, number>();
+      const terms = tokenize(document);
+
+      for (const term of terms) {
+        termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+      }
+
+      for (const term of termFrequencies.keys()) {
+        this.#documentFrequencies.set(term, (this.#documentFrequencies.get(term) ?? 0) + 1);
+      }
+
+      this.#documents.push(termFrequencies);
+      this.#documentLengths.push(terms.length);
+    }
+
+    const totalLength = this.#documentLengths.reduce((sum, length) => sum + length, 0);
+    this.#averageLength = this.#documents.length ? totalLength / this.#documents.length : 0;
+  }
+
+  /**
+   * @returns One score per document, in the order the documents were given
+   */
+  score(query: string): number[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const documentCount = this.#documents.length;
+
+    return this.#documents.map((termFrequencies, index) => {
+      const lengthNorm = 1 - BM25_B + BM25_B * (this.#documentLengths[index] / (this.#averageLength || 1));
+
+      return queryTerms.reduce((score, term) => {
+        const frequency = termFrequencies.get(term);
+
+        if (!frequency) {
+          return score;
+        }
+
+        const documentFrequency = this.#documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+        return score + (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+      }, 0);
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { findConflicts, mergeFiles, mergeText, resolveConflict } from './merge';
+
+const base = ['import a', '', 'function one() {}', '', 'function two() {}', ''].join('\n');
+
+describe('mergeText', () => {
+  it('combines changes to different parts of the text', () => {
+    const ours = base.replace('one() {}', 'one() { return 1; }');
+    const theirs = base.replace('import a', 'import a\nimport b');
+
+    expect(mergeText(base, ours, theirs)).toEqual({
+      content: ['import a', 'import b', '', 'function one() { return 1; }', '', 'function two() {}', ''].join('\n'),
+      conflicts: 0,
+    });
+  });
+
+  it('marks different changes to the same lines as a conflict', () => {
+    const ours = base.replace('two() {}', 'two() { return 2; }');
+    const theirs = base.replace('two() {}', 'two() { return 3; }');
+    const { content, conflicts } = mergeText(base, ours, theirs);
+
+    expect(conflicts).toBe(1);
+    expect(findConflicts(content)).toEqual([
+      { start: 4, end: 8, ours: ['function two() { return 2; }'], theirs: ['function two() { return 3; }'] },
+    ]);
+  });
+});
+
+describe('resolveConflict', () => {
+  const content = ['a', '<<<<<<< ours', 'b', '=======', 'c', '>>>>>>> theirs', 'd'].join('\n');
+
+  it('keeps the chosen side', () => {
+    expect(resolveConflict(content, 0, 'ours')).toBe('a\nb\nd');
+    expect(resolveConflict(content, 0, 'theirs')).toBe('a\nc\nd');
+    expect(resolveConflict(content, 0, 'both')).toBe('a\nb\nc\nd');
+  });
+});
+
+describe('mergeFiles', () => {
+  it('takes upstream changes to files that were not changed here', () => {
+    expect(
+      mergeFiles(
+        { 'a.ts': 'a', 'b.ts': 'b', 'c.ts': 'c', 'lock.yaml': 'l' },
+        { 'a.ts': 'a', 'b.ts': 'b2', 'c.ts': 'c' },
+        { 'a.ts': 'a2', 'b.ts': 'b3', 'd.ts': 'd', 'lock.yaml': 'l2' },
+      ),
+    ).toEqual({
+      files: {
+        'a.ts': 'a2',
+        'b.ts': '<<<<<<< ours\nb2\n=======\nb3\n>>>>>>> theirs',
+        'c.ts': null,
+        'd.ts': 'd',
+      },
+      conflicted: ['b.ts'],
+    });
+  });
+});
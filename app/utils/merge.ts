@@ -0,0 +1,227 @@
+import { diffArrays } from 'diff';
+
+export type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+export interface MergeConflict {
+  // line of the `<<<<<<<` marker
+  start: number;
+
+  // line of the `>>>>>>>` marker
+  end: number;
+  ours: string[];
+  theirs: string[];
+}
+
+const OURS_MARKER = '<<<<<<< ours';
+const SEPARATOR_MARKER = '=======';
+const THEIRS_MARKER = '>>>>>>> theirs';
+
+interface Hunk {
+  // the replaced lines of the base, `start === end` for insertions
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function getHunks(base: string[], side: string[]) {
+  const hunks: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | undefined;
+
+  for (const change of diffArrays(base, side)) {
+    if (!change.added && !change.removed) {
+      current = undefined;
+      index += change.value.length;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: index, end: index, lines: [] };
+      hunks.push(current);
+    }
+
+    if (change.removed) {
+      index += change.value.length;
+      current.end = index;
+    } else {
+      current.lines.push(...change.value);
+    }
+  }
+
+  return hunks;
+}
+
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number) {
+  const lines: string[] = [];
+  let position = start;
+
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+
+  lines.push(...base.slice(position, end));
+
+  return lines;
+}
+
+/**
+ * Three-way merge of two versions of a text that both started from `base`. Changes to the same or to adjacent
+ * lines that differ are written as conflicts between `<<<<<<< ours` and `>>>>>>> theirs` markers.
+ */
+export function mergeText(base: string, ours: string, theirs: string) {
+  if (ours === theirs || theirs === base) {
+    return { content: ours, conflicts: 0 };
+  }
+
+  if (ours === base) {
+    return { content: theirs, conflicts: 0 };
+  }
+
+  const baseLines = base.split('\n');
+  const oursHunks = getHunks(baseLines, ours.split('\n'));
+  const theirsHunks = getHunks(baseLines, theirs.split('\n'));
+
+  const lines: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < oursHunks.length || j < theirsHunks.length) {
+    const group: { ours: Hunk[]; theirs: Hunk[] } = { ours: [], theirs: [] };
+    const takeOurs = j >= theirsHunks.length || (i < oursHunks.length && oursHunks[i].start <= theirsHunks[j].start);
+    const first = takeOurs ? oursHunks[i++] : theirsHunks[j++];
+    (takeOurs ? group.ours : group.theirs).push(first);
+
+    const start = first.start;
+    let end = first.end;
+
+    // hunks that touch the group join it, whichever side they come from
+    for (;;) {
+      if (i < oursHunks.length && oursHunks[i].start <= end) {
+        end = Math.max(end, oursHunks[i].end);
+        group.ours.push(oursHunks[i++]);
+      } else if (j < theirsHunks.length && theirsHunks[j].start <= end) {
+        end = Math.max(end, theirsHunks[j].end);
+        group.theirs.push(theirsHunks[j++]);
+      } else {
+        break;
+      }
+    }
+
+    lines.push(...baseLines.slice(position, start));
+    position = end;
+
+    const oursLines = applyHunks(baseLines, group.ours, start, end);
+    const theirsLines = applyHunks(baseLines, group.theirs, start, end);
+
+    if (group.theirs.length === 0 || oursLines.join('\n') === theirsLines.join('\n')) {
+      lines.push(...oursLines);
+    } else if (group.ours.length === 0) {
+      lines.push(...theirsLines);
+    } else {
+      conflicts++;
+      lines.push(OURS_MARKER, ...oursLines, SEPARATOR_MARKER, ...theirsLines, THEIRS_MARKER);
+    }
+  }
+
+  lines.push(...baseLines.slice(position));
+
+  return { content: lines.join('\n'), conflicts };
+}
+
+/**
+ * The conflicts left in a text by `mergeText`, in the order they appear
+ */
+export function findConflicts(content: string) {
+  const conflicts: MergeConflict[] = [];
+  let current: MergeConflict | undefined;
+  let inTheirs = false;
+
+  content.split('\n').forEach((line, index) => {
+    if (line.startsWith('<<<<<<<')) {
+      current = { start: index, end: index, ours: [], theirs: [] };
+      inTheirs = false;
+    } else if (current && line === SEPARATOR_MARKER) {
+      inTheirs = true;
+    } else if (current && inTheirs && line.startsWith('>>>>>>>')) {
+      current.end = index;
+      conflicts.push(current);
+      current = undefined;
+    } else if (current) {
+      (inTheirs ? current.theirs : current.ours).push(line);
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Replace one conflict with the chosen side, or with both sides one after the other
+ */
+export function resolveConflict(content: string, index: number, choice: ConflictChoice) {
+  const conflict = findConflicts(content)[index];
+
+  if (!conflict) {
+    return content;
+  }
+
+  const lines = content.split('\n');
+  const resolved = {
+    ours: conflict.ours,
+    theirs: conflict.theirs,
+    both: [...conflict.ours, ...conflict.theirs],
+  }[choice];
+
+  lines.splice(conflict.start, conflict.end - conflict.start + 1, ...resolved);
+
+  return lines.join('\n');
+}
+
+/**
+ * Three-way merge of whole projects, keyed by path. Files missing here but present in the base were deleted or
+ * never imported, upstream changes to them are left out.
+ * @returns The files to write, `null` for files to delete, and the paths that were merged with conflicts
+ */
+export function mergeFiles(base: Record<string, string>, ours: Record<string, string>, theirs: Record<string, string>) {
+  const files: Record<string, string | null> = {};
+  const conflicted: string[] = [];
+
+  for (const path of new Set([...Object.keys(ours), ...Object.keys(theirs)])) {
+    const baseContent = base[path];
+    const oursContent = ours[path];
+    const theirsContent = theirs[path];
+
+    if (oursContent === theirsContent || theirsContent === baseContent) {
+      continue;
+    }
+
+    if (oursContent === undefined) {
+      if (baseContent === undefined) {
+        files[path] = theirsContent;
+      }
+
+      continue;
+    }
+
+    if (oursContent === baseContent) {
+      files[path] = theirsContent ?? null;
+      continue;
+    }
+
+    // a file deleted upstream but changed here is kept
+    if (theirsContent === undefined) {
+      continue;
+    }
+
+    const { content, conflicts } = mergeText(baseContent ?? '', oursContent, theirsContent);
+    files[path] = content;
+
+    if (conflicts > 0) {
+      conflicted.push(path);
+    }
+  }
+
+  return { files, conflicted };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { applyEditPatch, PatchConflictError } from './patch';
+
+const content = `function greet(name) {
+  console.log('Hello ' + name);
+}
+
+greet('world');
+`;
+
+describe('applyEditPatch', () => {
+  it('should apply SEARCH/REPLACE blocks in order', () => {
+    const patch = `<<<<<<< SEARCH
+  console.log('Hello ' + name);
+=======
+  console.log(\`Hello \${name}\`);
+>>>>>>> REPLACE
+<<<<<<< SEARCH
+greet('world');
+=======
+greet('there');
+>>>>>>> REPLACE`;
+
+    expect(applyEditPatch('index.js', content, patch)).toBe(`function greet(name) {
+  console.log(\`Hello \${name}\`);
+}
+
+greet('there');
+`);
+  });
+
+  it('should ignore trailing whitespace when the exact SEARCH block is not found', () => {
+    const patch = `<<<<<<< SEARCH
+function greet(name) {
+  console.log('Hello ' + name);
+=======
+function greet(name = 'you') {
+  console.log('Hello ' + name);
+>>>>>>> REPLACE`;
+
+    expect(applyEditPatch('index.js', content.replace('{\n', '{  \n'), patch)).toBe(`function greet(name = 'you') {
+  console.log('Hello ' + name);
+}
+
+greet('world');
+`);
+  });
+
+  it('should apply a unified diff', () => {
+    const patch = `@@ -5,1 +5,1 @@
+-greet('world');
++greet('diff');
+`;
+
+    expect(applyEditPatch('index.js', content, patch)).toContain(`greet('diff');`);
+  });
+
+  it('should report SEARCH blocks that do not match', () => {
+    const patch = `<<<<<<< SEARCH
+greet('nobody');
+=======
+greet('someone');
+>>>>>>> REPLACE`;
+
+    expect(() => applyEditPatch('index.js', content, patch)).toThrow(PatchConflictError);
+    expect(() => applyEditPatch('index.js', content, patch)).toThrow(/SEARCH block 1 was not found/);
+  });
+
+  it('should report SEARCH blocks that match more than one location', () => {
+    const patch = `<<<<<<< SEARCH
+name
+=======
+person
+>>>>>>> REPLACE`;
+
+    expect(() => applyEditPatch('index.js', content, patch)).toThrow(/matches 2 locations/);
+  });
+});
@@ -0,0 +1,133 @@
+import { applyPatch } from 'diff';
+
+const SEARCH_MARKER = '<<<<<<< SEARCH';
+const DIVIDER_MARKER = '=======';
+const REPLACE_MARKER = '>>>>>>> REPLACE';
+
+const searchReplaceBlockRegex = /<<<<<<< SEARCH\n([\s\S]*?)\n?=======\n([\s\S]*?)\n?>>>>>>> REPLACE/g;
+
+export interface SearchReplaceBlock {
+  search: string;
+  replace: string;
+}
+
+export class PatchConflictError extends Error {
+  readonly filePath: string;
+
+  constructor(filePath: string, message: string) {
+    super(`Failed to apply edit to ${filePath}: ${message}`);
+
+    this.filePath = filePath;
+
+    Object.setPrototypeOf(this, PatchConflictError.prototype);
+
+    this.name = 'PatchConflictError';
+  }
+}
+
+export function isSearchReplacePatch(patch: string) {
+  return patch.includes(SEARCH_MARKER) && patch.includes(DIVIDER_MARKER) && patch.includes(REPLACE_MARKER);
+}
+
+export function parseSearchReplaceBlocks(patch: string): SearchReplaceBlock[] {
+  const normalizedPatch = patch.replace(/\r\n/g, '\n');
+  const blocks: SearchReplaceBlock[] = [];
+
+  for (const match of normalizedPatch.matchAll(searchReplaceBlockRegex)) {
+    blocks.push({ search: match[1], replace: match[2] });
+  }
+
+  return blocks;
+}
+
+/**
+ * Applies an edit to the content of a file. The patch is either a list of SEARCH/REPLACE blocks
+ * or a unified diff. Each SEARCH block has to match exactly one location in the file, falling back
+ * to a match that ignores trailing whitespace on each line.
+ *
+ * @throws {PatchConflictError} when the patch does not apply cleanly
+ */
+export function applyEditPatch(filePath: string, content: string, patch: string) {
+  if (isSearchReplacePatch(patch)) {
+    const blocks = parseSearchReplaceBlocks(patch);
+
+    if (blocks.length === 0) {
+      throw new PatchConflictError(filePath, 'no valid SEARCH/REPLACE blocks found');
+    }
+
+    return blocks.reduce((current, block, index) => applySearchReplaceBlock(filePath, current, block, index), content);
+  }
+
+  if (/^@@ /m.test(patch)) {
+    const result = applyPatch(content, patch);
+
+    if (result === false) {
+      throw new PatchConflictError(filePath, 'the unified diff does not match the current file content');
+    }
+
+    return result;
+  }
+
+  throw new PatchConflictError(filePath, 'expected SEARCH/REPLACE blocks or a unified diff');
+}
+
+function applySearchReplaceBlock(filePath: string, content: string, block: SearchReplaceBlock, index: number) {
+  const { search, replace } = block;
+
+  if (search.length === 0) {
+    if (content.trim().length === 0) {
+      return replace;
+    }
+
+    throw new PatchConflictError(filePath, `SEARCH block ${index + 1} is empty but the file is not`);
+  }
+
+  const occurrences = content.split(search).length - 1;
+
+  if (occurrences === 1) {
+    return content.replace(search, () => replace);
+  }
+
+  if (occurrences > 1) {
+    throw new PatchConflictError(
+      filePath,
+      `SEARCH block ${index + 1} matches ${occurrences} locations, include more surrounding lines to make it unique`,
+    );
+  }
+
+  const range = findLooseMatch(content, search);
+
+  if (!range) {
+    throw new PatchConflictError(filePath, `SEARCH block ${index + 1} was not found:\n${search}`);
+  }
+
+  return content.slice(0, range.start) + replace + content.slice(range.end);
+}
+
+/**
+ * Finds the search lines in the content while ignoring trailing whitespace, returning the character range
+ * of the match. Returns `undefined` when there is no match or more than one.
+ */
+function findLooseMatch(content: string, search: string) {
+  const contentLines = content.split('\n');
+  const searchLines = search.split('\n').map((line) => line.trimEnd());
+  const matches: number[] = [];
+
+  for (let i = 0; i + searchLines.length <= contentLines.length; i++) {
+    const isMatch = searchLines.every((line, j) => contentLines[i + j].trimEnd() === line);
+
+    if (isMatch) {
+      matches.push(i);
+    }
+  }
+
+  if (matches.length !== 1) {
+    return undefined;
+  }
+
+  const [startLine] = matches;
+  const start = contentLines.slice(0, startLine).reduce((offset, line) => offset + line.length + 1, 0);
+  const matchedText = contentLines.slice(startLine, startLine + searchLines.length).join('\n');
+
+  return { start, end: start + matchedText.length };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPullRequestDescription,
+  getFollowUpChanges,
+  getProposedChanges,
+  getPullRequestBranch,
+} from './pull-request';
+
+describe('getPullRequestBranch', () => {
+  it('names the branch after the chat', () => {
+    expect(getPullRequestBranch('Add a Login Page!', '12')).toBe('bolt/add-a-login-page-12');
+    expect(getPullRequestBranch('???', '3')).toBe('bolt/chat-3');
+  });
+});
+
+describe('createPullRequestDescription', () => {
+  it('lists the summary, the steps and the files', () => {
+    expect(
+      createPullRequestDescription({
+        summary: 'Adds a login page.',
+        artifacts: ['Login page', 'Login page', 'Session store'],
+        files: { 'src/session.ts': 'export {};', 'src/login.tsx': 'export {};' },
+      }),
+    ).toBe(
+      [
+        '## Summary\n\nAdds a login page.',
+        '## Steps\n\n- Login page\n- Session store',
+        '## Files\n\n- `src/login.tsx`\n- `src/session.ts`',
+        '_Proposed from a Bolt chat._',
+      ].join('\n\n'),
+    );
+  });
+});
+
+describe('getProposedChanges', () => {
+  it('returns changed and new files and keeps missing ones', () => {
+    expect(
+      getProposedChanges({ 'a.ts': 'a', 'b.ts': 'b', 'c.ts': 'c' }, { 'a.ts': 'a', 'b.ts': 'B', 'd.ts': 'd' }),
+    ).toEqual({
+      'b.ts': 'B',
+      'd.ts': 'd',
+    });
+  });
+});
+
+describe('getFollowUpChanges', () => {
+  it('keeps the commits of reviewers and reports files both sides changed', () => {
+    expect(
+      getFollowUpChanges(
+        { 'a.ts': 'a', 'b.ts': 'b', 'c.ts': 'c', 'd.ts': 'd' },
+        { 'a.ts': 'a', 'b.ts': 'b (review)', 'c.ts': 'c (review)', 'd.ts': 'D' },
+        { 'a.ts': 'A', 'b.ts': 'b', 'c.ts': 'C', 'd.ts': 'D', 'e.ts': 'e' },
+      ),
+    ).toEqual({
+      files: { 'a.ts': 'A', 'e.ts': 'e' },
+      conflicts: ['c.ts'],
+    });
+  });
+});
@@ -0,0 +1,89 @@
+const BRANCH_PREFIX = 'bolt/';
+const MAX_SLUG_LENGTH = 40;
+
+export interface PullRequestDescriptionOptions {
+  // the summary of the chat, kept when context optimization was on
+  summary?: string;
+
+  // titles of the artifacts of the chat, in order
+  artifacts: string[];
+
+  // the proposed contents keyed by path
+  files: Record<string, string>;
+}
+
+/**
+ * The branch a chat proposes its changes on, named after the chat and unique to it
+ */
+export function getPullRequestBranch(title: string, chatId: string) {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+
+  return `${BRANCH_PREFIX}${slug || 'chat'}-${chatId}`;
+}
+
+export function createPullRequestDescription({ summary, artifacts, files }: PullRequestDescriptionOptions) {
+  const sections: string[] = [];
+
+  if (summary?.trim()) {
+    sections.push(`## Summary\n\n${summary.trim()}`);
+  }
+
+  const steps = [...new Set(artifacts.map((title) => title.trim()).filter(Boolean))];
+
+  if (steps.length > 0) {
+    sections.push(`## Steps\n\n${steps.map((title) => `- ${title}`).join('\n')}`);
+  }
+
+  const paths = Object.keys(files).sort();
+
+  if (paths.length > 0) {
+    sections.push(`## Files\n\n${paths.map((filePath) => `- \`${filePath}\``).join('\n')}`);
+  }
+
+  sections.push('_Proposed from a Bolt chat._');
+
+  return sections.join('\n\n');
+}
+
+/**
+ * The files that are new or differ from `base`. Files missing from `current` are kept, imports skip files such as
+ * images and lock files so a missing file was not necessarily deleted.
+ */
+export function getProposedChanges(base: Record<string, string>, current: Record<string, string>) {
+  return Object.fromEntries(Object.entries(current).filter(([filePath, content]) => base[filePath] !== content));
+}
+
+/**
+ * The changes made since the last proposal, on top of the pull request branch that reviewers may have pushed to.
+ * Files changed both here and on the branch since then are conflicts, they are never overwritten.
+ * @param proposed The files of the commit last proposed
+ * @param remote The files of the pull request branch
+ * @param current The files of the project
+ */
+export function getFollowUpChanges(
+  proposed: Record<string, string>,
+  remote: Record<string, string>,
+  current: Record<string, string>,
+) {
+  const files: Record<string, string> = {};
+  const conflicts: string[] = [];
+
+  for (const [filePath, content] of Object.entries(getProposedChanges(proposed, current))) {
+    if (remote[filePath] === content) {
+      continue;
+    }
+
+    if (remote[filePath] !== proposed[filePath]) {
+      conflicts.push(filePath);
+    } else {
+      files[filePath] = content;
+    }
+  }
+
+  return { files, conflicts };
+}
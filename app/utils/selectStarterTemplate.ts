@@ -1,4 +1,5 @@
 import ignore from 'ignore';
+import { createGitHost } from '~/lib/modules/git-hosts/registry';
 import type { ProviderInfo } from '~/types/model';
 import type { Template } from '~/types/template';
 import { STARTER_TEMPLATES } from './constants';
@@ -112,10 +113,24 @@ export const selectStarterTemplate = async (options: { message: string; model: s
   }
 };
 
-const getGitHubRepoContent = async (repoName: string): Promise<{ name: string; path: string; content: string }[]> => {
+const getGitHubRepoContent = async (
+  repoName: string,
+  gitHost?: Template['gitHost'],
+): Promise<{ name: string; path: string; content: string }[]> => {
   try {
+    // the server only reads the public services, self-hosted instances are read from the browser
+    if (gitHost?.baseUrl) {
+      return await createGitHost(gitHost.id, { token: '', baseUrl: gitHost.baseUrl }).getTemplateFiles(repoName);
+    }
+
+    const params = new URLSearchParams({ repo: repoName });
+
+    if (gitHost) {
+      params.set('host', gitHost.id);
+    }
+
     // Instead of directly fetching from GitHub, use our own API endpoint as a proxy
-    const response = await fetch(`/api/github-template?repo=${encodeURIComponent(repoName)}`);
+    const response = await fetch(`/api/github-template?${params}`);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -139,7 +154,7 @@ export async function getTemplates(templateName: string, title?: string) {
   }
 
   const githubRepo = template.githubRepo;
-  const files = await getGitHubRepoContent(githubRepo);
+  const files = await getGitHubRepoContent(githubRepo, template.gitHost);
 
   let filteredFiles = files;
 
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { generateDownMigration, splitStatements, wrapInTransaction } from './sql';
+
+describe('splitStatements', () => {
+  it('splits on semicolons outside of strings, comments and function bodies', () => {
+    const sql = `-- a comment; with a semicolon
+insert into notes (body) values ('a; b', 'it''s');
+/* block; comment */
+create function touch() returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+select 1`;
+
+    expect(splitStatements(sql)).toEqual([
+      "insert into notes (body) values ('a; b', 'it''s')",
+      'create function touch() returns trigger as $$\nbegin\n  new.updated_at = now();\n  return new;\nend;\n$$ language plpgsql',
+      'select 1',
+    ]);
+  });
+});
+
+describe('generateDownMigration', () => {
+  it('undoes a new table with everything on it by dropping it', () => {
+    const sql = `CREATE TABLE IF NOT EXISTS public.todos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users,
+  title text NOT NULL
+);
+
+ALTER TABLE todos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own todos"
+  ON todos FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX todos_user_id_idx ON public.todos (user_id);
+
+INSERT INTO todos (title) VALUES ('First');`;
+
+    expect(generateDownMigration(sql)).toBe('drop table if exists public.todos;');
+  });
+
+  it('undoes changes to existing objects in reverse order', () => {
+    const sql = `create or replace function public.set_updated_at(stamp timestamptz default now()) returns trigger as $$
+begin
+  new.updated_at = stamp;
+  return new;
+end;
+$$ language plpgsql;
+
+alter table profiles add column if not exists updated_at timestamptz, add constraint profiles_bio_length check (length(bio) < 500);
+create trigger profiles_updated_at before update on profiles for each row execute function set_updated_at();
+create policy "Profiles are public" on profiles for select using (true);
+create index profiles_name_idx on app.profiles (name);
+grant select on profiles to anon;`;
+
+    expect(generateDownMigration(sql)?.split('\n')).toEqual([
+      'revoke select on profiles from anon;',
+      'drop index if exists app.profiles_name_idx;',
+      'drop policy if exists "Profiles are public" on profiles;',
+      'drop trigger if exists profiles_updated_at on profiles;',
+      'alter table profiles drop constraint if exists profiles_bio_length, drop column if exists updated_at;',
+      'drop function if exists public.set_updated_at(stamp timestamptz);',
+    ]);
+  });
+
+  it('gives up on statements that cannot be undone', () => {
+    expect(generateDownMigration('create table a (id int); drop table b;')).toBeUndefined();
+    expect(generateDownMigration('update profiles set bio = null;')).toBeUndefined();
+    expect(generateDownMigration('do $$ begin perform 1; end $$;')).toBeUndefined();
+    expect(generateDownMigration('alter table profiles alter column bio type varchar(500);')).toBeUndefined();
+  });
+});
+
+describe('wrapInTransaction', () => {
+  it('drops the transaction statements of the script itself', () => {
+    expect(wrapInTransaction('BEGIN;\ncreate table a (id int);\nCOMMIT;', 'rollback')).toBe(
+      'begin;\ncreate table a (id int);\nrollback;',
+    );
+  });
+});
@@ -0,0 +1,316 @@
+const IDENTIFIER = String.raw`(?:"(?:[^"]|"")+"|[\w$]+)`;
+const NAME = String.raw`${IDENTIFIER}(?:\s*\.\s*${IDENTIFIER})?`;
+
+const CREATE_TABLE = new RegExp(String.raw`^create\s+(?:unlogged\s+)?table\s+(?:if\s+not\s+exists\s+)?(${NAME})`, 'i');
+const CREATE_VIEW = new RegExp(
+  String.raw`^create\s+(?:or\s+replace\s+)?(materialized\s+)?view\s+(?:if\s+not\s+exists\s+)?(${NAME})`,
+  'i',
+);
+const CREATE_OBJECT = new RegExp(
+  String.raw`^create\s+(schema|type|sequence|extension|domain)\s+(?:if\s+not\s+exists\s+)?(${NAME})`,
+  'i',
+);
+const CREATE_INDEX = new RegExp(
+  String.raw`^create\s+(?:unique\s+)?index\s+(?:concurrently\s+)?(?:if\s+not\s+exists\s+)?(${IDENTIFIER})\s+on\s+(?:only\s+)?(${NAME})`,
+  'i',
+);
+const CREATE_POLICY = new RegExp(String.raw`^create\s+policy\s+(${IDENTIFIER})\s+on\s+(${NAME})`, 'i');
+const CREATE_TRIGGER = new RegExp(
+  String.raw`^create\s+(?:or\s+replace\s+)?(?:constraint\s+)?trigger\s+(${IDENTIFIER})\s[\s\S]*?\bon\s+(${NAME})`,
+  'i',
+);
+const CREATE_FUNCTION = new RegExp(
+  String.raw`^create\s+(?:or\s+replace\s+)?(function|procedure)\s+(${NAME})\s*\(`,
+  'i',
+);
+const ALTER_TABLE = new RegExp(String.raw`^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?(${NAME})\s+([\s\S]+)$`, 'i');
+const INSERT = new RegExp(String.raw`^insert\s+into\s+(${NAME})`, 'i');
+const COMMENT_ON_TABLE = new RegExp(String.raw`^comment\s+on\s+table\s+(${NAME})`, 'i');
+const GRANT = /^grant\s+([\s\S]+?)\s+to\s+([\s\S]+?)(?:\s+with\s+(?:grant|admin)\s+option)?$/i;
+const TRANSACTION = /^(begin|commit|end|rollback|start\s+transaction)(\s+(work|transaction))?$/i;
+
+const INVERSE_SECURITY: Record<string, string> = {
+  enable: 'disable',
+  disable: 'enable',
+  force: 'no force',
+  'no force': 'force',
+};
+
+/**
+ * Split a script into its statements, without comments and trailing semicolons. Quoted strings, identifiers and
+ * dollar-quoted bodies are kept intact.
+ */
+export function splitStatements(sql: string) {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  const push = () => {
+    if (current.trim()) {
+      statements.push(current.trim());
+    }
+
+    current = '';
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const rest = sql.slice(i);
+
+    if (rest.startsWith('--')) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+
+    if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      current += ' ';
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let end = i + 1;
+
+      // a doubled quote is an escaped one
+      while (end < sql.length && (sql[end] !== char || sql[end + 1] === char)) {
+        end += sql[end] === char ? 2 : 1;
+      }
+
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    const tag = /^\$(?:[A-Za-z_]\w*)?\$/.exec(rest)?.[0];
+
+    if (tag && !/[\w$]/.test(sql[i - 1] ?? '')) {
+      const end = sql.indexOf(tag, i + tag.length);
+      const close = end === -1 ? sql.length : end + tag.length;
+      current += sql.slice(i, close);
+      i = close;
+      continue;
+    }
+
+    if (char === ';') {
+      push();
+    } else {
+      current += char;
+    }
+
+    i++;
+  }
+
+  push();
+
+  return statements;
+}
+
+export function isTransactionStatement(statement: string) {
+  return TRANSACTION.test(statement.trim());
+}
+
+// split on commas outside of parentheses and quotes, for argument and action lists
+function splitList(list: string) {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+
+  for (const char of list) {
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (current.trim()) {
+    items.push(current.trim());
+  }
+
+  return items;
+}
+
+// the text between the parentheses that open at `start`
+function getParenthesized(text: string, start: number) {
+  let depth = 0;
+
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')' && --depth === 0) {
+      return text.slice(start + 1, i);
+    }
+  }
+
+  return undefined;
+}
+
+// `public.users`, `users` and `"users"` are the same table
+function getKey(name: string) {
+  const parts = (name.match(new RegExp(IDENTIFIER, 'g')) ?? []).map((part) =>
+    part.startsWith('"') ? part.slice(1, -1).replace(/""/g, '"') : part.toLowerCase(),
+  );
+
+  return (parts[0] === 'public' && parts.length === 2 ? parts.slice(1) : parts).join('.');
+}
+
+function getSchemaPrefix(name: string) {
+  const dot = name.lastIndexOf('.');
+
+  return dot === -1 ? '' : `${name.slice(0, dot).trim()}.`;
+}
+
+function invertTableAction(action: string) {
+  const constraint = new RegExp(String.raw`^add\s+constraint\s+(${IDENTIFIER})`, 'i').exec(action);
+
+  if (constraint) {
+    return `drop constraint if exists ${constraint[1]}`;
+  }
+
+  if (/^add\s+(primary|unique|foreign|check|exclude)\b/i.test(action)) {
+    return undefined;
+  }
+
+  const column = new RegExp(String.raw`^add\s+(?:column\s+)?(?:if\s+not\s+exists\s+)?(${IDENTIFIER})`, 'i').exec(
+    action,
+  );
+
+  if (column) {
+    return `drop column if exists ${column[1]}`;
+  }
+
+  const security = /^(enable|disable|force|no\s+force)\s+row\s+level\s+security$/i.exec(action);
+
+  if (security) {
+    return `${INVERSE_SECURITY[security[1].toLowerCase().replace(/\s+/, ' ')]} row level security`;
+  }
+
+  return undefined;
+}
+
+/**
+ * The statement undoing one statement of a migration, `null` when there is nothing to undo and `undefined` when it
+ * can't be undone. Objects on tables created by the same migration go away with the table.
+ */
+function invertStatement(statement: string, created: Set<string>): string | null | undefined {
+  const text = statement.replace(/\s+/g, ' ');
+
+  if (isTransactionStatement(text)) {
+    return null;
+  }
+
+  let match = CREATE_TABLE.exec(text);
+
+  if (match) {
+    created.add(getKey(match[1]));
+    return `drop table if exists ${match[1]};`;
+  }
+
+  if ((match = CREATE_VIEW.exec(text))) {
+    return `drop ${match[1] ? 'materialized ' : ''}view if exists ${match[2]};`;
+  }
+
+  if ((match = CREATE_OBJECT.exec(text))) {
+    return `drop ${match[1].toLowerCase()} if exists ${match[2]};`;
+  }
+
+  if ((match = CREATE_INDEX.exec(text))) {
+    return created.has(getKey(match[2])) ? null : `drop index if exists ${getSchemaPrefix(match[2])}${match[1]};`;
+  }
+
+  if ((match = CREATE_POLICY.exec(text))) {
+    return created.has(getKey(match[2])) ? null : `drop policy if exists ${match[1]} on ${match[2]};`;
+  }
+
+  if ((match = CREATE_TRIGGER.exec(text))) {
+    return created.has(getKey(match[2])) ? null : `drop trigger if exists ${match[1]} on ${match[2]};`;
+  }
+
+  if ((match = CREATE_FUNCTION.exec(text))) {
+    const args = getParenthesized(text, match[0].length - 1);
+
+    if (args === undefined) {
+      return undefined;
+    }
+
+    // defaults are not part of the signature
+    const signature = splitList(args).map((arg) => arg.replace(/\s+(default\s|=)[\s\S]*$/i, '').trim());
+
+    return `drop ${match[1].toLowerCase()} if exists ${match[2]}(${signature.join(', ')});`;
+  }
+
+  if ((match = ALTER_TABLE.exec(text))) {
+    if (created.has(getKey(match[1]))) {
+      return null;
+    }
+
+    const actions = splitList(match[2]).map(invertTableAction);
+
+    if (actions.some((action) => action === undefined)) {
+      return undefined;
+    }
+
+    return `alter table ${match[1]} ${actions.reverse().join(', ')};`;
+  }
+
+  if ((match = INSERT.exec(text)) || (match = COMMENT_ON_TABLE.exec(text))) {
+    return created.has(getKey(match[1])) ? null : undefined;
+  }
+
+  if ((match = GRANT.exec(text))) {
+    return `revoke ${match[1]} from ${match[2]};`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Generate the migration that undoes `sql`, statement by statement in reverse order. Objects the migration creates
+ * are assumed not to exist before, `if not exists` and `or replace` included.
+ * @returns `undefined` when a statement can't be undone, like data changes, drops and `do` blocks
+ */
+export function generateDownMigration(sql: string) {
+  const created = new Set<string>();
+  const statements: string[] = [];
+
+  for (const statement of splitStatements(sql)) {
+    const inverse = invertStatement(statement, created);
+
+    if (inverse === undefined) {
+      return undefined;
+    }
+
+    if (inverse) {
+      statements.unshift(inverse);
+    }
+  }
+
+  return statements.join('\n');
+}
+
+export function quoteLiteral(value: string | null | undefined) {
+  return value === null || value === undefined ? 'null' : `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Wrap a script in a transaction, dropping its own transaction statements so it can't commit early.
+ * @param end `rollback` to only check that the script runs
+ */
+export function wrapInTransaction(sql: string, end: 'commit' | 'rollback' = 'commit') {
+  const statements = splitStatements(sql).filter((statement) => !isTransactionStatement(statement));
+
+  return ['begin;', ...statements.map((statement) => `${statement};`), `${end};`].join('\n');
+}
@@ -18,4 +18,9 @@ interface Env {
   XAI_API_KEY: string;
   PERPLEXITY_API_KEY: string;
   AWS_BEDROCK_CONFIG: string;
+  CONTEXT_EMBEDDING_PROVIDER: string;
+  CONTEXT_EMBEDDING_MODEL: string;
+  CHAT_STORAGE_DIR: string;
+  LLM_CACHE_MODE: string;
+  LLM_CACHE_DIR: string;
 }